@@ -3,6 +3,8 @@
  * Licensed under the Microsoft Live Share SDK License.
  */
 
+import { ILiveEventTargets } from "@microsoft/live-share";
+
 /**
  * Object response for a received event
  */
@@ -23,4 +25,8 @@ export interface IReceiveLiveEvent<TEvent = any> {
      * Server timestamp at which the event was sent
      */
     timestamp: number;
+    /**
+     * Users and clients the event was sent to, or undefined if it was sent to everyone
+     */
+    target?: ILiveEventTargets;
 }
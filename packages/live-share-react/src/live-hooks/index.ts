@@ -5,3 +5,8 @@ export * from "./useMediaSynchronizer";
 export * from "./useLiveEvent";
 export * from "./useLiveCanvas";
 export * from "./useLiveTimer";
+export * from "./useLiveList";
+export * from "./useLivePoll";
+export * from "./useLiveCounter";
+export * from "./useLiveMap";
+export * from "./useLiveLock";
@@ -0,0 +1,178 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import {
+    LiveCounter,
+    LiveCounterEvents,
+    LiveDataObjectInitializeState,
+    UserMeetingRole,
+} from "@microsoft/live-share";
+import React from "react";
+import {
+    DecrementLiveCounterAction,
+    IncrementLiveCounterAction,
+    IUseLiveCounterResults,
+    ResetLiveCounterAction,
+} from "../types";
+import { useDynamicDDS } from "../shared-hooks";
+import { useFluidObjectsContext } from "../providers";
+import {
+    ActionContainerNotJoinedError,
+    ActionLiveDataObjectInitializedError,
+    ActionLiveDataObjectUndefinedError,
+} from "../internal";
+
+/**
+ * React hook for using a Live Share `LiveCounter`.
+ *
+ * @remarks
+ * Use this hook if you want to synchronize a number that multiple users can increment and decrement at the same time,
+ * such as a vote or reaction count, that will reset when all users leave the session.
+ * This hook can only be used in a child component of `<LiveShareProvider>` or `<AzureProvider>`.
+ *
+ * @param uniqueKey the unique key for the `LiveCounter`. If one does not yet exist, a new one will be created, otherwise it will use the existing one.
+ * @param initialValue Optional. the initial value of the counter
+ * @param allowedRoles Optional. the user roles that are allowed to increment and decrement the counter
+ * @param resetAllowedRoles Optional. the user roles that are allowed to reset the counter, defaults to `allowedRoles`
+ * @returns results and callbacks exposed via the hook.
+ */
+export function useLiveCounter(
+    uniqueKey: string,
+    initialValue = 0,
+    allowedRoles?: UserMeetingRole[],
+    resetAllowedRoles?: UserMeetingRole[]
+): IUseLiveCounterResults {
+    /**
+     * User facing: Stateful counter value.
+     */
+    const [value, setValue] = React.useState<number>(initialValue);
+    /**
+     * User facing: dynamically load the DDS for the given unique key.
+     */
+    const { dds: liveCounter } = useDynamicDDS<LiveCounter>(
+        uniqueKey,
+        LiveCounter
+    );
+
+    const { container } = useFluidObjectsContext();
+
+    /**
+     * Callback to increment the counter through `LiveCounter`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    const increment: IncrementLiveCounterAction = React.useCallback(
+        async (amount?: number) => {
+            if (!container) {
+                throw new ActionContainerNotJoinedError(
+                    "liveCounter",
+                    "increment"
+                );
+            }
+            if (liveCounter === undefined) {
+                throw new ActionLiveDataObjectUndefinedError(
+                    "liveCounter",
+                    "increment"
+                );
+            }
+            if (!liveCounter.isInitialized) {
+                throw new ActionLiveDataObjectInitializedError(
+                    "liveCounter",
+                    "increment"
+                );
+            }
+            return await liveCounter.increment(amount);
+        },
+        [container, liveCounter]
+    );
+
+    /**
+     * Callback to decrement the counter through `LiveCounter`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    const decrement: DecrementLiveCounterAction = React.useCallback(
+        async (amount?: number) => {
+            if (!container) {
+                throw new ActionContainerNotJoinedError(
+                    "liveCounter",
+                    "decrement"
+                );
+            }
+            if (liveCounter === undefined) {
+                throw new ActionLiveDataObjectUndefinedError(
+                    "liveCounter",
+                    "decrement"
+                );
+            }
+            if (!liveCounter.isInitialized) {
+                throw new ActionLiveDataObjectInitializedError(
+                    "liveCounter",
+                    "decrement"
+                );
+            }
+            return await liveCounter.decrement(amount);
+        },
+        [container, liveCounter]
+    );
+
+    /**
+     * Callback to reset the counter through `LiveCounter`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    const reset: ResetLiveCounterAction = React.useCallback(
+        async (value?: number) => {
+            if (!container) {
+                throw new ActionContainerNotJoinedError("liveCounter", "reset");
+            }
+            if (liveCounter === undefined) {
+                throw new ActionLiveDataObjectUndefinedError(
+                    "liveCounter",
+                    "reset"
+                );
+            }
+            if (!liveCounter.isInitialized) {
+                throw new ActionLiveDataObjectInitializedError(
+                    "liveCounter",
+                    "reset"
+                );
+            }
+            return await liveCounter.reset(value);
+        },
+        [container, liveCounter]
+    );
+
+    /**
+     * Setup change listeners and start `LiveCounter` if needed
+     */
+    React.useEffect(() => {
+        if (liveCounter === undefined) return;
+
+        const onValueChanged = (value: number) => {
+            setValue(value);
+        };
+        liveCounter.on(LiveCounterEvents.valueChanged, onValueChanged);
+        if (
+            liveCounter.initializeState === LiveDataObjectInitializeState.needed
+        ) {
+            liveCounter.initialize(
+                initialValue,
+                allowedRoles,
+                resetAllowedRoles
+            );
+        }
+        onValueChanged(liveCounter.value);
+
+        return () => {
+            liveCounter?.off(LiveCounterEvents.valueChanged, onValueChanged);
+        };
+    }, [liveCounter]);
+
+    return {
+        value,
+        liveCounter,
+        increment,
+        decrement,
+        reset,
+    };
+}
@@ -4,6 +4,7 @@
  */
 
 import {
+    ILiveEventTargets,
     LiveEventEvents,
     UserMeetingRole,
     LiveEvent,
@@ -14,6 +15,7 @@ import {
     IUseLiveEventResults,
     OnReceivedLiveEventAction,
     SendLiveEventAction,
+    SendLiveEventToAction,
 } from "../types";
 import { IReceiveLiveEvent } from "../interfaces";
 import { useDynamicDDS } from "../shared-hooks";
@@ -92,6 +94,34 @@ export function useLiveEvent<TEvent = any>(
         [container, liveEvent]
     );
 
+    /**
+     * User facing: callback to send event to specific users or clients through `LiveEvent`
+     */
+    const sendEventTo: SendLiveEventToAction<TEvent> = React.useCallback(
+        async (target: ILiveEventTargets, event: TEvent) => {
+            if (!container) {
+                throw new ActionContainerNotJoinedError(
+                    "liveEvent",
+                    "sendEventTo"
+                );
+            }
+            if (liveEvent === undefined) {
+                throw new ActionLiveDataObjectUndefinedError(
+                    "liveEvent",
+                    "sendEventTo"
+                );
+            }
+            if (!liveEvent.isInitialized) {
+                throw new ActionLiveDataObjectInitializedError(
+                    "liveEvent",
+                    "sendEventTo"
+                );
+            }
+            return await liveEvent.sendTo(target, event);
+        },
+        [container, liveEvent]
+    );
+
     /**
      * Setup change listeners and start `LiveEvent` if needed
      */
@@ -102,7 +132,8 @@ export function useLiveEvent<TEvent = any>(
             event: TEvent,
             local: boolean,
             clientId: string,
-            timestamp: number
+            timestamp: number,
+            target: ILiveEventTargets | undefined
         ) => {
             // If developer passed the optional onReceivedEvent callback, we
             // call it.
@@ -113,6 +144,7 @@ export function useLiveEvent<TEvent = any>(
                 local,
                 clientId,
                 timestamp,
+                target,
             };
             allEventsRef.current = [...allEventsRef.current, received];
             setLatestReceived(received);
@@ -141,6 +173,7 @@ export function useLiveEvent<TEvent = any>(
         latestEvent,
         allEvents: allEventsRef.current,
         sendEvent,
+        sendEventTo,
         liveEvent,
     };
 }
@@ -10,6 +10,7 @@ import {
     LiveFollowMode,
     IFollowModePresenceUserData,
     IFollowModeState,
+    ILiveFollowModeInterpolationOptions,
 } from "@microsoft/live-share";
 import React from "react";
 import { useDynamicDDS } from "../shared-hooks";
@@ -35,17 +36,29 @@ import { IUseLiveFollowModeResults } from "../types";
  * @param uniqueKey The unique key for `LiveFollowMode`. If one does not yet exist, a new one will be created.
  * @param initialData The initial value for the local user's `stateValue`.
  * @param allowedRoles Optional. The user roles that are allowed to present to use `startPresenting()` or `stopPresenting()`.
+ * @param approverRoles Optional. The user roles that are allowed to approve requests to present. Defaults to `[UserMeetingRole.organizer]`.
+ * @param interpolation Optional. When set, values received from the followed user are interpolated and exposed through `animatedValue`.
  * @returns `IUseLiveFollowModeResults` results, which contains React stateful objects and callbacks.
  */
 export function useLiveFollowMode<TData = any>(
     uniqueKey: string,
     initialData: TData | (() => TData),
-    allowedRoles?: UserMeetingRole[]
+    allowedRoles?: UserMeetingRole[],
+    approverRoles?: UserMeetingRole[],
+    interpolation?: ILiveFollowModeInterpolationOptions<TData>
 ): IUseLiveFollowModeResults<TData> {
     /**
      * Stateful follow state.
      */
     const [state, setState] = React.useState<IFollowModeState<TData>>();
+    /**
+     * Stateful presenter queue.
+     */
+    const [presenterQueue, setPresenterQueue] = React.useState<string[]>([]);
+    /**
+     * Stateful interpolated value.
+     */
+    const [animatedValue, setAnimatedValue] = React.useState<TData>();
     /**
      * Stateful all user presence list and its non-user-facing setter method.
      */
@@ -150,6 +163,84 @@ export function useLiveFollowMode<TData = any>(
         return await liveFollowMode.stopPresenting();
     }, [container, liveFollowMode]);
 
+    /**
+     * User facing: callback to request to present.
+     */
+    const requestToPresent = React.useCallback(async () => {
+        if (!container) {
+            throw new ActionContainerNotJoinedError(
+                "liveFollowMode",
+                "requestToPresent"
+            );
+        }
+        if (liveFollowMode === undefined) {
+            throw new ActionLiveDataObjectUndefinedError(
+                "liveFollowMode",
+                "requestToPresent"
+            );
+        }
+        if (!liveFollowMode.isInitialized) {
+            throw new ActionLiveDataObjectInitializedError(
+                "liveFollowMode",
+                "requestToPresent"
+            );
+        }
+        return await liveFollowMode.requestToPresent();
+    }, [container, liveFollowMode]);
+
+    /**
+     * User facing: callback to cancel the local user's request to present.
+     */
+    const cancelPresentRequest = React.useCallback(async () => {
+        if (!container) {
+            throw new ActionContainerNotJoinedError(
+                "liveFollowMode",
+                "cancelPresentRequest"
+            );
+        }
+        if (liveFollowMode === undefined) {
+            throw new ActionLiveDataObjectUndefinedError(
+                "liveFollowMode",
+                "cancelPresentRequest"
+            );
+        }
+        if (!liveFollowMode.isInitialized) {
+            throw new ActionLiveDataObjectInitializedError(
+                "liveFollowMode",
+                "cancelPresentRequest"
+            );
+        }
+        return await liveFollowMode.cancelPresentRequest();
+    }, [container, liveFollowMode]);
+
+    /**
+     * User facing: callback to approve a user's request to present.
+     */
+    const approvePresenter = React.useCallback(
+        async (userId: string) => {
+            if (!container) {
+                throw new ActionContainerNotJoinedError(
+                    "liveFollowMode",
+                    "approvePresenter"
+                );
+            }
+            if (liveFollowMode === undefined) {
+                throw new ActionLiveDataObjectUndefinedError(
+                    "liveFollowMode",
+                    "approvePresenter"
+                );
+            }
+            if (!liveFollowMode.isInitialized) {
+                throw new ActionLiveDataObjectInitializedError(
+                    "liveFollowMode",
+                    "approvePresenter"
+                );
+            }
+            return await liveFollowMode.approvePresenter(userId);
+        },
+        [container, liveFollowMode]
+    );
+
     /**
      * User facing: callback to suspend sync.
      */
@@ -273,6 +364,10 @@ export function useLiveFollowMode<TData = any>(
             setState(liveFollowMode?.state);
         };
         liveFollowMode.on("stateChanged", onStateChanged);
+        const onPresenterQueueChanged = () => {
+            setPresenterQueue(liveFollowMode?.presenterQueue ?? []);
+        };
+        liveFollowMode.on("presenterQueueChanged", onPresenterQueueChanged);
 
         if (
             liveFollowMode.initializeState ===
@@ -282,27 +377,52 @@ export function useLiveFollowMode<TData = any>(
                 isInitialDataCallback<TData>(initialData)
                     ? initialData()
                     : initialData,
-                allowedRoles
+                allowedRoles,
+                undefined,
+                approverRoles
             );
         }
         onPresenceChanged();
         onStateChanged();
+        onPresenterQueueChanged();
+        if (interpolation) {
+            liveFollowMode.startInterpolation(interpolation);
+            liveFollowMode.on("interpolatedValueChanged", setAnimatedValue);
+        }
 
         return () => {
             liveFollowMode?.off("presenceChanged", onPresenceChanged);
             liveFollowMode?.off("stateChanged", onStateChanged);
+            liveFollowMode?.off(
+                "presenterQueueChanged",
+                onPresenterQueueChanged
+            );
+            if (interpolation) {
+                liveFollowMode?.off(
+                    "interpolatedValueChanged",
+                    setAnimatedValue
+                );
+                liveFollowMode?.stopInterpolation();
+            }
         };
     }, [liveFollowMode]);
 
     return {
         state,
+        animatedValue: interpolation
+            ? animatedValue ?? state?.value
+            : state?.value,
         localUser,
         otherUsers,
         allUsers,
         liveFollowMode,
+        presenterQueue,
         update,
         startPresenting,
         stopPresenting,
+        requestToPresent,
+        cancelPresentRequest,
+        approvePresenter,
         beginSuspension,
         endSuspension,
         followUser,
@@ -0,0 +1,191 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import {
+    LiveDataObjectInitializeState,
+    LiveList,
+    LiveListEvents,
+    UserMeetingRole,
+} from "@microsoft/live-share";
+import React from "react";
+import {
+    InsertLiveListItemAction,
+    IUseLiveListResults,
+    MoveLiveListItemAction,
+    PushLiveListItemAction,
+    RemoveLiveListItemAction,
+} from "../types";
+import { useDynamicDDS } from "../shared-hooks";
+import { useFluidObjectsContext } from "../providers";
+import {
+    ActionContainerNotJoinedError,
+    ActionLiveDataObjectInitializedError,
+    ActionLiveDataObjectUndefinedError,
+} from "../internal";
+
+/**
+ * React hook for using a Live Share `LiveList`.
+ *
+ * @remarks
+ * Use this hook if you want to synchronize an ordered list of items that will reset when all users leave the session.
+ * This hook can only be used in a child component of `<LiveShareProvider>` or `<AzureProvider>`.
+ *
+ * @param uniqueKey the unique key for the `LiveList`. If one does not yet exist, a new one will be created, otherwise it will use the existing one.
+ * @param initialItems Optional. the initial items in the list
+ * @param allowedRoles Optional. the user roles that are allowed to change the list
+ * @returns results and callbacks exposed via the hook.
+ */
+export function useLiveList<TItem = any>(
+    uniqueKey: string,
+    initialItems?: TItem[],
+    allowedRoles?: UserMeetingRole[]
+): IUseLiveListResults<TItem> {
+    /**
+     * User facing: Stateful list of items.
+     */
+    const [items, setItems] = React.useState<TItem[]>(initialItems ?? []);
+    /**
+     * User facing: dynamically load the DDS for the given unique key.
+     */
+    const { dds: liveList } = useDynamicDDS<LiveList<TItem>>(
+        uniqueKey,
+        LiveList<TItem>
+    );
+
+    const { container } = useFluidObjectsContext();
+
+    /**
+     * Callback to insert an item through `LiveList`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    const insert: InsertLiveListItemAction<TItem> = React.useCallback(
+        async (index: number, value: TItem) => {
+            if (!container) {
+                throw new ActionContainerNotJoinedError("liveList", "insert");
+            }
+            if (liveList === undefined) {
+                throw new ActionLiveDataObjectUndefinedError(
+                    "liveList",
+                    "insert"
+                );
+            }
+            if (!liveList.isInitialized) {
+                throw new ActionLiveDataObjectInitializedError(
+                    "liveList",
+                    "insert"
+                );
+            }
+            return await liveList.insert(index, value);
+        },
+        [container, liveList]
+    );
+
+    /**
+     * Callback to append an item through `LiveList`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    const push: PushLiveListItemAction<TItem> = React.useCallback(
+        async (value: TItem) => {
+            if (!container) {
+                throw new ActionContainerNotJoinedError("liveList", "push");
+            }
+            if (liveList === undefined) {
+                throw new ActionLiveDataObjectUndefinedError(
+                    "liveList",
+                    "push"
+                );
+            }
+            if (!liveList.isInitialized) {
+                throw new ActionLiveDataObjectInitializedError(
+                    "liveList",
+                    "push"
+                );
+            }
+            return await liveList.push(value);
+        },
+        [container, liveList]
+    );
+
+    /**
+     * Callback to remove an item through `LiveList`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    const remove: RemoveLiveListItemAction = React.useCallback(
+        async (index: number) => {
+            if (!container) {
+                throw new ActionContainerNotJoinedError("liveList", "remove");
+            }
+            if (liveList === undefined) {
+                throw new ActionLiveDataObjectUndefinedError(
+                    "liveList",
+                    "remove"
+                );
+            }
+            if (!liveList.isInitialized) {
+                throw new ActionLiveDataObjectInitializedError(
+                    "liveList",
+                    "remove"
+                );
+            }
+            return await liveList.remove(index);
+        },
+        [container, liveList]
+    );
+
+    /**
+     * Callback to move an item through `LiveList`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    const move: MoveLiveListItemAction = React.useCallback(
+        async (fromIndex: number, toIndex: number) => {
+            if (!container) {
+                throw new ActionContainerNotJoinedError("liveList", "move");
+            }
+            if (liveList === undefined) {
+                throw new ActionLiveDataObjectUndefinedError(
+                    "liveList",
+                    "move"
+                );
+            }
+            if (!liveList.isInitialized) {
+                throw new ActionLiveDataObjectInitializedError(
+                    "liveList",
+                    "move"
+                );
+            }
+            return await liveList.move(fromIndex, toIndex);
+        },
+        [container, liveList]
+    );
+
+    /**
+     * Setup change listeners and start `LiveList` if needed
+     */
+    React.useEffect(() => {
+        if (liveList === undefined) return;
+
+        const onListChanged = (items: TItem[]) => {
+            setItems(items);
+        };
+        liveList.on(LiveListEvents.listChanged, onListChanged);
+        if (liveList.initializeState === LiveDataObjectInitializeState.needed) {
+            liveList.initialize(initialItems, allowedRoles);
+        }
+        onListChanged(liveList.items);
+
+        return () => {
+            liveList?.off(LiveListEvents.listChanged, onListChanged);
+        };
+    }, [liveList]);
+
+    return {
+        items,
+        liveList,
+        insert,
+        push,
+        remove,
+        move,
+    };
+}
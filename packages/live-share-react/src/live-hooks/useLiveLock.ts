@@ -0,0 +1,147 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import {
+    ILiveLockHolder,
+    LiveDataObjectInitializeState,
+    LiveLock,
+    LiveLockEvents,
+    UserMeetingRole,
+} from "@microsoft/live-share";
+import React from "react";
+import {
+    AcquireLiveLockAction,
+    IUseLiveLockResults,
+    ReleaseLiveLockAction,
+} from "../types";
+import { useDynamicDDS } from "../shared-hooks";
+import { useFluidObjectsContext } from "../providers";
+import {
+    ActionContainerNotJoinedError,
+    ActionLiveDataObjectInitializedError,
+    ActionLiveDataObjectUndefinedError,
+} from "../internal";
+
+/**
+ * React hook for using a Live Share `LiveLock`.
+ *
+ * @remarks
+ * Use this hook to let one user at a time edit an item, such as showing that someone is editing a cell. The lock is
+ * released automatically when its holder disconnects.
+ * This hook can only be used in a child component of `<LiveShareProvider>` or `<AzureProvider>`.
+ *
+ * @param uniqueKey the unique key for the `LiveLock`. If one does not yet exist, a new one will be created, otherwise it will use the existing one.
+ * @param allowedRoles Optional. the user roles that are allowed to acquire the lock.
+ * @param forceReleaseRoles Optional. the user roles that are allowed to release the lock while another user holds it, defaults to the organizer role.
+ * @returns results and callbacks exposed via the hook.
+ */
+export function useLiveLock(
+    uniqueKey: string,
+    allowedRoles?: UserMeetingRole[],
+    forceReleaseRoles?: UserMeetingRole[]
+): IUseLiveLockResults {
+    /**
+     * User facing: Stateful holder of the lock.
+     */
+    const [holder, setHolder] = React.useState<ILiveLockHolder | undefined>();
+    /**
+     * User facing: dynamically load the DDS for the given unique key.
+     */
+    const { dds: liveLock } = useDynamicDDS<LiveLock>(uniqueKey, LiveLock);
+
+    const { container } = useFluidObjectsContext();
+
+    /**
+     * Callback to acquire the lock through `LiveLock`
+     * @returns promise that resolves to true if the local client holds the lock, and will throw when user does not have required roles
+     */
+    const acquire: AcquireLiveLockAction = React.useCallback(async () => {
+        if (!container) {
+            throw new ActionContainerNotJoinedError("liveLock", "acquire");
+        }
+        if (liveLock === undefined) {
+            throw new ActionLiveDataObjectUndefinedError("liveLock", "acquire");
+        }
+        if (!liveLock.isInitialized) {
+            throw new ActionLiveDataObjectInitializedError(
+                "liveLock",
+                "acquire"
+            );
+        }
+        return await liveLock.acquire();
+    }, [container, liveLock]);
+
+    /**
+     * Callback to release the lock held by the local client through `LiveLock`
+     * @returns void promise
+     */
+    const release: ReleaseLiveLockAction = React.useCallback(async () => {
+        if (!container) {
+            throw new ActionContainerNotJoinedError("liveLock", "release");
+        }
+        if (liveLock === undefined) {
+            throw new ActionLiveDataObjectUndefinedError("liveLock", "release");
+        }
+        if (!liveLock.isInitialized) {
+            throw new ActionLiveDataObjectInitializedError(
+                "liveLock",
+                "release"
+            );
+        }
+        return await liveLock.release();
+    }, [container, liveLock]);
+
+    /**
+     * Callback to release the lock held by any client through `LiveLock`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    const forceRelease: ReleaseLiveLockAction = React.useCallback(async () => {
+        if (!container) {
+            throw new ActionContainerNotJoinedError("liveLock", "forceRelease");
+        }
+        if (liveLock === undefined) {
+            throw new ActionLiveDataObjectUndefinedError(
+                "liveLock",
+                "forceRelease"
+            );
+        }
+        if (!liveLock.isInitialized) {
+            throw new ActionLiveDataObjectInitializedError(
+                "liveLock",
+                "forceRelease"
+            );
+        }
+        return await liveLock.forceRelease();
+    }, [container, liveLock]);
+
+    /**
+     * Setup change listeners and start `LiveLock` if needed
+     */
+    React.useEffect(() => {
+        if (liveLock === undefined) return;
+
+        const onLockChanged = (holder: ILiveLockHolder | undefined) => {
+            setHolder(holder);
+        };
+        liveLock.on(LiveLockEvents.lockChanged, onLockChanged);
+        if (liveLock.initializeState === LiveDataObjectInitializeState.needed) {
+            liveLock.initialize(allowedRoles, forceReleaseRoles);
+        }
+        onLockChanged(liveLock.holder);
+
+        return () => {
+            liveLock?.off(LiveLockEvents.lockChanged, onLockChanged);
+        };
+    }, [liveLock]);
+
+    return {
+        holder,
+        isHeldLocally: !!holder?.isLocal,
+        liveLock,
+        acquire,
+        release,
+        forceRelease,
+    };
+}
@@ -0,0 +1,144 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import {
+    LiveDataObjectInitializeState,
+    LiveMap,
+    LiveMapEvents,
+    UserMeetingRole,
+} from "@microsoft/live-share";
+import React from "react";
+import {
+    DeleteLiveMapEntryAction,
+    IUseLiveMapResults,
+    SetLiveMapEntryAction,
+    SharedMapInitialData,
+} from "../types";
+import { useDynamicDDS } from "../shared-hooks";
+import { useFluidObjectsContext } from "../providers";
+import {
+    ActionContainerNotJoinedError,
+    ActionLiveDataObjectInitializedError,
+    ActionLiveDataObjectUndefinedError,
+} from "../internal";
+import { getInitialData } from "../utils";
+
+/**
+ * React hook for using a Live Share `LiveMap`.
+ *
+ * @remarks
+ * Use this hook if you want to synchronize many independent values that will reset when all users leave the session.
+ * It has the same API as `useSharedMap`, but values are not persisted in the container.
+ * This hook can only be used in a child component of `<LiveShareProvider>` or `<AzureProvider>`.
+ *
+ * @template TValue Optional typing for values stored in the `LiveMap`. Default is `any` type.
+ * @param uniqueKey the unique key for the `LiveMap`. If one does not yet exist, a new one will be created, otherwise it will use the existing one.
+ * @param initialData Optional. a JS Map, entries array, or JSON object with the initial entries of the map.
+ * @param allowedRoles Optional. the user roles that are allowed to change the map.
+ * @returns stateful `map` entries, `setEntry` callback, `deleteEntry` callback, and the `liveMap`.
+ */
+export function useLiveMap<TValue = any>(
+    uniqueKey: string,
+    initialData?: SharedMapInitialData<TValue>,
+    allowedRoles?: UserMeetingRole[]
+): IUseLiveMapResults<TValue> {
+    /**
+     * User facing: Stateful readonly map with most recent values from `LiveMap`.
+     */
+    const [map, setMap] = React.useState<ReadonlyMap<string, TValue>>(
+        getInitialData<TValue>(initialData)
+    );
+    /**
+     * User facing: dynamically load the DDS for the given unique key.
+     */
+    const { dds: liveMap } = useDynamicDDS<LiveMap<string, TValue>>(
+        uniqueKey,
+        LiveMap<string, TValue>
+    );
+
+    const { container } = useFluidObjectsContext();
+
+    /**
+     * User facing: set a value through `LiveMap`.
+     * @returns void promise that will throw when user does not have required roles
+     */
+    const setEntry: SetLiveMapEntryAction<TValue> = React.useCallback(
+        async (key: string, value: TValue) => {
+            if (!container) {
+                throw new ActionContainerNotJoinedError("liveMap", "setEntry");
+            }
+            if (liveMap === undefined) {
+                throw new ActionLiveDataObjectUndefinedError(
+                    "liveMap",
+                    "setEntry"
+                );
+            }
+            if (!liveMap.isInitialized) {
+                throw new ActionLiveDataObjectInitializedError(
+                    "liveMap",
+                    "setEntry"
+                );
+            }
+            return await liveMap.set(key, value);
+        },
+        [container, liveMap]
+    );
+
+    /**
+     * User facing: delete a value through `LiveMap`.
+     * @returns void promise that will throw when user does not have required roles
+     */
+    const deleteEntry: DeleteLiveMapEntryAction = React.useCallback(
+        async (key: string) => {
+            if (!container) {
+                throw new ActionContainerNotJoinedError(
+                    "liveMap",
+                    "deleteEntry"
+                );
+            }
+            if (liveMap === undefined) {
+                throw new ActionLiveDataObjectUndefinedError(
+                    "liveMap",
+                    "deleteEntry"
+                );
+            }
+            if (!liveMap.isInitialized) {
+                throw new ActionLiveDataObjectInitializedError(
+                    "liveMap",
+                    "deleteEntry"
+                );
+            }
+            return await liveMap.delete(key);
+        },
+        [container, liveMap]
+    );
+
+    /**
+     * Setup change listeners and start `LiveMap` if needed
+     */
+    React.useEffect(() => {
+        if (liveMap === undefined) return;
+
+        const onValueChanged = () => {
+            setMap(new Map<string, TValue>(liveMap.entries()));
+        };
+        liveMap.on(LiveMapEvents.valueChanged, onValueChanged);
+        if (liveMap.initializeState === LiveDataObjectInitializeState.needed) {
+            liveMap.initialize(getInitialData(initialData), allowedRoles);
+        }
+        onValueChanged();
+
+        return () => {
+            liveMap?.off(LiveMapEvents.valueChanged, onValueChanged);
+        };
+    }, [liveMap]);
+
+    return {
+        map,
+        setEntry,
+        deleteEntry,
+        liveMap,
+    };
+}
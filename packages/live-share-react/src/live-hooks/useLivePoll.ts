@@ -0,0 +1,249 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import {
+    ILivePollOptions,
+    ILivePollResults,
+    ILivePollState,
+    LiveDataObjectInitializeState,
+    LivePoll,
+    LivePollEvents,
+    LivePollKind,
+    LivePollStatus,
+    UserMeetingRole,
+} from "@microsoft/live-share";
+import React from "react";
+import {
+    ClearLivePollVoteAction,
+    CloseLivePollAction,
+    IUseLivePollResults,
+    OpenLivePollAction,
+    ResetLivePollAction,
+    RevealLivePollAction,
+    VoteLivePollAction,
+} from "../types";
+import { useDynamicDDS } from "../shared-hooks";
+import { useFluidObjectsContext } from "../providers";
+import {
+    ActionContainerNotJoinedError,
+    ActionLiveDataObjectInitializedError,
+    ActionLiveDataObjectUndefinedError,
+} from "../internal";
+
+const idleState: ILivePollState = {
+    status: LivePollStatus.idle,
+    choices: [],
+    kind: LivePollKind.singleChoice,
+    anonymous: false,
+};
+
+const emptyResults: ILivePollResults = {
+    totalVoters: 0,
+    choices: [],
+};
+
+/**
+ * React hook for using a Live Share `LivePoll`.
+ *
+ * @remarks
+ * Use this hook to run polls, votes and planning poker estimates that will reset when all users leave the session.
+ * This hook can only be used in a child component of `<LiveShareProvider>` or `<AzureProvider>`.
+ *
+ * @param uniqueKey the unique key for the `LivePoll`. If one does not yet exist, a new one will be created, otherwise it will use the existing one.
+ * @param allowedRoles Optional. the user roles that are allowed to open, close, reveal and reset polls. Every user can vote.
+ * @returns results and callbacks exposed via the hook.
+ */
+export function useLivePoll(
+    uniqueKey: string,
+    allowedRoles?: UserMeetingRole[]
+): IUseLivePollResults {
+    /**
+     * User facing: Stateful poll state.
+     */
+    const [state, setState] = React.useState<ILivePollState>(idleState);
+    /**
+     * User facing: Stateful aggregated results.
+     */
+    const [results, setResults] =
+        React.useState<ILivePollResults>(emptyResults);
+    /**
+     * User facing: Stateful ballot of the local user.
+     */
+    const [localBallot, setLocalBallot] = React.useState<
+        string[] | undefined
+    >();
+    /**
+     * User facing: dynamically load the DDS for the given unique key.
+     */
+    const { dds: livePoll } = useDynamicDDS<LivePoll>(uniqueKey, LivePoll);
+
+    const { container } = useFluidObjectsContext();
+
+    /**
+     * Callback to open a new poll through `LivePoll`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    const open: OpenLivePollAction = React.useCallback(
+        async (options: ILivePollOptions) => {
+            if (!container) {
+                throw new ActionContainerNotJoinedError("livePoll", "open");
+            }
+            if (livePoll === undefined) {
+                throw new ActionLiveDataObjectUndefinedError(
+                    "livePoll",
+                    "open"
+                );
+            }
+            if (!livePoll.isInitialized) {
+                throw new ActionLiveDataObjectInitializedError(
+                    "livePoll",
+                    "open"
+                );
+            }
+            return await livePoll.open(options);
+        },
+        [container, livePoll]
+    );
+
+    /**
+     * Callback to close the poll through `LivePoll`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    const close: CloseLivePollAction = React.useCallback(async () => {
+        if (!container) {
+            throw new ActionContainerNotJoinedError("livePoll", "close");
+        }
+        if (livePoll === undefined) {
+            throw new ActionLiveDataObjectUndefinedError("livePoll", "close");
+        }
+        if (!livePoll.isInitialized) {
+            throw new ActionLiveDataObjectInitializedError("livePoll", "close");
+        }
+        return await livePoll.close();
+    }, [container, livePoll]);
+
+    /**
+     * Callback to reveal the results of the poll through `LivePoll`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    const reveal: RevealLivePollAction = React.useCallback(async () => {
+        if (!container) {
+            throw new ActionContainerNotJoinedError("livePoll", "reveal");
+        }
+        if (livePoll === undefined) {
+            throw new ActionLiveDataObjectUndefinedError("livePoll", "reveal");
+        }
+        if (!livePoll.isInitialized) {
+            throw new ActionLiveDataObjectInitializedError(
+                "livePoll",
+                "reveal"
+            );
+        }
+        return await livePoll.reveal();
+    }, [container, livePoll]);
+
+    /**
+     * Callback to end and clear the poll through `LivePoll`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    const reset: ResetLivePollAction = React.useCallback(async () => {
+        if (!container) {
+            throw new ActionContainerNotJoinedError("livePoll", "reset");
+        }
+        if (livePoll === undefined) {
+            throw new ActionLiveDataObjectUndefinedError("livePoll", "reset");
+        }
+        if (!livePoll.isInitialized) {
+            throw new ActionLiveDataObjectInitializedError("livePoll", "reset");
+        }
+        return await livePoll.reset();
+    }, [container, livePoll]);
+
+    /**
+     * Callback to cast the local user's ballot through `LivePoll`
+     * @returns void promise that will throw when the poll is not open or the ballot is invalid
+     */
+    const vote: VoteLivePollAction = React.useCallback(
+        async (choiceIds: string | string[]) => {
+            if (!container) {
+                throw new ActionContainerNotJoinedError("livePoll", "vote");
+            }
+            if (livePoll === undefined) {
+                throw new ActionLiveDataObjectUndefinedError(
+                    "livePoll",
+                    "vote"
+                );
+            }
+            if (!livePoll.isInitialized) {
+                throw new ActionLiveDataObjectInitializedError(
+                    "livePoll",
+                    "vote"
+                );
+            }
+            return await livePoll.vote(choiceIds);
+        },
+        [container, livePoll]
+    );
+
+    /**
+     * Callback to remove the local user's ballot through `LivePoll`
+     * @returns void promise that will throw when the poll is not open
+     */
+    const clearVote: ClearLivePollVoteAction = React.useCallback(async () => {
+        if (!container) {
+            throw new ActionContainerNotJoinedError("livePoll", "clearVote");
+        }
+        if (livePoll === undefined) {
+            throw new ActionLiveDataObjectUndefinedError(
+                "livePoll",
+                "clearVote"
+            );
+        }
+        if (!livePoll.isInitialized) {
+            throw new ActionLiveDataObjectInitializedError(
+                "livePoll",
+                "clearVote"
+            );
+        }
+        return await livePoll.clearVote();
+    }, [container, livePoll]);
+
+    /**
+     * Setup change listeners and start `LivePoll` if needed
+     */
+    React.useEffect(() => {
+        if (livePoll === undefined) return;
+
+        const onPollChanged = () => {
+            setState(livePoll.state);
+            setResults(livePoll.getResults());
+            setLocalBallot(livePoll.localBallot);
+        };
+        livePoll.on(LivePollEvents.stateChanged, onPollChanged);
+        livePoll.on(LivePollEvents.ballotsChanged, onPollChanged);
+        if (livePoll.initializeState === LiveDataObjectInitializeState.needed) {
+            livePoll.initialize(allowedRoles);
+        }
+        onPollChanged();
+
+        return () => {
+            livePoll?.off(LivePollEvents.stateChanged, onPollChanged);
+            livePoll?.off(LivePollEvents.ballotsChanged, onPollChanged);
+        };
+    }, [livePoll]);
+
+    return {
+        state,
+        results,
+        localBallot,
+        livePoll,
+        open,
+        close,
+        reveal,
+        reset,
+        vote,
+        clearVote,
+    };
+}
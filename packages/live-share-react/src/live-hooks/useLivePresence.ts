@@ -11,7 +11,12 @@ import {
     LiveDataObjectInitializeState,
 } from "@microsoft/live-share";
 import React from "react";
-import { IUseLivePresenceResults, OnUpdateLivePresenceAction } from "../types";
+import {
+    IUseLivePresenceResults,
+    IUseLivePresenceSelectorResults,
+    OnPatchLivePresenceAction,
+    OnUpdateLivePresenceAction,
+} from "../types";
 import { useDynamicDDS } from "../shared-hooks";
 import { useFluidObjectsContext } from "../providers";
 import {
@@ -35,7 +40,7 @@ import {
  * @param initialPresenceState Optional. Initial status of the user's presence. Default is online.
  * @param allowedRoles Optional. the user roles that are allowed to mutate the synchronized state
  * will be created, otherwise it will use the existing one. Default value is ":<dds-default>"
- * @returns stateful `localUser`, `otherUsers` list, and `allUsers` list. Also returns a callback method
+ * @returns stateful `localUser`, `otherUsers` list, and `allUsers` list. Also returns callback methods
  * to update the local user's presence and the `LivePresence` Fluid object.
  */
 export function useLivePresence<TData extends object = object>(
@@ -68,35 +73,11 @@ export function useLivePresence<TData extends object = object>(
      */
     const localUser = allUsers.find((user) => user.isLocalUser);
 
-    const { container } = useFluidObjectsContext();
-
     /**
-     * User facing: callback to update the local user's presence.
+     * User facing: callbacks to update the local user's presence.
      */
-    const updatePresence: OnUpdateLivePresenceAction<TData> = React.useCallback(
-        async (data?: TData | undefined, state?: PresenceState | undefined) => {
-            if (!container) {
-                throw new ActionContainerNotJoinedError(
-                    "livePresence",
-                    "updatePresence"
-                );
-            }
-            if (livePresence === undefined) {
-                throw new ActionLiveDataObjectUndefinedError(
-                    "livePresence",
-                    "updatePresence"
-                );
-            }
-            if (!livePresence.isInitialized) {
-                throw new ActionLiveDataObjectInitializedError(
-                    "livePresence",
-                    "updatePresence"
-                );
-            }
-            return await livePresence.update(data, state);
-        },
-        [container, livePresence]
-    );
+    const { updatePresence, patchPresence } =
+        useLivePresenceActions(livePresence);
 
     /**
      * Setup change listeners and start `LivePresence` if needed
@@ -113,18 +94,12 @@ export function useLivePresence<TData extends object = object>(
         };
         livePresence.on("presenceChanged", onPresenceChanged);
 
-        if (
-            livePresence.initializeState ===
-            LiveDataObjectInitializeState.needed
-        ) {
-            livePresence.initialize(
-                isInitialDataCallback<TData>(initialData)
-                    ? initialData()
-                    : initialData,
-                initialPresenceState,
-                allowedRoles
-            );
-        }
+        initializeIfNeeded(
+            livePresence,
+            initialData,
+            initialPresenceState,
+            allowedRoles
+        );
         onPresenceChanged();
 
         return () => {
@@ -138,9 +113,188 @@ export function useLivePresence<TData extends object = object>(
         allUsers,
         livePresence,
         updatePresence,
+        patchPresence,
     };
 }
 
+/**
+ * React hook for using a Live Share `LivePresence` that only re-renders when the selected value changes.
+ *
+ * @remarks
+ * Use this hook instead of `useLivePresence` when a component only depends on some of the presence
+ * information, such as the cursor positions of other users. The selector is called for every presence
+ * change, but the component only re-renders when the selected value changes according to `isEqual`.
+ * This hook can only be used in a child component of `<LiveShareProvider>` or `<AzureProvider>`.
+ *
+ * @template TData Optional typing for the custom user presence data object. Default is `object` type.
+ * @template TSelected Type of the value returned by the selector.
+ * @param uniqueKey The unique key for `LivePresence`. If one does not yet exist, a new one will be created.
+ * @param selector Function that selects a value from the current list of users.
+ * @param isEqual Optional. Function that compares the previous and next selected values. Defaults to comparing the
+ * JSON serialization of the values.
+ * @param initialData Optional. Initial presence data object for the user. Can be value or a function to get the value.
+ * @param initialPresenceState Optional. Initial status of the user's presence. Default is online.
+ * @param allowedRoles Optional. the user roles that are allowed to mutate the synchronized state.
+ * @returns stateful `selected` value. Also returns callback methods to update the local user's presence
+ * and the `LivePresence` Fluid object.
+ */
+export function useLivePresenceSelector<
+    TData extends object = object,
+    TSelected = unknown
+>(
+    uniqueKey: string,
+    selector: (users: LivePresenceUser<TData>[]) => TSelected,
+    isEqual: (previous: TSelected, next: TSelected) => boolean = isJsonEqual,
+    initialData?: TData | (() => TData) | undefined,
+    initialPresenceState: PresenceState = PresenceState.online,
+    allowedRoles?: UserMeetingRole[]
+): IUseLivePresenceSelectorResults<TData, TSelected> {
+    /**
+     * User facing: stateful selected value.
+     */
+    const [selected, setSelected] = React.useState<TSelected>();
+    /**
+     * User facing: dynamically load the DDS for the given unique key.
+     */
+    const { dds: livePresence } = useDynamicDDS<LivePresence<TData>>(
+        uniqueKey,
+        LivePresence<TData>
+    );
+
+    /**
+     * Latest selector and comparer, so that inline functions don't re-register listeners on every render.
+     */
+    const selectorRef = React.useRef({ selector, isEqual });
+    selectorRef.current = { selector, isEqual };
+
+    /**
+     * User facing: callbacks to update the local user's presence.
+     */
+    const { updatePresence, patchPresence } =
+        useLivePresenceActions(livePresence);
+
+    /**
+     * Setup change listeners and start `LivePresence` if needed
+     */
+    React.useEffect(() => {
+        if (livePresence === undefined) return;
+
+        let hasSelected = false;
+        const onPresenceChanged = () => {
+            const { selector, isEqual } = selectorRef.current;
+            const next = selector(livePresence.getUsers());
+            // Returning the previous value skips the re-render
+            setSelected((previous) =>
+                hasSelected && isEqual(previous as TSelected, next)
+                    ? previous
+                    : next
+            );
+            hasSelected = true;
+        };
+        livePresence.on("presenceChanged", onPresenceChanged);
+
+        initializeIfNeeded(
+            livePresence,
+            initialData,
+            initialPresenceState,
+            allowedRoles
+        );
+        onPresenceChanged();
+
+        return () => {
+            livePresence?.off("presenceChanged", onPresenceChanged);
+        };
+    }, [livePresence]);
+
+    return {
+        selected,
+        livePresence,
+        updatePresence,
+        patchPresence,
+    };
+}
+
+function useLivePresenceActions<TData extends object>(
+    livePresence: LivePresence<TData> | undefined
+): {
+    updatePresence: OnUpdateLivePresenceAction<TData>;
+    patchPresence: OnPatchLivePresenceAction<TData>;
+} {
+    const { container } = useFluidObjectsContext();
+
+    const updatePresence: OnUpdateLivePresenceAction<TData> = React.useCallback(
+        async (data?: TData | undefined, state?: PresenceState | undefined) => {
+            if (!container) {
+                throw new ActionContainerNotJoinedError(
+                    "livePresence",
+                    "updatePresence"
+                );
+            }
+            if (livePresence === undefined) {
+                throw new ActionLiveDataObjectUndefinedError(
+                    "livePresence",
+                    "updatePresence"
+                );
+            }
+            if (!livePresence.isInitialized) {
+                throw new ActionLiveDataObjectInitializedError(
+                    "livePresence",
+                    "updatePresence"
+                );
+            }
+            return await livePresence.update(data, state);
+        },
+        [container, livePresence]
+    );
+
+    const patchPresence: OnPatchLivePresenceAction<TData> = React.useCallback(
+        async (partialData: Partial<TData>, deep?: boolean) => {
+            if (!container) {
+                throw new ActionContainerNotJoinedError(
+                    "livePresence",
+                    "patchPresence"
+                );
+            }
+            if (livePresence === undefined) {
+                throw new ActionLiveDataObjectUndefinedError(
+                    "livePresence",
+                    "patchPresence"
+                );
+            }
+            if (!livePresence.isInitialized) {
+                throw new ActionLiveDataObjectInitializedError(
+                    "livePresence",
+                    "patchPresence"
+                );
+            }
+            return await livePresence.patch(partialData, deep);
+        },
+        [container, livePresence]
+    );
+
+    return { updatePresence, patchPresence };
+}
+
+function initializeIfNeeded<TData extends object>(
+    livePresence: LivePresence<TData>,
+    initialData: TData | (() => TData) | undefined,
+    initialPresenceState: PresenceState,
+    allowedRoles: UserMeetingRole[] | undefined
+) {
+    if (livePresence.initializeState !== LiveDataObjectInitializeState.needed) {
+        return;
+    }
+    livePresence.initialize(
+        isInitialDataCallback<TData>(initialData) ? initialData() : initialData,
+        initialPresenceState,
+        allowedRoles
+    );
+}
+
 function isInitialDataCallback<TData>(value: any): value is () => TData {
     return typeof value === "function";
 }
+
+function isJsonEqual(previous: unknown, next: unknown): boolean {
+    return JSON.stringify(previous) === JSON.stringify(next);
+}
@@ -9,7 +9,12 @@ import {
     UserMeetingRole,
 } from "@microsoft/live-share";
 import React from "react";
-import { SetLiveStateAction } from "../types";
+import {
+    IUseLiveStateHistoryResults,
+    RedoLiveStateAction,
+    SetLiveStateAction,
+    UndoLiveStateAction,
+} from "../types";
 import { useDynamicDDS } from "../shared-hooks";
 import { useFluidObjectsContext } from "../providers";
 import {
@@ -30,15 +35,23 @@ import {
  * @param initialState Optional. the initial state value of type TState
  * @param allowedRoles Optional. the user roles that are allowed to mutate the synchronized state
  * @returns ordered values: first value is the synchronized state value and the second is a setter to change the state value.
- * The setter returns a void promise, which will throw if the user does not have the required roles to set.
+ * The setter returns a void promise, which will throw if the user does not have the required roles to set. The third value is
+ * the `LiveState` object, and the fourth value contains the `undo` and `redo` callbacks, along with whether they can be used.
  */
 export function useLiveState<TState = any>(
     uniqueKey: string,
     initialState: TState,
     allowedRoles?: UserMeetingRole[]
-): [TState, SetLiveStateAction<TState>, LiveState<TState> | undefined] {
+): [
+    TState,
+    SetLiveStateAction<TState>,
+    LiveState<TState> | undefined,
+    IUseLiveStateHistoryResults
+] {
     const [currentState, setCurrentState] =
         React.useState<TState>(initialState);
+    const [canUndo, setCanUndo] = React.useState<boolean>(false);
+    const [canRedo, setCanRedo] = React.useState<boolean>(false);
     /**
      * User facing: dynamically load the DDS for the given unique key.
      */
@@ -82,20 +95,61 @@ export function useLiveState<TState = any>(
         [container, liveState]
     );
 
+    /**
+     * Undo callback that is user facing
+     * @returns void promise, which will throw if the user does not have the required roles
+     */
+    const undo: UndoLiveStateAction = React.useCallback(async () => {
+        if (!container) {
+            throw new ActionContainerNotJoinedError("liveState", "undo");
+        }
+        if (liveState === undefined) {
+            throw new ActionLiveDataObjectUndefinedError("liveState", "undo");
+        }
+        if (!liveState.isInitialized) {
+            throw new ActionLiveDataObjectInitializedError("liveState", "undo");
+        }
+        return await liveState.undo();
+    }, [container, liveState]);
+
+    /**
+     * Redo callback that is user facing
+     * @returns void promise, which will throw if the user does not have the required roles
+     */
+    const redo: RedoLiveStateAction = React.useCallback(async () => {
+        if (!container) {
+            throw new ActionContainerNotJoinedError("liveState", "redo");
+        }
+        if (liveState === undefined) {
+            throw new ActionLiveDataObjectUndefinedError("liveState", "redo");
+        }
+        if (!liveState.isInitialized) {
+            throw new ActionLiveDataObjectInitializedError("liveState", "redo");
+        }
+        return await liveState.redo();
+    }, [container, liveState]);
+
     /**
      * Setup change listeners and start `LiveState` if needed
      */
     React.useEffect(() => {
         if (liveState === undefined) return;
 
+        const onHistoryChanged = () => {
+            setCanUndo(liveState.canUndo);
+            setCanRedo(liveState.canRedo);
+        };
         const onStateChanged = (state: TState) => {
             setCurrentState(state);
+            onHistoryChanged();
         };
         liveState.on("stateChanged", onStateChanged);
         if (
             liveState.initializeState === LiveDataObjectInitializeState.needed
         ) {
-            liveState.initialize(initialState, allowedRoles);
+            liveState
+                .initialize(initialState, allowedRoles)
+                .then(onHistoryChanged);
         }
         onStateChanged(liveState.state);
 
@@ -104,5 +158,10 @@ export function useLiveState<TState = any>(
         };
     }, [liveState]);
 
-    return [currentState, setState, liveState];
+    return [
+        currentState,
+        setState,
+        liveState,
+        { canUndo, canRedo, undo, redo },
+    ];
 }
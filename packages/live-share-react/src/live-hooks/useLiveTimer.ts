@@ -5,6 +5,7 @@
 
 import {
     ITimerConfig,
+    ITimerPhase,
     LiveTimerEvents,
     UserMeetingRole,
     LiveTimer,
@@ -13,13 +14,19 @@ import {
 import React from "react";
 import {
     IUseLiveTimerResults,
+    OnAddTimerTimeAction,
     OnPauseTimerAction,
     OnPlayTimerAction,
+    OnSkipTimerPhaseAction,
+    OnStartStopwatchAction,
     OnStartTimerAction,
+    OnStartTimerPhasesAction,
     OnTimerDidFinishAction,
     OnTimerDidPauseAction,
     OnTimerDidPlayAction,
     OnTimerDidStartAction,
+    OnTimerLapAction,
+    OnTimerPhaseDidChangeAction,
     OnTimerTickAction,
 } from "../types";
 import { useDynamicDDS } from "../shared-hooks";
@@ -45,6 +52,7 @@ import {
  * @param onPause Optional. event handler callback for when the timer is paused.
  * @param onPlay Optional. event handler callback for when the timer is resumed.
  * @param onFinish Optional. event handler callback for when the timer finishes.
+ * @param onPhaseChange Optional. event handler callback for when the timer moves to the next phase of a sequence of phases.
  * @returns results and callbacks exposed via the hook.
  */
 export function useLiveTimer(
@@ -55,7 +63,8 @@ export function useLiveTimer(
     onStart?: OnTimerDidStartAction,
     onPause?: OnTimerDidPauseAction,
     onPlay?: OnTimerDidPlayAction,
-    onFinish?: OnTimerDidFinishAction
+    onFinish?: OnTimerDidFinishAction,
+    onPhaseChange?: OnTimerPhaseDidChangeAction
 ): IUseLiveTimerResults {
     /**
      * User facing: Stateful timer config.
@@ -65,6 +74,10 @@ export function useLiveTimer(
      * User facing: Stateful time remaining.
      */
     const [milliRemaining, setMilliRemaining] = React.useState<number>();
+    /**
+     * User facing: Stateful time elapsed.
+     */
+    const [milliElapsed, setMilliElapsed] = React.useState<number>();
     /**
      * User facing: dynamically load the DDS for the given unique key.
      */
@@ -136,6 +149,130 @@ export function useLiveTimer(
         return await liveTimer.pause();
     }, [container, liveTimer]);
 
+    /**
+     * Callback to send event through `LiveTimer`
+     * @param phases the phases to run in order
+     * @returns void promise that will throw when user does not have required roles
+     */
+    const startPhases: OnStartTimerPhasesAction = React.useCallback(
+        async (phases: ITimerPhase[]) => {
+            if (!container) {
+                throw new ActionContainerNotJoinedError(
+                    "liveTimer",
+                    "startPhases"
+                );
+            }
+            if (liveTimer === undefined) {
+                throw new ActionLiveDataObjectUndefinedError(
+                    "liveTimer",
+                    "startPhases"
+                );
+            }
+            if (!liveTimer.isInitialized) {
+                throw new ActionLiveDataObjectInitializedError(
+                    "liveTimer",
+                    "startPhases"
+                );
+            }
+            return await liveTimer.startPhases(phases);
+        },
+        [container, liveTimer]
+    );
+
+    /**
+     * Callback to send event through `LiveTimer`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    const startStopwatch: OnStartStopwatchAction =
+        React.useCallback(async () => {
+            if (!container) {
+                throw new ActionContainerNotJoinedError(
+                    "liveTimer",
+                    "startStopwatch"
+                );
+            }
+            if (liveTimer === undefined) {
+                throw new ActionLiveDataObjectUndefinedError(
+                    "liveTimer",
+                    "startStopwatch"
+                );
+            }
+            if (!liveTimer.isInitialized) {
+                throw new ActionLiveDataObjectInitializedError(
+                    "liveTimer",
+                    "startStopwatch"
+                );
+            }
+            return await liveTimer.startStopwatch();
+        }, [container, liveTimer]);
+
+    /**
+     * Callback to send event through `LiveTimer`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    const skipPhase: OnSkipTimerPhaseAction = React.useCallback(async () => {
+        if (!container) {
+            throw new ActionContainerNotJoinedError("liveTimer", "skipPhase");
+        }
+        if (liveTimer === undefined) {
+            throw new ActionLiveDataObjectUndefinedError(
+                "liveTimer",
+                "skipPhase"
+            );
+        }
+        if (!liveTimer.isInitialized) {
+            throw new ActionLiveDataObjectInitializedError(
+                "liveTimer",
+                "skipPhase"
+            );
+        }
+        return await liveTimer.skipPhase();
+    }, [container, liveTimer]);
+
+    /**
+     * Callback to send event through `LiveTimer`
+     * @param milliseconds the time to add in milliseconds
+     * @returns void promise that will throw when user does not have required roles
+     */
+    const addTime: OnAddTimerTimeAction = React.useCallback(
+        async (milliseconds: number) => {
+            if (!container) {
+                throw new ActionContainerNotJoinedError("liveTimer", "addTime");
+            }
+            if (liveTimer === undefined) {
+                throw new ActionLiveDataObjectUndefinedError(
+                    "liveTimer",
+                    "addTime"
+                );
+            }
+            if (!liveTimer.isInitialized) {
+                throw new ActionLiveDataObjectInitializedError(
+                    "liveTimer",
+                    "addTime"
+                );
+            }
+            return await liveTimer.addTime(milliseconds);
+        },
+        [container, liveTimer]
+    );
+
+    /**
+     * Callback to send event through `LiveTimer`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    const lap: OnTimerLapAction = React.useCallback(async () => {
+        if (!container) {
+            throw new ActionContainerNotJoinedError("liveTimer", "lap");
+        }
+        if (liveTimer === undefined) {
+            throw new ActionLiveDataObjectUndefinedError("liveTimer", "lap");
+        }
+        if (!liveTimer.isInitialized) {
+            throw new ActionLiveDataObjectInitializedError("liveTimer", "lap");
+        }
+        return await liveTimer.lap();
+    }, [container, liveTimer]);
+
     /**
      * Setup change listeners and start `LiveTimer` if needed
      */
@@ -145,6 +282,7 @@ export function useLiveTimer(
         // React does not re-render if the values are already set to defaults (e.g., initial DDS).
         setTimerConfig(undefined);
         setMilliRemaining(undefined);
+        setMilliElapsed(undefined);
         // Register event listeners
         const onTimerConfigChange = (config: ITimerConfig) => {
             setTimerConfig(config);
@@ -152,12 +290,20 @@ export function useLiveTimer(
         const onDidStart = (config: ITimerConfig) => {
             onTimerConfigChange(config);
             onStart?.(config);
+            setMilliRemaining(config.stopwatch ? Infinity : config.duration);
+            setMilliElapsed(0);
+        };
+        const onDidChangePhase = (config: ITimerConfig) => {
+            onTimerConfigChange(config);
+            onPhaseChange?.(config);
             setMilliRemaining(config.duration);
+            setMilliElapsed(0);
         };
         const onDidFinish = (config: ITimerConfig) => {
             onTimerConfigChange(config);
             onFinish?.(config);
             setMilliRemaining(0);
+            setMilliElapsed(config.duration);
         };
         const onDidPlay = (config: ITimerConfig) => {
             onTimerConfigChange(config);
@@ -167,15 +313,19 @@ export function useLiveTimer(
             onTimerConfigChange(config);
             onPause?.(config);
         };
-        const onDidTick = (milliseconds: number) => {
+        const onDidTick = (milliseconds: number, elapsed: number) => {
             setMilliRemaining(milliseconds);
-            onTick?.(milliseconds);
+            setMilliElapsed(elapsed);
+            onTick?.(milliseconds, elapsed);
         };
         liveTimer.on(LiveTimerEvents.started, onDidStart);
         liveTimer.on(LiveTimerEvents.finished, onDidFinish);
         liveTimer.on(LiveTimerEvents.played, onDidPlay);
         liveTimer.on(LiveTimerEvents.paused, onDidPause);
         liveTimer.on(LiveTimerEvents.onTick, onDidTick);
+        liveTimer.on(LiveTimerEvents.phaseChanged, onDidChangePhase);
+        liveTimer.on(LiveTimerEvents.lap, onTimerConfigChange);
+        liveTimer.on(LiveTimerEvents.durationChanged, onTimerConfigChange);
         if (
             liveTimer.initializeState === LiveDataObjectInitializeState.needed
         ) {
@@ -190,8 +340,14 @@ export function useLiveTimer(
             liveTimer?.off(LiveTimerEvents.played, onDidPlay);
             liveTimer?.off(LiveTimerEvents.paused, onDidPause);
             liveTimer?.off(LiveTimerEvents.onTick, onDidTick);
+            liveTimer?.off(LiveTimerEvents.phaseChanged, onDidChangePhase);
+            liveTimer?.off(LiveTimerEvents.lap, onTimerConfigChange);
+            liveTimer?.off(
+                LiveTimerEvents.durationChanged,
+                onTimerConfigChange
+            );
         };
-    }, [liveTimer, onTick, onStart, onFinish, onPlay, onPause]);
+    }, [liveTimer, onTick, onStart, onFinish, onPlay, onPause, onPhaseChange]);
 
     /**
      * Change tick rate if changes in props
@@ -207,11 +363,17 @@ export function useLiveTimer(
     }, [tickRate, liveTimer?.tickRate]);
 
     return {
+        addTime,
+        lap,
         liveTimer,
+        milliElapsed,
         milliRemaining,
         pause,
         play,
+        skipPhase,
         start,
+        startPhases,
+        startStopwatch,
         timerConfig,
     };
 }
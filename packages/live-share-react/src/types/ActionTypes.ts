@@ -6,7 +6,14 @@
 import React from "react";
 import { IFluidLoadable } from "@fluidframework/core-interfaces";
 import { LoadableObjectClass } from "fluid-framework";
-import { ITimerConfig, ILiveEvent, PresenceState } from "@microsoft/live-share";
+import {
+    ITimerConfig,
+    ITimerPhase,
+    ILiveEvent,
+    ILiveEventTargets,
+    ILivePollOptions,
+    PresenceState,
+} from "@microsoft/live-share";
 
 // React actions
 
@@ -90,6 +97,18 @@ export type SetLiveStateAction<TState = undefined> = (
     state: TState | ((prevState: TState) => TState)
 ) => Promise<void>;
 
+/**
+ * Callback for UndoLiveStateAction.
+ * () => Promise<void>
+ */
+export type UndoLiveStateAction = () => Promise<void>;
+
+/**
+ * Callback for RedoLiveStateAction.
+ * () => Promise<void>
+ */
+export type RedoLiveStateAction = () => Promise<void>;
+
 /**
  * Callback for SendLiveEventAction<TEvent>.
  * (event: TEvent) => Promise<void>
@@ -98,6 +117,15 @@ export type SendLiveEventAction<TEvent> = (
     event: TEvent
 ) => Promise<ILiveEvent<TEvent>>;
 
+/**
+ * Callback for SendLiveEventToAction<TEvent>.
+ * (target: ILiveEventTargets, event: TEvent) => Promise<ILiveEvent<TEvent>>
+ */
+export type SendLiveEventToAction<TEvent> = (
+    target: ILiveEventTargets,
+    event: TEvent
+) => Promise<ILiveEvent<TEvent>>;
+
 /**
  * Callback for OnReceivedLiveEventAction<TEvent>.
  * (event: TEvent, local: boolean) => void
@@ -116,6 +144,15 @@ export type OnUpdateLivePresenceAction<TData extends object = object> = (
     state?: PresenceState | undefined
 ) => Promise<void>;
 
+/**
+ * Callback for OnPatchLivePresenceAction<TData extends object = object>.
+ * (partialData: Partial<TData>, deep?: boolean) => Promise<void>
+ */
+export type OnPatchLivePresenceAction<TData extends object = object> = (
+    partialData: Partial<TData>,
+    deep?: boolean
+) => Promise<void>;
+
 /**
  * Callback for OnStartTimerAction.
  * (duration: number) => Promise<void>
@@ -134,11 +171,44 @@ export type OnPlayTimerAction = () => Promise<void>;
  */
 export type OnPauseTimerAction = () => Promise<void>;
 
+/**
+ * Callback for OnStartTimerPhasesAction.
+ * (phases: ITimerPhase[]) => Promise<void>
+ */
+export type OnStartTimerPhasesAction = (phases: ITimerPhase[]) => Promise<void>;
+
+/**
+ * Callback for OnStartStopwatchAction.
+ * () => Promise<void>
+ */
+export type OnStartStopwatchAction = () => Promise<void>;
+
+/**
+ * Callback for OnSkipTimerPhaseAction.
+ * () => Promise<void>
+ */
+export type OnSkipTimerPhaseAction = () => Promise<void>;
+
+/**
+ * Callback for OnAddTimerTimeAction.
+ * (milliseconds: number) => Promise<void>
+ */
+export type OnAddTimerTimeAction = (milliseconds: number) => Promise<void>;
+
+/**
+ * Callback for OnTimerLapAction.
+ * () => Promise<void>
+ */
+export type OnTimerLapAction = () => Promise<void>;
+
 /**
  * Callback for OnTimerTickAction.
- * (milliRemaining: number) => void
+ * (milliRemaining: number, milliElapsed: number) => void
  */
-export type OnTimerTickAction = (milliRemaining: number) => void;
+export type OnTimerTickAction = (
+    milliRemaining: number,
+    milliElapsed: number
+) => void;
 /**
  * Callback for OnTimerDidStartAction.
  * (timerConfig: ITimerConfig) => void
@@ -159,3 +229,121 @@ export type OnTimerDidPlayAction = (timerConfig: ITimerConfig) => void;
  * (timerConfig: ITimerConfig) => void
  */
 export type OnTimerDidFinishAction = (timerConfig: ITimerConfig) => void;
+/**
+ * Callback for OnTimerPhaseDidChangeAction.
+ * (timerConfig: ITimerConfig) => void
+ */
+export type OnTimerPhaseDidChangeAction = (timerConfig: ITimerConfig) => void;
+
+/**
+ * Callback for InsertLiveListItemAction<TItem>.
+ * (index: number, value: TItem) => Promise<void>
+ */
+export type InsertLiveListItemAction<TItem> = (
+    index: number,
+    value: TItem
+) => Promise<void>;
+
+/**
+ * Callback for PushLiveListItemAction<TItem>.
+ * (value: TItem) => Promise<void>
+ */
+export type PushLiveListItemAction<TItem> = (value: TItem) => Promise<void>;
+
+/**
+ * Callback for RemoveLiveListItemAction.
+ * (index: number) => Promise<void>
+ */
+export type RemoveLiveListItemAction = (index: number) => Promise<void>;
+
+/**
+ * Callback for MoveLiveListItemAction.
+ * (fromIndex: number, toIndex: number) => Promise<void>
+ */
+export type MoveLiveListItemAction = (
+    fromIndex: number,
+    toIndex: number
+) => Promise<void>;
+
+/**
+ * Callback for OpenLivePollAction.
+ * (options: ILivePollOptions) => Promise<void>
+ */
+export type OpenLivePollAction = (options: ILivePollOptions) => Promise<void>;
+
+/**
+ * Callback for CloseLivePollAction.
+ * () => Promise<void>
+ */
+export type CloseLivePollAction = () => Promise<void>;
+
+/**
+ * Callback for RevealLivePollAction.
+ * () => Promise<void>
+ */
+export type RevealLivePollAction = () => Promise<void>;
+
+/**
+ * Callback for ResetLivePollAction.
+ * () => Promise<void>
+ */
+export type ResetLivePollAction = () => Promise<void>;
+
+/**
+ * Callback for VoteLivePollAction.
+ * (choiceIds: string | string[]) => Promise<void>
+ */
+export type VoteLivePollAction = (
+    choiceIds: string | string[]
+) => Promise<void>;
+
+/**
+ * Callback for ClearLivePollVoteAction.
+ * () => Promise<void>
+ */
+export type ClearLivePollVoteAction = () => Promise<void>;
+
+/**
+ * Callback for IncrementLiveCounterAction.
+ * (amount?: number) => Promise<void>
+ */
+export type IncrementLiveCounterAction = (amount?: number) => Promise<void>;
+
+/**
+ * Callback for DecrementLiveCounterAction.
+ * (amount?: number) => Promise<void>
+ */
+export type DecrementLiveCounterAction = (amount?: number) => Promise<void>;
+
+/**
+ * Callback for ResetLiveCounterAction.
+ * (value?: number) => Promise<void>
+ */
+export type ResetLiveCounterAction = (value?: number) => Promise<void>;
+
+/**
+ * Callback for SetLiveMapEntryAction<TValue>.
+ * (key: string, value: TValue) => Promise<void>
+ */
+export type SetLiveMapEntryAction<TValue> = (
+    key: string,
+    value: TValue
+) => Promise<void>;
+
+/**
+ * Callback for DeleteLiveMapEntryAction.
+ * (key: string) => Promise<void>
+ */
+export type DeleteLiveMapEntryAction = (key: string) => Promise<void>;
+
+/**
+ * Callback for AcquireLiveLockAction.
+ * () => Promise<boolean>
+ */
+export type AcquireLiveLockAction = () => Promise<boolean>;
+
+/**
+ * Callback for ReleaseLiveLockAction.
+ * () => Promise<void>
+ */
+export type ReleaseLiveLockAction = () => Promise<void>;
@@ -13,6 +13,14 @@ import {
     IFollowModeState,
     FollowModePresenceUser,
     LiveFollowMode,
+    LiveList,
+    ILivePollResults,
+    ILivePollState,
+    LivePoll,
+    LiveCounter,
+    LiveMap,
+    ILiveLockHolder,
+    LiveLock,
 } from "@microsoft/live-share";
 import { InkingManager, LiveCanvas } from "@microsoft/live-share-canvas";
 import {
@@ -23,11 +31,37 @@ import {
 import { IFluidContainer, SharedMap } from "fluid-framework";
 import { IReceiveLiveEvent } from "../interfaces";
 import {
+    AcquireLiveLockAction,
+    ClearLivePollVoteAction,
+    CloseLivePollAction,
+    DecrementLiveCounterAction,
+    DeleteLiveMapEntryAction,
+    IncrementLiveCounterAction,
+    InsertLiveListItemAction,
+    MoveLiveListItemAction,
+    OnAddTimerTimeAction,
     OnPauseTimerAction,
     OnPlayTimerAction,
+    OnSkipTimerPhaseAction,
+    OnStartStopwatchAction,
     OnStartTimerAction,
+    OnStartTimerPhasesAction,
+    OnTimerLapAction,
+    OnPatchLivePresenceAction,
     OnUpdateLivePresenceAction,
+    OpenLivePollAction,
+    PushLiveListItemAction,
+    RedoLiveStateAction,
+    ReleaseLiveLockAction,
+    RemoveLiveListItemAction,
+    ResetLiveCounterAction,
+    ResetLivePollAction,
+    RevealLivePollAction,
     SendLiveEventAction,
+    SendLiveEventToAction,
+    SetLiveMapEntryAction,
+    UndoLiveStateAction,
+    VoteLivePollAction,
 } from "./ActionTypes";
 
 export interface IAzureContainerResults {
@@ -70,6 +104,30 @@ export interface IUseSharedMapResults<TData> {
     sharedMap: SharedMap | undefined;
 }
 
+/**
+ * History values returned by the `useLiveState` hook.
+ */
+export interface IUseLiveStateHistoryResults {
+    /**
+     * True if there is a change that can be reverted using `undo`.
+     */
+    canUndo: boolean;
+    /**
+     * True if there is a reverted change that can be applied again using `redo`.
+     */
+    canRedo: boolean;
+    /**
+     * Callback to revert the most recent change through `LiveState`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    undo: UndoLiveStateAction;
+    /**
+     * Callback to apply the most recently reverted change again through `LiveState`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    redo: RedoLiveStateAction;
+}
+
 /**
  * Return type of `useLiveEvent` hook.
  */
@@ -88,6 +146,13 @@ export interface IUseLiveEventResults<TEvent = any> {
      * @returns void promise that will throw when user does not have required roles
      */
     sendEvent: SendLiveEventAction<TEvent>;
+    /**
+     * Callback method to send a new event to specific users or clients in the session.
+     * @param target users and clients to send the event to.
+     * @param TEvent to send.
+     * @returns void promise that will throw when user does not have required roles
+     */
+    sendEventTo: SendLiveEventToAction<TEvent>;
     /**
      * The `LiveEvent` object, should you want to use it directly.
      */
@@ -103,9 +168,13 @@ export interface IUseLiveTimerResults {
      */
     timerConfig: ITimerConfig | undefined;
     /**
-     * The time remaining in milliseconds.
+     * The time remaining in milliseconds. `Infinity` for stopwatches.
      */
     milliRemaining: number | undefined;
+    /**
+     * The time elapsed in milliseconds, in the current phase when running a sequence of phases.
+     */
+    milliElapsed: number | undefined;
     /**
      * The `LiveTimer` object, should you want to use it directly.
      */
@@ -126,6 +195,33 @@ export interface IUseLiveTimerResults {
      * @returns void promise that will throw when user does not have required roles
      */
     pause: OnPauseTimerAction;
+    /**
+     * Callback to send event through `LiveTimer`
+     * @param phases the phases to run in order
+     * @returns void promise that will throw when user does not have required roles
+     */
+    startPhases: OnStartTimerPhasesAction;
+    /**
+     * Callback to send event through `LiveTimer`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    startStopwatch: OnStartStopwatchAction;
+    /**
+     * Callback to send event through `LiveTimer`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    skipPhase: OnSkipTimerPhaseAction;
+    /**
+     * Callback to send event through `LiveTimer`
+     * @param milliseconds the time to add in milliseconds
+     * @returns void promise that will throw when user does not have required roles
+     */
+    addTime: OnAddTimerTimeAction;
+    /**
+     * Callback to send event through `LiveTimer`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    lap: OnTimerLapAction;
 }
 
 /**
@@ -155,6 +251,44 @@ export interface IUseLivePresenceResults<TData extends object = object> {
      * @returns void promise that will throw when user does not have required roles
      */
     updatePresence: OnUpdateLivePresenceAction<TData>;
+    /**
+     * Callback method to update some of the fields of the local user's presence data.
+     * @param partialData Fields of TData to change.
+     * @param deep Optional. If true, nested objects are merged recursively.
+     * @returns void promise that will throw when user does not have required roles
+     */
+    patchPresence: OnPatchLivePresenceAction<TData>;
+}
+
+/**
+ * Return type of `useLivePresenceSelector` hook.
+ */
+export interface IUseLivePresenceSelectorResults<
+    TData extends object = object,
+    TSelected = unknown
+> {
+    /**
+     * Value returned by the selector for the current list of users.
+     */
+    selected: TSelected | undefined;
+    /**
+     * Live Share `LivePresence` object, should you want to use it directly.
+     */
+    livePresence: LivePresence<TData> | undefined;
+    /**
+     * Callback method to update the local user's presence.
+     * @param data Optional. TData to set for user.
+     * @param state Optional. PresenceState to set for user.
+     * @returns void promise that will throw when user does not have required roles
+     */
+    updatePresence: OnUpdateLivePresenceAction<TData>;
+    /**
+     * Callback method to update some of the fields of the local user's presence data.
+     * @param partialData Fields of TData to change.
+     * @param deep Optional. If true, nested objects are merged recursively.
+     * @returns void promise that will throw when user does not have required roles
+     */
+    patchPresence: OnPatchLivePresenceAction<TData>;
 }
 
 /**
@@ -229,6 +363,11 @@ export interface IUseLiveFollowModeResults<TData = any> {
      * Gets the current follow mode state.
      */
     state: IFollowModeState<TData> | undefined;
+    /**
+     * The interpolated value of {@link state}, updated for each animation frame when the `interpolation` prop is set.
+     * Equal to `state.value` otherwise.
+     */
+    animatedValue: TData | undefined;
     /**
      * Local LivePresenceUser.
      */
@@ -245,6 +384,10 @@ export interface IUseLiveFollowModeResults<TData = any> {
      * LiveFollowMode DDS
      */
     liveFollowMode: LiveFollowMode<TData> | undefined;
+    /**
+     * The userIds of users approved to present after the current presenter, in order.
+     */
+    presenterQueue: string[];
     /**
      * Broadcast a new custom data value for the local user's current state.
      *
@@ -281,6 +424,7 @@ export interface IUseLiveFollowModeResults<TData = any> {
      *
      * @remarks
      * This API allows any user with valid roles to cancel presenting, though we generally recommend only allowing the active presenter to do so.
+     * If users are waiting in the {@link presenterQueue}, presenting is handed off to the next online user in the queue.
      * To start presenting, use the {@link startPresenting} API.
      *
      * @returns a void promise that resolves once the event has been sent to the server.
@@ -289,6 +433,41 @@ export interface IUseLiveFollowModeResults<TData = any> {
      * @throws error if the local user does not have the required roles to stop presenting.
      */
     stopPresenting: () => Promise<void>;
+    /**
+     * Requests to present the local user's state.
+     *
+     * @remarks
+     * While waiting for approval, the {@link state} type is `requestedToPresent`, and then `waitingInQueue` once approved.
+     *
+     * @returns a void promise that resolves once the event has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user is already the presenter or waiting in the presenter queue.
+     */
+    requestToPresent: () => Promise<void>;
+    /**
+     * Cancels the local user's request to present, and leaves the presenter queue if their request was approved.
+     *
+     * @returns a void promise that resolves once the event has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     */
+    cancelPresentRequest: () => Promise<void>;
+    /**
+     * Approves a user's request to present.
+     *
+     * @remarks
+     * The user starts presenting right away if there is no presenter, and is otherwise added to the end of the {@link presenterQueue}.
+     *
+     * @param userId the userId of the user to approve.
+     *
+     * @returns a void promise that resolves once the event has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles to approve requests.
+     * @throws error if the user has not requested to present.
+     */
+    approvePresenter: (userId: string) => Promise<void>;
     /**
      * Temporarily stop following presenter/follower.
      *
@@ -330,3 +509,189 @@ export interface IUseLiveFollowModeResults<TData = any> {
      */
     stopFollowing: () => Promise<void>;
 }
+
+/**
+ * Return type of `useLiveList` hook.
+ */
+export interface IUseLiveListResults<TItem = any> {
+    /**
+     * The current items, in order.
+     */
+    items: TItem[];
+    /**
+     * The `LiveList` object, should you want to use it directly.
+     */
+    liveList: LiveList<TItem> | undefined;
+    /**
+     * Callback to insert an item through `LiveList`
+     * @param index the index to insert the item at
+     * @param value the item to insert
+     * @returns void promise that will throw when user does not have required roles
+     */
+    insert: InsertLiveListItemAction<TItem>;
+    /**
+     * Callback to append an item through `LiveList`
+     * @param value the item to append
+     * @returns void promise that will throw when user does not have required roles
+     */
+    push: PushLiveListItemAction<TItem>;
+    /**
+     * Callback to remove an item through `LiveList`
+     * @param index the index of the item to remove
+     * @returns void promise that will throw when user does not have required roles
+     */
+    remove: RemoveLiveListItemAction;
+    /**
+     * Callback to move an item through `LiveList`
+     * @param fromIndex the current index of the item
+     * @param toIndex the index the item should have once moved
+     * @returns void promise that will throw when user does not have required roles
+     */
+    move: MoveLiveListItemAction;
+}
+
+/**
+ * Return type of `useLivePoll` hook.
+ */
+export interface IUseLivePollResults {
+    /**
+     * The current state of the poll.
+     */
+    state: ILivePollState;
+    /**
+     * The aggregated results of the current poll.
+     */
+    results: ILivePollResults;
+    /**
+     * IDs of the choices the local user voted for, or undefined if they haven't voted.
+     */
+    localBallot: string[] | undefined;
+    /**
+     * The `LivePoll` object, should you want to use it directly.
+     */
+    livePoll: LivePoll | undefined;
+    /**
+     * Callback to open a new poll through `LivePoll`
+     * @param options the question, choices and kind of the poll
+     * @returns void promise that will throw when user does not have required roles
+     */
+    open: OpenLivePollAction;
+    /**
+     * Callback to close the poll through `LivePoll`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    close: CloseLivePollAction;
+    /**
+     * Callback to reveal the results of the poll through `LivePoll`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    reveal: RevealLivePollAction;
+    /**
+     * Callback to end and clear the poll through `LivePoll`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    reset: ResetLivePollAction;
+    /**
+     * Callback to cast the local user's ballot through `LivePoll`
+     * @param choiceIds the ID of the chosen choice, or the IDs of the chosen choices for multiple choice polls
+     * @returns void promise that will throw when the poll is not open or the ballot is invalid
+     */
+    vote: VoteLivePollAction;
+    /**
+     * Callback to remove the local user's ballot through `LivePoll`
+     * @returns void promise that will throw when the poll is not open
+     */
+    clearVote: ClearLivePollVoteAction;
+}
+
+/**
+ * Return type of `useLiveCounter` hook.
+ */
+export interface IUseLiveCounterResults {
+    /**
+     * The current value of the counter.
+     */
+    value: number;
+    /**
+     * The `LiveCounter` object, should you want to use it directly.
+     */
+    liveCounter: LiveCounter | undefined;
+    /**
+     * Callback to increment the counter through `LiveCounter`
+     * @param amount Optional. the positive amount to increment the counter by, defaults to `1`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    increment: IncrementLiveCounterAction;
+    /**
+     * Callback to decrement the counter through `LiveCounter`
+     * @param amount Optional. the positive amount to decrement the counter by, defaults to `1`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    decrement: DecrementLiveCounterAction;
+    /**
+     * Callback to reset the counter through `LiveCounter`
+     * @param value Optional. the value to reset the counter to, defaults to `0`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    reset: ResetLiveCounterAction;
+}
+
+/**
+ * Return type of `useLiveMap` hook.
+ */
+export interface IUseLiveMapResults<TValue = any> {
+    /**
+     * Stateful map of most recent values from `LiveMap`.
+     */
+    map: ReadonlyMap<string, TValue>;
+    /**
+     * Callback method to set/replace new entries in the `LiveMap`.
+     * @param key the key to set
+     * @param value the new value of the key
+     * @returns void promise that will throw when user does not have required roles
+     */
+    setEntry: SetLiveMapEntryAction<TValue>;
+    /**
+     * Callback method to delete an existing entry in the `LiveMap`.
+     * @param key the key to delete
+     * @returns void promise that will throw when user does not have required roles
+     */
+    deleteEntry: DeleteLiveMapEntryAction;
+    /**
+     * The `LiveMap` object, should you want to use it directly.
+     */
+    liveMap: LiveMap<string, TValue> | undefined;
+}
+
+/**
+ * Return type of `useLiveLock` hook.
+ */
+export interface IUseLiveLockResults {
+    /**
+     * The current holder of the lock, or undefined if the lock is free.
+     */
+    holder: ILiveLockHolder | undefined;
+    /**
+     * True if the lock is held by the local client.
+     */
+    isHeldLocally: boolean;
+    /**
+     * The `LiveLock` object, should you want to use it directly.
+     */
+    liveLock: LiveLock | undefined;
+    /**
+     * Callback to acquire the lock through `LiveLock`
+     * @returns promise that resolves to true if the local client holds the lock, and will throw when user does not have required roles
+     */
+    acquire: AcquireLiveLockAction;
+    /**
+     * Callback to release the lock held by the local client through `LiveLock`
+     * @returns void promise
+     */
+    release: ReleaseLiveLockAction;
+    /**
+     * Callback to release the lock held by any client through `LiveLock`
+     * @returns void promise that will throw when user does not have required roles
+     */
+    forceRelease: ReleaseLiveLockAction;
+}
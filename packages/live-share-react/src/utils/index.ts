@@ -1 +1,2 @@
 export * from "./type-check";
+export * from "./initial-data";
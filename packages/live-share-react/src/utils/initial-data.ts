@@ -0,0 +1,31 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { SharedMapInitialData } from "../types";
+import { isEntries, isJSON, isMap } from "./type-check";
+
+/**
+ * Helper method for converting different initial data props into a Map<string, TData> to insert into a `SharedMap` or `LiveMap`
+ * @template TData Optional typing for objects stored in the SharedMap. Default is `object` type.
+ * @param initialData a JS Map, entries array, or JSON object.
+ * @returns A Map<string, TData> with the entries provided.
+ */
+export function getInitialData<TData>(
+    initialData: SharedMapInitialData<TData>
+): Map<string, TData> {
+    if (isMap(initialData)) {
+        return initialData;
+    } else if (isEntries(initialData)) {
+        return new Map<string, TData>(initialData);
+    } else if (isJSON(initialData)) {
+        const values: (readonly [string, TData])[] = Object.keys(
+            initialData
+        ).map((key) => {
+            return [key, initialData[key]];
+        });
+        return new Map<string, TData>(values);
+    }
+    return new Map<string, TData>();
+}
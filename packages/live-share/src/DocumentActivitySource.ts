@@ -0,0 +1,48 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { IPresenceActivitySource } from "./interfaces";
+
+const ACTIVITY_EVENTS = [
+    "keydown",
+    "mousemove",
+    "pointerdown",
+    "touchstart",
+    "wheel",
+];
+
+/**
+ * Default `IPresenceActivitySource` implementation that listens to input and visibility change events
+ * of the current document.
+ *
+ * @remarks
+ * Does nothing when there is no document, such as when running in Node.js.
+ */
+export class DocumentActivitySource implements IPresenceActivitySource {
+    public onActivity(listener: () => void): () => void {
+        if (typeof window == "undefined") return () => {};
+        ACTIVITY_EVENTS.forEach((name) => {
+            window.addEventListener(name, listener, { passive: true });
+        });
+        return () => {
+            ACTIVITY_EVENTS.forEach((name) => {
+                window.removeEventListener(name, listener);
+            });
+        };
+    }
+
+    public onVisibilityChange(
+        listener: (visible: boolean) => void
+    ): () => void {
+        if (typeof document == "undefined") return () => {};
+        const onChange = () => {
+            listener(document.visibilityState != "hidden");
+        };
+        document.addEventListener("visibilitychange", onChange);
+        return () => {
+            document.removeEventListener("visibilitychange", onChange);
+        };
+    }
+}
@@ -0,0 +1,111 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { IEvent } from "@fluidframework/common-definitions";
+import { TypedEventEmitter } from "@fluidframework/common-utils";
+import { IInboundSignalMessage } from "@fluidframework/runtime-definitions";
+import { IContainerRuntimeSignaler, ILiveTransport } from "./interfaces";
+
+/**
+ * Events emitted by `FluidLiveTransport`.
+ */
+export interface IFluidLiveTransportEvents extends IEvent {
+    (event: "connected", listener: (clientId: string) => void): void;
+    (event: "disconnected", listener: () => void): void;
+    (
+        event: "signal",
+        listener: (message: IInboundSignalMessage, local: boolean) => void
+    ): void;
+}
+
+/**
+ * Connection state and events of a Fluid container runtime, which `IContainerRuntimeSignaler` doesn't include.
+ */
+type ContainerRuntimeConnection = IContainerRuntimeSignaler & {
+    readonly clientId?: string;
+    readonly connected?: boolean;
+    on(event: "connected", listener: (clientId: string) => void): unknown;
+    on(event: "disconnected", listener: () => void): unknown;
+    off(event: "connected", listener: (clientId: string) => void): unknown;
+    off(event: "disconnected", listener: () => void): unknown;
+};
+
+/**
+ * Implements a transport that sends signals through the runtime of a Fluid container.
+ *
+ * @remarks
+ * This is the transport used by `LiveShareRuntime` for the signals of `LiveObjectSynchronizer` when no other transport is set in
+ * `ILiveShareClientOptions.transport`.
+ * Signals are dropped until the container runtime is set, which happens once the first live object of the container is
+ * created.
+ */
+export class FluidLiveTransport
+    extends TypedEventEmitter<IFluidLiveTransportEvents>
+    implements ILiveTransport
+{
+    private _containerRuntime?: ContainerRuntimeConnection;
+
+    private readonly _signalListener = (
+        message: IInboundSignalMessage,
+        local: boolean
+    ) => {
+        this.emit("signal", message, local);
+    };
+    private readonly _connectedListener = (clientId: string) => {
+        this.emit("connected", clientId);
+    };
+    private readonly _disconnectedListener = () => {
+        this.emit("disconnected");
+    };
+
+    /**
+     * Runtime of the Fluid container that signals are sent through, or undefined if it hasn't been set yet.
+     */
+    public get containerRuntime(): IContainerRuntimeSignaler | undefined {
+        return this._containerRuntime;
+    }
+
+    public get clientId(): string | undefined {
+        return this._containerRuntime?.clientId;
+    }
+
+    public get connected(): boolean {
+        return !!this._containerRuntime?.connected;
+    }
+
+    /**
+     * Sets the runtime of the Fluid container that signals are sent through.
+     *
+     * @remarks
+     * Fluid may re-instantiate the container runtime, in which case listeners are moved to the new runtime. The `connected`
+     * event is emitted if the new runtime is connected with a different clientId.
+     * @param cRuntime runtime of the Fluid container.
+     */
+    public setContainerRuntime(cRuntime: IContainerRuntimeSignaler): void {
+        if (this._containerRuntime === cRuntime) return;
+        const previousClientId = this.clientId;
+        if (this._containerRuntime) {
+            this._containerRuntime.off("signal", this._signalListener);
+            this._containerRuntime.off("connected", this._connectedListener);
+            this._containerRuntime.off(
+                "disconnected",
+                this._disconnectedListener
+            );
+        }
+        this._containerRuntime = cRuntime as ContainerRuntimeConnection;
+        this._containerRuntime.on("signal", this._signalListener);
+        this._containerRuntime.on("connected", this._connectedListener);
+        this._containerRuntime.on("disconnected", this._disconnectedListener);
+
+        const clientId = this.clientId;
+        if (this.connected && clientId && clientId !== previousClientId) {
+            this.emit("connected", clientId);
+        }
+    }
+
+    public submitSignal(type: string, content: any): void {
+        this._containerRuntime?.submitSignal(type, content);
+    }
+}
@@ -0,0 +1,105 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+/**
+ * Easing function that maps the linear progress of a transition to the eased progress.
+ *
+ * @remarks
+ * Both the input and the output should be `0` at the start of the transition and `1` at the end.
+ */
+export type InterpolationEasing = (progress: number) => number;
+
+/**
+ * Built-in easing functions for use with `NumericInterpolator`.
+ */
+export const InterpolationEasings = {
+    /**
+     * Constant speed from start to end.
+     */
+    linear: ((progress) => progress) as InterpolationEasing,
+    /**
+     * Starts fast and slows down at the end.
+     */
+    easeOut: ((progress) =>
+        1 - Math.pow(1 - progress, 3)) as InterpolationEasing,
+    /**
+     * Starts slow, speeds up, and slows down at the end.
+     */
+    easeInOut: ((progress) =>
+        progress < 0.5
+            ? 4 * Math.pow(progress, 3)
+            : 1 - Math.pow(-2 * progress + 2, 3) / 2) as InterpolationEasing,
+};
+
+/**
+ * Interpolates between two values of a `LiveFollowMode` state.
+ *
+ * @template TData Type of the state value.
+ */
+export interface IFollowModeInterpolator<TData = any> {
+    /**
+     * Returns the value at the given progress of the transition from `from` to `to`.
+     * @param from Value at the start of the transition.
+     * @param to Value at the end of the transition.
+     * @param progress Linear progress of the transition, between `0` and `1`.
+     */
+    interpolate(from: TData, to: TData, progress: number): TData;
+}
+
+/**
+ * Default `IFollowModeInterpolator` implementation for numeric values.
+ *
+ * @remarks
+ * Numbers are interpolated directly, arrays element by element and objects property by property, so that
+ * vectors such as `[x, y, z]` or `{ x, y, zoom }` are interpolated as expected. Any other value, or values
+ * with a different shape on each side of the transition, jump to the `to` value.
+ */
+export class NumericInterpolator<TData = any>
+    implements IFollowModeInterpolator<TData>
+{
+    /**
+     * Creates a new `NumericInterpolator` instance.
+     * @param easing Optional. Easing function to apply to the progress. Defaults to `InterpolationEasings.linear`.
+     */
+    public constructor(
+        private readonly easing: InterpolationEasing = InterpolationEasings.linear
+    ) {}
+
+    public interpolate(from: TData, to: TData, progress: number): TData {
+        const eased = this.easing(Math.min(Math.max(progress, 0), 1));
+        return interpolateValue(from, to, eased);
+    }
+}
+
+function interpolateValue(from: any, to: any, progress: number): any {
+    if (typeof from == "number" && typeof to == "number") {
+        return from + (to - from) * progress;
+    }
+    if (Array.isArray(from) && Array.isArray(to)) {
+        if (from.length != to.length) return to;
+        return to.map((value, index) =>
+            interpolateValue(from[index], value, progress)
+        );
+    }
+    if (isPlainObject(from) && isPlainObject(to)) {
+        const result: Record<string, any> = {};
+        Object.entries(to).forEach(([key, value]) => {
+            result[key] =
+                key in from
+                    ? interpolateValue(from[key], value, progress)
+                    : value;
+        });
+        return result;
+    }
+    return to;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+    return (
+        typeof value == "object" &&
+        value !== null &&
+        Object.getPrototypeOf(value) === Object.prototype
+    );
+}
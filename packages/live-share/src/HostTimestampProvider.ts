@@ -3,7 +3,10 @@
  * Licensed under the Microsoft Live Share SDK License.
  */
 
-import { TimestampProvider } from "./TimestampProvider";
+import {
+    ITimestampProviderOptions,
+    TimestampProvider,
+} from "./TimestampProvider";
 import { ILiveShareHost, INtpTimeInfo } from "./interfaces";
 
 /**
@@ -15,9 +18,13 @@ export class HostTimestampProvider extends TimestampProvider {
     /**
      * Creates a new `DefaultTimestampProvider` instance.
      * @param host The current Live Share Host instance.
+     * @param options Optional. Options used to configure clock synchronization.
      */
-    public constructor(host: ILiveShareHost) {
-        super();
+    public constructor(
+        host: ILiveShareHost,
+        options?: ITimestampProviderOptions
+    ) {
+        super(options);
         this._host = host;
     }
 
@@ -0,0 +1,512 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { TypedEventEmitter } from "@fluidframework/common-utils";
+import { IInboundSignalMessage } from "@fluidframework/runtime-definitions";
+import { v4 as uuid } from "uuid";
+import {
+    IClientInfo,
+    IFluidContainerInfo,
+    IFluidTenantInfo,
+    ILiveShareHost,
+    ILiveTransport,
+    INtpTimeInfo,
+    ITimestampProvider,
+    UserMeetingRole,
+} from "./interfaces";
+import { ILocalLiveTransportEvents } from "./LocalLiveTransport";
+import { LiveShareRuntime } from "./LiveShareRuntime";
+import { TestLiveShareHost } from "./TestLiveShareHost";
+import { cloneValue } from "./internals";
+
+/**
+ * Options for creating an `InMemoryLiveShareSession`.
+ */
+export interface IInMemoryLiveShareSessionOptions {
+    /**
+     * Optional. Delay, in milliseconds, before a signal is delivered to other clients.
+     * Default value is `0`, which delivers signals synchronously.
+     */
+    readonly latency?: number;
+    /**
+     * Optional. Maximum random delay, in milliseconds, added to the `latency` of each signal.
+     * Default value is `0`. Signals can be delivered out of order when set.
+     */
+    readonly jitter?: number;
+    /**
+     * Optional. Probability, between `0` and `1`, that a signal is dropped for each receiving client.
+     * Default value is `0`.
+     */
+    readonly dropRate?: number;
+    /**
+     * Optional. Random number generator used for `jitter` and `dropRate`, returning values in the range [0, 1).
+     * Default value is `Math.random`. Provide a seeded generator to make tests deterministic.
+     */
+    readonly random?: () => number;
+}
+
+/**
+ * Options for adding a client to an `InMemoryLiveShareSession`.
+ */
+export interface IInMemoryLiveShareClientOptions {
+    /**
+     * Optional. Roles of the client.
+     * Default value is `[UserMeetingRole.organizer, UserMeetingRole.presenter, UserMeetingRole.attendee]`.
+     */
+    readonly roles?: UserMeetingRole[];
+    /**
+     * Optional. Offset, in milliseconds, added to the timestamps of the client.
+     * Default value is `0`.
+     */
+    readonly clockSkew?: number;
+    /**
+     * Optional. Display name of the client.
+     * Default value is the first characters of the clientId.
+     */
+    readonly displayName?: string;
+    /**
+     * Optional. Interval, in milliseconds, of the background updates sent by the client.
+     * Default value is `10000`.
+     */
+    readonly updateInterval?: number;
+}
+
+interface IPendingSignal {
+    deliverAt: number;
+    target: InMemoryLiveTransport;
+    targetClientId: string;
+    message: IInboundSignalMessage;
+    timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Simulates multiple Live Share clients sharing an in-memory relay, for testing purposes.
+ *
+ * @remarks
+ * Each client has its own `LiveShareRuntime`, which sends signals through the session instead of a Fluid container.
+ * Pass `client.runtime` to `getLiveDataObjectClass()` to create live objects for a client. The session can delay,
+ * reorder, and drop signals, and each client can be disconnected or have its clock skewed, to test how live objects
+ * converge. Use `flush()` to deliver pending signals deterministically instead of waiting for them.
+ */
+export class InMemoryLiveShareSession {
+    private readonly _clients: InMemoryLiveShareClient[] = [];
+    private _pending: IPendingSignal[] = [];
+    private readonly _random: () => number;
+
+    /**
+     * Delay, in milliseconds, before a signal is delivered to other clients.
+     */
+    public latency: number;
+
+    /**
+     * Maximum random delay, in milliseconds, added to the `latency` of each signal.
+     */
+    public jitter: number;
+
+    /**
+     * Probability, between `0` and `1`, that a signal is dropped for each receiving client.
+     */
+    public dropRate: number;
+
+    /**
+     * Creates a new `InMemoryLiveShareSession` instance.
+     * @param options Optional. Options for the session.
+     */
+    constructor(options?: IInMemoryLiveShareSessionOptions) {
+        this.latency = options?.latency ?? 0;
+        this.jitter = options?.jitter ?? 0;
+        this.dropRate = options?.dropRate ?? 0;
+        this._random = options?.random ?? Math.random;
+    }
+
+    /**
+     * Clients that were added to the session.
+     */
+    public get clients(): InMemoryLiveShareClient[] {
+        return this._clients.slice();
+    }
+
+    /**
+     * Number of signals that have yet to be delivered.
+     */
+    public get pendingSignalCount(): number {
+        return this._pending.length;
+    }
+
+    /**
+     * Adds a connected client to the session and starts its runtime.
+     * @param options Optional. Options for the client.
+     * @returns the client that was added.
+     */
+    public async addClient(
+        options?: IInMemoryLiveShareClientOptions
+    ): Promise<InMemoryLiveShareClient> {
+        const client = new InMemoryLiveShareClient(this, options);
+        this._clients.push(client);
+        await client.runtime.start();
+        return client;
+    }
+
+    /**
+     * Immediately delivers all pending signals, in the order they were scheduled to be delivered.
+     *
+     * @remarks
+     * Signals sent while flushing are delivered as well.
+     */
+    public flush(): void {
+        while (this._pending.length > 0) {
+            const pending = this._pending[0];
+            clearTimeout(pending.timer);
+            this.deliver(pending);
+        }
+    }
+
+    /**
+     * Stops the runtime of each client, disconnects them, and discards pending signals.
+     */
+    public dispose(): void {
+        this._pending.forEach((pending) => clearTimeout(pending.timer));
+        this._pending = [];
+        this._clients.forEach((client) => client.dispose());
+        this._clients.splice(0, this._clients.length);
+    }
+
+    /**
+     * @hidden
+     * Relays a signal sent by a client to the other connected clients.
+     */
+    public relaySignal(
+        sender: InMemoryLiveTransport,
+        message: IInboundSignalMessage
+    ): void {
+        this._clients.forEach((client) => {
+            const target = client.transport;
+            if (target === sender || !target.clientId) return;
+            if (this.dropRate > 0 && this._random() < this.dropRate) return;
+
+            const delay =
+                this.latency +
+                (this.jitter > 0 ? this._random() * this.jitter : 0);
+            const pending: IPendingSignal = {
+                deliverAt: Date.now() + delay,
+                target,
+                targetClientId: target.clientId,
+                message: cloneValue(message),
+            };
+            if (delay <= 0) {
+                target.receiveSignal(pending.message, false);
+                return;
+            }
+            pending.timer = setTimeout(() => this.deliver(pending), delay);
+            const index = this._pending.findIndex(
+                (other) => other.deliverAt > pending.deliverAt
+            );
+            this._pending.splice(
+                index >= 0 ? index : this._pending.length,
+                0,
+                pending
+            );
+        });
+    }
+
+    /**
+     * @hidden
+     * Gets the client that has, or had, a given clientId.
+     */
+    public getClient(clientId: string): InMemoryLiveShareClient | undefined {
+        return this._clients.find((client) =>
+            client.clientIds.includes(clientId)
+        );
+    }
+
+    private deliver(pending: IPendingSignal) {
+        const index = this._pending.indexOf(pending);
+        if (index < 0) return;
+        this._pending.splice(index, 1);
+        // Signals aren't received by connections made after they were sent
+        if (pending.target.clientId !== pending.targetClientId) return;
+        pending.target.receiveSignal(pending.message, false);
+    }
+}
+
+/**
+ * Client simulated by an `InMemoryLiveShareSession`.
+ */
+export class InMemoryLiveShareClient {
+    private readonly _transport: InMemoryLiveTransport;
+    private readonly _timestampProvider: SkewedTimestampProvider;
+    private readonly _runtime: LiveShareRuntime;
+    private readonly _clientIds: string[] = [];
+    private _roles: UserMeetingRole[];
+
+    /**
+     * Display name of the client.
+     */
+    public readonly displayName?: string;
+
+    /**
+     * @hidden
+     * Use `InMemoryLiveShareSession.addClient()` to create clients.
+     */
+    constructor(
+        session: InMemoryLiveShareSession,
+        options?: IInMemoryLiveShareClientOptions
+    ) {
+        this._roles = options?.roles ?? [
+            UserMeetingRole.organizer,
+            UserMeetingRole.presenter,
+            UserMeetingRole.attendee,
+        ];
+        this.displayName = options?.displayName;
+        this._transport = new InMemoryLiveTransport(session);
+        this._transport.on("connected", (clientId) => {
+            this._clientIds.push(clientId);
+        });
+        this._transport.connect();
+        this._timestampProvider = new SkewedTimestampProvider(
+            options?.clockSkew ?? 0
+        );
+        this._runtime = new LiveShareRuntime(
+            new InMemorySessionHost(session, this._timestampProvider),
+            {
+                timestampProvider: this._timestampProvider,
+                transport: this._transport,
+            },
+            false
+        );
+        this._runtime.objectManager.updateInterval =
+            options?.updateInterval ?? 10000;
+    }
+
+    /**
+     * Runtime of the client. Pass it to `getLiveDataObjectClass()` to create live objects for the client.
+     */
+    public get runtime(): LiveShareRuntime {
+        return this._runtime;
+    }
+
+    /**
+     * Transport used by the client to send and receive signals.
+     */
+    public get transport(): InMemoryLiveTransport {
+        return this._transport;
+    }
+
+    /**
+     * Current clientId of the client, or undefined while disconnected.
+     */
+    public get clientId(): string | undefined {
+        return this._transport.clientId;
+    }
+
+    /**
+     * Every clientId the client has been assigned, from oldest to newest.
+     */
+    public get clientIds(): string[] {
+        return this._clientIds.slice();
+    }
+
+    /**
+     * True if the client is connected to the session.
+     */
+    public get connected(): boolean {
+        return this._transport.connected;
+    }
+
+    /**
+     * Roles of the client.
+     */
+    public get roles(): UserMeetingRole[] {
+        return this._roles;
+    }
+
+    public set roles(value: UserMeetingRole[]) {
+        this._roles = value;
+    }
+
+    /**
+     * Offset, in milliseconds, added to the timestamps of the client.
+     */
+    public get clockSkew(): number {
+        return this._timestampProvider.clockSkew;
+    }
+
+    public set clockSkew(value: number) {
+        this._timestampProvider.clockSkew = value;
+    }
+
+    /**
+     * Reconnects the client with a new clientId, if it isn't already connected.
+     */
+    public connect(): void {
+        this._transport.connect();
+    }
+
+    /**
+     * Disconnects the client. Signals sent to the client while disconnected are never received.
+     */
+    public disconnect(): void {
+        this._transport.disconnect();
+    }
+
+    /**
+     * @hidden
+     */
+    public dispose(): void {
+        try {
+            this._runtime.stop();
+        } catch {
+            // Runtime wasn't started
+        }
+        this._transport.disconnect();
+    }
+}
+
+/**
+ * Transport of a client simulated by an `InMemoryLiveShareSession`.
+ */
+export class InMemoryLiveTransport
+    extends TypedEventEmitter<ILocalLiveTransportEvents>
+    implements ILiveTransport
+{
+    private _clientId?: string;
+
+    /**
+     * @hidden
+     */
+    constructor(private readonly _session: InMemoryLiveShareSession) {
+        super();
+    }
+
+    public get clientId(): string | undefined {
+        return this._clientId;
+    }
+
+    public get connected(): boolean {
+        return this._clientId !== undefined;
+    }
+
+    /**
+     * Connects the transport with a new clientId, if it isn't already connected.
+     */
+    public connect(): void {
+        if (this.connected) return;
+        const clientId = uuid();
+        this._clientId = clientId;
+        this.emit("connected", clientId);
+    }
+
+    /**
+     * Disconnects the transport.
+     */
+    public disconnect(): void {
+        if (!this.connected) return;
+        this._clientId = undefined;
+        this.emit("disconnected");
+    }
+
+    public submitSignal(type: string, content: any): void {
+        const clientId = this._clientId;
+        if (!clientId) return;
+        const message: IInboundSignalMessage = {
+            clientId,
+            type,
+            content: cloneValue(content),
+        };
+        this.receiveSignal(message, true);
+        this._session.relaySignal(this, message);
+    }
+
+    /**
+     * @hidden
+     */
+    public receiveSignal(message: IInboundSignalMessage, local: boolean) {
+        if (!this.connected) return;
+        this.emit("signal", message, local);
+    }
+}
+
+/**
+ * Timestamp provider for a client with a skewed clock.
+ */
+class SkewedTimestampProvider implements ITimestampProvider {
+    private _lastTimeSent = 0;
+
+    constructor(public clockSkew: number) {}
+
+    public getTimestamp(): number {
+        // Timestamps never go back in time, even if the skew is reduced
+        return (this._lastTimeSent = Math.max(
+            new Date().getTime() + this.clockSkew,
+            this._lastTimeSent + 1
+        ));
+    }
+
+    public getMaxTimestampError(): number {
+        return 0;
+    }
+}
+
+/**
+ * Host for a client simulated by an `InMemoryLiveShareSession`, which knows the roles of every client in the session.
+ */
+class InMemorySessionHost implements ILiveShareHost {
+    private readonly _testHost = TestLiveShareHost.create(
+        () => undefined,
+        () => {}
+    );
+
+    constructor(
+        private readonly _session: InMemoryLiveShareSession,
+        private readonly _timestampProvider: ITimestampProvider
+    ) {}
+
+    public getFluidTenantInfo(): Promise<IFluidTenantInfo> {
+        return this._testHost.getFluidTenantInfo();
+    }
+
+    public getFluidToken(containerId?: string): Promise<string> {
+        return this._testHost.getFluidToken(containerId);
+    }
+
+    public getFluidContainerId(): Promise<IFluidContainerInfo> {
+        return this._testHost.getFluidContainerId();
+    }
+
+    public setFluidContainerId(
+        containerId: string
+    ): Promise<IFluidContainerInfo> {
+        return this._testHost.setFluidContainerId(containerId);
+    }
+
+    public getNtpTime(): Promise<INtpTimeInfo> {
+        const now = new Date(this._timestampProvider.getTimestamp());
+        return Promise.resolve({
+            ntpTime: now.toUTCString(),
+            ntpTimeInUTC: now.getTime(),
+        });
+    }
+
+    public registerClientId(clientId: string): Promise<UserMeetingRole[]> {
+        return this.getClientRoles(clientId);
+    }
+
+    public getClientRoles(clientId: string): Promise<UserMeetingRole[]> {
+        return Promise.resolve(this._session.getClient(clientId)?.roles ?? []);
+    }
+
+    public async getClientInfo(
+        clientId: string
+    ): Promise<IClientInfo | undefined> {
+        const client = this._session.getClient(clientId);
+        if (!client) return undefined;
+        return {
+            userId: client.clientIds[0],
+            roles: client.roles,
+            displayName:
+                client.displayName ?? client.clientIds[0].substring(0, 4),
+        };
+    }
+}
@@ -0,0 +1,486 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { DataObjectFactory } from "@fluidframework/aqueduct";
+import { v4 as uuid } from "uuid";
+import { IEvent } from "@fluidframework/common-definitions";
+import {
+    IClientTimestamp,
+    ILiveEvent,
+    LiveDataObjectInitializeState,
+    UserMeetingRole,
+} from "./interfaces";
+import { cloneValue, TelemetryEvents } from "./internals";
+import {
+    LiveDataObjectInitializeNotNeededError,
+    LiveDataObjectNotInitializedError,
+    UnexpectedError,
+} from "./errors";
+import { LiveTelemetryLogger } from "./LiveTelemetryLogger";
+import { LiveEvent } from "./LiveEvent";
+import { LiveObjectSynchronizer } from "./LiveObjectSynchronizer";
+import { DynamicObjectRegistry } from "./DynamicObjectRegistry";
+import { LiveDataObject } from "./LiveDataObject";
+
+/**
+ * Events supported by `LiveCounter` object.
+ */
+export enum LiveCounterEvents {
+    /**
+     * The value of the counter has changed.
+     */
+    valueChanged = "valueChanged",
+}
+
+/**
+ * Event typings for `LiveCounter` class.
+ */
+export interface ILiveCounterEvents extends IEvent {
+    /**
+     * An `LiveCounter` objects value has changed.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.value The current value.
+     * @param listener.local If true, a local change occurred.
+     * @param listener.clientId clientId of sender.
+     */
+    (
+        event: "valueChanged",
+        listener: (value: number, local: boolean, clientId: string) => void
+    ): any;
+}
+
+/**
+ * Value the counter was last reset to.
+ */
+interface ILiveCounterReset extends IClientTimestamp {
+    value: number;
+}
+
+/**
+ * Total amounts a client has incremented and decremented the counter by since the last reset.
+ */
+interface ILiveCounterCount {
+    increments: number;
+    decrements: number;
+}
+
+/**
+ * Event data sent by `LiveCounter`. Each client only sends its own totals.
+ */
+interface ILiveCounterEventData extends ILiveCounterCount {
+    /**
+     * Random id of the sender's `LiveCounter` instance. Unlike the clientId, it's kept when the sender
+     * reconnects, so that its totals aren't counted twice.
+     */
+    counterId: string;
+    /**
+     * The reset the totals were counted from.
+     */
+    reset: ILiveCounterReset;
+}
+
+/**
+ * Live fluid object that synchronizes a number that users can increment and decrement at the same time.
+ *
+ * @remarks
+ * Unlike calling `LiveState.set(state + 1)`, where simultaneous changes overwrite each other, every
+ * increment and decrement is kept. Each client only ever adds to and sends its own totals, and the value of
+ * the counter is the sum of the latest totals received from each client. Clients that join only receive
+ * the totals of the clients that are still in the session.
+ *
+ * Resetting the counter starts over from a new value. Increments and decrements made concurrently with a reset
+ * may be discarded by it.
+ */
+export class LiveCounter extends LiveDataObject<{
+    Events: ILiveCounterEvents;
+}> {
+    private _logger?: LiveTelemetryLogger;
+    private _resetAllowedRoles: UserMeetingRole[] = [];
+    private _counterId = uuid();
+    private _reset: ILiveCounterReset = {
+        value: 0,
+        clientId: "",
+        timestamp: 0,
+    };
+    private _count: ILiveCounterCount = { increments: 0, decrements: 0 };
+    private _allowedClientIds = new Set<string>();
+    private _lastValue = 0;
+
+    private _synchronizer?: LiveObjectSynchronizer<ILiveCounterEventData>;
+
+    /**
+     * The objects fluid type/name.
+     */
+    public static readonly TypeName = `@microsoft/live-share:LiveCounter`;
+
+    /**
+     * The objects fluid type factory.
+     */
+    public static readonly factory = new DataObjectFactory(
+        LiveCounter.TypeName,
+        LiveCounter,
+        [],
+        {}
+    );
+
+    /**
+     * The current value of the counter.
+     */
+    public get value(): number {
+        const counts = new Map<string, ILiveCounterCount>([
+            [this._counterId, this._count],
+        ]);
+        this._synchronizer?.getEvents()?.forEach(({ clientId, data }) => {
+            if (
+                !this._allowedClientIds.has(clientId) ||
+                !LiveCounter.isCounterEventData(data) ||
+                !LiveCounter.isSameReset(this._reset, data.reset)
+            ) {
+                return;
+            }
+            // Each client only ever adds to its own totals, so the highest totals are the most recent.
+            // Clients that reconnected are listed under each of their clientIds.
+            const existing = counts.get(data.counterId);
+            counts.set(data.counterId, {
+                increments: Math.max(
+                    existing?.increments ?? 0,
+                    data.increments
+                ),
+                decrements: Math.max(
+                    existing?.decrements ?? 0,
+                    data.decrements
+                ),
+            });
+        });
+        return [...counts.values()].reduce(
+            (value, count) => value + count.increments - count.decrements,
+            this._reset.value
+        );
+    }
+
+    /**
+     * Initialize the object to begin sending/receiving counter changes through this DDS.
+     *
+     * @remarks
+     * Every client should pass the same `initialValue`, which is used until the counter is first changed or reset.
+     *
+     * @param initialValue Optional. Initial value of the counter. Defaults to `0`.
+     * @param allowedRoles Optional. List of roles allowed to increment and decrement the counter.
+     * @param resetAllowedRoles Optional. List of roles allowed to reset the counter. Users also need one of the
+     * `allowedRoles` to reset it. Defaults to `allowedRoles`.
+     *
+     * @returns a void promise that resolves once complete
+     *
+     * @throws error when `.initialize()` has already been called for this class instance.
+     * @throws fatal error when `.initialize()` has already been called for an object of same id but with a different class instance.
+     * This is most common when using dynamic objects through Fluid.
+     */
+    public async initialize(
+        initialValue = 0,
+        allowedRoles?: UserMeetingRole[],
+        resetAllowedRoles?: UserMeetingRole[]
+    ): Promise<void> {
+        LiveDataObjectInitializeNotNeededError.assert(
+            "LiveCounter:initialize",
+            this.initializeState
+        );
+        // This error should not happen due to prior assertion, but if it is somehow defined at this point, errors will occur.
+        UnexpectedError.assert(
+            !this._synchronizer,
+            "LiveCounter:initialize",
+            "_synchronizer already set, which implies there was an error during initialization that should not occur."
+        );
+        // Update initialize state as pending
+        this.initializeState = LiveDataObjectInitializeState.pending;
+        this._logger = new LiveTelemetryLogger(this.runtime, this.liveRuntime);
+
+        // Set initial value
+        this._reset = {
+            value: initialValue,
+            clientId: "", // start as empty because the initial value is not user defined
+            timestamp: 0,
+        };
+        this._count = { increments: 0, decrements: 0 };
+        this._lastValue = initialValue;
+
+        // Save off allowed roles
+        this._allowedRoles = allowedRoles || [];
+        this._resetAllowedRoles = resetAllowedRoles || this._allowedRoles;
+
+        // Create object synchronizer
+        this._synchronizer = new LiveObjectSynchronizer<ILiveCounterEventData>(
+            this.id,
+            this.runtime,
+            this.liveRuntime
+        );
+        try {
+            await this._synchronizer.start(
+                this.getLocalData(),
+                async (evt, sender, local) => {
+                    if (!local) {
+                        await this.onReceivedCounterEvent(evt, sender);
+                    }
+                    // The local client's totals are saved separately, so remote changes never replace them.
+                    return false;
+                },
+                async (connecting) => {
+                    if (connecting) return true;
+                    // If user has eligible roles, allow the update to be sent
+                    try {
+                        return await this.verifyLocalUserRoles();
+                    } catch {
+                        return false;
+                    }
+                }
+            );
+        } catch (error: unknown) {
+            // Update initialize state as fatal error
+            this.initializeState = LiveDataObjectInitializeState.fatalError;
+            throw error;
+        }
+
+        // Update initialize state as succeeded
+        this.initializeState = LiveDataObjectInitializeState.succeeded;
+    }
+
+    /**
+     * Disposes of the object when its container is disposed of.
+     */
+    public dispose(): void {
+        super.dispose();
+        if (this._synchronizer) {
+            this._synchronizer.dispose();
+        }
+    }
+
+    /**
+     * Increments the counter.
+     *
+     * @param amount Optional. Positive amount to increment the counter by. Defaults to `1`.
+     *
+     * @returns a void promise that resolves once the change has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if `amount` is not a positive number.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async increment(amount = 1): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveCounter:increment",
+            "increment",
+            this.initializeState
+        );
+        LiveCounter.assertAmount("LiveCounter:increment", amount);
+        await this.sendCount(amount, 0);
+    }
+
+    /**
+     * Decrements the counter.
+     *
+     * @param amount Optional. Positive amount to decrement the counter by. Defaults to `1`.
+     *
+     * @returns a void promise that resolves once the change has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if `amount` is not a positive number.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async decrement(amount = 1): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveCounter:decrement",
+            "decrement",
+            this.initializeState
+        );
+        LiveCounter.assertAmount("LiveCounter:decrement", amount);
+        await this.sendCount(0, amount);
+    }
+
+    /**
+     * Resets the counter to a new value.
+     *
+     * @remarks
+     * Discards the increments and decrements of every client made before the reset.
+     *
+     * @param value Optional. Value to reset the counter to. Defaults to `0`.
+     *
+     * @returns a void promise that resolves once the change has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` and `resetAllowedRoles`
+     * props in `.initialize()`.
+     */
+    public async reset(value = 0): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveCounter:reset",
+            "reset",
+            this.initializeState
+        );
+        const clientId = await this.waitUntilConnected();
+        await this.assertLocalUserCanSend("LiveCounter:reset");
+        const allowed = await this.liveRuntime.verifyRolesAllowed(
+            clientId,
+            this._resetAllowedRoles
+        );
+        if (!allowed) {
+            throw new Error(
+                `LiveCounter:reset - The local user doesn't have a role of ${JSON.stringify(
+                    this._resetAllowedRoles
+                )}.`
+            );
+        }
+        // A reset should always win over the reset it replaces, even if the clock of the client that
+        // sent that reset is ahead of ours.
+        this.applyReset({
+            value,
+            clientId,
+            timestamp: Math.max(
+                this.liveRuntime.getTimestamp(),
+                this._reset.timestamp + 1
+            ),
+        });
+        this.updateValue(true, clientId);
+        await this._synchronizer!.sendEvent<ILiveCounterEventData>(
+            this.getLocalData()
+        );
+    }
+
+    private async sendCount(increments: number, decrements: number) {
+        const clientId = await this.waitUntilConnected();
+        await this.assertLocalUserCanSend(
+            increments ? "LiveCounter:increment" : "LiveCounter:decrement"
+        );
+        // Update local value before sending, so that concurrent changes made by the local client build on each other
+        this._count = {
+            increments: this._count.increments + increments,
+            decrements: this._count.decrements + decrements,
+        };
+        this.updateValue(true, clientId);
+        await this._synchronizer!.sendEvent<ILiveCounterEventData>(
+            this.getLocalData()
+        );
+    }
+
+    private getLocalData(): ILiveCounterEventData {
+        return cloneValue({
+            counterId: this._counterId,
+            reset: this._reset,
+            ...this._count,
+        });
+    }
+
+    private async assertLocalUserCanSend(prefix: string): Promise<void> {
+        if (await this.verifyLocalUserRoles()) return;
+        throw new Error(
+            `${prefix} - The local user doesn't have a role of ${JSON.stringify(
+                this._allowedRoles
+            )}.`
+        );
+    }
+
+    private async onReceivedCounterEvent(
+        evt: ILiveEvent<ILiveCounterEventData>,
+        sender: string
+    ): Promise<void> {
+        try {
+            // Other clients can't change the local client's totals
+            if (
+                !LiveCounter.isCounterEventData(evt.data) ||
+                evt.data.counterId === this._counterId
+            ) {
+                return;
+            }
+            const allowed = await this.liveRuntime.verifyRolesAllowed(
+                sender,
+                this._allowedRoles
+            );
+            if (!allowed) return;
+            const reset = evt.data.reset;
+            const isNewerReset =
+                !LiveCounter.isSameReset(this._reset, reset) &&
+                LiveEvent.isNewer(this._reset, reset);
+            if (isNewerReset) {
+                // Clients send the reset they count from, so check the roles of the client that reset the counter
+                const resetAllowed = await this.liveRuntime.verifyRolesAllowed(
+                    reset.clientId,
+                    this._resetAllowedRoles
+                );
+                if (!resetAllowed) return;
+            }
+            this._allowedClientIds.add(sender);
+            if (isNewerReset) {
+                this.applyReset(reset);
+                // Save the reset so that it's sent to new & reconnecting clients
+                this._synchronizer?.updateLocalState(this.getLocalData());
+            }
+            this.updateValue(false, evt.clientId);
+        } catch (err) {
+            this._logger?.sendErrorEvent(
+                TelemetryEvents.LiveCounter.RoleVerificationError,
+                err
+            );
+        }
+    }
+
+    /**
+     * Starts counting from a new reset, discarding the local client's totals.
+     */
+    private applyReset(reset: ILiveCounterReset) {
+        this._reset = cloneValue(reset);
+        this._count = { increments: 0, decrements: 0 };
+    }
+
+    private updateValue(local: boolean, clientId: string) {
+        const previousValue = this._lastValue;
+        const value = this.value;
+        if (value === previousValue) return;
+        this._lastValue = value;
+        this.emit(LiveCounterEvents.valueChanged, value, local, clientId);
+        this._logger?.sendTelemetryEvent(
+            TelemetryEvents.LiveCounter.ValueChanged,
+            null,
+            {
+                local,
+                oldValue: previousValue,
+                newValue: value,
+            }
+        );
+    }
+
+    private static isSameReset(
+        current: ILiveCounterReset,
+        received: ILiveCounterReset
+    ): boolean {
+        return (
+            current.clientId === received.clientId &&
+            current.timestamp === received.timestamp
+        );
+    }
+
+    private static isCounterEventData(
+        data: any
+    ): data is ILiveCounterEventData {
+        return (
+            typeof data?.counterId === "string" &&
+            typeof data.reset?.value === "number" &&
+            typeof data.reset.timestamp === "number" &&
+            typeof data.increments === "number" &&
+            typeof data.decrements === "number"
+        );
+    }
+
+    private static assertAmount(prefix: string, amount: number) {
+        if (!Number.isFinite(amount) || amount <= 0) {
+            throw new Error(
+                `${prefix}: amount ${amount} must be a positive number`
+            );
+        }
+    }
+}
+
+/**
+ * Register `LiveCounter` as an available `LoadableObjectClass` for use in packages that support dynamic object loading, such as `@microsoft/live-share-turbo`.
+ */
+DynamicObjectRegistry.registerObjectClass(LiveCounter, LiveCounter.TypeName);
@@ -8,6 +8,7 @@ import { assert } from "@fluidframework/common-utils";
 import {
     IClientInfo,
     LiveDataObjectInitializeState,
+    LivePermissionPredicate,
     UserMeetingRole,
 } from "./interfaces";
 import { LiveShareReportIssueLink, waitUntilConnected } from "./internals";
@@ -87,12 +88,36 @@ export abstract class LiveDataObject<
         return this.liveRuntime.getClientInfo(clientId);
     }
 
+    /**
+     * Registers a predicate deciding whether an operation on this object is allowed.
+     *
+     * @remarks
+     * The predicate is evaluated in addition to the allowed roles of the object, both when the local client sends the
+     * operation and when it is received from another client.
+     * @param operation Name of the operation, such as the name of an event or `"pause"` for `LiveTimer.pause()`.
+     * @param predicate Callback returning true if the operation is allowed.
+     */
+    public setPermission(
+        operation: string,
+        predicate: LivePermissionPredicate
+    ) {
+        this.liveRuntime.setPermission(this.id, operation, predicate);
+    }
+
+    /**
+     * Removes the predicate registered for an operation on this object.
+     * @param operation Name of the operation.
+     */
+    public removePermission(operation: string) {
+        this.liveRuntime.removePermission(this.id, operation);
+    }
+
     /**
      * Waits until connected and gets the most recent clientId
      * @returns clientId
      */
     protected waitUntilConnected(): Promise<string> {
-        return waitUntilConnected(this.runtime);
+        return waitUntilConnected(this.liveRuntime.transport ?? this.runtime);
     }
 
     /**
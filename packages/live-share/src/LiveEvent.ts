@@ -9,13 +9,17 @@ import {
     UserMeetingRole,
     IClientTimestamp,
     ILiveEvent,
+    ILiveEventTargets,
     LiveDataObjectInitializeState,
+    LiveDataValidator,
 } from "./interfaces";
 import { LiveEventScope } from "./LiveEventScope";
 import { LiveEventTarget } from "./LiveEventTarget";
 import { DynamicObjectRegistry } from "./DynamicObjectRegistry";
 import { LiveDataObject } from "./LiveDataObject";
-import { cloneValue } from "./internals";
+import { cloneValue, isValidLiveData, TelemetryEvents } from "./internals";
+import { LiveTelemetryLogger } from "./LiveTelemetryLogger";
+import { LivePresence } from "./LivePresence";
 import {
     LiveDataObjectInitializeNotNeededError,
     LiveDataObjectNotInitializedError,
@@ -30,6 +34,10 @@ export enum LiveEventEvents {
      * An event has been sent or received.
      */
     received = "received",
+    /**
+     * An event received from another client was rejected by the validator passed to `initialize()`.
+     */
+    invalidEvent = "invalidEvent",
 }
 
 /**
@@ -45,6 +53,7 @@ export interface ILiveEventEvents<TEvent> extends IEvent {
      * @param listener.local If true the `evt` is an event that was sent.
      * @param listener.clientId clientId of sender.
      * @param listener.timestamp timestamp the time message was sent, according to `LiveShareRuntime.getTimestamp()`
+     * @param listener.target Users and clients the event was sent to using `sendTo()`, or undefined if it was broadcast.
      */
     (
         event: "received",
@@ -52,9 +61,21 @@ export interface ILiveEventEvents<TEvent> extends IEvent {
             evt: TEvent,
             local: boolean,
             clientId: string,
-            timestamp: number
+            timestamp: number,
+            target: ILiveEventTargets | undefined
         ) => void
     ): any;
+    /**
+     * An event received from another client was rejected by the validator passed to `initialize()`.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.evt The event that was rejected.
+     * @param listener.clientId clientId of sender.
+     */
+    (
+        event: "invalidEvent",
+        listener: (evt: unknown, clientId: string) => void
+    ): any;
 }
 
 /**
@@ -71,7 +92,10 @@ export interface ILiveEventEvents<TEvent> extends IEvent {
 export class LiveEvent<TEvent = any> extends LiveDataObject<{
     Events: ILiveEventEvents<TEvent>;
 }> {
+    private _logger?: LiveTelemetryLogger;
     private _eventTarget?: LiveEventTarget<TEvent>;
+    private _presence?: LivePresence<any>;
+    private _receiveQueue?: Promise<void>;
 
     /**
      * The objects fluid type/name.
@@ -96,19 +120,30 @@ export class LiveEvent<TEvent = any> extends LiveDataObject<{
      * `received` events will not be emitted until after this function is called.
      *
      * @param allowedRoles Optional. List of roles allowed to send events.
+     * @param validator Optional. Validator for events received from other clients. Rejected events are not emitted through the
+     * `received` event, and are emitted through the `invalidEvent` event instead.
+     * @param presence Optional. Presence object used to map the local client to its user when receiving events sent to
+     * `userIds` with `sendTo()`. If omitted, or if the local client isn't in presence yet, the user is looked up through
+     * the host.
      *
      * @returns a void promise that resolves once complete.
      *
      * @throws error when `.initialize()` has already been called for this class instance.
      */
-    public initialize(allowedRoles?: UserMeetingRole[]): Promise<void> {
+    public initialize(
+        allowedRoles?: UserMeetingRole[],
+        validator?: LiveDataValidator<TEvent>,
+        presence?: LivePresence<any>
+    ): Promise<void> {
         LiveDataObjectInitializeNotNeededError.assert(
             "LiveEvent:initialize",
             this.initializeState
         );
         this.initializeState = LiveDataObjectInitializeState.pending;
+        this._logger = new LiveTelemetryLogger(this.runtime, this.liveRuntime);
 
         this._allowedRoles = allowedRoles ?? [];
+        this._presence = presence;
 
         const scope = new LiveEventScope(
             this.runtime,
@@ -119,13 +154,31 @@ export class LiveEvent<TEvent = any> extends LiveDataObject<{
             scope,
             "event",
             (evt, local) => {
-                this.emit(
-                    LiveEventEvents.received,
-                    cloneValue(evt.data),
-                    local,
-                    evt.clientId,
-                    evt.timestamp
-                );
+                if (local || (!evt.target && !this._receiveQueue)) {
+                    this.eventReceived(evt, local, validator);
+                    return;
+                }
+                // Remote events are queued while targets are being checked, so that they are emitted in the order they
+                // were received.
+                const queue = (this._receiveQueue ?? Promise.resolve())
+                    .then(async () => {
+                        // Ignore targeted events that were not sent to the local client
+                        if (evt.target && !(await this.isTargeted(evt.target)))
+                            return;
+                        this.eventReceived(evt, local, validator);
+                    })
+                    .catch((err) => {
+                        this._logger?.sendErrorEvent(
+                            TelemetryEvents.LiveEvent.GetClientInfoError,
+                            err
+                        );
+                    });
+                this._receiveQueue = queue;
+                queue.then(() => {
+                    if (this._receiveQueue === queue) {
+                        this._receiveQueue = undefined;
+                    }
+                });
             }
         );
 
@@ -162,6 +215,85 @@ export class LiveEvent<TEvent = any> extends LiveDataObject<{
         return await this._eventTarget.sendEvent(evt);
     }
 
+    /**
+     * Sends an event to specific users or clients.
+     *
+     * @remarks
+     * The event is only emitted through the `received` event of the targeted clients and of the local client. A client is
+     * targeted when its clientId is in `target.clientIds`, or when the userId of its user is in `target.userIds`. Targeting
+     * is enforced by the receiving clients, so targeted events should not be used to share secrets.
+     *
+     * @param target Users and clients to send the event to.
+     * @param evt Event to send.
+     *
+     * @returns A promise with the full event object that was sent, including the timestamp of when the event was sent and the clientId if known.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async sendTo(
+        target: ILiveEventTargets,
+        evt: TEvent
+    ): Promise<ILiveEvent<TEvent>> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveEvent:sendTo",
+            "sendTo",
+            this.initializeState
+        );
+        UnexpectedError.assert(
+            !!this._eventTarget,
+            "LiveEvent:sendTo",
+            "`this._eventTarget` is undefined, implying there was an error during initialization that should not occur."
+        );
+
+        return await this._eventTarget.sendEvent(evt, {
+            userIds: target.userIds ?? [],
+            clientIds: target.clientIds ?? [],
+        });
+    }
+
+    private eventReceived(
+        evt: ILiveEvent<TEvent>,
+        local: boolean,
+        validator: LiveDataValidator<TEvent> | undefined
+    ) {
+        if (!local && !isValidLiveData(evt.data, validator)) {
+            this.emit(
+                LiveEventEvents.invalidEvent,
+                cloneValue(evt.data),
+                evt.clientId
+            );
+            this._logger?.sendErrorEvent(
+                TelemetryEvents.LiveEvent.InvalidEvent,
+                new Error(
+                    `The event received from clientId "${evt.clientId}" was rejected by the validator.`
+                )
+            );
+            return;
+        }
+        this.emit(
+            LiveEventEvents.received,
+            cloneValue(evt.data),
+            local,
+            evt.clientId,
+            evt.timestamp,
+            evt.target
+        );
+    }
+
+    /**
+     * Returns true if the local client is one of the targets of an event.
+     */
+    private async isTargeted(target: ILiveEventTargets): Promise<boolean> {
+        const clientId = await this.waitUntilConnected();
+        if (target.clientIds?.includes(clientId)) return true;
+        if (!target.userIds?.length) return false;
+        const userId =
+            this._presence?.getUserForClient(clientId)?.userId ??
+            (await this.getClientInfo(clientId))?.userId;
+        return !!userId && target.userIds.includes(userId);
+    }
+
     /**
      * Returns true if a received event is newer then the current event.
      *
@@ -10,9 +10,10 @@ import {
 } from "@fluidframework/common-definitions";
 import { TypedEventEmitter } from "@fluidframework/common-utils";
 import { IInboundSignalMessage } from "@fluidframework/runtime-definitions";
-import { ILiveEvent, UserMeetingRole } from "./interfaces";
+import { ILiveEvent, ILiveEventTargets, UserMeetingRole } from "./interfaces";
 import { LiveShareRuntime } from "./LiveShareRuntime";
-import { waitUntilConnected } from "./internals";
+import { LivePermissionDeniedError } from "./errors";
+import { TransportRuntimeSignaler, waitUntilConnected } from "./internals";
 
 /**
  * Live event callback.
@@ -25,11 +26,31 @@ export type LiveEventListener<TEvent> = (
     local: boolean
 ) => void;
 
+/**
+ * Events emitted by `LiveEventScope`.
+ */
+export interface ILiveEventScopeEvents extends IErrorEvent {
+    /**
+     * Event emitted when an event is denied by the permission predicate registered for it.
+     * @param event Name of event.
+     * @param listener Function called when the event is denied.
+     * @param listener.error Error describing the denied event.
+     */
+    (
+        event: "permissionDenied",
+        listener: (error: LivePermissionDeniedError) => void
+    ): void;
+}
+
 /**
  * Duck type of something that provides the expected signalling functionality:
  * A way to verify we can signal, a way to send a signal, and a way to listen for incoming signals
  */
 export interface IRuntimeSignaler {
+    /**
+     * Optional. ID of the Fluid object, used to isolate the object's events when signals are sent through an `ILiveTransport`.
+     */
+    readonly id?: string;
     readonly clientId: string | undefined;
     readonly connected: boolean;
     readonly logger: ITelemetryLogger;
@@ -48,7 +69,9 @@ export interface IRuntimeSignaler {
  * @remarks
  * Live objects send and receive events using an event scope. Event scopes can be restricted
  * to only receive events from clients with specific roles. Any events that are received from
- * clients without an allowed role type will be ignored.
+ * clients without an allowed role type will be ignored. Apps can further restrict each event
+ * using `LiveShareRuntime.setPermission()`, with the Fluid object's ID and the event name as the
+ * operation. Denied events are reported through the `permissionDenied` event.
  *
  * Event scopes are isolated on a per Fluid object basis. That means that two different Fluid
  * objects using the same event names don't have to worry about collisions.  Two event scopes
@@ -56,7 +79,7 @@ export interface IRuntimeSignaler {
  * scopes within the same FLuid object, you just need to be careful that they send different
  * events.
  */
-export class LiveEventScope extends TypedEventEmitter<IErrorEvent> {
+export class LiveEventScope extends TypedEventEmitter<ILiveEventScopeEvents> {
     private readonly emitter = new EventEmitter();
     private readonly _runtime: IRuntimeSignaler;
     private _allowedRoles: UserMeetingRole[];
@@ -69,7 +92,8 @@ export class LiveEventScope extends TypedEventEmitter<IErrorEvent> {
 
     /**
      * Creates a new `LiveEventScope` instance.
-     * @param runtime A Fluid objects runtime instance, typically `this.runtime`.
+     * @param runtime A Fluid objects runtime instance, typically `this.runtime`. When the `LiveShareRuntime` has a transport,
+     * events are sent through the transport instead and are isolated using the runtime's `id`.
      * @param allowedRoles Optional. List of roles allowed to send events using this scope.
      * You should use a second scope if you need mixed permission support.
      */
@@ -79,7 +103,13 @@ export class LiveEventScope extends TypedEventEmitter<IErrorEvent> {
         allowedRoles?: UserMeetingRole[]
     ) {
         super();
-        this._runtime = runtime;
+        this._runtime = _liveRuntime.transport
+            ? new TransportRuntimeSignaler(
+                  _liveRuntime.transport,
+                  runtime,
+                  runtime.id ?? ""
+              )
+            : runtime;
         this._allowedRoles = allowedRoles || [];
         this.emitter.on("error", (error) => {
             this.emit("error", error);
@@ -155,14 +185,21 @@ export class LiveEventScope extends TypedEventEmitter<IErrorEvent> {
      * @param evt Optional. Partial event object to send. The `ILiveEvent.name`,
      * `ILiveEvent.timestamp`, and `ILiveEvent.clientId`
      * fields will be automatically populated prior to sending.
+     * @param target Optional. Users and clients the event is meant for, which is stored in `ILiveEvent.target`.
+     * The event is still delivered to every event scope instance, which are responsible for ignoring events
+     * not meant for them.
      * @returns The full event, including `ILiveEvent.name`,
      * `ILiveEvent.timestamp`, and `ILiveEvent.clientId` fields if known.
      */
     public async sendEvent<TEvent>(
         eventName: string,
-        evt: TEvent
+        evt: TEvent,
+        target?: ILiveEventTargets
     ): Promise<ILiveEvent<TEvent>> {
         const event = await this.createEvent(eventName, evt);
+        if (target) {
+            event.target = target;
+        }
         // Send event
         this._runtime.submitSignal(eventName, event);
         return event;
@@ -204,6 +241,24 @@ export class LiveEventScope extends TypedEventEmitter<IErrorEvent> {
                 )}.`
             );
         }
+        const isPermitted = await this._liveRuntime.verifyPermission(
+            this.objectId,
+            eventName,
+            clientId,
+            evt,
+            true
+        );
+        if (!isPermitted) {
+            const error = new LivePermissionDeniedError(
+                "LiveEventScope:sendEvent",
+                this.objectId,
+                eventName,
+                clientId,
+                true
+            );
+            this.emit("permissionDenied", error);
+            throw error;
+        }
         // Clone passed in event and fill out required props.
         const clone: ILiveEvent<TEvent> = {
             clientId,
@@ -215,6 +270,10 @@ export class LiveEventScope extends TypedEventEmitter<IErrorEvent> {
         return clone;
     }
 
+    private get objectId(): string {
+        return this._runtime.id ?? "";
+    }
+
     private waitUntilConnected(): Promise<string> {
         return waitUntilConnected(this._runtime);
     }
@@ -229,9 +288,38 @@ export class LiveEventScope extends TypedEventEmitter<IErrorEvent> {
         // it wants to handle local/remote signals
         this._liveRuntime
             .verifyRolesAllowed(clientId, this._allowedRoles)
-            .then((value) => {
+            .then(async (value) => {
                 if (value) {
-                    this.emitter.emit(event.name, event, local);
+                    // Local events were already verified when sent
+                    const isPermitted =
+                        local ||
+                        !this._liveRuntime.hasPermission(
+                            this.objectId,
+                            event.name
+                        ) ||
+                        (await this._liveRuntime.verifyPermission(
+                            this.objectId,
+                            event.name,
+                            clientId,
+                            event.data,
+                            false
+                        ));
+                    if (isPermitted) {
+                        this.emitter.emit(event.name, event, local);
+                        return;
+                    }
+                    const error = new LivePermissionDeniedError(
+                        "LiveEventScope:receiveEvent",
+                        this.objectId,
+                        event.name,
+                        clientId,
+                        false
+                    );
+                    this.emit("permissionDenied", error);
+                    this._runtime.logger.sendErrorEvent(
+                        { eventName: "LiveEvent:permissionDenied" },
+                        error
+                    );
                 } else if (this.throwForEvents.includes(event.name)) {
                     this._runtime.logger.sendErrorEvent(
                         { eventName: "LiveEvent:invalidRole" },
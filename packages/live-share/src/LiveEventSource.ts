@@ -3,7 +3,7 @@
  * Licensed under the Microsoft Live Share SDK License.
  */
 
-import { ILiveEvent } from "./interfaces";
+import { ILiveEvent, ILiveEventTargets } from "./interfaces";
 import { LiveEventScope } from "./LiveEventScope";
 
 /**
@@ -33,11 +33,19 @@ export class LiveEventSource<TEvent> {
      * @param evt Optional. Partial event object to send. The `ILiveEvent.name`,
      * `ILiveEvent.timestamp`, and `ILiveEvent.clientId`
      * fields will be automatically populated prior to sending.
+     * @param target Optional. Users and clients the event is meant for.
      * @returns The full event, including `ILiveEvent.name`,
      * `ILiveEvent.timestamp`, and `ILiveEvent.clientId` fields if known.
      */
-    public async sendEvent(evt: TEvent): Promise<ILiveEvent<TEvent>> {
-        return await this._scope.sendEvent<TEvent>(this._eventName, evt);
+    public async sendEvent(
+        evt: TEvent,
+        target?: ILiveEventTargets
+    ): Promise<ILiveEvent<TEvent>> {
+        return await this._scope.sendEvent<TEvent>(
+            this._eventName,
+            evt,
+            target
+        );
     }
 
     /**
@@ -4,15 +4,26 @@ import { ILivePresenceEvents, LivePresence } from "./LivePresence";
 import { DataObjectFactory } from "@fluidframework/aqueduct";
 import { IFluidHandle } from "@fluidframework/core-interfaces";
 import { assert } from "@fluidframework/common-utils";
-import { LiveDataObjectInitializeState, UserMeetingRole } from "./interfaces";
+import {
+    ILivePermissionContext,
+    LiveDataObjectInitializeState,
+    LiveDataValidator,
+    UserMeetingRole,
+} from "./interfaces";
 import { LiveTelemetryLogger } from "./LiveTelemetryLogger";
 import { LivePresenceUser, PresenceState } from "./LivePresenceUser";
 import { DynamicObjectRegistry } from "./DynamicObjectRegistry";
 import {
     LiveDataObjectInitializeNotNeededError,
     LiveDataObjectNotInitializedError,
+    LivePermissionDeniedError,
     UnexpectedError,
 } from "./errors";
+import { isValidLiveData } from "./internals";
+import {
+    IFollowModeInterpolator,
+    NumericInterpolator,
+} from "./FollowModeInterpolator";
 
 /**
  * Events supported by `LiveFollowMode` object.
@@ -26,6 +37,22 @@ export enum LiveFollowModeEvents {
      * A user's presence state changed.
      */
     presenceChanged = "presenceChanged",
+    /**
+     * A user's state value was rejected by the validator passed to `initialize()`.
+     */
+    invalidEvent = "invalidEvent",
+    /**
+     * The presenter queue changed.
+     */
+    presenterQueueChanged = "presenterQueueChanged",
+    /**
+     * The interpolated value changed.
+     */
+    interpolatedValueChanged = "interpolatedValueChanged",
+    /**
+     * A change to the presenter was denied by a permission predicate set with `setPermission()`.
+     */
+    permissionDenied = "permissionDenied",
 }
 
 /**
@@ -50,6 +77,72 @@ export interface ILiveFollowModeEvents<TData = any>
             clientId: string
         ) => void
     ): any;
+    /**
+     * The presenter queue has changed.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.presenterQueue The userIds of users approved to present next, in order.
+     * @param listener.local If true the local client initiated this change.
+     * @param listener.clientId The client ID for the user that triggered this message.
+     */
+    (
+        event: "presenterQueueChanged",
+        listener: (
+            presenterQueue: string[],
+            local: boolean,
+            clientId: string
+        ) => void
+    ): any;
+    /**
+     * The interpolated value changed while interpolation is started.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.value The interpolated value.
+     */
+    (event: "interpolatedValueChanged", listener: (value: TData) => void): any;
+    /**
+     * A change to the presenter received from another client was denied by a permission predicate set with
+     * `setPermission()` for the `"startPresenting"` or `"stopPresenting"` operation.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.error The error describing the denied change.
+     */
+    (
+        event: "permissionDenied",
+        listener: (error: LivePermissionDeniedError) => void
+    ): any;
+}
+
+/**
+ * Options used to configure the interpolation of followed values.
+ * @template TData Type of the state value.
+ */
+export interface ILiveFollowModeInterpolationOptions<TData = any> {
+    /**
+     * Optional. Interpolator used to compute values between two received values.
+     * Defaults to a `NumericInterpolator` with linear easing.
+     */
+    interpolator?: IFollowModeInterpolator<TData>;
+    /**
+     * Optional. Duration, in milliseconds, of the transition to each received value. Defaults to `200`.
+     *
+     * @remarks
+     * Should be close to the interval at which the followed user sends updates.
+     */
+    duration?: number;
+}
+
+/**
+ * @hidden
+ */
+interface IInterpolation<TData> {
+    interpolator: IFollowModeInterpolator<TData>;
+    duration: number;
+    value?: TData;
+    from?: TData;
+    to?: TData;
+    startedAt: number;
+    cancelFrame?: () => void;
 }
 
 /**
@@ -89,6 +182,16 @@ export enum FollowModeType {
      * The local user is suspended from following a specific user.
      */
     suspendFollowUser = "suspendFollowUser",
+    /**
+     * Local user has requested to present and is waiting for a user with the approver roles to approve the request.
+     * The local user follows the presenter, if there is one, while waiting.
+     */
+    requestedToPresent = "requestedToPresent",
+    /**
+     * Local user's request to present was approved and they are waiting in the presenter queue for their turn.
+     * The local user follows the presenter while waiting.
+     */
+    waitingInQueue = "waitingInQueue",
 }
 
 /**
@@ -128,6 +231,13 @@ export interface IFollowModeState<TData = any> {
      * Number of other non-local users following along with this current state value
      */
     otherUsersCount: number;
+    /**
+     * Position of the local user in the presenter queue, starting at `0` for the next presenter.
+     *
+     * @remarks
+     * Is a number when {@link type} is `waitingInQueue`, and undefined otherwise.
+     */
+    queuePosition?: number;
     /**
      * Indicates that is true when the {@link value} is referencing the local user's {@link IFollowModePresenceUserData["stateValue"]}.
      *
@@ -152,6 +262,10 @@ export interface IFollowModePresenceUserData<TData = any> {
      * This will be ignored when `LiveFollowMode["presentingUserIdState"]` is set.
      */
     followingUserId: string | undefined;
+    /**
+     * Optional. True when the user has requested to present through `LiveFollowMode.requestToPresent()`.
+     */
+    requestedToPresent?: boolean;
 }
 
 /**
@@ -164,6 +278,8 @@ export type FollowModePresenceUser<TData = any> = LivePresenceUser<
 const presentingUserIdLiveStateKey =
     "@microsoft/live-share:LiveFollowMode:LiveState";
 const livePresenceKey = "@microsoft/live-share:LiveFollowMode:LivePresence";
+const presenterQueueLiveStateKey =
+    "@microsoft/live-share:LiveFollowMode:PresenterQueue";
 
 /**
  *
@@ -180,6 +296,14 @@ export class LiveFollowMode<TData = any> extends LiveDataObject<{
      * The synchronized userId of a user that is in control of presenting
      */
     private _presentingUserIdState?: LiveState<string | undefined>;
+    /**
+     * The synchronized userIds of users approved to present next, in order
+     */
+    private _presenterQueueState?: LiveState<string[]>;
+    /**
+     * Roles allowed to approve requests to present
+     */
+    private _approverRoles: UserMeetingRole[] = [UserMeetingRole.organizer];
     /**
      * Flag for whether the local user is out of sync with the person they are following.
      * Defaults to false, even if the user is not following anyone.
@@ -193,6 +317,10 @@ export class LiveFollowMode<TData = any> extends LiveDataObject<{
      * The most recent emitted follow state
      */
     private _recentState?: IFollowModeState<TData> | undefined;
+    /**
+     * Interpolation of followed values, when started
+     */
+    private _interpolation?: IInterpolation<TData>;
 
     /**
      * The objects fluid type/name.
@@ -213,6 +341,30 @@ export class LiveFollowMode<TData = any> extends LiveDataObject<{
         ])
     );
 
+    /**
+     * The userIds of users approved to present after the current presenter, in order.
+     */
+    public get presenterQueue(): string[] {
+        return [...(this._presenterQueueState?.state ?? [])];
+    }
+
+    /**
+     * If `true` followed values are being interpolated by `startInterpolation()`.
+     */
+    public get isInterpolating(): boolean {
+        return !!this._interpolation;
+    }
+
+    /**
+     * Gets the interpolated value of the current follow mode state.
+     *
+     * @remarks
+     * Equal to `state.value` when interpolation is not started, or while the local user is not following another user.
+     */
+    public get interpolatedValue(): TData | undefined {
+        return this._interpolation?.value ?? this._recentState?.value;
+    }
+
     /**
      * Gets the current follow mode state.
      *
@@ -220,6 +372,35 @@ export class LiveFollowMode<TData = any> extends LiveDataObject<{
      * Value is {@link IFollowModeState} when follow mode state is ready to access, and undefined when pending.
      */
     public get state(): IFollowModeState<TData> | undefined {
+        const state = this.getFollowState();
+        const localUser = this.presence.localUser;
+        if (
+            !state ||
+            !localUser?.data ||
+            (state.type !== FollowModeType.followPresenter &&
+                state.type !== FollowModeType.local)
+        ) {
+            return state;
+        }
+        // Users waiting to present keep following the presenter
+        const queuePosition = this.presenterQueue.indexOf(localUser.userId);
+        if (queuePosition >= 0) {
+            return {
+                ...state,
+                type: FollowModeType.waitingInQueue,
+                queuePosition,
+            };
+        }
+        if (localUser.data.requestedToPresent) {
+            return {
+                ...state,
+                type: FollowModeType.requestedToPresent,
+            };
+        }
+        return state;
+    }
+
+    private getFollowState(): IFollowModeState<TData> | undefined {
         const localUser = this.presence.localUser;
         if (!localUser || !localUser.data) {
             return undefined;
@@ -347,11 +528,27 @@ export class LiveFollowMode<TData = any> extends LiveDataObject<{
         return this._presence;
     }
 
+    /**
+     * Convenience getter to get the `_presenterQueueState` without having to check for undefined, since this will
+     * never be undefined after `initializingFirstTime`.
+     */
+    private get presenterQueueState() {
+        UnexpectedError.assert(
+            this._presenterQueueState !== undefined,
+            "LiveFollowMode:presenterQueueState",
+            "This happens when `hasInitialized()` has not yet resolved, which should not happen."
+        );
+        return this._presenterQueueState;
+    }
+
     /**
      * Initialize the object to begin sending/receiving state updates through this DDS.
      *
      * @param initialState Initial state value
      * @param allowedRoles Optional. List of roles allowed to make state changes.
+     * @param validator Optional. Validator for the state values of other users. Presence updates with rejected state values are
+     * ignored and emitted through the `invalidEvent` event.
+     * @param approverRoles Optional. List of roles allowed to approve requests to present. Defaults to `[UserMeetingRole.organizer]`.
      *
      * @returns a void promise that resolves once complete
      *
@@ -361,12 +558,15 @@ export class LiveFollowMode<TData = any> extends LiveDataObject<{
      */
     public async initialize(
         initialState: TData,
-        allowedRoles?: UserMeetingRole[]
+        allowedRoles?: UserMeetingRole[],
+        validator?: LiveDataValidator<TData>,
+        approverRoles: UserMeetingRole[] = [UserMeetingRole.organizer]
     ): Promise<void> {
         LiveDataObjectInitializeNotNeededError.assert(
             "LiveFollowMode:initialize",
             this.initializeState
         );
+        this._approverRoles = approverRoles;
         // Update initialize state as pending
         this.initializeState = LiveDataObjectInitializeState.pending;
         this._logger = new LiveTelemetryLogger(this.runtime, this.liveRuntime);
@@ -377,6 +577,14 @@ export class LiveFollowMode<TData = any> extends LiveDataObject<{
                 // Reset out of sync flag whenever the following user changes
                 this._suspended = false;
                 this.handlePotentialStateChange(local, clientId);
+                this.clearPresentRequestIfPresenting();
+            }
+        );
+        this.presenterQueueState.on(
+            "stateChanged",
+            (state, local, clientId) => {
+                this.emit("presenterQueueChanged", [...state], local, clientId);
+                this.handlePotentialStateChange(local, clientId);
             }
         );
         this.presence.on("presenceChanged", (user, local, clientId) => {
@@ -384,13 +592,38 @@ export class LiveFollowMode<TData = any> extends LiveDataObject<{
             // Emit presenceChanged event
             this.emit("presenceChanged", user, local, clientId);
         });
+        this.presence.on("invalidEvent", (data, clientId) => {
+            this.emit(LiveFollowModeEvents.invalidEvent, data, clientId);
+        });
+        // The presenter is changed through an internal `LiveState`, so its changes are checked against the
+        // predicates set for this object's `startPresenting` and `stopPresenting` operations.
+        this.liveRuntime.setPermission(
+            this.presentingUserIdState.id,
+            "set",
+            (context) => this.verifyPresentingPermission(context)
+        );
         try {
             await Promise.all([
                 this.presentingUserIdState.initialize(undefined, allowedRoles),
-                this.presence.initialize({
-                    stateValue: initialState,
-                    followingUserId: undefined,
-                }),
+                this.presenterQueueState.initialize([], allowedRoles),
+                this.presence.initialize(
+                    {
+                        stateValue: initialState,
+                        followingUserId: undefined,
+                    },
+                    undefined,
+                    undefined,
+                    validator
+                        ? (value: unknown) =>
+                              typeof value == "object" &&
+                              value !== null &&
+                              isValidLiveData(
+                                  (value as IFollowModePresenceUserData)
+                                      .stateValue,
+                                  validator
+                              )
+                        : undefined
+                ),
             ]);
         } catch (error: unknown) {
             // Update state as fatal
@@ -429,8 +662,8 @@ export class LiveFollowMode<TData = any> extends LiveDataObject<{
         );
         // Send the new stateValue through presence
         await this.presence.update({
+            ...this.presence.localUser.data,
             stateValue: newValue,
-            followingUserId: this.presence.localUser.data.followingUserId,
         });
     }
 
@@ -443,11 +676,14 @@ export class LiveFollowMode<TData = any> extends LiveDataObject<{
      * This API will override any `followingUserId` value that was set through {@link followUser} until presenting has stopped.
      * To stop presenting, use the {@link stopPresenting} API.
      *
+     * Apps can restrict which users can present by calling `setPermission()` with the `"startPresenting"` operation.
+     *
      * @returns a void promise that resolves once the event has been sent to the server.
      *
      * @throws error if initialization has not yet succeeded.
      * @throws error if the local user is already the presenter.
      * @throws error if the local user does not have the required roles to present.
+     * @throws `LivePermissionDeniedError` if the predicate set for the `"startPresenting"` operation denies the local user.
      */
     public async startPresenting(): Promise<void> {
         LiveDataObjectNotInitializedError.assert(
@@ -467,8 +703,15 @@ export class LiveFollowMode<TData = any> extends LiveDataObject<{
                 `LiveFollowMode:startPresenting - the local user is already the active presenter. To stop presenting, use the \`.stopPresenting()\` function.`
             );
         }
+        const userId = this.presence.localUser.userId;
+        await this.verifyLocalPermission("startPresenting", userId);
         // Set presentingUserIdState to the local user's userId
-        await this.presentingUserIdState.set(this.presence.localUser.userId);
+        await this.presentingUserIdState.set(userId);
+        if (this.presenterQueue.includes(userId)) {
+            await this.presenterQueueState.set(
+                this.presenterQueue.filter((queued) => queued !== userId)
+            );
+        }
     }
 
     /**
@@ -476,12 +719,16 @@ export class LiveFollowMode<TData = any> extends LiveDataObject<{
      *
      * @remarks
      * This API allows any user with valid roles to cancel presenting, though we generally recommend only allowing the active presenter to do so.
+     * If users are waiting in the {@link presenterQueue}, presenting is handed off to the next online user in the queue.
      * To start presenting, use the {@link startPresenting} API.
      *
+     * Apps can restrict which users can stop presenting by calling `setPermission()` with the `"stopPresenting"` operation.
+     *
      * @returns a void promise that resolves once the event has been sent to the server.
      *
      * @throws error if initialization has not yet succeeded.
      * @throws error if the local user does not have the required roles to stop presenting.
+     * @throws `LivePermissionDeniedError` if the predicate set for the `"stopPresenting"` operation denies the local user.
      */
     public async stopPresenting(): Promise<void> {
         LiveDataObjectNotInitializedError.assert(
@@ -494,8 +741,176 @@ export class LiveFollowMode<TData = any> extends LiveDataObject<{
             "LiveFollowMode:stopPresenting",
             "invalid local user's current state value when calling `.stopPresenting()`, implying there was an error during initialization that should not occur."
         );
-        // Set presentingUserIdState to undefined
-        await this.presentingUserIdState.set(undefined);
+        // Hand off to the next online user in the queue, skipping users that have left
+        const queue = this.presenterQueue;
+        const nextIndex = queue.findIndex(
+            (userId) =>
+                this.presence.getUser(userId)?.state === PresenceState.online
+        );
+        await this.verifyLocalPermission(
+            "stopPresenting",
+            nextIndex < 0 ? undefined : queue[nextIndex]
+        );
+        if (nextIndex < 0) {
+            // Set presentingUserIdState to undefined
+            await this.presentingUserIdState.set(undefined);
+            if (queue.length > 0) {
+                await this.presenterQueueState.set([]);
+            }
+            return;
+        }
+        await this.presentingUserIdState.set(queue[nextIndex]);
+        await this.presenterQueueState.set(queue.slice(nextIndex + 1));
+    }
+
+    /**
+     * Requests to present the local user's state.
+     *
+     * @remarks
+     * The request is shared with other users through presence, so that a user with the approver roles defined through the
+     * `approverRoles` prop in `.initialize()` can approve it using {@link approvePresenter}. While waiting, the local user's
+     * {@link FollowModeType} is `requestedToPresent`, and then `waitingInQueue` once approved.
+     *
+     * @returns a void promise that resolves once the event has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user is already the presenter or waiting in the presenter queue.
+     */
+    public async requestToPresent(): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveFollowMode:requestToPresent",
+            "requestToPresent",
+            this.initializeState
+        );
+        UnexpectedError.assert(
+            !!this.presence.localUser?.data,
+            "LiveFollowMode:requestToPresent",
+            "invalid local user's current state value when calling `.requestToPresent()`, implying there was an error during initialization that should not occur."
+        );
+        const userId = this.presence.localUser.userId;
+        if (
+            userId === this.presentingUserIdState.state ||
+            this.presenterQueue.includes(userId)
+        ) {
+            throw new Error(
+                `LiveFollowMode:requestToPresent - the local user is already presenting or waiting in the presenter queue.`
+            );
+        }
+        await this.presence.update({
+            ...this.presence.localUser.data,
+            requestedToPresent: true,
+        });
+    }
+
+    /**
+     * Cancels the local user's request to present, and leaves the presenter queue if their request was approved.
+     *
+     * @returns a void promise that resolves once the event has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     */
+    public async cancelPresentRequest(): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveFollowMode:cancelPresentRequest",
+            "cancelPresentRequest",
+            this.initializeState
+        );
+        UnexpectedError.assert(
+            !!this.presence.localUser?.data,
+            "LiveFollowMode:cancelPresentRequest",
+            "invalid local user's current state value when calling `.cancelPresentRequest()`, implying there was an error during initialization that should not occur."
+        );
+        const userId = this.presence.localUser.userId;
+        if (this.presence.localUser.data.requestedToPresent) {
+            await this.presence.update({
+                ...this.presence.localUser.data,
+                requestedToPresent: false,
+            });
+        }
+        if (this.presenterQueue.includes(userId)) {
+            await this.presenterQueueState.set(
+                this.presenterQueue.filter((queued) => queued !== userId)
+            );
+        }
+    }
+
+    /**
+     * Approves a user's request to present.
+     *
+     * @remarks
+     * The user starts presenting right away if there is no presenter, and is otherwise added to the end of the
+     * {@link presenterQueue} to present once the users before them stop presenting.
+     *
+     * @param userId the userId of the user to approve.
+     *
+     * @returns a void promise that resolves once the event has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `approverRoles` prop in `.initialize()`.
+     * @throws error if the user has not requested to present.
+     */
+    public async approvePresenter(userId: string): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveFollowMode:approvePresenter",
+            "approvePresenter",
+            this.initializeState
+        );
+        await this.verifyLocalUserIsApprover();
+        if (!this.presence.getUser(userId)?.data?.requestedToPresent) {
+            throw new Error(
+                `LiveFollowMode:approvePresenter - the user for provided \`userId\` of ${userId} has not requested to present.`
+            );
+        }
+        if (
+            userId === this.presentingUserIdState.state ||
+            this.presenterQueue.includes(userId)
+        ) {
+            return;
+        }
+        if (!this.presentingUserIdState.state) {
+            await this.presentingUserIdState.set(userId);
+        } else {
+            await this.presenterQueueState.set([
+                ...this.presenterQueue,
+                userId,
+            ]);
+        }
+    }
+
+    /**
+     * Removes a user from the presenter queue.
+     *
+     * @param userId the userId of the user to remove.
+     *
+     * @returns a void promise that resolves once the event has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `approverRoles` prop in `.initialize()`.
+     */
+    public async removeFromPresenterQueue(userId: string): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveFollowMode:removeFromPresenterQueue",
+            "removeFromPresenterQueue",
+            this.initializeState
+        );
+        await this.verifyLocalUserIsApprover();
+        if (!this.presenterQueue.includes(userId)) return;
+        await this.presenterQueueState.set(
+            this.presenterQueue.filter((queued) => queued !== userId)
+        );
+    }
+
+    /**
+     * Returns the online users that requested to present and are waiting for approval.
+     */
+    public getPresentRequests(): FollowModePresenceUser<TData>[] {
+        const queue = this.presenterQueue;
+        return this.getUsers(PresenceState.online).filter(
+            (user) =>
+                user.data?.requestedToPresent &&
+                user.userId !== this.presentingUserIdState.state &&
+                !queue.includes(user.userId)
+        );
     }
 
     /**
@@ -580,7 +995,7 @@ export class LiveFollowMode<TData = any> extends LiveDataObject<{
         }
         // Update followingUserId for presence
         await this.presence.update({
-            stateValue: this.presence.localUser.data.stateValue,
+            ...this.presence.localUser.data,
             followingUserId: userId,
         });
     }
@@ -611,11 +1026,42 @@ export class LiveFollowMode<TData = any> extends LiveDataObject<{
         }
         // Update followingUserId for presence
         await this.presence.update({
-            stateValue: this.presence.localUser.data.stateValue,
+            ...this.presence.localUser.data,
             followingUserId: undefined,
         });
     }
 
+    /**
+     * Starts interpolating the values received from the user being followed.
+     *
+     * @remarks
+     * Each time the followed user's state value changes, {@link interpolatedValue} transitions from its current value
+     * to the new value over `duration`, and `interpolatedValueChanged` is emitted for each animation frame. This is
+     * useful to smoothly follow values that are sent at throttled rates, such as camera or viewport positions.
+     * Values jump directly to the new value when the followed user changes, and when the local user's own value is shown.
+     *
+     * @param options Optional. Options used to configure interpolation.
+     */
+    public startInterpolation(
+        options?: ILiveFollowModeInterpolationOptions<TData>
+    ): void {
+        this.stopInterpolation();
+        this._interpolation = {
+            interpolator: options?.interpolator ?? new NumericInterpolator(),
+            duration: Math.max(options?.duration ?? 200, 0),
+            value: this._recentState?.value,
+            startedAt: 0,
+        };
+    }
+
+    /**
+     * Stops interpolating the values received from the user being followed.
+     */
+    public stopInterpolation(): void {
+        this._interpolation?.cancelFrame?.();
+        this._interpolation = undefined;
+    }
+
     /**
      * Returns a snapshot of the current list of presence objects being tracked.
      * @param filter Optional. Presence state to filter enumeration to.
@@ -664,8 +1110,16 @@ export class LiveFollowMode<TData = any> extends LiveDataObject<{
      */
     public dispose(): void {
         super.dispose();
+        this.stopInterpolation();
+        if (this._presentingUserIdState) {
+            this.liveRuntime.removePermission(
+                this._presentingUserIdState.id,
+                "set"
+            );
+        }
         this.presence.dispose();
         this.presentingUserIdState.dispose();
+        this.presenterQueueState.dispose();
     }
 
     /**
@@ -680,17 +1134,26 @@ export class LiveFollowMode<TData = any> extends LiveDataObject<{
         const livePresencePromise = LivePresence.factory.createChildInstance(
             this.context
         );
+        // We create the live state instance
+        const presenterQueueLiveStatePromise =
+            LiveState.factory.createChildInstance(this.context);
         try {
-            const [presentingUserLiveState, livePresence] = await Promise.all([
-                presentingUserIdLiveStatePromise,
-                livePresencePromise,
-            ]);
+            const [presentingUserLiveState, livePresence, presenterQueueState] =
+                await Promise.all([
+                    presentingUserIdLiveStatePromise,
+                    livePresencePromise,
+                    presenterQueueLiveStatePromise,
+                ]);
             // Set object(s) to root
             this.root.set(
                 presentingUserIdLiveStateKey,
                 presentingUserLiveState.handle
             );
             this.root.set(livePresenceKey, livePresence.handle);
+            this.root.set(
+                presenterQueueLiveStateKey,
+                presenterQueueState.handle
+            );
         } catch (err: unknown) {
             console.log(err);
         }
@@ -707,18 +1170,119 @@ export class LiveFollowMode<TData = any> extends LiveDataObject<{
         >(presentingUserIdLiveStateKey);
         const presenceHandle =
             this.root.get<IFluidHandle<LivePresence>>(livePresenceKey);
-        const [liveState, livePresence] = await Promise.all([
-            presentingUserIdLiveStateHandle?.get(),
-            presenceHandle?.get(),
-        ]);
+        const presenterQueueLiveStateHandle = this.root.get<
+            IFluidHandle<LiveState<string[]>>
+        >(presenterQueueLiveStateKey);
+        const [liveState, livePresence, presenterQueueState] =
+            await Promise.all([
+                presentingUserIdLiveStateHandle?.get(),
+                presenceHandle?.get(),
+                presenterQueueLiveStateHandle?.get(),
+            ]);
         liveState?.__dangerouslySetLiveRuntime(this.liveRuntime);
         livePresence?.__dangerouslySetLiveRuntime(this.liveRuntime);
+        presenterQueueState?.__dangerouslySetLiveRuntime(this.liveRuntime);
         this._presentingUserIdState = liveState;
+        this._presenterQueueState = presenterQueueState;
         this._presence = livePresence as LivePresence<
             IFollowModePresenceUserData<TData>
         >;
     }
 
+    private async verifyLocalUserIsApprover(): Promise<void> {
+        const isApprover = await this.liveRuntime.verifyRolesAllowed(
+            await this.waitUntilConnected(),
+            this._approverRoles
+        );
+        if (!isApprover) {
+            throw new Error(
+                `The local user doesn't have a role of ${JSON.stringify(
+                    this._approverRoles
+                )}.`
+            );
+        }
+    }
+
+    /**
+     * Checks a change to the presenter made by the local user against the predicates of this object.
+     */
+    private async verifyLocalPermission(
+        operation: "startPresenting" | "stopPresenting",
+        presentingUserId: string | undefined
+    ) {
+        if (!this.liveRuntime.hasPermission(this.id, operation)) return;
+        const clientId = await this.waitUntilConnected();
+        const isPermitted = await this.liveRuntime.verifyPermission(
+            this.id,
+            operation,
+            clientId,
+            presentingUserId,
+            true
+        );
+        if (isPermitted) return;
+        throw new LivePermissionDeniedError(
+            `LiveFollowMode:${operation}`,
+            this.id,
+            operation,
+            clientId,
+            true
+        );
+    }
+
+    /**
+     * Checks a change to the presenter made through `presentingUserIdState` against the predicates of this object.
+     *
+     * @remarks
+     * Users setting themselves as the presenter start presenting, while any other change stops presenting.
+     */
+    private async verifyPresentingPermission(
+        context: ILivePermissionContext<string | undefined>
+    ): Promise<boolean> {
+        const operation =
+            context.data !== undefined &&
+            context.data === context.clientInfo?.userId
+                ? "startPresenting"
+                : "stopPresenting";
+        const isPermitted = await this.liveRuntime.verifyPermission(
+            this.id,
+            operation,
+            context.clientId,
+            context.data,
+            context.local
+        );
+        if (!isPermitted && !context.local) {
+            this.emit(
+                LiveFollowModeEvents.permissionDenied,
+                new LivePermissionDeniedError(
+                    `LiveFollowMode:${operation}`,
+                    this.id,
+                    operation,
+                    context.clientId,
+                    false
+                )
+            );
+        }
+        return isPermitted;
+    }
+
+    /**
+     * Clears the local user's request to present once they have become the presenter.
+     */
+    private clearPresentRequestIfPresenting() {
+        const localUser = this.presence.localUser;
+        if (
+            !localUser?.data?.requestedToPresent ||
+            localUser.userId !== this.presentingUserIdState.state
+        ) {
+            return;
+        }
+        this.presence
+            .update({ ...localUser.data, requestedToPresent: false })
+            .catch((err) => {
+                console.error(err);
+            });
+    }
+
     /**
      * Checks if the state has changed since we last checked, and if so, emits change.
      */
@@ -727,8 +1291,71 @@ export class LiveFollowMode<TData = any> extends LiveDataObject<{
         if (JSON.stringify(newState) === JSON.stringify(this._recentState)) {
             return;
         }
+        const previousState = this._recentState;
         this._recentState = newState;
         this.emit("stateChanged", newState, local, clientId);
+        this.interpolateTo(previousState, newState);
+    }
+
+    /**
+     * Starts the transition of the interpolated value to a new state's value.
+     */
+    private interpolateTo(
+        previousState: IFollowModeState<TData> | undefined,
+        newState: IFollowModeState<TData> | undefined
+    ) {
+        const interpolation = this._interpolation;
+        if (!interpolation || !newState) return;
+        interpolation.cancelFrame?.();
+        interpolation.cancelFrame = undefined;
+        const isSameRemoteValue =
+            !!previousState &&
+            !previousState.isLocalValue &&
+            !newState.isLocalValue &&
+            previousState.followingUserId === newState.followingUserId;
+        if (
+            !isSameRemoteValue ||
+            interpolation.value === undefined ||
+            interpolation.duration === 0
+        ) {
+            // Jump to the new value
+            interpolation.value = newState.value;
+            this.emit("interpolatedValueChanged", newState.value);
+            return;
+        }
+        interpolation.from = interpolation.value;
+        interpolation.to = newState.value;
+        interpolation.startedAt = new Date().getTime();
+        this.scheduleInterpolationFrame(interpolation);
+    }
+
+    private scheduleInterpolationFrame(interpolation: IInterpolation<TData>) {
+        const onFrame = () => {
+            if (interpolation !== this._interpolation) return;
+            const progress = Math.min(
+                (new Date().getTime() - interpolation.startedAt) /
+                    interpolation.duration,
+                1
+            );
+            interpolation.value = interpolation.interpolator.interpolate(
+                interpolation.from as TData,
+                interpolation.to as TData,
+                progress
+            );
+            this.emit("interpolatedValueChanged", interpolation.value);
+            if (progress < 1) {
+                this.scheduleInterpolationFrame(interpolation);
+            } else {
+                interpolation.cancelFrame = undefined;
+            }
+        };
+        if (typeof requestAnimationFrame == "function") {
+            const frame = requestAnimationFrame(onFrame);
+            interpolation.cancelFrame = () => cancelAnimationFrame(frame);
+        } else {
+            const timer = setTimeout(onFrame, 16);
+            interpolation.cancelFrame = () => clearTimeout(timer);
+        }
     }
 }
 
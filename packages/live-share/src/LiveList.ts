@@ -0,0 +1,542 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { DataObjectFactory } from "@fluidframework/aqueduct";
+import { IEvent } from "@fluidframework/common-definitions";
+import { v4 as uuid } from "uuid";
+import {
+    IClientTimestamp,
+    ILiveEvent,
+    LiveDataObjectInitializeState,
+    UserMeetingRole,
+} from "./interfaces";
+import { cloneValue, TelemetryEvents } from "./internals";
+import {
+    LiveDataObjectInitializeNotNeededError,
+    LiveDataObjectNotInitializedError,
+    UnexpectedError,
+} from "./errors";
+import { LiveTelemetryLogger } from "./LiveTelemetryLogger";
+import { LiveEvent } from "./LiveEvent";
+import { LiveObjectSynchronizer } from "./LiveObjectSynchronizer";
+import { DynamicObjectRegistry } from "./DynamicObjectRegistry";
+import { LiveDataObject } from "./LiveDataObject";
+
+/**
+ * Events supported by `LiveList` object.
+ */
+export enum LiveListEvents {
+    /**
+     * The items in the list have changed.
+     */
+    listChanged = "listChanged",
+}
+
+/**
+ * Event typings for `LiveList` class.
+ * @template TItem Type of item stored in the list.
+ */
+export interface ILiveListEvents<TItem = any> extends IEvent {
+    /**
+     * An `LiveList` objects items have changed.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.items The current items, in order.
+     * @param listener.local If true, a local change occurred.
+     * @param listener.clientId clientId of sender.
+     */
+    (
+        event: "listChanged",
+        listener: (items: TItem[], local: boolean, clientId: string) => void
+    ): any;
+}
+
+/**
+ * An item tracked by `LiveList`, including items that have been removed.
+ */
+interface ILiveListItem<TItem> extends IClientTimestamp {
+    /**
+     * Unique ID of the item, assigned when it was inserted.
+     */
+    id: string;
+    /**
+     * Sort key of the item. Items are ordered by comparing their positions as strings.
+     */
+    position: string;
+    /**
+     * Value of the item. Removed items don't keep their value.
+     */
+    value?: TItem;
+    /**
+     * If true, the item has been removed from the list.
+     */
+    deleted?: boolean;
+}
+
+/**
+ * Event data sent by `LiveList`. Changes only include the items that changed, while background
+ * updates include every item the sender knows about.
+ */
+interface ILiveListEventData<TItem> {
+    items: ILiveListItem<TItem>[];
+}
+
+/**
+ * Live fluid object that synchronizes an ordered list of items across clients.
+ *
+ * @remarks
+ * Unlike storing an array in `LiveState`, each call to `insert()`, `remove()`, or `move()` only sends the
+ * item that changed. Concurrent changes to different items are all kept, and concurrent changes to the
+ * same item are resolved using the `LiveEvent.isNewer()` algorithm. The most recently removed items are
+ * remembered, without their values, so that a removal always wins over a concurrent move. Use
+ * `maxRemovedItems` to limit the number of removed items kept.
+ *
+ * Clients that connect or reconnect receive the full list from the other clients in the session.
+ * @template TItem Type of item stored in the list. Should be a simple JSON object that uses only serializable primitives.
+ */
+export class LiveList<TItem = any> extends LiveDataObject<{
+    Events: ILiveListEvents<TItem>;
+}> {
+    private _logger?: LiveTelemetryLogger;
+    private _items = new Map<string, ILiveListItem<TItem>>();
+
+    private _synchronizer?: LiveObjectSynchronizer<ILiveListEventData<TItem>>;
+
+    /**
+     * Maximum number of removed items remembered, in addition to removed initial items. Defaults to 100.
+     *
+     * @remarks
+     * Removed items are sent to new & reconnecting clients, so that the removal wins over older changes to
+     * the same item. Once forgotten, a move made against an outdated version of the item could bring it back.
+     */
+    public maxRemovedItems = 100;
+
+    /**
+     * The objects fluid type/name.
+     */
+    public static readonly TypeName = `@microsoft/live-share:LiveList`;
+
+    /**
+     * The objects fluid type factory.
+     */
+    public static readonly factory = new DataObjectFactory(
+        LiveList.TypeName,
+        LiveList,
+        [],
+        {}
+    );
+
+    /**
+     * The current items, in order.
+     */
+    public get items(): TItem[] {
+        return this.getOrderedItems().map((item) => cloneValue(item.value!));
+    }
+
+    /**
+     * The number of items in the list.
+     */
+    public get length(): number {
+        return this.getOrderedItems().length;
+    }
+
+    /**
+     * Initialize the object to begin sending/receiving list changes through this DDS.
+     *
+     * @remarks
+     * Every client should pass the same `initialItems`. Items inserted by any client take precedence over the
+     * initial items, which are never sent unless they are changed.
+     *
+     * @param initialItems Optional. Initial items in the list. Defaults to an empty list.
+     * @param allowedRoles Optional. List of roles allowed to make changes to the list.
+     *
+     * @returns a void promise that resolves once complete
+     *
+     * @throws error when `.initialize()` has already been called for this class instance.
+     * @throws fatal error when `.initialize()` has already been called for an object of same id but with a different class instance.
+     * This is most common when using dynamic objects through Fluid.
+     */
+    public async initialize(
+        initialItems: TItem[] = [],
+        allowedRoles?: UserMeetingRole[]
+    ): Promise<void> {
+        LiveDataObjectInitializeNotNeededError.assert(
+            "LiveList:initialize",
+            this.initializeState
+        );
+        // This error should not happen due to prior assertion, but if it is somehow defined at this point, errors will occur.
+        UnexpectedError.assert(
+            !this._synchronizer,
+            "LiveList:initialize",
+            "_synchronizer already set, which implies there was an error during initialization that should not occur."
+        );
+        // Update initialize state as pending
+        this.initializeState = LiveDataObjectInitializeState.pending;
+        this._logger = new LiveTelemetryLogger(this.runtime, this.liveRuntime);
+
+        // Set initial items
+        // - Initial items use deterministic ids & positions so that each client creates the same items.
+        let position: string | undefined;
+        this._items.clear();
+        initialItems.forEach((value, index) => {
+            position = positionBetween(position, undefined);
+            this._items.set(`initial:${index}`, {
+                id: `initial:${index}`,
+                position,
+                value: cloneValue(value),
+                clientId: "", // start as empty because the initial items are not user defined
+                timestamp: 0,
+            });
+        });
+
+        // Save off allowed roles
+        this._allowedRoles = allowedRoles || [];
+
+        // Create object synchronizer
+        this._synchronizer = new LiveObjectSynchronizer<
+            ILiveListEventData<TItem>
+        >(this.id, this.runtime, this.liveRuntime);
+        // Changes only include the items that changed, so changes queued while disconnected are combined
+        this._synchronizer.coalesceChanges = (
+            pending: ILiveListEventData<TItem>,
+            next: ILiveListEventData<TItem>
+        ) => {
+            const items = new Map(pending.items.map((item) => [item.id, item]));
+            next.items.forEach((item) => items.set(item.id, item));
+            return { items: [...items.values()] };
+        };
+        try {
+            await this._synchronizer.start(
+                { items: [...this._items.values()] },
+                async (evt, sender) => {
+                    await this.onReceivedListEvent(evt, sender);
+                    // The local client's full list is saved separately, so remote changes never replace it.
+                    return false;
+                },
+                async (connecting) => {
+                    if (connecting) return true;
+                    // If user has eligible roles, allow the update to be sent
+                    try {
+                        return await this.verifyLocalUserRoles();
+                    } catch {
+                        return false;
+                    }
+                }
+            );
+        } catch (error: unknown) {
+            // Update initialize state as fatal error
+            this.initializeState = LiveDataObjectInitializeState.fatalError;
+            throw error;
+        }
+
+        // Update initialize state as succeeded
+        this.initializeState = LiveDataObjectInitializeState.succeeded;
+    }
+
+    /**
+     * Disposes of the object when its container is disposed of.
+     */
+    public dispose(): void {
+        super.dispose();
+        if (this._synchronizer) {
+            this._synchronizer.dispose();
+        }
+    }
+
+    /**
+     * Gets the item at a given index.
+     * @param index Index of the item.
+     * @returns the item, or undefined if the index is out of range.
+     */
+    public get(index: number): TItem | undefined {
+        const item = this.getOrderedItems()[index];
+        return item ? cloneValue(item.value) : undefined;
+    }
+
+    /**
+     * Inserts an item into the list.
+     *
+     * @param index Index to insert the item at. Items at or after the index are shifted back by one.
+     * @param value Item to insert.
+     *
+     * @returns a void promise that resolves once the change has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if `index` is out of range.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async insert(index: number, value: TItem): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveList:insert",
+            "insert",
+            this.initializeState
+        );
+        const ordered = this.getOrderedItems();
+        LiveList.assertIndex("LiveList:insert", index, ordered.length + 1);
+
+        await this.sendChange({
+            id: uuid(),
+            position: positionBetween(
+                ordered[index - 1]?.position,
+                ordered[index]?.position
+            ),
+            value: cloneValue(value),
+        });
+    }
+
+    /**
+     * Appends an item to the end of the list.
+     *
+     * @param value Item to append.
+     *
+     * @returns a void promise that resolves once the change has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async push(value: TItem): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveList:push",
+            "push",
+            this.initializeState
+        );
+        await this.insert(this.length, value);
+    }
+
+    /**
+     * Removes an item from the list.
+     *
+     * @param index Index of the item to remove.
+     *
+     * @returns a void promise that resolves once the change has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if `index` is out of range.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async remove(index: number): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveList:remove",
+            "remove",
+            this.initializeState
+        );
+        const ordered = this.getOrderedItems();
+        LiveList.assertIndex("LiveList:remove", index, ordered.length);
+
+        const item = ordered[index];
+        await this.sendChange({
+            id: item.id,
+            position: item.position,
+            deleted: true,
+        });
+    }
+
+    /**
+     * Moves an item to a new index in the list.
+     *
+     * @param fromIndex Current index of the item.
+     * @param toIndex Index the item should have once moved.
+     *
+     * @returns a void promise that resolves once the change has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if `fromIndex` or `toIndex` is out of range.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async move(fromIndex: number, toIndex: number): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveList:move",
+            "move",
+            this.initializeState
+        );
+        const ordered = this.getOrderedItems();
+        LiveList.assertIndex("LiveList:move", fromIndex, ordered.length);
+        LiveList.assertIndex("LiveList:move", toIndex, ordered.length);
+        if (fromIndex === toIndex) return;
+
+        const [item] = ordered.splice(fromIndex, 1);
+        await this.sendChange({
+            id: item.id,
+            position: positionBetween(
+                ordered[toIndex - 1]?.position,
+                ordered[toIndex]?.position
+            ),
+            value: item.value,
+        });
+    }
+
+    private async sendChange(
+        change: Omit<ILiveListItem<TItem>, keyof IClientTimestamp>
+    ): Promise<void> {
+        // Changes queued while disconnected use the last known clientId, so they don't wait for the connection
+        const clientId =
+            this._synchronizer!.clientId ?? (await this.waitUntilConnected());
+        // A change should always win over the version of the item it was made against, even if the
+        // clock of the client that sent that version is ahead of ours.
+        const previous = this._items.get(change.id);
+        const item: ILiveListItem<TItem> = {
+            ...change,
+            clientId,
+            timestamp: Math.max(
+                this.liveRuntime.getTimestamp(),
+                (previous?.timestamp ?? 0) + 1
+            ),
+        };
+        const evt = await this._synchronizer!.sendEvent<
+            ILiveListEventData<TItem>
+        >({
+            items: [item],
+        });
+
+        // Update local items immediately
+        this.mergeItems(evt.data.items, true, evt.clientId);
+    }
+
+    private async onReceivedListEvent(
+        evt: ILiveEvent<ILiveListEventData<TItem>>,
+        sender: string
+    ): Promise<void> {
+        try {
+            const allowed = await this.liveRuntime.verifyRolesAllowed(
+                sender,
+                this._allowedRoles
+            );
+            if (!allowed || !Array.isArray(evt.data?.items)) return;
+            this.mergeItems(evt.data.items, false, evt.clientId);
+        } catch (err) {
+            this._logger?.sendErrorEvent(
+                TelemetryEvents.LiveList.RoleVerificationError,
+                err
+            );
+        }
+    }
+
+    private mergeItems(
+        items: ILiveListItem<TItem>[],
+        local: boolean,
+        clientId: string
+    ) {
+        let changed = false;
+        items.forEach((item) => {
+            const existing = this._items.get(item.id);
+            // Removals always win, so that a concurrent move can't bring back a removed item.
+            const deleted = !!existing?.deleted || !!item.deleted;
+            if (LiveEvent.isNewer(existing, item)) {
+                this._items.set(
+                    item.id,
+                    deleted ? LiveList.toRemovedItem(item) : item
+                );
+                changed = true;
+            } else if (existing && deleted && !existing.deleted) {
+                this._items.set(item.id, LiveList.toRemovedItem(existing));
+                changed = true;
+            }
+        });
+        if (!changed) return;
+        this.pruneRemovedItems();
+
+        // Save the full list so that it's sent to new & reconnecting clients
+        this._synchronizer?.updateLocalState({
+            items: [...this._items.values()],
+        });
+        this.emit(LiveListEvents.listChanged, this.items, local, clientId);
+        this._logger?.sendTelemetryEvent(
+            TelemetryEvents.LiveList.ListChanged,
+            null,
+            {
+                local,
+                length: this.length,
+            }
+        );
+    }
+
+    /**
+     * Forgets the oldest removed items once there are more than `maxRemovedItems`.
+     *
+     * @remarks
+     * Removed initial items are always kept, since every client starts with the initial items.
+     */
+    private pruneRemovedItems() {
+        const removed = [...this._items.values()]
+            .filter((item) => item.deleted && !item.id.startsWith("initial:"))
+            .sort((a, b) => a.timestamp - b.timestamp);
+        removed
+            .slice(0, Math.max(removed.length - this.maxRemovedItems, 0))
+            .forEach((item) => this._items.delete(item.id));
+    }
+
+    private getOrderedItems(): ILiveListItem<TItem>[] {
+        return [...this._items.values()]
+            .filter((item) => !item.deleted)
+            .sort((a, b) => {
+                if (a.position !== b.position) {
+                    return a.position < b.position ? -1 : 1;
+                }
+                // Concurrent inserts at the same index can generate the same position
+                return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+            });
+    }
+
+    private static toRemovedItem<TItem>(
+        item: ILiveListItem<TItem>
+    ): ILiveListItem<TItem> {
+        const { value, ...removed } = item;
+        return { ...removed, deleted: true };
+    }
+
+    private static assertIndex(prefix: string, index: number, length: number) {
+        if (!Number.isInteger(index) || index < 0 || index >= length) {
+            throw new Error(
+                `${prefix}: index ${index} is out of range for a list of length ${length}`
+            );
+        }
+    }
+}
+
+const POSITION_DIGITS =
+    "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+
+/**
+ * Generates a position that sorts between two other positions.
+ *
+ * @remarks
+ * Positions are compared as strings. Generated positions never end with the lowest digit, which guarantees
+ * that there is always room to generate another position before them.
+ * @param before Position to sort after, or undefined for the start of the list.
+ * @param after Position to sort before, or undefined for the end of the list.
+ * @returns a new position
+ */
+function positionBetween(
+    before: string | undefined,
+    after: string | undefined
+): string {
+    const lower = before ?? "";
+    let upper = after;
+    let position = "";
+    for (let i = 0; ; i++) {
+        const lowerDigit =
+            i < lower.length ? POSITION_DIGITS.indexOf(lower[i]) : 0;
+        const upperDigit =
+            upper !== undefined && i < upper.length
+                ? POSITION_DIGITS.indexOf(upper[i])
+                : POSITION_DIGITS.length;
+        if (lowerDigit === upperDigit) {
+            position += POSITION_DIGITS[lowerDigit];
+            continue;
+        }
+        const middleDigit = Math.floor((lowerDigit + upperDigit) / 2);
+        if (middleDigit > lowerDigit) {
+            return position + POSITION_DIGITS[middleDigit];
+        }
+        // Digits are adjacent, so any position starting with the lower digit sorts before `upper`
+        position += POSITION_DIGITS[lowerDigit];
+        upper = undefined;
+    }
+}
+
+/**
+ * Register `LiveList` as an available `LoadableObjectClass` for use in packages that support dynamic object loading, such as `@microsoft/live-share-turbo`.
+ */
+DynamicObjectRegistry.registerObjectClass(LiveList, LiveList.TypeName);
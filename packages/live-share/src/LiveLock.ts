@@ -0,0 +1,511 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { DataObjectFactory } from "@fluidframework/aqueduct";
+import { IEvent } from "@fluidframework/common-definitions";
+import { IFluidHandle } from "@fluidframework/core-interfaces";
+import { LiveDataObject } from "./LiveDataObject";
+import { LiveState } from "./LiveState";
+import { LivePresence } from "./LivePresence";
+import { PresenceState } from "./LivePresenceUser";
+import { LiveDataObjectInitializeState, UserMeetingRole } from "./interfaces";
+import { DynamicObjectRegistry } from "./DynamicObjectRegistry";
+import {
+    LiveDataObjectInitializeNotNeededError,
+    LiveDataObjectNotInitializedError,
+    UnexpectedError,
+} from "./errors";
+
+/**
+ * Events supported by `LiveLock` object.
+ */
+export enum LiveLockEvents {
+    /**
+     * The lock was acquired, released or changed holder.
+     */
+    lockChanged = "lockChanged",
+}
+
+/**
+ * Event typings for `LiveLock` class.
+ */
+export interface ILiveLockEvents extends IEvent {
+    /**
+     * The lock was acquired, released or changed holder.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.holder The current holder of the lock, or undefined if the lock is free.
+     * @param listener.previousHolder The previous holder of the lock, or undefined if the lock was free.
+     */
+    (
+        event: "lockChanged",
+        listener: (
+            holder: ILiveLockHolder | undefined,
+            previousHolder: ILiveLockHolder | undefined
+        ) => void
+    ): any;
+}
+
+/**
+ * Holder of a `LiveLock`.
+ */
+export interface ILiveLockHolder {
+    /**
+     * userId of the user holding the lock.
+     */
+    userId: string;
+    /**
+     * Optional. Display name of the user holding the lock.
+     */
+    displayName?: string;
+    /**
+     * clientId of the connection holding the lock.
+     */
+    clientId: string;
+    /**
+     * If true, the lock is held by the local client.
+     */
+    isLocal: boolean;
+    /**
+     * Timestamp the lock was acquired at, according to `LiveShareRuntime.getTimestamp()`.
+     */
+    acquiredAt: number;
+    /**
+     * Timestamp the lease of the lock expires at, according to `LiveShareRuntime.getTimestamp()`.
+     */
+    expiresAt: number;
+}
+
+/**
+ * @hidden
+ * Claim of the lock shared through presence by each connection.
+ */
+interface ILiveLockClaim {
+    claimedAt: number;
+    expiresAt: number;
+}
+
+/**
+ * @hidden
+ */
+interface ILiveLockPresenceData {
+    claim?: ILiveLockClaim;
+}
+
+/**
+ * @hidden
+ * Claim that was forcibly released.
+ */
+interface ILiveLockRevocation {
+    clientId: string;
+    claimedAt: number;
+}
+
+const presenceKey = "@microsoft/live-share:LiveLock:LivePresence";
+const revocationStateKey = "@microsoft/live-share:LiveLock:LiveState";
+
+/**
+ * Live fluid object that grants an exclusive soft lock to one client at a time, such as to show that
+ * someone is editing an item.
+ *
+ * @remarks
+ * Each client shares its claim on the lock through presence. The lock is held by the oldest claim of a
+ * connection that is still online and whose lease hasn't expired, using the clientId as a tie breaker for
+ * claims made at the same time, so that every client agrees on the holder. The holder renews its lease
+ * while it holds the lock, so the lock is released automatically when the holder disconnects.
+ *
+ * Locks are advisory. They are enforced by the app, not by the other Live Share objects.
+ */
+export class LiveLock extends LiveDataObject<{
+    Events: ILiveLockEvents;
+}> {
+    private _presence?: LivePresence<ILiveLockPresenceData>;
+    private _revocationState?: LiveState<ILiveLockRevocation | null>;
+    private _forceReleaseRoles: UserMeetingRole[] = [];
+    private _holder?: ILiveLockHolder;
+    private _expirationTimer?: ReturnType<typeof setTimeout>;
+    private _renewalTimer?: ReturnType<typeof setTimeout>;
+
+    /**
+     * Duration in milliseconds of the lease granted when acquiring or renewing the lock. Defaults to 30 seconds.
+     */
+    public leaseDuration = 30000;
+
+    /**
+     * If true, the lease is renewed automatically while the local client holds the lock. Defaults to true.
+     */
+    public autoRenew = true;
+
+    /**
+     * The objects fluid type/name.
+     */
+    public static readonly TypeName = `@microsoft/live-share:LiveLock`;
+
+    /**
+     * The objects fluid type factory.
+     */
+    public static readonly factory = new DataObjectFactory(
+        LiveLock.TypeName,
+        LiveLock,
+        [],
+        {},
+        new Map<string, Promise<any>>([
+            LiveState.factory.registryEntry,
+            LivePresence.factory.registryEntry,
+        ])
+    );
+
+    /**
+     * The current holder of the lock, or undefined if the lock is free.
+     */
+    public get holder(): ILiveLockHolder | undefined {
+        return this._holder ? { ...this._holder } : undefined;
+    }
+
+    /**
+     * True if the lock is held by any client.
+     */
+    public get isLocked(): boolean {
+        return !!this._holder;
+    }
+
+    /**
+     * True if the lock is held by the local client.
+     */
+    public get isHeldLocally(): boolean {
+        return !!this._holder?.isLocal;
+    }
+
+    /**
+     * Initialize the object to begin sharing the lock.
+     *
+     * @param allowedRoles Optional. List of roles allowed to acquire the lock.
+     * @param forceReleaseRoles Optional. List of roles allowed to release the lock while another client holds it.
+     * Defaults to `[UserMeetingRole.organizer]`.
+     *
+     * @returns a void promise that resolves once complete.
+     *
+     * @throws error when `.initialize()` has already been called for this class instance.
+     */
+    public async initialize(
+        allowedRoles?: UserMeetingRole[],
+        forceReleaseRoles: UserMeetingRole[] = [UserMeetingRole.organizer]
+    ): Promise<void> {
+        LiveDataObjectInitializeNotNeededError.assert(
+            "LiveLock:initialize",
+            this.initializeState
+        );
+        this.initializeState = LiveDataObjectInitializeState.pending;
+        this._allowedRoles = allowedRoles ?? [];
+        this._forceReleaseRoles = forceReleaseRoles;
+
+        this.presence.on("presenceChanged", () => {
+            this.updateHolder();
+        });
+        this.revocationState.on("stateChanged", () => {
+            this.updateHolder();
+        });
+        try {
+            await Promise.all([
+                this.presence.initialize(
+                    {},
+                    PresenceState.online,
+                    allowedRoles
+                ),
+                this.revocationState.initialize(null, forceReleaseRoles),
+            ]);
+        } catch (error: unknown) {
+            this.initializeState = LiveDataObjectInitializeState.fatalError;
+            throw error;
+        }
+
+        this.initializeState = LiveDataObjectInitializeState.succeeded;
+        this.updateHolder();
+    }
+
+    /**
+     * Tries to acquire the lock for the local client.
+     *
+     * @remarks
+     * Renews the lease when the local client already holds the lock. When several clients acquire a free lock at
+     * the same time, the client that acquired it first keeps it and the `lockChanged` event is emitted for the
+     * others once their claims are received.
+     *
+     * @returns a promise that resolves to true if the local client holds the lock once the claim has been sent to
+     * the server, or false if another client holds the lock.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async acquire(): Promise<boolean> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveLock:acquire",
+            "acquire",
+            this.initializeState
+        );
+        this.updateHolder();
+        if (this._holder && !this._holder.isLocal) return false;
+
+        const now = this.liveRuntime.getTimestamp();
+        await this.presence.update({
+            claim: {
+                claimedAt: this._holder?.acquiredAt ?? now,
+                expiresAt: now + this.leaseDuration,
+            },
+        });
+        this.updateHolder();
+        return this.isHeldLocally;
+    }
+
+    /**
+     * Extends the lease of the lock held by the local client.
+     *
+     * @remarks
+     * Leases are renewed automatically unless `autoRenew` is false.
+     *
+     * @returns a promise that resolves to true if the lease was renewed, or false if the local client doesn't hold the lock.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async renew(): Promise<boolean> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveLock:renew",
+            "renew",
+            this.initializeState
+        );
+        if (!this.isHeldLocally) return false;
+        return await this.acquire();
+    }
+
+    /**
+     * Releases the lock held by the local client.
+     *
+     * @remarks
+     * Releasing a lock the local client doesn't hold does nothing.
+     *
+     * @returns a void promise that resolves once the release has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     */
+    public async release(): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveLock:release",
+            "release",
+            this.initializeState
+        );
+        if (!this.getLocalClaim()) return;
+        await this.presence.update({});
+        this.updateHolder();
+    }
+
+    /**
+     * Releases the lock, even if another client holds it.
+     *
+     * @returns a void promise that resolves once the release has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `forceReleaseRoles` prop in `.initialize()`.
+     */
+    public async forceRelease(): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveLock:forceRelease",
+            "forceRelease",
+            this.initializeState
+        );
+        const holder = this._holder;
+        if (!holder) return;
+        if (holder.isLocal) {
+            await this.release();
+            return;
+        }
+        const clientId = await this.waitUntilConnected();
+        const allowed = await this.liveRuntime.verifyRolesAllowed(
+            clientId,
+            this._forceReleaseRoles
+        );
+        if (!allowed) {
+            throw new Error(
+                `LiveLock:forceRelease - The local user doesn't have a role of ${JSON.stringify(
+                    this._forceReleaseRoles
+                )}.`
+            );
+        }
+        await this.revocationState.set({
+            clientId: holder.clientId,
+            claimedAt: holder.acquiredAt,
+        });
+        this.updateHolder();
+    }
+
+    /**
+     * Disposes of the object when its container is disposed of.
+     */
+    public dispose(): void {
+        super.dispose();
+        clearTimeout(this._expirationTimer);
+        clearTimeout(this._renewalTimer);
+        this._presence?.dispose();
+        this._revocationState?.dispose();
+    }
+
+    /**
+     * initializingFirstTime is run only once by the first client to create the DataObject. Here we use it to
+     * create the child objects.
+     */
+    protected async initializingFirstTime() {
+        const [presence, revocationState] = await Promise.all([
+            LivePresence.factory.createChildInstance(this.context),
+            LiveState.factory.createChildInstance(this.context),
+        ]);
+        this.root.set(presenceKey, presence.handle);
+        this.root.set(revocationStateKey, revocationState.handle);
+    }
+
+    /**
+     * hasInitialized is run by each client as they load the DataObject. Here we use it to get the child objects.
+     */
+    protected async hasInitialized() {
+        const [presence, revocationState] = await Promise.all([
+            this.root
+                .get<IFluidHandle<LivePresence<ILiveLockPresenceData>>>(
+                    presenceKey
+                )
+                ?.get(),
+            this.root
+                .get<IFluidHandle<LiveState<ILiveLockRevocation | null>>>(
+                    revocationStateKey
+                )
+                ?.get(),
+        ]);
+        presence?.__dangerouslySetLiveRuntime(this.liveRuntime);
+        revocationState?.__dangerouslySetLiveRuntime(this.liveRuntime);
+        this._presence = presence;
+        this._revocationState = revocationState;
+    }
+
+    private get presence() {
+        UnexpectedError.assert(
+            this._presence !== undefined,
+            "LiveLock:presence",
+            "This happens when `hasInitialized()` has not yet resolved, which should not happen."
+        );
+        return this._presence;
+    }
+
+    private get revocationState() {
+        UnexpectedError.assert(
+            this._revocationState !== undefined,
+            "LiveLock:revocationState",
+            "This happens when `hasInitialized()` has not yet resolved, which should not happen."
+        );
+        return this._revocationState;
+    }
+
+    private getLocalClaim(): ILiveLockClaim | undefined {
+        return this.presence.localUser
+            ?.getConnections()
+            .find((connection) => connection.isLocalConnection)?.data?.claim;
+    }
+
+    /**
+     * Returns the oldest valid claim of an online connection.
+     */
+    private findHolder(): ILiveLockHolder | undefined {
+        const now = this.liveRuntime.getTimestamp();
+        const revocation = this.revocationState.state;
+        let holder: ILiveLockHolder | undefined;
+        this.presence.getUsers().forEach((user) => {
+            user.getConnections(PresenceState.online).forEach((connection) => {
+                const claim = connection.data?.claim;
+                if (!claim || claim.expiresAt <= now) return;
+                if (
+                    revocation?.clientId === connection.clientId &&
+                    revocation.claimedAt === claim.claimedAt
+                ) {
+                    return;
+                }
+                if (
+                    holder &&
+                    (holder.acquiredAt < claim.claimedAt ||
+                        (holder.acquiredAt === claim.claimedAt &&
+                            holder.clientId.localeCompare(connection.clientId) <
+                                0))
+                ) {
+                    return;
+                }
+                holder = {
+                    userId: user.userId,
+                    displayName: user.displayName,
+                    clientId: connection.clientId,
+                    isLocal: connection.isLocalConnection,
+                    acquiredAt: claim.claimedAt,
+                    expiresAt: claim.expiresAt,
+                };
+            });
+        });
+        return holder;
+    }
+
+    private updateHolder() {
+        if (!this.isInitialized) return;
+        const previousHolder = this._holder;
+        const holder = this.findHolder();
+        this._holder = holder;
+
+        // Check again once the lease expires, in case the holder doesn't renew it
+        clearTimeout(this._expirationTimer);
+        if (holder) {
+            this._expirationTimer = setTimeout(
+                () => this.updateHolder(),
+                Math.max(
+                    holder.expiresAt - this.liveRuntime.getTimestamp(),
+                    0
+                ) + 1
+            );
+        }
+        this.scheduleRenewal();
+        this.withdrawLostClaim();
+
+        if (
+            previousHolder?.clientId === holder?.clientId &&
+            previousHolder?.acquiredAt === holder?.acquiredAt
+        ) {
+            return;
+        }
+        this.emit(
+            LiveLockEvents.lockChanged,
+            this.holder,
+            previousHolder ? { ...previousHolder } : undefined
+        );
+    }
+
+    private scheduleRenewal() {
+        clearTimeout(this._renewalTimer);
+        const holder = this._holder;
+        if (!holder?.isLocal || !this.autoRenew) return;
+        this._renewalTimer = setTimeout(() => {
+            this.renew().catch(() => {
+                // The lock is released once the lease expires
+            });
+        }, Math.max(holder.expiresAt - this.leaseDuration / 2 - this.liveRuntime.getTimestamp(), 0));
+    }
+
+    /**
+     * Removes the local client's claim when the lock was forcibly released or acquired by another client,
+     * so that it doesn't take the lock once the current holder releases it.
+     */
+    private withdrawLostClaim() {
+        if (!this.getLocalClaim() || this._holder?.isLocal) return;
+        this.presence.update({}).catch(() => {
+            // The claim is ignored once its lease expires
+        });
+    }
+}
+
+/**
+ * Register `LiveLock` as an available `LoadableObjectClass` for use in packages that support dynamic object loading, such as `@microsoft/live-share-turbo`.
+ */
+DynamicObjectRegistry.registerObjectClass(LiveLock, LiveLock.TypeName);
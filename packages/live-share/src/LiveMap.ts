@@ -0,0 +1,458 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { DataObjectFactory } from "@fluidframework/aqueduct";
+import { IEvent } from "@fluidframework/common-definitions";
+import {
+    ILiveEvent,
+    LiveDataObjectInitializeState,
+    UserMeetingRole,
+} from "./interfaces";
+import { cloneValue, TelemetryEvents } from "./internals";
+import {
+    LiveDataObjectInitializeNotNeededError,
+    LiveDataObjectNotInitializedError,
+    UnexpectedError,
+} from "./errors";
+import { LiveTelemetryLogger } from "./LiveTelemetryLogger";
+import { LiveEvent } from "./LiveEvent";
+import { LiveObjectSynchronizer } from "./LiveObjectSynchronizer";
+import { DynamicObjectRegistry } from "./DynamicObjectRegistry";
+import { LiveDataObject } from "./LiveDataObject";
+
+/**
+ * Events supported by `LiveMap` object.
+ */
+export enum LiveMapEvents {
+    /**
+     * The value of a key has changed.
+     */
+    valueChanged = "valueChanged",
+}
+
+/**
+ * Event typings for `LiveMap` class.
+ * @template TKey Type of the keys of the map.
+ * @template TValue Type of the values of the map.
+ */
+export interface ILiveMapEvents<TKey extends string = string, TValue = any>
+    extends IEvent {
+    /**
+     * The value of a key in a `LiveMap` object has changed.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.key The key that changed.
+     * @param listener.value The new value of the key, or undefined if the key was deleted.
+     * @param listener.local If true, a local change occurred.
+     * @param listener.clientId clientId of sender.
+     */
+    (
+        event: "valueChanged",
+        listener: (
+            key: TKey,
+            value: TValue | undefined,
+            local: boolean,
+            clientId: string
+        ) => void
+    ): any;
+}
+
+/**
+ * The latest change of a key tracked by `LiveMap`, including keys that have been deleted.
+ */
+interface ILiveMapEntry<TValue> extends ILiveEvent<TValue | undefined> {
+    /**
+     * Key the change was made to.
+     */
+    key: string;
+    /**
+     * If true, the key has been deleted. Deleted keys are kept as tombstones so that a deletion wins over
+     * older changes received afterwards.
+     */
+    deleted?: boolean;
+}
+
+/**
+ * Event data sent by `LiveMap`. Changes only include the keys that changed, while background
+ * updates include every key the sender knows about.
+ */
+interface ILiveMapEventData<TValue> {
+    entries: ILiveMapEntry<TValue>[];
+}
+
+/**
+ * Live fluid object that synchronizes a map of independent values across clients.
+ *
+ * @remarks
+ * Each key is synchronized independently, using the `LiveEvent.isNewer()` algorithm to resolve concurrent
+ * changes to the same key. This makes `LiveMap` a lightweight alternative to creating a `LiveState` object
+ * for each of many small values, such as the state of each card of a board.
+ *
+ * Calls to `set()` and `delete()` only send the key that changed. Clients that connect or reconnect receive
+ * the full map from the other clients in the session. The most recently deleted keys are remembered, without
+ * their values, so that a deletion wins over older changes. Use `maxDeletedKeys` to limit the number of
+ * deleted keys kept.
+ * @template TKey Type of the keys of the map.
+ * @template TValue Type of the values of the map. Should be a simple JSON object that uses only serializable primitives.
+ */
+export class LiveMap<
+    TKey extends string = string,
+    TValue = any
+> extends LiveDataObject<{
+    Events: ILiveMapEvents<TKey, TValue>;
+}> {
+    private _logger?: LiveTelemetryLogger;
+    private _entries = new Map<string, ILiveMapEntry<TValue>>();
+    private _initialKeys = new Set<string>();
+
+    private _synchronizer?: LiveObjectSynchronizer<ILiveMapEventData<TValue>>;
+
+    /**
+     * Maximum number of deleted keys remembered, in addition to deleted initial keys. Defaults to 100.
+     *
+     * @remarks
+     * Deleted keys are sent to new & reconnecting clients, so that the deletion wins over older changes to
+     * the same key. Once forgotten, a change made against an outdated version of the key could bring it back.
+     */
+    public maxDeletedKeys = 100;
+
+    /**
+     * The objects fluid type/name.
+     */
+    public static readonly TypeName = `@microsoft/live-share:LiveMap`;
+
+    /**
+     * The objects fluid type factory.
+     */
+    public static readonly factory = new DataObjectFactory(
+        LiveMap.TypeName,
+        LiveMap,
+        [],
+        {}
+    );
+
+    /**
+     * The number of keys in the map.
+     */
+    public get size(): number {
+        return this.getEntries().length;
+    }
+
+    /**
+     * Initialize the object to begin sending/receiving changes through this DDS.
+     *
+     * @remarks
+     * Every client should pass the same `initialEntries`. Values set by any client take precedence over the
+     * initial entries, which are never sent unless they are changed.
+     *
+     * @param initialEntries Optional. Initial entries of the map. Defaults to an empty map.
+     * @param allowedRoles Optional. List of roles allowed to make changes to the map.
+     *
+     * @returns a void promise that resolves once complete
+     *
+     * @throws error when `.initialize()` has already been called for this class instance.
+     * @throws fatal error when `.initialize()` has already been called for an object of same id but with a different class instance.
+     * This is most common when using dynamic objects through Fluid.
+     */
+    public async initialize(
+        initialEntries: Iterable<readonly [TKey, TValue]> = [],
+        allowedRoles?: UserMeetingRole[]
+    ): Promise<void> {
+        LiveDataObjectInitializeNotNeededError.assert(
+            "LiveMap:initialize",
+            this.initializeState
+        );
+        // This error should not happen due to prior assertion, but if it is somehow defined at this point, errors will occur.
+        UnexpectedError.assert(
+            !this._synchronizer,
+            "LiveMap:initialize",
+            "_synchronizer already set, which implies there was an error during initialization that should not occur."
+        );
+        // Update initialize state as pending
+        this.initializeState = LiveDataObjectInitializeState.pending;
+        this._logger = new LiveTelemetryLogger(this.runtime, this.liveRuntime);
+
+        // Set initial entries
+        this._entries.clear();
+        this._initialKeys.clear();
+        for (const [key, value] of initialEntries) {
+            this._initialKeys.add(key);
+            this._entries.set(key, {
+                key,
+                name: "set",
+                data: cloneValue(value),
+                clientId: "", // start as empty because the initial entries are not user defined
+                timestamp: 0,
+            });
+        }
+
+        // Save off allowed roles
+        this._allowedRoles = allowedRoles || [];
+
+        // Create object synchronizer
+        this._synchronizer = new LiveObjectSynchronizer<
+            ILiveMapEventData<TValue>
+        >(this.id, this.runtime, this.liveRuntime);
+        // Changes only include the keys that changed, so changes queued while disconnected are combined
+        this._synchronizer.coalesceChanges = (
+            pending: ILiveMapEventData<TValue>,
+            next: ILiveMapEventData<TValue>
+        ) => {
+            const entries = new Map(
+                pending.entries.map((entry) => [entry.key, entry])
+            );
+            next.entries.forEach((entry) => entries.set(entry.key, entry));
+            return { entries: [...entries.values()] };
+        };
+        try {
+            await this._synchronizer.start(
+                { entries: [...this._entries.values()] },
+                async (evt, sender) => {
+                    await this.onReceivedMapEvent(evt, sender);
+                    // The local client's full map is saved separately, so remote changes never replace it.
+                    return false;
+                },
+                async (connecting) => {
+                    if (connecting) return true;
+                    // If user has eligible roles, allow the update to be sent
+                    try {
+                        return await this.verifyLocalUserRoles();
+                    } catch {
+                        return false;
+                    }
+                }
+            );
+        } catch (error: unknown) {
+            // Update initialize state as fatal error
+            this.initializeState = LiveDataObjectInitializeState.fatalError;
+            throw error;
+        }
+
+        // Update initialize state as succeeded
+        this.initializeState = LiveDataObjectInitializeState.succeeded;
+    }
+
+    /**
+     * Disposes of the object when its container is disposed of.
+     */
+    public dispose(): void {
+        super.dispose();
+        if (this._synchronizer) {
+            this._synchronizer.dispose();
+        }
+    }
+
+    /**
+     * Gets the value of a key.
+     * @param key Key to get the value of.
+     * @returns the value, or undefined if the key isn't in the map.
+     */
+    public get(key: TKey): TValue | undefined {
+        const entry = this._entries.get(key);
+        return entry && !entry.deleted ? cloneValue(entry.data) : undefined;
+    }
+
+    /**
+     * Returns true if the map has a value for a key.
+     * @param key Key to look for.
+     */
+    public has(key: TKey): boolean {
+        const entry = this._entries.get(key);
+        return !!entry && !entry.deleted;
+    }
+
+    /**
+     * Gets the keys of the map.
+     */
+    public keys(): TKey[] {
+        return this.getEntries().map((entry) => entry.key as TKey);
+    }
+
+    /**
+     * Gets the values of the map.
+     */
+    public values(): TValue[] {
+        return this.getEntries().map((entry) => cloneValue(entry.data!));
+    }
+
+    /**
+     * Gets the key/value pairs of the map.
+     */
+    public entries(): [TKey, TValue][] {
+        return this.getEntries().map((entry) => [
+            entry.key as TKey,
+            cloneValue(entry.data!),
+        ]);
+    }
+
+    /**
+     * Sets the value of a key.
+     *
+     * @param key Key to set.
+     * @param value New value of the key.
+     *
+     * @returns a void promise that resolves once the change has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async set(key: TKey, value: TValue): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveMap:set",
+            "set",
+            this.initializeState
+        );
+        await this.sendChange(key, cloneValue(value), false);
+    }
+
+    /**
+     * Deletes a key from the map.
+     *
+     * @remarks
+     * Deleting a key that isn't in the map does nothing.
+     *
+     * @param key Key to delete.
+     *
+     * @returns a void promise that resolves once the change has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async delete(key: TKey): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveMap:delete",
+            "delete",
+            this.initializeState
+        );
+        if (!this.has(key)) return;
+        await this.sendChange(key, undefined, true);
+    }
+
+    private async sendChange(
+        key: string,
+        value: TValue | undefined,
+        deleted: boolean
+    ): Promise<void> {
+        // Changes queued while disconnected use the last known clientId, so they don't wait for the connection
+        const clientId =
+            this._synchronizer!.clientId ?? (await this.waitUntilConnected());
+        // A change should always win over the version of the key it was made against, even if the
+        // clock of the client that sent that version is ahead of ours.
+        const previous = this._entries.get(key);
+        const entry: ILiveMapEntry<TValue> = {
+            key,
+            name: deleted ? "delete" : "set",
+            data: value,
+            clientId,
+            timestamp: Math.max(
+                this.liveRuntime.getTimestamp(),
+                (previous?.timestamp ?? 0) + 1
+            ),
+        };
+        if (deleted) {
+            entry.deleted = true;
+        }
+        const evt = await this._synchronizer!.sendEvent<
+            ILiveMapEventData<TValue>
+        >({
+            entries: [entry],
+        });
+
+        // Update local entries immediately
+        this.mergeEntries(evt.data.entries, true);
+    }
+
+    private async onReceivedMapEvent(
+        evt: ILiveEvent<ILiveMapEventData<TValue>>,
+        sender: string
+    ): Promise<void> {
+        try {
+            const allowed = await this.liveRuntime.verifyRolesAllowed(
+                sender,
+                this._allowedRoles
+            );
+            if (!allowed || !Array.isArray(evt.data?.entries)) return;
+            this.mergeEntries(evt.data.entries, false);
+        } catch (err) {
+            this._logger?.sendErrorEvent(
+                TelemetryEvents.LiveMap.RoleVerificationError,
+                err
+            );
+        }
+    }
+
+    private mergeEntries(entries: ILiveMapEntry<TValue>[], local: boolean) {
+        let merged = false;
+        const changed = entries.filter((entry) => {
+            if (typeof entry?.key !== "string") return false;
+            const existing = this._entries.get(entry.key);
+            if (!LiveEvent.isNewer(existing, entry)) return false;
+            this._entries.set(
+                entry.key,
+                entry.deleted ? LiveMap.toDeletedEntry(entry) : entry
+            );
+            merged = true;
+            // Deleting a key that wasn't in the map doesn't change its value
+            return !entry.deleted || (!!existing && !existing.deleted);
+        });
+        if (!merged) return;
+        this.pruneDeletedEntries();
+
+        // Save the full map so that it's sent to new & reconnecting clients
+        this._synchronizer?.updateLocalState({
+            entries: [...this._entries.values()],
+        });
+        if (changed.length === 0) return;
+        changed.forEach((entry) => {
+            this.emit(
+                LiveMapEvents.valueChanged,
+                entry.key,
+                entry.deleted ? undefined : cloneValue(entry.data),
+                local,
+                entry.clientId
+            );
+        });
+        this._logger?.sendTelemetryEvent(
+            TelemetryEvents.LiveMap.ValueChanged,
+            null,
+            {
+                local,
+                keys: changed.length,
+            }
+        );
+    }
+
+    /**
+     * Forgets the oldest deleted keys once there are more than `maxDeletedKeys`.
+     *
+     * @remarks
+     * Deleted initial keys are always kept, since every client starts with the initial entries.
+     */
+    private pruneDeletedEntries() {
+        const deleted = [...this._entries.values()]
+            .filter(
+                (entry) => entry.deleted && !this._initialKeys.has(entry.key)
+            )
+            .sort((a, b) => a.timestamp - b.timestamp);
+        deleted
+            .slice(0, Math.max(deleted.length - this.maxDeletedKeys, 0))
+            .forEach((entry) => this._entries.delete(entry.key));
+    }
+
+    private static toDeletedEntry<TValue>(
+        entry: ILiveMapEntry<TValue>
+    ): ILiveMapEntry<TValue> {
+        return { ...entry, data: undefined };
+    }
+
+    private getEntries(): ILiveMapEntry<TValue>[] {
+        return [...this._entries.values()].filter((entry) => !entry.deleted);
+    }
+}
+
+/**
+ * Register `LiveMap` as an available `LoadableObjectClass` for use in packages that support dynamic object loading, such as `@microsoft/live-share-turbo`.
+ */
+DynamicObjectRegistry.registerObjectClass(LiveMap, LiveMap.TypeName);
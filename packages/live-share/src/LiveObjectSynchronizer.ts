@@ -10,6 +10,11 @@ import {
     ILiveEvent,
     UpdateSynchronizationState,
 } from "./interfaces";
+import {
+    ObjectSynchronizerEvents,
+    TransportRuntimeSignaler,
+    waitUntilConnected,
+} from "./internals";
 
 /**
  * @internal
@@ -48,6 +53,10 @@ import {
  * messages should also be validated on the receiving end, this can help prevent sending an excess of messages that we already know are going to fail,
  * reducing load & cost of the service.
  *
+ * When `queueChangesWhileDisconnected` is set for the `LiveShareRuntime`, events sent while disconnected are queued instead. Only the most
+ * recent change is kept, unless `coalesceChanges` is set to combine them. The queued change is sent with a new timestamp once reconnected,
+ * and is then passed to `updateState` as a local event so the live object can apply the re-stamped event.
+ *
  * Only a single synchronizer is allowed per live object. Attempting to create more than one synchronizer for the same live object will result in an exception
  * being raised.
  *
@@ -55,8 +64,24 @@ import {
  */
 export class LiveObjectSynchronizer<TState> {
     private _isDisposed = false;
+    private readonly runtime: IRuntimeSignaler;
     private _joinedListener: (clientId: string, timestamp: number) => void =
         () => {};
+    private _updateState?: UpdateSynchronizationState<TState>;
+    private _pendingChange?: IPendingChange;
+    private _lastClientId?: string;
+    private readonly _connectedListener = (clientId: string) => {
+        this._lastClientId = clientId;
+        this.sendPendingChange();
+    };
+
+    /**
+     * Optional. Combines a change made while disconnected with the change that was already queued.
+     *
+     * @remarks
+     * By default, the queued change is replaced. Set this for live objects that send partial changes through `sendEvent`.
+     */
+    public coalesceChanges?: (pending: any, next: any) => any;
 
     /**
      * Creates a new `LiveObjectSynchronizer` instance.
@@ -64,12 +89,17 @@ export class LiveObjectSynchronizer<TState> {
      * @param id ID of the live object being synchronized. This should be the value of `this.id` in a class that derives from `LiveDataObject`.
      ^ @param runtime The objects local runtime. This should be the value of `this.runtime`.
      * @param liveRuntime The runtime for the Live Share session. This should be the value of `this.liveRuntime` in a class derived from `LiveDataObject`.
+     * When it has a transport, the transport is used in place of `runtime` to send signals and identify the local client.
      */
     constructor(
         private readonly id: string,
-        private readonly runtime: IRuntimeSignaler,
+        runtime: IRuntimeSignaler,
         private readonly liveRuntime: LiveShareRuntime
-    ) {}
+    ) {
+        this.runtime = liveRuntime.transport
+            ? new TransportRuntimeSignaler(liveRuntime.transport, runtime)
+            : runtime;
+    }
 
     /**
      * Starts a `LiveObjectSynchronizer` instance.
@@ -87,6 +117,9 @@ export class LiveObjectSynchronizer<TState> {
         shouldUpdateTimestampPeriodically = false,
         enableBackgroundUpdates = true
     ): Promise<void> {
+        this._updateState = updateState;
+        this._lastClientId = this.runtime.clientId;
+        this.runtime.on("connected", this._connectedListener);
         return this.liveRuntime.objectManager.registerObject<TState>(
             this.id,
             this.runtime,
@@ -100,12 +133,32 @@ export class LiveObjectSynchronizer<TState> {
         );
     }
 
+    /**
+     * The local client's clientId, or the last clientId it had while disconnected.
+     */
+    public get clientId(): string | undefined {
+        return this.runtime.clientId ?? this._lastClientId;
+    }
+
+    /**
+     * Number of changes waiting to be sent once reconnected.
+     *
+     * @remarks
+     * Changes replaced by or combined into the queued change are each counted.
+     */
+    public get pendingChanges(): number {
+        return this._pendingChange?.count ?? 0;
+    }
+
     /**
      * Disposes of the synchronizer.
      */
     public dispose(): void {
         if (!this._isDisposed) {
             this._isDisposed = true;
+            this.runtime.off("connected", this._connectedListener);
+            this._pendingChange = undefined;
+            this.liveRuntime.objectManager.setPendingChanges(this.id, 0);
             this.liveRuntime.objectManager.unregisterObject(this.id);
             this.liveRuntime.objectManager.off("joined", this._joinedListener);
         }
@@ -154,10 +207,46 @@ export class LiveObjectSynchronizer<TState> {
     /**
      * Sends a one-time event through the synchronizer
      * @param data the date for the event to send
+     * @param revision Optional. the revision of the object's state the event represents. Used for versioned updates.
      * @returns the event that was sent
      */
-    public sendEvent<TState = any>(data: TState): Promise<ILiveEvent<TState>> {
-        return this.liveRuntime.objectManager.sendEventForObject(this.id, data);
+    public sendEvent<TState = any>(
+        data: TState,
+        revision?: number
+    ): Promise<ILiveEvent<TState>> {
+        if (this.shouldQueueChanges) {
+            return Promise.resolve(this.queueChange(data, revision));
+        }
+        return this.liveRuntime.objectManager.sendEventForObject(
+            this.id,
+            data,
+            revision
+        );
+    }
+
+    /**
+     * Updates the local client's most recent state without sending an event.
+     *
+     * @remarks
+     * The state will be included the next time the local client responds to a "connect" message or sends a
+     * background "update". Useful for objects that send partial changes through `sendEvent`, but still want new
+     * and reconnecting clients to receive their full state.
+     * @param data the full state for the local client
+     * @param revision Optional. the revision of the object's state. Used for versioned updates.
+     * @param timestamp Optional. the time the state was set. Defaults to the current time.
+     */
+    public async updateLocalState(
+        data: TState,
+        revision?: number,
+        timestamp?: number
+    ): Promise<void> {
+        this.liveRuntime.objectManager.updateEventLocallyInStore(this.id, {
+            clientId: await waitUntilConnected(this.runtime),
+            timestamp: timestamp ?? this.liveRuntime.getTimestamp(),
+            name: ObjectSynchronizerEvents.update,
+            data,
+            revision,
+        });
     }
 
     /**
@@ -169,6 +258,9 @@ export class LiveObjectSynchronizer<TState> {
     public sendThrottledEvent<TState = any>(
         data: TState
     ): Promise<ILiveEvent<TState>> {
+        if (this.shouldQueueChanges) {
+            return Promise.resolve(this.queueChange(data));
+        }
         return this.liveRuntime.objectManager.sendThrottledEventForObject(
             this.id,
             data
@@ -194,4 +286,73 @@ export class LiveObjectSynchronizer<TState> {
             }
         );
     }
+
+    private get shouldQueueChanges(): boolean {
+        return (
+            this.liveRuntime.queueChangesWhileDisconnected &&
+            !this.runtime.connected
+        );
+    }
+
+    /**
+     * Queues a change to send once reconnected.
+     * @returns a local event for the change, which can be applied right away.
+     */
+    private queueChange<TData>(
+        data: TData,
+        revision?: number
+    ): ILiveEvent<TData> {
+        const pending = this._pendingChange;
+        this._pendingChange = {
+            data:
+                pending && this.coalesceChanges
+                    ? this.coalesceChanges(pending.data, data)
+                    : data,
+            revision,
+            count: (pending?.count ?? 0) + 1,
+        };
+        this.liveRuntime.objectManager.setPendingChanges(
+            this.id,
+            this._pendingChange.count
+        );
+        return {
+            clientId: this.clientId ?? "",
+            timestamp: this.liveRuntime.getTimestamp(),
+            name: ObjectSynchronizerEvents.update,
+            data,
+            revision,
+        };
+    }
+
+    private async sendPendingChange(): Promise<void> {
+        const pending = this._pendingChange;
+        if (!pending || this._isDisposed) return;
+        this._pendingChange = undefined;
+        this.liveRuntime.objectManager.setPendingChanges(this.id, 0);
+        try {
+            // The event is stamped with the current time when sent
+            const evt = await this.liveRuntime.objectManager.sendEventForObject(
+                this.id,
+                pending.data,
+                pending.revision
+            );
+            await this._updateState?.(evt, evt.clientId, true);
+        } catch (err: any) {
+            console.error(
+                `LiveObjectSynchronizer: unable to send the change queued for object '${this.id}': ${err?.message}`
+            );
+        }
+    }
+}
+
+/**
+ * Change queued by `LiveObjectSynchronizer` while disconnected.
+ */
+interface IPendingChange {
+    data: any;
+    revision?: number;
+    /**
+     * Number of changes made while disconnected, including the ones replaced by or combined into `data`.
+     */
+    count: number;
 }
@@ -0,0 +1,711 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { DataObjectFactory } from "@fluidframework/aqueduct";
+import { IEvent } from "@fluidframework/common-definitions";
+import { IFluidHandle } from "@fluidframework/core-interfaces";
+import { v4 as uuid } from "uuid";
+import { LiveDataObject } from "./LiveDataObject";
+import { LiveState } from "./LiveState";
+import { LivePresence } from "./LivePresence";
+import { LivePresenceUser } from "./LivePresenceUser";
+import { LiveDataObjectInitializeState, UserMeetingRole } from "./interfaces";
+import { DynamicObjectRegistry } from "./DynamicObjectRegistry";
+import {
+    LiveDataObjectInitializeNotNeededError,
+    LiveDataObjectNotInitializedError,
+    UnexpectedError,
+} from "./errors";
+
+/**
+ * Events supported by `LivePoll` object.
+ */
+export enum LivePollEvents {
+    /**
+     * The poll was opened, closed, revealed or reset.
+     */
+    stateChanged = "stateChanged",
+    /**
+     * A user's ballot changed.
+     */
+    ballotsChanged = "ballotsChanged",
+}
+
+/**
+ * Event typings for `LivePoll` class.
+ */
+export interface ILivePollEvents extends IEvent {
+    /**
+     * The poll was opened, closed, revealed or reset.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.state The new poll state.
+     * @param listener.local If true the local client initiated this change.
+     * @param listener.clientId The client ID for the user that triggered this change.
+     */
+    (
+        event: "stateChanged",
+        listener: (
+            state: ILivePollState,
+            local: boolean,
+            clientId: string
+        ) => void
+    ): any;
+    /**
+     * A user's ballot changed.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.local If true the local user cast the ballot.
+     * @param listener.clientId The client ID for the user that cast the ballot.
+     */
+    (
+        event: "ballotsChanged",
+        listener: (local: boolean, clientId: string) => void
+    ): any;
+}
+
+/**
+ * Lifecycle of a `LivePoll`.
+ */
+export enum LivePollStatus {
+    /**
+     * No poll has been opened yet, or the poll was reset.
+     */
+    idle = "idle",
+    /**
+     * Users can vote.
+     */
+    open = "open",
+    /**
+     * Voting has ended, but the results have not been revealed.
+     */
+    closed = "closed",
+    /**
+     * Voting has ended and the results are revealed.
+     */
+    revealed = "revealed",
+}
+
+/**
+ * Kind of ballot users cast in a `LivePoll`.
+ */
+export enum LivePollKind {
+    /**
+     * Each user chooses one choice.
+     */
+    singleChoice = "singleChoice",
+    /**
+     * Each user chooses one or more choices.
+     */
+    multipleChoice = "multipleChoice",
+    /**
+     * Each user chooses one estimate card, such as in planning poker. Results include the average and median
+     * of the `value` of the chosen cards.
+     */
+    estimate = "estimate",
+}
+
+/**
+ * Choice that users can vote for in a `LivePoll`.
+ */
+export interface ILivePollChoice {
+    /**
+     * Unique ID of the choice within the poll.
+     */
+    id: string;
+    /**
+     * Label shown to users.
+     */
+    label: string;
+    /**
+     * Optional. Numeric value of an estimate card, used to compute the average and median of estimates.
+     * Cards without a value, such as "?", are not included in the average and median.
+     */
+    value?: number;
+}
+
+/**
+ * Options used to open a `LivePoll`.
+ */
+export interface ILivePollOptions {
+    /**
+     * Optional. Question asked to users.
+     */
+    question?: string;
+    /**
+     * Choices users can vote for.
+     */
+    choices: ILivePollChoice[];
+    /**
+     * Optional. Kind of ballot users cast. Defaults to `LivePollKind.singleChoice`.
+     */
+    kind?: LivePollKind;
+    /**
+     * Optional. If true, results and ballots don't include the userId of voters. Defaults to false.
+     *
+     * @remarks
+     * Ballots are still shared with every client to compute the results, so anonymous polls hide who voted
+     * for what from the app's UI but should not be used for confidential votes.
+     */
+    anonymous?: boolean;
+}
+
+/**
+ * Synchronized state of a `LivePoll`.
+ */
+export interface ILivePollState {
+    /**
+     * Unique ID of the current poll, which changes each time the poll is opened.
+     */
+    pollId?: string;
+    /**
+     * Lifecycle status of the poll.
+     */
+    status: LivePollStatus;
+    /**
+     * Optional. Question asked to users.
+     */
+    question?: string;
+    /**
+     * Choices users can vote for.
+     */
+    choices: ILivePollChoice[];
+    /**
+     * Kind of ballot users cast.
+     */
+    kind: LivePollKind;
+    /**
+     * If true, results and ballots don't include the userId of voters.
+     */
+    anonymous: boolean;
+    /**
+     * Ballots counted when voting ended, or undefined while the poll is open.
+     *
+     * @remarks
+     * Set by the client that closed or revealed the poll, so that ballots it received after voting ended are ignored
+     * by every client. Includes the userId of voters, even when the poll is anonymous.
+     */
+    ballots?: ILivePollBallot[];
+}
+
+/**
+ * Ballot cast by a user in a `LivePoll`.
+ */
+export interface ILivePollBallot {
+    /**
+     * userId of the voter. Undefined when the poll is anonymous.
+     */
+    userId?: string;
+    /**
+     * IDs of the chosen choices.
+     */
+    choiceIds: string[];
+}
+
+/**
+ * Aggregated result for a choice of a `LivePoll`.
+ */
+export interface ILivePollChoiceResult extends ILivePollChoice {
+    /**
+     * Number of users that voted for this choice.
+     */
+    count: number;
+    /**
+     * userIds of the users that voted for this choice. Empty when the poll is anonymous.
+     */
+    voterIds: string[];
+}
+
+/**
+ * Aggregated results of a `LivePoll`.
+ */
+export interface ILivePollResults {
+    /**
+     * Number of users that voted.
+     */
+    totalVoters: number;
+    /**
+     * Results for each choice, in the order of the poll's choices.
+     */
+    choices: ILivePollChoiceResult[];
+    /**
+     * Average `value` of the chosen estimate cards. Undefined for polls that are not of kind `estimate`, or without valued votes.
+     */
+    average?: number;
+    /**
+     * Median `value` of the chosen estimate cards. Undefined for polls that are not of kind `estimate`, or without valued votes.
+     */
+    median?: number;
+}
+
+/**
+ * @hidden
+ * Ballot shared through presence.
+ */
+interface IPollPresenceData {
+    pollId?: string;
+    choiceIds: string[];
+}
+
+const pollStateKey = "@microsoft/live-share:LivePoll:LiveState";
+const ballotsPresenceKey = "@microsoft/live-share:LivePoll:LivePresence";
+
+const idleState: ILivePollState = {
+    status: LivePollStatus.idle,
+    choices: [],
+    kind: LivePollKind.singleChoice,
+    anonymous: false,
+};
+
+/**
+ * Live fluid object that runs polls and votes, such as planning poker estimates.
+ *
+ * @remarks
+ * A poll is opened with a set of choices, users vote while it is open, and the poll is then closed and its
+ * results revealed. Users with the `allowedRoles` passed to `.initialize()` control the lifecycle of the poll,
+ * while every user can vote. Each user has a single ballot, shared by all of their connections, so voting
+ * from another device replaces the user's previous ballot.
+ */
+export class LivePoll extends LiveDataObject<{
+    Events: ILivePollEvents;
+}> {
+    private _pollState?: LiveState<ILivePollState>;
+    private _ballots?: LivePresence<IPollPresenceData>;
+
+    /**
+     * The objects fluid type/name.
+     */
+    public static readonly TypeName = `@microsoft/live-share:LivePoll`;
+
+    /**
+     * The objects fluid type factory.
+     */
+    public static readonly factory = new DataObjectFactory(
+        LivePoll.TypeName,
+        LivePoll,
+        [],
+        {},
+        new Map<string, Promise<any>>([
+            LiveState.factory.registryEntry,
+            LivePresence.factory.registryEntry,
+        ])
+    );
+
+    /**
+     * Current state of the poll.
+     */
+    public get state(): ILivePollState {
+        return this._pollState?.state ?? idleState;
+    }
+
+    /**
+     * Current lifecycle status of the poll.
+     */
+    public get status(): LivePollStatus {
+        return this.state.status;
+    }
+
+    /**
+     * IDs of the choices the local user voted for in the current poll, or undefined if they haven't voted.
+     */
+    public get localBallot(): string[] | undefined {
+        const localUser = this._ballots?.localUser;
+        return localUser
+            ? this.getUserBallots().get(localUser.userId)
+            : undefined;
+    }
+
+    /**
+     * Initialize the object to begin running polls.
+     *
+     * @param allowedRoles Optional. List of roles allowed to open, close, reveal and reset polls. Every user can vote.
+     *
+     * @returns a void promise that resolves once complete.
+     *
+     * @throws error when `.initialize()` has already been called for this class instance.
+     */
+    public async initialize(allowedRoles?: UserMeetingRole[]): Promise<void> {
+        LiveDataObjectInitializeNotNeededError.assert(
+            "LivePoll:initialize",
+            this.initializeState
+        );
+        this.initializeState = LiveDataObjectInitializeState.pending;
+        this._allowedRoles = allowedRoles ?? [];
+
+        this.pollState.on("stateChanged", (state, local, clientId) => {
+            this.emit(LivePollEvents.stateChanged, state, local, clientId);
+        });
+        this.ballots.on("presenceChanged", (user, local, clientId) => {
+            this.emit(LivePollEvents.ballotsChanged, local, clientId);
+        });
+        try {
+            await Promise.all([
+                this.pollState.initialize(idleState, allowedRoles),
+                this.ballots.initialize({ choiceIds: [] }),
+            ]);
+        } catch (error: unknown) {
+            this.initializeState = LiveDataObjectInitializeState.fatalError;
+            throw error;
+        }
+
+        this.initializeState = LiveDataObjectInitializeState.succeeded;
+    }
+
+    /**
+     * Opens a new poll, replacing the current poll and its ballots.
+     *
+     * @param options Options for the new poll.
+     *
+     * @returns a void promise that resolves once the change has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     * @throws error if there are no choices, or if two choices have the same ID.
+     */
+    public async open(options: ILivePollOptions): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LivePoll:open",
+            "open",
+            this.initializeState
+        );
+        const ids = options.choices.map((choice) => choice.id);
+        if (ids.length === 0 || new Set(ids).size !== ids.length) {
+            throw new Error(
+                `LivePoll:open - \`choices\` must contain at least one choice, and each choice must have a unique \`id\`.`
+            );
+        }
+        await this.pollState.set({
+            pollId: uuid(),
+            status: LivePollStatus.open,
+            question: options.question,
+            choices: options.choices.map((choice) => ({ ...choice })),
+            kind: options.kind ?? LivePollKind.singleChoice,
+            anonymous: options.anonymous ?? false,
+        });
+    }
+
+    /**
+     * Closes the poll so that users can no longer vote.
+     *
+     * @returns a void promise that resolves once the change has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     * @throws error if the poll is not open.
+     */
+    public async close(): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LivePoll:close",
+            "close",
+            this.initializeState
+        );
+        if (this.status !== LivePollStatus.open) {
+            throw new Error(
+                `LivePoll:close - the poll can only be closed while it is open, but its status is "${this.status}".`
+            );
+        }
+        await this.pollState.set({
+            ...this.state,
+            status: LivePollStatus.closed,
+            ballots: this.getFinalBallots(),
+        });
+    }
+
+    /**
+     * Reveals the results of the poll, closing it if it is still open.
+     *
+     * @returns a void promise that resolves once the change has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     * @throws error if the poll is not open or closed.
+     */
+    public async reveal(): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LivePoll:reveal",
+            "reveal",
+            this.initializeState
+        );
+        if (
+            this.status !== LivePollStatus.open &&
+            this.status !== LivePollStatus.closed
+        ) {
+            throw new Error(
+                `LivePoll:reveal - the poll can only be revealed while it is open or closed, but its status is "${this.status}".`
+            );
+        }
+        await this.pollState.set({
+            ...this.state,
+            status: LivePollStatus.revealed,
+            ballots: this.getFinalBallots(),
+        });
+    }
+
+    /**
+     * Ends the current poll and clears it.
+     *
+     * @returns a void promise that resolves once the change has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async reset(): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LivePoll:reset",
+            "reset",
+            this.initializeState
+        );
+        await this.pollState.set(idleState);
+    }
+
+    /**
+     * Casts the local user's ballot, replacing their previous ballot for the current poll.
+     *
+     * @param choiceIds ID of the chosen choice, or list of IDs for `multipleChoice` polls.
+     *
+     * @returns a void promise that resolves once the ballot has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the poll is not open.
+     * @throws error if a choice ID is not one of the poll's choices, or if more than one choice is passed for
+     * `singleChoice` and `estimate` polls.
+     */
+    public async vote(choiceIds: string | string[]): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LivePoll:vote",
+            "vote",
+            this.initializeState
+        );
+        const state = this.state;
+        if (state.status !== LivePollStatus.open) {
+            throw new Error(
+                `LivePoll:vote - votes can only be cast while the poll is open, but its status is "${state.status}".`
+            );
+        }
+        const ids = Array.from(
+            new Set(Array.isArray(choiceIds) ? choiceIds : [choiceIds])
+        );
+        if (ids.length === 0) {
+            throw new Error(
+                `LivePoll:vote - at least one choice must be chosen. To remove a vote, use \`.clearVote()\` instead.`
+            );
+        }
+        if (ids.length > 1 && state.kind !== LivePollKind.multipleChoice) {
+            throw new Error(
+                `LivePoll:vote - only one choice can be chosen in a poll of kind "${state.kind}".`
+            );
+        }
+        const unknownId = ids.find(
+            (id) => !state.choices.some((choice) => choice.id === id)
+        );
+        if (unknownId !== undefined) {
+            throw new Error(
+                `LivePoll:vote - "${unknownId}" is not the ID of one of the poll's choices.`
+            );
+        }
+        await this.ballots.update({ pollId: state.pollId, choiceIds: ids });
+    }
+
+    /**
+     * Removes the local user's ballot from the current poll.
+     *
+     * @returns a void promise that resolves once the change has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the poll is not open.
+     */
+    public async clearVote(): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LivePoll:clearVote",
+            "clearVote",
+            this.initializeState
+        );
+        if (this.status !== LivePollStatus.open) {
+            throw new Error(
+                `LivePoll:clearVote - votes can only be changed while the poll is open, but its status is "${this.status}".`
+            );
+        }
+        await this.ballots.update({ choiceIds: [] });
+    }
+
+    /**
+     * Returns the ballots cast in the current poll, one per user.
+     */
+    public getBallots(): ILivePollBallot[] {
+        const anonymous = this.state.anonymous;
+        const ballots: ILivePollBallot[] = [];
+        this.getUserBallots().forEach((choiceIds, userId) => {
+            ballots.push({
+                userId: anonymous ? undefined : userId,
+                choiceIds,
+            });
+        });
+        return ballots;
+    }
+
+    /**
+     * Returns whether a user has voted in the current poll.
+     *
+     * @param userId userId of the user.
+     */
+    public hasVoted(userId: string): boolean {
+        return this.getUserBallots().has(userId);
+    }
+
+    /**
+     * Aggregates the ballots of the current poll.
+     *
+     * @remarks
+     * Results are computed from the ballots shared with every client, so they are available before the poll is
+     * revealed. Apps should only show them once `status` is `revealed` when votes should stay hidden until then.
+     */
+    public getResults(): ILivePollResults {
+        const state = this.state;
+        const choices: ILivePollChoiceResult[] = state.choices.map(
+            (choice) => ({ ...choice, count: 0, voterIds: [] })
+        );
+        const values: number[] = [];
+        let totalVoters = 0;
+        this.getUserBallots().forEach((choiceIds, userId) => {
+            totalVoters++;
+            choiceIds.forEach((id) => {
+                const result = choices.find((choice) => choice.id === id);
+                if (!result) return;
+                result.count++;
+                if (!state.anonymous) {
+                    result.voterIds.push(userId);
+                }
+                if (result.value !== undefined) {
+                    values.push(result.value);
+                }
+            });
+        });
+        const results: ILivePollResults = { totalVoters, choices };
+        if (state.kind === LivePollKind.estimate && values.length > 0) {
+            values.sort((a, b) => a - b);
+            const middle = Math.floor(values.length / 2);
+            results.average =
+                values.reduce((sum, value) => sum + value, 0) / values.length;
+            results.median =
+                values.length % 2
+                    ? values[middle]
+                    : (values[middle - 1] + values[middle]) / 2;
+        }
+        return results;
+    }
+
+    /**
+     * Disposes of the object when its container is disposed of.
+     */
+    public dispose(): void {
+        super.dispose();
+        this._pollState?.dispose();
+        this._ballots?.dispose();
+    }
+
+    /**
+     * initializingFirstTime is run only once by the first client to create the DataObject. Here we use it to
+     * create the child objects.
+     */
+    protected async initializingFirstTime() {
+        const [pollState, ballots] = await Promise.all([
+            LiveState.factory.createChildInstance(this.context),
+            LivePresence.factory.createChildInstance(this.context),
+        ]);
+        this.root.set(pollStateKey, pollState.handle);
+        this.root.set(ballotsPresenceKey, ballots.handle);
+    }
+
+    /**
+     * hasInitialized is run by each client as they load the DataObject. Here we use it to get the child objects.
+     */
+    protected async hasInitialized() {
+        const [pollState, ballots] = await Promise.all([
+            this.root
+                .get<IFluidHandle<LiveState<ILivePollState>>>(pollStateKey)
+                ?.get(),
+            this.root
+                .get<IFluidHandle<LivePresence<IPollPresenceData>>>(
+                    ballotsPresenceKey
+                )
+                ?.get(),
+        ]);
+        pollState?.__dangerouslySetLiveRuntime(this.liveRuntime);
+        ballots?.__dangerouslySetLiveRuntime(this.liveRuntime);
+        this._pollState = pollState;
+        this._ballots = ballots;
+    }
+
+    private get pollState() {
+        UnexpectedError.assert(
+            this._pollState !== undefined,
+            "LivePoll:pollState",
+            "This happens when `hasInitialized()` has not yet resolved, which should not happen."
+        );
+        return this._pollState;
+    }
+
+    private get ballots() {
+        UnexpectedError.assert(
+            this._ballots !== undefined,
+            "LivePoll:ballots",
+            "This happens when `hasInitialized()` has not yet resolved, which should not happen."
+        );
+        return this._ballots;
+    }
+
+    /**
+     * Returns the choices of each user that voted in the current poll, by userId.
+     *
+     * @remarks
+     * Once voting has ended, only the ballots counted in the poll's state are returned.
+     */
+    private getUserBallots(): Map<string, string[]> {
+        const ballots = new Map<string, string[]>();
+        const finalBallots = this.state.ballots;
+        if (this.status !== LivePollStatus.open && finalBallots) {
+            finalBallots.forEach((ballot) => {
+                if (ballot.userId === undefined) return;
+                ballots.set(ballot.userId, [...ballot.choiceIds]);
+            });
+            return ballots;
+        }
+        this._ballots?.getUsers().forEach((user) => {
+            const choiceIds = this.getUserChoiceIds(user);
+            if (!choiceIds) return;
+            ballots.set(user.userId, choiceIds);
+        });
+        return ballots;
+    }
+
+    /**
+     * Returns the ballots to count once voting ends, including the userId of voters.
+     */
+    private getFinalBallots(): ILivePollBallot[] {
+        return Array.from(this.getUserBallots(), ([userId, choiceIds]) => ({
+            userId,
+            choiceIds,
+        }));
+    }
+
+    /**
+     * Returns the choices of a user's ballot for the current poll, or undefined if they haven't voted.
+     */
+    private getUserChoiceIds(
+        user: LivePresenceUser<IPollPresenceData>
+    ): string[] | undefined {
+        const pollId = this.state.pollId;
+        const data = user.data;
+        if (!pollId || data?.pollId !== pollId || !data.choiceIds.length) {
+            return undefined;
+        }
+        return [...data.choiceIds];
+    }
+}
+
+/**
+ * Register `LivePoll` as an available `LoadableObjectClass` for use in packages that support dynamic object loading, such as `@microsoft/live-share-turbo`.
+ */
+DynamicObjectRegistry.registerObjectClass(LivePoll, LivePoll.TypeName);
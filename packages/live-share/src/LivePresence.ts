@@ -8,12 +8,20 @@ import { IEvent } from "@fluidframework/common-definitions";
 import {
     LivePresenceUser,
     PresenceState,
+    ILivePresenceDevice,
     ILivePresenceEvent,
+    LivePresenceAggregation,
+    LivePresenceAggregationPolicy,
     LivePresenceReceivedEventData,
 } from "./LivePresenceUser";
 import { LiveObjectSynchronizer } from "./LiveObjectSynchronizer";
 import { LiveTelemetryLogger } from "./LiveTelemetryLogger";
-import { cloneValue, TelemetryEvents } from "./internals";
+import {
+    cloneValue,
+    isValidLiveData,
+    mergeValue,
+    TelemetryEvents,
+} from "./internals";
 import {
     LiveDataObjectInitializeNotNeededError,
     LiveDataObjectNotInitializedError,
@@ -23,10 +31,13 @@ import { TimeInterval } from "./TimeInterval";
 import { DynamicObjectRegistry } from "./DynamicObjectRegistry";
 import {
     IClientInfo,
+    IPresenceActivitySource,
     LiveDataObjectInitializeState,
+    LiveDataValidator,
     UserMeetingRole,
 } from "./interfaces";
 import { LiveDataObject } from "./LiveDataObject";
+import { DocumentActivitySource } from "./DocumentActivitySource";
 
 /**
  * Events supported by `LivePresence` object.
@@ -36,6 +47,10 @@ export enum LivePresenceEvents {
      * The presence for the local or a remote user has changed.
      */
     presenceChanged = "presenceChanged",
+    /**
+     * Presence data received from another client was rejected by the validator passed to `initialize()`.
+     */
+    invalidEvent = "invalidEvent",
 }
 
 /**
@@ -60,6 +75,47 @@ export interface ILivePresenceEvents<TData extends object = object>
             clientId: string
         ) => void
     ): any;
+    /**
+     * Presence data received from another client was rejected by the validator passed to `initialize()`.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.data The data that was rejected.
+     * @param listener.clientId The client ID for the user that send this message.
+     */
+    (
+        event: "invalidEvent",
+        listener: (data: unknown, clientId: string) => void
+    ): any;
+}
+
+/**
+ * Options used to configure automatic activity tracking for the local user.
+ */
+export interface ILivePresenceActivityOptions {
+    /**
+     * Optional. Number of milliseconds without activity before the local user is considered away.
+     * Defaults to `300000` (5 minutes).
+     */
+    idleTimeout?: number;
+    /**
+     * Optional. If `true` the local user is considered away while the app is hidden. Defaults to `true`.
+     */
+    awayWhenHidden?: boolean;
+    /**
+     * Optional. Source of user activity. Defaults to a `DocumentActivitySource`.
+     */
+    activitySource?: IPresenceActivitySource;
+}
+
+/**
+ * @hidden
+ */
+interface IActivityTracking {
+    idleTimeout: number;
+    awayWhenHidden: boolean;
+    lastActivity: number;
+    idleTimer?: any;
+    unregister: (() => void)[];
 }
 
 /**
@@ -76,6 +132,13 @@ export class LivePresence<
     private _users: LivePresenceUser<TData>[] = [];
     private _lastEmitPresenceStateMap = new Map<string, PresenceState>();
     private _currentPresence?: LivePresenceReceivedEventData<TData>;
+    private _validator?: LiveDataValidator<TData>;
+    private _device?: ILivePresenceDevice;
+    private _aggregation: LivePresenceAggregation<TData> =
+        LivePresenceAggregationPolicy.mostRecentUpdate;
+    private _activityTracking?: IActivityTracking;
+    private _pendingData?: TData;
+    private _isAutoAway = false;
 
     private _synchronizer?: LiveObjectSynchronizer<ILivePresenceEvent<TData>>;
 
@@ -111,6 +174,32 @@ export class LivePresence<
         });
     }
 
+    /**
+     * Policy used to aggregate the state and data of users connected from multiple clients.
+     *
+     * @remarks
+     * Defaults to `LivePresenceAggregationPolicy.mostRecentUpdate`. Set to a custom
+     * {@link LivePresenceConnectionSelector} to select the connection used for each user.
+     * The state and data of every connection remain available from `LivePresenceUser.getConnections()`.
+     */
+    public get aggregationPolicy(): LivePresenceAggregation<TData> {
+        return this._aggregation;
+    }
+
+    public set aggregationPolicy(value: LivePresenceAggregation<TData>) {
+        this._aggregation = value;
+        this.getUsers().forEach((user) => {
+            user.aggregation = value;
+        });
+    }
+
+    /**
+     * Description of the local device shared with other clients, if set.
+     */
+    public get device(): ILivePresenceDevice | undefined {
+        return cloneValue(this._device);
+    }
+
     /**
      * Local {@link LivePresenceUser}.
      * Can be undefined before LivePresence is initialized.
@@ -127,6 +216,8 @@ export class LivePresence<
      * @param data Optional. Custom data object to share. A deep copy of the data object is saved to avoid any accidental modifications.
      * @param state Optional. Initial presence state. Defaults to `PresenceState.online`.
      * @param allowedRoles Optional. List of roles allowed to emit presence changes.
+     * @param validator Optional. Validator for the data of other users. Presence updates with rejected data are ignored and
+     * emitted through the `invalidEvent` event.
      *
      * @returns a void promise that resolves once complete.
      *
@@ -137,7 +228,8 @@ export class LivePresence<
     public async initialize(
         data?: TData,
         state = PresenceState.online,
-        allowedRoles?: UserMeetingRole[]
+        allowedRoles?: UserMeetingRole[],
+        validator?: LiveDataValidator<TData>
     ): Promise<void> {
         LiveDataObjectInitializeNotNeededError.assert(
             "LivePresence:initialize",
@@ -155,6 +247,7 @@ export class LivePresence<
 
         // Save off allowed roles
         this._allowedRoles = allowedRoles || [];
+        this._validator = validator;
 
         // Set default presence
         this._currentPresence = {
@@ -214,6 +307,7 @@ export class LivePresence<
      */
     public dispose(): void {
         super.dispose();
+        this.stopActivityTracking();
         if (this._synchronizer) {
             this._synchronizer.dispose();
         }
@@ -234,7 +328,9 @@ export class LivePresence<
      * Updates the local user's presence shared data object and/or state.
      *
      * @remarks
-     * This will trigger the immediate broadcast of the users presence to all other clients.
+     * This will trigger the immediate broadcast of the users presence to all other clients. Only the
+     * local connection is updated, so a user connected from multiple clients can share different data
+     * from each of them.
      *
      * @param data Optional. Data object to change. A deep copy of the data object is saved to avoid any future changes.
      * @param state Optional. Presence state to change.
@@ -245,7 +341,135 @@ export class LivePresence<
      * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
      */
     public async update(data?: TData, state?: PresenceState): Promise<void> {
-        return await this.updateInternal(data, state);
+        if (state !== undefined) {
+            // Activity tracking shouldn't override a state set by the app
+            this._isAutoAway = false;
+        }
+        return await this.updateData(data, () =>
+            this.updateInternal(data, state)
+        );
+    }
+
+    /**
+     * Updates some of the fields of the local user's presence shared data object.
+     *
+     * @remarks
+     * The fields are merged into the local user's current data, including fields patched by earlier calls
+     * that haven't been sent yet, so components that each own some of the fields don't overwrite each other.
+     * Patches are throttled, so that all patches made within a short period are sent as a single update.
+     *
+     * @param partialData Fields of the data object to change. A deep copy of the fields is saved to avoid any future changes.
+     * @param deep Optional. If `true` nested objects are merged recursively, otherwise they are replaced. Defaults to `false`.
+     *
+     * @returns a void promise that resolves once the update event has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async patch(
+        partialData: Partial<TData>,
+        deep: boolean = false
+    ): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LivePresence:patch",
+            "patch",
+            this.initializeState
+        );
+        const data = mergeValue(
+            this._pendingData ?? this._currentPresence?.data.data,
+            partialData,
+            deep
+        );
+        return await this.updateData(data, () =>
+            this.updateInternal(data, undefined, true)
+        );
+    }
+
+    /**
+     * If `true` the local user's state is being updated automatically by `startActivityTracking()`.
+     */
+    public get isTrackingActivity(): boolean {
+        return !!this._activityTracking;
+    }
+
+    /**
+     * Starts updating the local user's state automatically based on their activity.
+     *
+     * @remarks
+     * The local user is set to `PresenceState.away` once they have been idle for `idleTimeout`, or when
+     * the app is hidden, and back to `PresenceState.online` once they are active again. Each change is
+     * broadcast to all other clients. The state is only set back to online if it was set to away by
+     * activity tracking, so a state passed to `update()` is left unchanged until the user is idle again.
+     *
+     * @param options Optional. Options used to configure activity tracking.
+     *
+     * @throws error if initialization has not yet succeeded.
+     */
+    public startActivityTracking(options?: ILivePresenceActivityOptions): void {
+        LiveDataObjectNotInitializedError.assert(
+            "LivePresence:startActivityTracking",
+            "startActivityTracking",
+            this.initializeState
+        );
+        this.stopActivityTracking();
+
+        const source = options?.activitySource ?? new DocumentActivitySource();
+        const tracking: IActivityTracking = {
+            idleTimeout: options?.idleTimeout ?? 5 * 60 * 1000,
+            awayWhenHidden: options?.awayWhenHidden ?? true,
+            lastActivity: new Date().getTime(),
+            unregister: [],
+        };
+        tracking.unregister.push(
+            source.onActivity(() => this.activityDetected()),
+            source.onVisibilityChange((visible) => {
+                if (visible) {
+                    this.activityDetected();
+                } else if (tracking.awayWhenHidden) {
+                    this.setIdle();
+                }
+            })
+        );
+        this._activityTracking = tracking;
+        this.scheduleIdleCheck(tracking.idleTimeout);
+    }
+
+    /**
+     * Stops updating the local user's state automatically.
+     *
+     * @remarks
+     * The local user's current state is left unchanged.
+     */
+    public stopActivityTracking(): void {
+        const tracking = this._activityTracking;
+        if (!tracking) return;
+        this._activityTracking = undefined;
+        clearTimeout(tracking.idleTimer);
+        tracking.unregister.forEach((unregister) => unregister());
+    }
+
+    /**
+     * Updates the description of the local device shared with other clients.
+     *
+     * @remarks
+     * This will trigger the immediate broadcast of the users presence to all other clients. The device is
+     * available to other clients from the local user's {@link LivePresenceConnection}.
+     *
+     * @param device Description of the local device.
+     *
+     * @returns a void promise that resolves once the update event has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async updateDevice(device: ILivePresenceDevice): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LivePresence:updateDevice",
+            "updateDevice",
+            this.initializeState
+        );
+        this._device = cloneValue(device);
+        return await this.updateInternal();
     }
 
     /**
@@ -270,6 +494,67 @@ export class LivePresence<
         return this._users.find((user) => user.userId == userId);
     }
 
+    /**
+     * Tracks data that has been sent but not yet applied to the local user, so that patches are merged into it.
+     */
+    private async updateData(
+        data: TData | undefined,
+        update: () => Promise<void>
+    ): Promise<void> {
+        if (data === undefined) return await update();
+        this._pendingData = data;
+        try {
+            await update();
+        } finally {
+            if (this._pendingData === data) {
+                this._pendingData = undefined;
+            }
+        }
+    }
+
+    private activityDetected() {
+        const tracking = this._activityTracking;
+        if (!tracking) return;
+        tracking.lastActivity = new Date().getTime();
+        if (tracking.idleTimer === undefined) {
+            this.scheduleIdleCheck(tracking.idleTimeout);
+        }
+        if (this._isAutoAway) {
+            this._isAutoAway = false;
+            this.updateActivityState(PresenceState.online);
+        }
+    }
+
+    private scheduleIdleCheck(delay: number) {
+        const tracking = this._activityTracking!;
+        tracking.idleTimer = setTimeout(() => {
+            tracking.idleTimer = undefined;
+            if (this._activityTracking !== tracking) return;
+            // Activity only records its time, so check whether the user has been idle for long enough.
+            const idle = new Date().getTime() - tracking.lastActivity;
+            if (idle >= tracking.idleTimeout) {
+                this.setIdle();
+            } else {
+                this.scheduleIdleCheck(tracking.idleTimeout - idle);
+            }
+        }, delay);
+    }
+
+    private setIdle() {
+        if (this._currentPresence?.data.state !== PresenceState.online) return;
+        this._isAutoAway = true;
+        this.updateActivityState(PresenceState.away);
+    }
+
+    private updateActivityState(state: PresenceState) {
+        this.updateInternal(undefined, state).catch((err) => {
+            this._logger?.sendErrorEvent(
+                TelemetryEvents.LivePresence.ActivityUpdateError,
+                err
+            );
+        });
+    }
+
     /**
      * Internal method to send an update, with optional ability to throttle.
      */
@@ -296,10 +581,13 @@ export class LivePresence<
         );
 
         // Broadcast state change
-        const evtToSend = {
+        const evtToSend: ILivePresenceEvent<TData> = {
             state: state ?? this._currentPresence.data.state,
             data: cloneValue(data) ?? this._currentPresence.data.data,
         };
+        if (this._device) {
+            evtToSend.device = this._device;
+        }
 
         if (!background || this.liveRuntime.canSendBackgroundUpdates) {
             const evt = throttle
@@ -338,6 +626,24 @@ export class LivePresence<
                 this._allowedRoles
             );
             if (!allowed) return false;
+            if (
+                !localEvent &&
+                evt.data.data !== undefined &&
+                !isValidLiveData(evt.data.data, this._validator)
+            ) {
+                this.emit(
+                    LivePresenceEvents.invalidEvent,
+                    cloneValue(evt.data.data),
+                    evt.clientId
+                );
+                this._logger?.sendErrorEvent(
+                    TelemetryEvents.LivePresence.InvalidEvent,
+                    new Error(
+                        `The presence data received from clientId "${evt.clientId}" was rejected by the validator.`
+                    )
+                );
+                return false;
+            }
             // Update local presence immediately
             // - The _updatePresenceEvent won't be triggered until the presence change is actually sent. If
             //   the client is disconnected this could be several seconds later.
@@ -463,7 +769,8 @@ export class LivePresence<
             evt,
             this._expirationPeriod,
             this.liveRuntime,
-            localEvent
+            localEvent,
+            this._aggregation
         );
         this._users.push(newUser);
         emitEvent(newUser);
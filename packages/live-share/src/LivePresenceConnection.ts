@@ -1,6 +1,7 @@
 import { cloneValue } from "./internals";
 import { LiveEvent } from "./LiveEvent";
 import {
+    ILivePresenceDevice,
     LivePresenceReceivedEventData,
     PresenceState,
 } from "./LivePresenceUser";
@@ -14,6 +15,8 @@ import { TimeInterval } from "./TimeInterval";
  * If the client is disconnected for any reason, and they have to reconnect, they will get a new clientId and thus a new connection.
  */
 export class LivePresenceConnection<TData = object> {
+    private _lastActive: number;
+
     /**
      * @hidden
      */
@@ -22,7 +25,9 @@ export class LivePresenceConnection<TData = object> {
         private _isLocalConnection: boolean,
         private _expirationPeriod: TimeInterval,
         private _liveRuntime: LiveShareRuntime
-    ) {}
+    ) {
+        this._lastActive = _evt.timestamp;
+    }
 
     /**
      * If `true` the connection is a local connection.
@@ -56,17 +61,51 @@ export class LivePresenceConnection<TData = object> {
         return cloneValue(this._evt.data.data);
     }
 
+    /**
+     * Optional description of the device the connection is from.
+     */
+    public get device(): ILivePresenceDevice | undefined {
+        return cloneValue(this._evt.data.device);
+    }
+
+    /**
+     * Timestamp of the last update that changed the connection's state, data or device.
+     *
+     * @remarks
+     * Unlike the periodic background updates used to detect that a connection has gone offline, this
+     * reflects when the connection was last actively changed.
+     */
+    public get lastActive(): number {
+        return this._lastActive;
+    }
+
     /**
      * @hidden
      */
-    public updateConnection(evt: LivePresenceReceivedEventData<TData>) {
+    public get event(): LivePresenceReceivedEventData<TData> {
+        return this._evt;
+    }
+
+    /**
+     * @hidden
+     * @returns true if the connection's state, data or device changed.
+     */
+    public updateConnection(
+        evt: LivePresenceReceivedEventData<TData>
+    ): boolean {
         if (this._evt.clientId !== evt.clientId) {
             throw new Error(
                 `LivePresenceConnection.updateConnection called with event with different clientId`
             );
         }
-        if (!LiveEvent.isNewer(this._evt, evt)) return;
+        if (!LiveEvent.isNewer(this._evt, evt)) return false;
+        const changed =
+            JSON.stringify(this._evt.data) !== JSON.stringify(evt.data);
         this._evt = evt;
+        if (changed) {
+            this._lastActive = evt.timestamp;
+        }
+        return changed;
     }
 
     /**
@@ -31,12 +31,73 @@ export enum PresenceState {
     offline = "offline",
 }
 
+/**
+ * List of possible device types for a presence connection.
+ */
+export enum PresenceDeviceType {
+    desktop = "desktop",
+    mobile = "mobile",
+    tablet = "tablet",
+    web = "web",
+    unknown = "unknown",
+}
+
+/**
+ * Describes the device a presence connection is from.
+ */
+export interface ILivePresenceDevice {
+    /**
+     * Type of the device.
+     */
+    type: PresenceDeviceType;
+    /**
+     * Optional. Platform of the device, such as `"Windows"` or `"iOS"`.
+     */
+    platform?: string;
+    /**
+     * Optional. Display name of the device.
+     */
+    name?: string;
+}
+
+/**
+ * Built-in policies used to aggregate the state and data of a user's connections.
+ */
+export enum LivePresenceAggregationPolicy {
+    /**
+     * The connection that sent the most recent update wins, including periodic background updates.
+     * This is the default policy.
+     */
+    mostRecentUpdate = "mostRecentUpdate",
+
+    /**
+     * The online connection whose state or data changed most recently wins.
+     */
+    mostRecentlyActive = "mostRecentlyActive",
+}
+
+/**
+ * Custom aggregation policy that selects the connection whose state and data are used for a user.
+ * @returns the selected connection, or `undefined` to fall back to the most recent update.
+ */
+export type LivePresenceConnectionSelector<TData = object> = (
+    connections: LivePresenceConnection<TData>[]
+) => LivePresenceConnection<TData> | undefined;
+
+/**
+ * Policy used to aggregate the state and data of a user's connections.
+ */
+export type LivePresenceAggregation<TData = object> =
+    | LivePresenceAggregationPolicy
+    | LivePresenceConnectionSelector<TData>;
+
 /**
  * @hidden
  */
 export interface ILivePresenceEvent<TData = object> {
     state: PresenceState;
     data?: TData;
+    device?: ILivePresenceDevice;
 }
 
 /**
@@ -63,7 +124,8 @@ export class LivePresenceUser<TData = object> {
         private _evt: LivePresenceReceivedEventData<TData>,
         private _expirationPeriod: TimeInterval,
         private _liveRuntime: LiveShareRuntime,
-        _constructedFromLocalEvent: boolean
+        _constructedFromLocalEvent: boolean,
+        private _aggregation: LivePresenceAggregation<TData> = LivePresenceAggregationPolicy.mostRecentUpdate
     ) {
         this.updateClients(this._evt, _constructedFromLocalEvent);
         this._lastUpdateTime = this._liveRuntime.getTimestamp();
@@ -95,15 +157,17 @@ export class LivePresenceUser<TData = object> {
      * for a period of time.
      */
     public get state(): PresenceState {
-        return this.hasExpired() ? PresenceState.offline : this._evt.data.state;
+        if (this.hasExpired()) return PresenceState.offline;
+        return this.getAggregatedEvent().data.state;
     }
 
     /**
-     * Optional data shared by the user. Returns data from connection with most recent event.
+     * Optional data shared by the user. Returns data from the connection selected by the aggregation
+     * policy of the `LivePresence` object, which defaults to the connection with most recent event.
      * Client connection specific data is available from each connection.
      */
     public get data(): TData | undefined {
-        return cloneValue(this._evt.data.data);
+        return cloneValue(this.getAggregatedEvent().data.data);
     }
 
     /**
@@ -157,7 +221,8 @@ export class LivePresenceUser<TData = object> {
         info: IClientInfo,
         localEvent: boolean
     ): boolean {
-        const remoteUserConvertedToLocal = this.updateClients(evt, localEvent);
+        const previousAggregate = this.getAggregatedSnapshot();
+        const connectionsChanged = this.updateClients(evt, localEvent);
         const currentEvent = this._evt;
         const currentClientInfo = this._clientInfo;
         if (LiveEvent.isNewer(currentEvent, evt)) {
@@ -168,15 +233,19 @@ export class LivePresenceUser<TData = object> {
 
             // Has anything changed?
             return (
-                remoteUserConvertedToLocal ||
+                connectionsChanged ||
                 evt.data.state != currentEvent.data.state ||
                 JSON.stringify(info) != JSON.stringify(currentClientInfo) ||
                 JSON.stringify(evt.data.data) !=
-                    JSON.stringify(currentEvent.data.data)
+                    JSON.stringify(currentEvent.data.data) ||
+                previousAggregate != this.getAggregatedSnapshot()
             );
         }
 
-        return remoteUserConvertedToLocal;
+        return (
+            connectionsChanged ||
+            previousAggregate != this.getAggregatedSnapshot()
+        );
     }
 
     /**
@@ -189,6 +258,45 @@ export class LivePresenceUser<TData = object> {
         });
     }
 
+    /**
+     * @hidden
+     */
+    public set aggregation(value: LivePresenceAggregation<TData>) {
+        this._aggregation = value;
+    }
+
+    /**
+     * Event of the connection selected by the aggregation policy.
+     */
+    private getAggregatedEvent(): LivePresenceReceivedEventData<TData> {
+        let connection: LivePresenceConnection<TData> | undefined;
+        if (typeof this._aggregation == "function") {
+            connection = this._aggregation(this.getConnections());
+        } else if (
+            this._aggregation ==
+            LivePresenceAggregationPolicy.mostRecentlyActive
+        ) {
+            const online = this.getConnections().filter(
+                (connection) => connection.state != PresenceState.offline
+            );
+            connection = online.reduce<
+                LivePresenceConnection<TData> | undefined
+            >(
+                (mostRecent, connection) =>
+                    !mostRecent || connection.lastActive > mostRecent.lastActive
+                        ? connection
+                        : mostRecent,
+                undefined
+            );
+        }
+        return connection?.event ?? this._evt;
+    }
+
+    private getAggregatedSnapshot(): string {
+        const evt = this.getAggregatedEvent();
+        return JSON.stringify([evt.data.state, evt.data.data]);
+    }
+
     private hasExpired(): boolean {
         const now = this._liveRuntime.getTimestamp();
         const elapsed = now - this._lastUpdateTime;
@@ -197,7 +305,7 @@ export class LivePresenceUser<TData = object> {
         );
     }
 
-    // returns true if localUser set to true for the first time
+    // returns true if a connection was added or changed
     private updateClients(
         evt: LivePresenceReceivedEventData<TData>,
         localEvent: boolean
@@ -205,8 +313,7 @@ export class LivePresenceUser<TData = object> {
         // The user can be logged into multiple clients
         const connection = this._connections.get(evt.clientId);
         if (connection) {
-            connection.updateConnection(evt);
-            return false;
+            return connection.updateConnection(evt);
         } else {
             this._connections.set(
                 evt.clientId,
@@ -221,9 +328,8 @@ export class LivePresenceUser<TData = object> {
                 // local user may have received event from non local connection first,
                 // resulting in local user being false, set to true
                 this._isLocalUser = localEvent;
-                return true;
             }
-            return false;
+            return true;
         }
     }
 }
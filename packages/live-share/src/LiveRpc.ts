@@ -0,0 +1,459 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { DataObjectFactory } from "@fluidframework/aqueduct";
+import { IEvent } from "@fluidframework/common-definitions";
+import { v4 as uuid } from "uuid";
+import {
+    ILiveEvent,
+    LiveDataObjectInitializeState,
+    UserMeetingRole,
+} from "./interfaces";
+import { LiveEventScope } from "./LiveEventScope";
+import { LiveEventTarget } from "./LiveEventTarget";
+import { DynamicObjectRegistry } from "./DynamicObjectRegistry";
+import { LiveDataObject } from "./LiveDataObject";
+import { cloneValue } from "./internals";
+import {
+    LiveDataObjectInitializeNotNeededError,
+    LiveDataObjectNotInitializedError,
+    LiveRpcResponseError,
+    LiveRpcTimeoutError,
+    UnexpectedError,
+} from "./errors";
+
+/**
+ * Function called to handle a request received by `LiveRpc`.
+ * @template TRequest Type of the request data.
+ * @template TResponse Type of the response data.
+ * @param data The request data.
+ * @param clientId clientId of the requesting client.
+ * @returns The response data, or a promise for it. Errors thrown are sent back to the requesting client.
+ */
+export type LiveRpcHandler<TRequest = any, TResponse = any> = (
+    data: TRequest,
+    clientId: string
+) => TResponse | Promise<TResponse>;
+
+/**
+ * Options for a request sent through `LiveRpc.call()`.
+ */
+export interface ILiveRpcRequestOptions {
+    /**
+     * Optional. clientId of the only client that should handle the request.
+     */
+    targetClientId?: string;
+    /**
+     * Optional. userId of the only user that should handle the request. Each client of the user may respond.
+     */
+    targetUserId?: string;
+    /**
+     * Optional. Time, in milliseconds, to wait for responses. Defaults to `5000`.
+     */
+    timeout?: number;
+}
+
+/**
+ * Options for a request sent through `LiveRpc.callAll()`.
+ */
+export interface ILiveRpcRequestAllOptions extends ILiveRpcRequestOptions {
+    /**
+     * Optional. Number of responses after which the request completes without waiting for the timeout.
+     */
+    maxResponses?: number;
+}
+
+/**
+ * Response received for a request sent through `LiveRpc.callAll()`.
+ * @template TResponse Type of the response data.
+ */
+export interface ILiveRpcResponse<TResponse = any> {
+    /**
+     * clientId of the responding client.
+     */
+    clientId: string;
+    /**
+     * Time the response was sent, according to `LiveShareRuntime.getTimestamp()`.
+     */
+    timestamp: number;
+    /**
+     * The response data. Undefined when {@link error} is set.
+     */
+    data?: TResponse;
+    /**
+     * Optional. Error message when the responding client failed to handle the request.
+     */
+    error?: string;
+}
+
+/**
+ * @hidden
+ */
+interface IRpcRequest {
+    requestId: string;
+    method: string;
+    data: any;
+    targetClientId?: string;
+    targetUserId?: string;
+}
+
+/**
+ * @hidden
+ */
+interface IRpcResponse {
+    requestId: string;
+    requesterClientId: string;
+    data?: any;
+    error?: string;
+}
+
+/**
+ * @hidden
+ */
+interface IRegisteredHandler {
+    handler: LiveRpcHandler;
+    allowedRoles: UserMeetingRole[];
+}
+
+/**
+ * @hidden
+ */
+interface IPendingRequest {
+    targetClientId?: string;
+    onResponse: (response: ILiveRpcResponse) => void;
+    onDisposed: () => void;
+}
+
+/**
+ * Live fluid object that sends requests to other clients and waits for their responses.
+ *
+ * @remarks
+ * Clients register handlers for named methods using `registerHandler()`. Requests can be sent to a
+ * specific client or user, or to every client, and resolve with the responses of the clients that have
+ * a handler for the method. Handlers can be restricted to requests from clients with specific roles,
+ * which are verified through the `IRoleVerifier` of the `LiveShareRuntime`. Like `LiveEvent`, requests
+ * and responses are not guaranteed to be delivered, so requests should always set a reasonable timeout.
+ */
+export class LiveRpc extends LiveDataObject<{
+    Events: IEvent;
+}> {
+    private _requestTarget?: LiveEventTarget<IRpcRequest>;
+    private _responseTarget?: LiveEventTarget<IRpcResponse>;
+    private _handlers = new Map<string, IRegisteredHandler>();
+    private _pendingRequests = new Map<string, IPendingRequest>();
+
+    /**
+     * The objects fluid type/name.
+     */
+    public static readonly TypeName = `@microsoft/live-share:LiveRpc`;
+
+    /**
+     * The objects fluid type factory.
+     */
+    public static readonly factory = new DataObjectFactory(
+        LiveRpc.TypeName,
+        LiveRpc,
+        [],
+        {}
+    );
+
+    /**
+     * Initialize the object to begin sending and handling requests.
+     *
+     * @remarks
+     * You should register handlers before calling this function to ensure no incoming requests are missed.
+     *
+     * @param allowedRoles Optional. List of roles allowed to send requests and responses.
+     *
+     * @returns a void promise that resolves once complete.
+     *
+     * @throws error when `.initialize()` has already been called for this class instance.
+     */
+    public initialize(allowedRoles?: UserMeetingRole[]): Promise<void> {
+        LiveDataObjectInitializeNotNeededError.assert(
+            "LiveRpc:initialize",
+            this.initializeState
+        );
+        this.initializeState = LiveDataObjectInitializeState.pending;
+
+        this._allowedRoles = allowedRoles ?? [];
+
+        const scope = new LiveEventScope(
+            this.runtime,
+            this.liveRuntime,
+            allowedRoles
+        );
+        this._requestTarget = new LiveEventTarget(
+            scope,
+            "request",
+            (evt, local) => {
+                if (local) return;
+                this.requestReceived(evt).catch((err) => {
+                    this.runtime.logger.sendErrorEvent(
+                        { eventName: "LiveRpc:handleRequestError" },
+                        err
+                    );
+                });
+            }
+        );
+        this._responseTarget = new LiveEventTarget(
+            scope,
+            "response",
+            (evt, local) => {
+                if (local || evt.data.requesterClientId !== scope.clientId) {
+                    return;
+                }
+                const pending = this._pendingRequests.get(evt.data.requestId);
+                if (
+                    !pending ||
+                    (pending.targetClientId &&
+                        pending.targetClientId !== evt.clientId)
+                ) {
+                    return;
+                }
+                pending.onResponse({
+                    clientId: evt.clientId,
+                    timestamp: evt.timestamp,
+                    data: cloneValue(evt.data.data),
+                    error: evt.data.error,
+                });
+            }
+        );
+
+        this.initializeState = LiveDataObjectInitializeState.succeeded;
+        return Promise.resolve();
+    }
+
+    /**
+     * Registers the handler for a method, replacing any existing handler for it.
+     *
+     * @param method Name of the method to handle.
+     * @param handler Function called for each request received for the method.
+     * @param allowedRoles Optional. List of roles allowed to call the method. Requests from clients without
+     * one of these roles are rejected without calling the handler.
+     */
+    public registerHandler<TRequest = any, TResponse = any>(
+        method: string,
+        handler: LiveRpcHandler<TRequest, TResponse>,
+        allowedRoles?: UserMeetingRole[]
+    ): void {
+        this._handlers.set(method, {
+            handler,
+            allowedRoles: allowedRoles ?? [],
+        });
+    }
+
+    /**
+     * Un-registers the handler for a method.
+     *
+     * @param method Name of the method to stop handling.
+     */
+    public unregisterHandler(method: string): void {
+        this._handlers.delete(method);
+    }
+
+    /**
+     * Sends a request and waits for the first successful response.
+     *
+     * @remarks
+     * When the request is sent to a specific client with `targetClientId`, an error response from that client
+     * rejects the request right away. Otherwise error responses are ignored unless no client responds successfully.
+     *
+     * @param method Name of the method to call.
+     * @param data Request data to send.
+     * @param options Optional. Options for the request.
+     *
+     * @returns a promise that resolves with the data of the first successful response.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     * @throws `LiveRpcResponseError` if the request failed on the responding client.
+     * @throws `LiveRpcTimeoutError` if no response was received before the timeout.
+     * @throws error if the object is disposed before a response was received.
+     */
+    public async call<TResponse = any, TRequest = any>(
+        method: string,
+        data: TRequest,
+        options?: ILiveRpcRequestOptions
+    ): Promise<TResponse> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveRpc:call",
+            "call",
+            this.initializeState
+        );
+        const responses = await this.sendAndCollect<TResponse>(
+            "LiveRpc:call",
+            method,
+            data,
+            options,
+            (response, responses) =>
+                !response.error ||
+                (!!options?.targetClientId && responses.length === 1)
+        );
+        const success = responses.find((response) => !response.error);
+        if (success) {
+            return success.data as TResponse;
+        }
+        if (responses.length > 0) {
+            throw new LiveRpcResponseError(
+                "LiveRpc:call",
+                method,
+                responses[0].clientId,
+                responses[0].error as string
+            );
+        }
+        throw new LiveRpcTimeoutError(
+            "LiveRpc:call",
+            method,
+            options?.timeout ?? 5000
+        );
+    }
+
+    /**
+     * Sends a request and collects the responses of every client that handles it.
+     *
+     * @param method Name of the method to call.
+     * @param data Request data to send.
+     * @param options Optional. Options for the request.
+     *
+     * @returns a promise that resolves with the responses received before the timeout, or once `maxResponses` responses
+     * have been received. Includes error responses.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     * @throws error if the object is disposed before the responses were collected.
+     */
+    public async callAll<TResponse = any, TRequest = any>(
+        method: string,
+        data: TRequest,
+        options?: ILiveRpcRequestAllOptions
+    ): Promise<ILiveRpcResponse<TResponse>[]> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveRpc:callAll",
+            "callAll",
+            this.initializeState
+        );
+        const maxResponses = options?.maxResponses ?? Infinity;
+        return await this.sendAndCollect<TResponse>(
+            "LiveRpc:callAll",
+            method,
+            data,
+            options,
+            (_, responses) => responses.length >= maxResponses
+        );
+    }
+
+    /**
+     * Disposes of the object when its container is disposed of.
+     *
+     * @remarks
+     * Requests waiting for responses are rejected.
+     */
+    public dispose(): void {
+        super.dispose();
+        this._handlers.clear();
+        this._pendingRequests.forEach((pending) => pending.onDisposed());
+        this._pendingRequests.clear();
+    }
+
+    /**
+     * Sends a request and collects responses until `isComplete` returns true or the request times out.
+     */
+    private async sendAndCollect<TResponse>(
+        prefix: string,
+        method: string,
+        data: any,
+        options: ILiveRpcRequestOptions | undefined,
+        isComplete: (
+            response: ILiveRpcResponse<TResponse>,
+            responses: ILiveRpcResponse<TResponse>[]
+        ) => boolean
+    ): Promise<ILiveRpcResponse<TResponse>[]> {
+        UnexpectedError.assert(
+            !!this._requestTarget,
+            prefix,
+            "`this._requestTarget` is undefined, implying there was an error during initialization that should not occur."
+        );
+        const requestId = uuid();
+        const responses: ILiveRpcResponse<TResponse>[] = [];
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const completed = new Promise<void>((resolve, reject) => {
+            timer = setTimeout(resolve, options?.timeout ?? 5000);
+            this._pendingRequests.set(requestId, {
+                targetClientId: options?.targetClientId,
+                onResponse: (response) => {
+                    responses.push(response);
+                    if (isComplete(response, responses)) {
+                        resolve();
+                    }
+                },
+                onDisposed: () =>
+                    reject(
+                        new Error(
+                            `${prefix} - The request for method "${method}" was canceled because the object was disposed.`
+                        )
+                    ),
+            });
+        });
+        try {
+            await this._requestTarget.sendEvent({
+                requestId,
+                method,
+                data,
+                targetClientId: options?.targetClientId,
+                targetUserId: options?.targetUserId,
+            });
+            await completed;
+        } finally {
+            clearTimeout(timer);
+            this._pendingRequests.delete(requestId);
+        }
+        return responses;
+    }
+
+    private async requestReceived(evt: ILiveEvent<IRpcRequest>): Promise<void> {
+        const request = evt.data;
+        const registered = this._handlers.get(request.method);
+        if (!registered) return;
+        const clientId = await this.waitUntilConnected();
+        if (request.targetClientId && request.targetClientId !== clientId) {
+            return;
+        }
+        if (request.targetUserId) {
+            const clientInfo = await this.liveRuntime.getClientInfo(clientId);
+            if (clientInfo?.userId !== request.targetUserId) return;
+        }
+        const response: IRpcResponse = {
+            requestId: request.requestId,
+            requesterClientId: evt.clientId,
+        };
+        const isAllowed = await this.liveRuntime.verifyRolesAllowed(
+            evt.clientId,
+            registered.allowedRoles
+        );
+        if (!isAllowed) {
+            response.error = `The clientId of "${
+                evt.clientId
+            }" doesn't have a role of ${JSON.stringify(
+                registered.allowedRoles
+            )}.`;
+        } else {
+            try {
+                response.data = await registered.handler(
+                    cloneValue(request.data),
+                    evt.clientId
+                );
+            } catch (err: unknown) {
+                response.error = err instanceof Error ? err.message : `${err}`;
+            }
+        }
+        await this._responseTarget?.sendEvent(response);
+    }
+}
+
+/**
+ * Register `LiveRpc` as an available `LoadableObjectClass` for use in packages that support dynamic object loading, such as `@microsoft/live-share-turbo`.
+ */
+DynamicObjectRegistry.registerObjectClass(LiveRpc, LiveRpc.TypeName);
@@ -18,6 +18,8 @@ import {
     ITimestampProvider,
     IRoleVerifier,
     ILiveShareJoinResults,
+    BackgroundUpdateMode,
+    ILiveTransport,
 } from "./interfaces";
 import { LocalTimestampProvider } from "./LocalTimestampProvider";
 import { TestLiveShareHost } from "./TestLiveShareHost";
@@ -81,6 +83,61 @@ export interface ILiveShareClientOptions {
      * Impacts background updates of `LiveState`, `LivePresence`, `LiveTimer`, and `LiveFollowMode`.
      */
     canSendBackgroundUpdates?: boolean;
+
+    /**
+     * Optional. Content of background updates sent by `LiveDataObject` instances using `LiveObjectSynchronizer`.
+     * Default value is `BackgroundUpdateMode.full`.
+     *
+     * @remarks
+     * Use `BackgroundUpdateMode.digest` to reduce bandwidth in large sessions, such as meetings with many users of `LivePresence` or
+     * `LiveFollowMode`. Background updates will then only include a compact digest of each object's state, and clients request the
+     * full state of an object when their copy is out of date. Clients using versions of Live Share that don't support digests will
+     * ignore digest background updates, so all clients in a session should use the same version before enabling it.
+     */
+    readonly backgroundUpdateMode?: BackgroundUpdateMode;
+
+    /**
+     * Optional. Maximum size, in characters, of a serialized signal sent by `LiveDataObject` instances using `LiveObjectSynchronizer`.
+     * Default value is `16000`.
+     *
+     * @remarks
+     * Larger signals, such as background updates for a container with many objects, are split into chunks that are joined back
+     * together by the receiving clients. This prevents signals from being dropped for exceeding the size limit of the service.
+     * Clients using versions of Live Share that don't support chunking will ignore chunked signals.
+     */
+    readonly maxSignalSize?: number;
+
+    /**
+     * Optional. Setting for whether signals larger than `maxSignalSize` are compressed before being split into chunks.
+     * Default value is `false`.
+     *
+     * @remarks
+     * Compression reduces the number of chunks sent for large payloads, at the cost of extra processing for each client.
+     */
+    readonly compressLargeSignals?: boolean;
+
+    /**
+     * Optional. Transport used to send and receive the signals of `LiveDataObject` instances.
+     * Default value is `undefined`, which sends signals through the Fluid container.
+     *
+     * @remarks
+     * Use `LocalLiveTransport` to synchronize live objects between runtimes in the same process, such as in unit tests, or between
+     * tabs on the same machine. Live objects are still created through Fluid, but their signals don't depend on the container's
+     * connection to the service. All clients in a session must use the same kind of transport.
+     */
+    readonly transport?: ILiveTransport;
+
+    /**
+     * Optional. Setting for whether changes made to `LiveDataObject` instances while disconnected are queued and sent on reconnect.
+     * Default value is `false`.
+     *
+     * @remarks
+     * By default, changes made while disconnected wait for the connection to be restored, or are lost if the signal can't be sent.
+     * When enabled, changes such as `LiveState.set()` are applied locally right away. Only the most recent change of each object is
+     * kept, and it's sent with a new timestamp once reconnected. Use `LiveShareClient.pendingChanges` to know how many changes are
+     * waiting to be sent.
+     */
+    readonly queueChangesWhileDisconnected?: boolean;
 }
 
 /**
@@ -156,6 +213,16 @@ export class LiveShareClient {
         this._runtime.canSendBackgroundUpdates = value;
     }
 
+    /**
+     * Number of changes to `LiveDataObject` instances waiting to be sent once reconnected.
+     *
+     * @remarks
+     * Always `0` unless `queueChangesWhileDisconnected` is set in the options.
+     */
+    public get pendingChanges(): number {
+        return this._runtime.pendingChanges;
+    }
+
     /**
      * Connects to the fluid container for the current teams context.
      *
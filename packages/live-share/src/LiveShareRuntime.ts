@@ -1,4 +1,3 @@
-import { assert } from "@fluidframework/common-utils";
 import { HostTimestampProvider } from "./HostTimestampProvider";
 import {
     IClientInfo,
@@ -7,6 +6,9 @@ import {
     ITimestampProvider,
     UserMeetingRole,
     IContainerRuntimeSignaler,
+    BackgroundUpdateMode,
+    ILiveTransport,
+    LivePermissionPredicate,
 } from "./interfaces";
 import {
     BackwardsCompatibilityHostDecorator,
@@ -18,6 +20,7 @@ import {
 } from "./internals";
 import { IAzureAudience } from "@fluidframework/azure-client";
 import { ILiveShareClientOptions } from "./LiveShareClient";
+import { FluidLiveTransport } from "./FluidLiveTransport";
 
 /**
  * Runtime for LiveDataObject, which is used to do things like validate roles, get a timestamp
@@ -28,8 +31,18 @@ export class LiveShareRuntime {
     private _timestampProvider: ITimestampProvider;
     private _roleVerifier: IRoleVerifier;
     private _canSendBackgroundUpdates: boolean;
+    private _backgroundUpdateMode: BackgroundUpdateMode;
+    private _maxSignalSize: number;
+    private _compressLargeSignals: boolean;
+    private readonly _transport?: ILiveTransport;
+    private readonly _fluidTransport = new FluidLiveTransport();
+    private _queueChangesWhileDisconnected: boolean;
+    private readonly _permissions = new Map<
+        string,
+        Map<string, LivePermissionPredicate>
+    >();
     protected _containerRuntime?: IContainerRuntimeSignaler;
-    private _objectManager: LiveObjectManager | null = null;
+    private readonly _objectManager: LiveObjectManager;
     private _audience?: IAzureAudience;
 
     /**
@@ -57,16 +70,23 @@ export class LiveShareRuntime {
             options?.roleVerifier ?? new RoleVerifier(this._host);
         this._canSendBackgroundUpdates =
             options?.canSendBackgroundUpdates ?? true;
+        this._backgroundUpdateMode =
+            options?.backgroundUpdateMode ?? BackgroundUpdateMode.full;
+        this._maxSignalSize = options?.maxSignalSize ?? 16000;
+        this._compressLargeSignals = options?.compressLargeSignals ?? false;
+        this._transport = options?.transport;
+        this._queueChangesWhileDisconnected =
+            options?.queueChangesWhileDisconnected ?? false;
+        this._objectManager = new LiveObjectManager(
+            this,
+            this._transport ?? this._fluidTransport
+        );
     }
 
     /**
      * `LiveObjectSynchronizerManager` instance
      */
     public get objectManager(): LiveObjectManager {
-        assert(
-            this._objectManager !== null,
-            "LiveObjectSynchronizerManager not initialized."
-        );
         return this._objectManager;
     }
 
@@ -104,6 +124,83 @@ export class LiveShareRuntime {
         this._canSendBackgroundUpdates = value;
     }
 
+    /**
+     * Content of background updates sent by `LiveDataObject` instances using `LiveObjectSynchronizer`.
+     * Default value is `BackgroundUpdateMode.full`.
+     *
+     * @remarks
+     * When set to `BackgroundUpdateMode.digest`, background updates only include a digest of each object's state and clients
+     * request the full state when their copy is out of date.
+     */
+    public get backgroundUpdateMode(): BackgroundUpdateMode {
+        return this._backgroundUpdateMode;
+    }
+
+    public set backgroundUpdateMode(value: BackgroundUpdateMode) {
+        this._backgroundUpdateMode = value;
+    }
+
+    /**
+     * Maximum size, in characters, of a serialized signal sent by `LiveDataObject` instances using `LiveObjectSynchronizer`.
+     * Default value is `16000`.
+     *
+     * @remarks
+     * Larger signals are split into chunks that are joined back together by the receiving clients.
+     */
+    public get maxSignalSize(): number {
+        return this._maxSignalSize;
+    }
+
+    public set maxSignalSize(value: number) {
+        this._maxSignalSize = value;
+    }
+
+    /**
+     * Transport used to send and receive the signals of `LiveDataObject` instances, or undefined if signals are sent through
+     * the Fluid container.
+     *
+     * @remarks
+     * When undefined, `LiveObjectSynchronizer` signals are sent through a `FluidLiveTransport` for the container runtime set by
+     * `__dangerouslySetContainerRuntime()`.
+     */
+    public get transport(): ILiveTransport | undefined {
+        return this._transport;
+    }
+
+    /**
+     * Setting for whether signals larger than `maxSignalSize` are compressed before being split into chunks.
+     * Default value is `false`.
+     */
+    public get compressLargeSignals(): boolean {
+        return this._compressLargeSignals;
+    }
+
+    public set compressLargeSignals(value: boolean) {
+        this._compressLargeSignals = value;
+    }
+
+    /**
+     * Setting for whether changes made by `LiveDataObject` instances using `LiveObjectSynchronizer` while disconnected are queued
+     * and sent on reconnect. Default value is `false`.
+     */
+    public get queueChangesWhileDisconnected(): boolean {
+        return this._queueChangesWhileDisconnected;
+    }
+
+    public set queueChangesWhileDisconnected(value: boolean) {
+        this._queueChangesWhileDisconnected = value;
+    }
+
+    /**
+     * Number of changes to `LiveDataObject` instances waiting to be sent once reconnected.
+     *
+     * @remarks
+     * Changes that are combined into a single queued change are each counted. Listen to the `pendingChanges` event of `objectManager` to be notified when it changes.
+     */
+    public get pendingChanges(): number {
+        return this._objectManager.pendingChanges;
+    }
+
     /**
      * Returns the current timestamp as the number of milliseconds sine the Unix Epoch.
      */
@@ -124,6 +221,84 @@ export class LiveShareRuntime {
         return this._roleVerifier.verifyRolesAllowed(clientId, allowedRoles);
     }
 
+    /**
+     * Registers a predicate deciding whether an operation on a live object is allowed.
+     *
+     * @remarks
+     * Replaces the predicate previously registered for the same object and operation.
+     * @param objectId ID of the live object.
+     * @param operation Name of the operation, such as the name of an event sent through `LiveEventScope`.
+     * @param predicate Callback returning true if the operation is allowed.
+     */
+    public setPermission(
+        objectId: string,
+        operation: string,
+        predicate: LivePermissionPredicate
+    ) {
+        let predicates = this._permissions.get(objectId);
+        if (!predicates) {
+            predicates = new Map();
+            this._permissions.set(objectId, predicates);
+        }
+        predicates.set(operation, predicate);
+    }
+
+    /**
+     * Removes the predicate registered for an operation on a live object.
+     * @param objectId ID of the live object.
+     * @param operation Name of the operation.
+     */
+    public removePermission(objectId: string, operation: string) {
+        const predicates = this._permissions.get(objectId);
+        predicates?.delete(operation);
+        if (predicates?.size === 0) {
+            this._permissions.delete(objectId);
+        }
+    }
+
+    /**
+     * Checks whether a predicate is registered for an operation on a live object.
+     * @param objectId ID of the live object.
+     * @param operation Name of the operation.
+     * @returns True if `setPermission()` was called for the object and operation.
+     */
+    public hasPermission(objectId: string, operation: string): boolean {
+        return !!this._permissions.get(objectId)?.has(operation);
+    }
+
+    /**
+     * Verifies that an operation on a live object is allowed by the registered predicate.
+     * @param objectId ID of the live object.
+     * @param operation Name of the operation.
+     * @param clientId ID of the client performing the operation.
+     * @param data Data sent for the operation.
+     * @param local True if the operation is being sent by the local client.
+     * @returns True if no predicate is registered for the operation, or if the predicate allows it.
+     */
+    public async verifyPermission(
+        objectId: string,
+        operation: string,
+        clientId: string,
+        data: any,
+        local: boolean
+    ): Promise<boolean> {
+        const predicate = this._permissions.get(objectId)?.get(operation);
+        if (!predicate) return true;
+        try {
+            const clientInfo = await this.getClientInfo(clientId);
+            return await predicate({
+                objectId,
+                operation,
+                clientId,
+                clientInfo,
+                data,
+                local,
+            });
+        } catch {
+            return false;
+        }
+    }
+
     /**
      * Get the client info for a given clientId
      * @param clientId Fluid clientId we are requesting user info for
@@ -179,7 +354,7 @@ export class LiveShareRuntime {
      */
     public setAudience(audience: IAzureAudience) {
         this._audience = audience;
-        this._objectManager?.setAudience(this._audience);
+        this._objectManager.setAudience(this._audience);
     }
 
     /**
@@ -192,9 +367,7 @@ export class LiveShareRuntime {
             );
         }
         this._started = true;
-        if (this._objectManager) {
-            this.startObjectSynchronizerManager();
-        }
+        this.startObjectSynchronizerManager();
         // Start provider if needed
         if (
             isTimestampProvider(this._timestampProvider) &&
@@ -221,8 +394,7 @@ export class LiveShareRuntime {
         ) {
             this._timestampProvider.stop();
         }
-        // should not assert undefined if stopping in a unit test context
-        this._objectManager?.stop();
+        this._objectManager.stop();
     }
 
     /**
@@ -236,19 +408,15 @@ export class LiveShareRuntime {
         // Fluid normally will create new DDS instances with the same runtime, but during some instances they will re-instantiate it.
         if (this._containerRuntime === cRuntime) return;
         // If we already have a _containerRuntime, we technically do not need to re-set it, despite them re-instantiating it.
-        // This is because for how we are using it (signals), this has no impact. We still swap out our reference and reset signal
-        // event listeners, both for future proofing and as a general good memory practice to avoid unintentionally create floating references.
+        // This is because for how we are using it (signals), this has no impact. We still swap out our reference and move the
+        // transport's event listeners, both for future proofing and as a general good memory practice to avoid unintentionally
+        // create floating references.
+        const isFirstContainerRuntime = !this._containerRuntime;
         this._containerRuntime = cRuntime;
-        // If we already have a LiveObjectManager instance, we reset their reference to the container runtime as well
-        if (this._objectManager) {
-            this._objectManager.__dangerouslySetContainerRuntime(cRuntime);
-            return;
+        this._fluidTransport.setContainerRuntime(cRuntime);
+        if (isFirstContainerRuntime) {
+            this.startObjectSynchronizerManager();
         }
-        this._objectManager = new LiveObjectManager(
-            this,
-            this._containerRuntime
-        );
-        this.startObjectSynchronizerManager();
     }
 
     /**
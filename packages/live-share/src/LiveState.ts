@@ -6,15 +6,19 @@
 import { DataObjectFactory } from "@fluidframework/aqueduct";
 import { assert } from "@fluidframework/common-utils";
 import { IEvent } from "@fluidframework/common-definitions";
+import { ISharedMap } from "fluid-framework";
 import {
     ILiveEvent,
     LiveDataObjectInitializeState,
+    LiveDataValidator,
     UserMeetingRole,
 } from "./interfaces";
-import { cloneValue, TelemetryEvents } from "./internals";
+import { cloneValue, isValidLiveData, TelemetryEvents } from "./internals";
 import {
     LiveDataObjectInitializeNotNeededError,
     LiveDataObjectNotInitializedError,
+    LivePermissionDeniedError,
+    LiveStateConflictError,
     UnexpectedError,
 } from "./errors";
 import { LiveTelemetryLogger } from "./LiveTelemetryLogger";
@@ -31,6 +35,18 @@ export enum LiveStateEvents {
      * The objects state has changed.
      */
     stateChanged = "stateChanged",
+    /**
+     * A state change conflicted with another change made against the same revision.
+     */
+    conflict = "conflict",
+    /**
+     * A state received from another client was rejected by the validator passed to `initialize()`.
+     */
+    invalidEvent = "invalidEvent",
+    /**
+     * A state change was denied by a permission predicate set with `setPermission()`.
+     */
+    permissionDenied = "permissionDenied",
 }
 
 /**
@@ -56,6 +72,91 @@ export interface ILiveStateEvents<TState = any> extends IEvent {
             timestamp: number
         ) => void
     ): any;
+    /**
+     * A state change was rejected because it conflicted with another change.
+     *
+     * @remarks
+     * Emitted when `compareAndSet()` is called with an outdated expected state, or when a local change
+     * lost to a remote change that was made against the same revision.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.rejectedState The state that was rejected.
+     * @param listener.state The current state that won the conflict.
+     * @param listener.clientId clientId of the sender of the current state.
+     * @param listener.revision The current revision.
+     */
+    (
+        event: "conflict",
+        listener: (
+            rejectedState: TState,
+            state: TState,
+            clientId: string,
+            revision: number
+        ) => void
+    ): any;
+    /**
+     * A state received from another client was rejected by the validator passed to `initialize()`.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.state The state that was rejected.
+     * @param listener.clientId clientId of sender.
+     */
+    (
+        event: "invalidEvent",
+        listener: (state: unknown, clientId: string) => void
+    ): any;
+    /**
+     * A state change was denied by a permission predicate set with `setPermission()` for the `"set"` operation.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.error The error describing the denied change.
+     */
+    (
+        event: "permissionDenied",
+        listener: (error: LivePermissionDeniedError) => void
+    ): any;
+}
+
+/**
+ * A change in the history of a `LiveState` object.
+ * @template TState State object that's synchronized with the state.
+ */
+export interface ILiveStateChange<TState = any> {
+    /**
+     * State value set by the change.
+     */
+    state: TState;
+    /**
+     * clientId of the client that made the change, including through `undo()` or `redo()`.
+     */
+    clientId: string;
+    /**
+     * Timestamp of the change, according to `LiveShareRuntime.getTimestamp()`.
+     */
+    timestamp: number;
+    /**
+     * Revision of the state after the change.
+     */
+    revision: number;
+}
+
+/**
+ * Data synchronized for a `LiveState` object.
+ * @template TState State object that's synchronized with the state.
+ */
+interface ILiveStateData<TState> {
+    /**
+     * The current state.
+     */
+    state: TState;
+    /**
+     * Changes that can be undone, from oldest to newest. Doesn't include the current state.
+     */
+    history: ILiveStateChange<TState>[];
+    /**
+     * Changes that can be redone, from newest to oldest.
+     */
+    undone: ILiveStateChange<TState>[];
 }
 
 /**
@@ -65,6 +166,10 @@ export interface ILiveStateEvents<TState = any> extends IEvent {
  * The primary benefit of using the `LiveState` object in a Teams meeting, versus something
  * like a `SharedMap`, is that you can restrict the roles of who's allowed to perform state
  * changes.
+ *
+ * Recent changes are shared with the state, so that any client with an allowed role, including clients
+ * that join later, can revert them using `undo()` and `redo()`. Reverting a change sends the previous
+ * state as a new change. Use `maxHistoryLength` to limit the number of changes kept.
  * @template TState Optional data object that's synchronized with the state.
  */
 export class LiveState<TState = any> extends LiveDataObject<{
@@ -72,8 +177,21 @@ export class LiveState<TState = any> extends LiveDataObject<{
 }> {
     private _logger?: LiveTelemetryLogger;
     private _latestEvent?: ILiveEvent<TState>;
+    private _latestEventIsLocal = false;
+    private _history: ILiveStateChange<TState>[] = [];
+    private _undone: ILiveStateChange<TState>[] = [];
+    private _validator?: LiveDataValidator<TState>;
 
-    private _synchronizer?: LiveObjectSynchronizer<TState>;
+    private _synchronizer?: LiveObjectSynchronizer<ILiveStateData<TState>>;
+
+    /**
+     * Maximum number of changes kept in the history for `undo()` and `redo()`. Defaults to 10.
+     *
+     * @remarks
+     * The history is sent with every change, so keep it small for large states. Set to `0` to disable
+     * the history. Should be the same for all clients.
+     */
+    public maxHistoryLength = 10;
 
     /**
      * The objects fluid type/name.
@@ -97,11 +215,37 @@ export class LiveState<TState = any> extends LiveDataObject<{
         return this.latestEvent.data;
     }
 
+    /**
+     * The revision of the current state.
+     *
+     * @remarks
+     * Starts at `0` for the initial state and is incremented by one for each accepted change.
+     */
+    public get revision(): number {
+        return this.latestEvent.revision ?? 0;
+    }
+
+    /**
+     * True if there is a change that can be reverted using `undo()`.
+     */
+    public get canUndo(): boolean {
+        return this._history.length > 0;
+    }
+
+    /**
+     * True if there is an undone change that can be applied again using `redo()`.
+     */
+    public get canRedo(): boolean {
+        return this._undone.length > 0;
+    }
+
     /**
      * Initialize the object to begin sending/receiving state updates through this DDS.
      *
      * @param initialState Initial state value
      * @param allowedRoles Optional. List of roles allowed to make state changes.
+     * @param validator Optional. Validator for states received from other clients. Rejected states are ignored and emitted
+     * through the `invalidEvent` event.
      *
      * @returns a void promise that resolves once complete
      *
@@ -111,7 +255,8 @@ export class LiveState<TState = any> extends LiveDataObject<{
      */
     public async initialize(
         initialState: TState,
-        allowedRoles?: UserMeetingRole[]
+        allowedRoles?: UserMeetingRole[],
+        validator?: LiveDataValidator<TState>
     ): Promise<void> {
         LiveDataObjectInitializeNotNeededError.assert(
             "LiveState:initialize",
@@ -137,16 +282,17 @@ export class LiveState<TState = any> extends LiveDataObject<{
 
         // Save off allowed roles
         this._allowedRoles = allowedRoles || [];
+        this._validator = validator;
 
         // Create object synchronizer
-        this._synchronizer = new LiveObjectSynchronizer<TState>(
+        this._synchronizer = new LiveObjectSynchronizer<ILiveStateData<TState>>(
             this.id,
             this.runtime,
             this.liveRuntime
         );
         try {
             await this._synchronizer.start(
-                initialState,
+                { state: initialState, history: [], undone: [] },
                 async (evt, sender, local) => {
                     // Check for state change.
                     // If it was valid, this will override the local user's previous value.
@@ -185,12 +331,20 @@ export class LiveState<TState = any> extends LiveDataObject<{
     /**
      * Set a new state value
      *
+     * @remarks
+     * The most recent change wins, based on the time each change was sent. To avoid overwriting a change
+     * that the local client has not yet seen, use `compareAndSet()` instead.
+     *
+     * Apps can restrict which users can change the state by calling `setPermission()` with the `"set"` operation,
+     * which also applies to `compareAndSet()`, `undo()` and `redo()`.
+     *
      * @param state New state value.
      *
      * @returns a void promise that resolves once the set event has been sent to the server.
      *
      * @throws error if initialization has not yet succeeded.
      * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     * @throws `LivePermissionDeniedError` if the change is denied by the predicate set for the `"set"` operation.
      */
     public async set(state: TState): Promise<void> {
         LiveDataObjectNotInitializedError.assert(
@@ -199,14 +353,352 @@ export class LiveState<TState = any> extends LiveDataObject<{
             this.initializeState
         );
 
+        await this.setInternal(state, [
+            ...this._history,
+            this.getCurrentChange(),
+        ]);
+    }
+
+    /**
+     * Reverts the most recent change in the history.
+     *
+     * @remarks
+     * The previous state is sent as a new change, with the next revision, so that all clients
+     * revert it. Undoing without any change in the history does nothing.
+     *
+     * @returns a void promise that resolves once the undo event has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async undo(): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveState:undo",
+            "undo",
+            this.initializeState
+        );
+        if (!this.canUndo) return;
+
+        const history = [...this._history];
+        const previous = history.pop()!;
+        await this.setInternal(previous.state, history, [
+            this.getCurrentChange(),
+            ...this._undone,
+        ]);
+    }
+
+    /**
+     * Applies the most recently undone change again.
+     *
+     * @remarks
+     * Redoing without any undone change does nothing. Undone changes are discarded when a new
+     * state is set.
+     *
+     * @returns a void promise that resolves once the redo event has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async redo(): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveState:redo",
+            "redo",
+            this.initializeState
+        );
+        if (!this.canRedo) return;
+
+        const [next, ...undone] = this._undone;
+        await this.setInternal(
+            next.state,
+            [...this._history, this.getCurrentChange()],
+            undone
+        );
+    }
+
+    /**
+     * Gets the changes that can be reverted using `undo()`, followed by the current state.
+     *
+     * @returns the changes from oldest to newest.
+     */
+    public getHistory(): ILiveStateChange<TState>[] {
+        return cloneValue([...this._history, this.getCurrentChange()]);
+    }
+
+    /**
+     * Set a new state value only if the current state matches the expected state.
+     *
+     * @remarks
+     * Use this instead of `set()` when multiple clients may change the state at the same time and
+     * changes should not silently overwrite each other. The change is only sent if the `revision` is
+     * still the same once it's ready to be sent, so a change received in the meantime rejects it without
+     * it reaching other clients. If another client's change made against the same revision wins, a
+     * `conflict` event will be emitted locally and the winning state is applied.
+     *
+     * @param expected The state the caller expects to replace. Compared by value.
+     * @param state New state value.
+     *
+     * @returns a void promise that resolves once the set event has been sent to the server.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws `LiveStateConflictError` if the current state does not match `expected`, or if a concurrent change won.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async compareAndSet(expected: TState, state: TState): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveState:compareAndSet",
+            "compareAndSet",
+            this.initializeState
+        );
+
+        if (
+            JSON.stringify(this.latestEvent.data) !== JSON.stringify(expected)
+        ) {
+            this.emitConflict(state);
+            throw new LiveStateConflictError(
+                "LiveState:compareAndSet",
+                cloneValue(expected),
+                cloneValue(this.latestEvent.data),
+                this.revision
+            );
+        }
+
+        const current = this.getCurrentChange();
+        if (
+            !(await this.setInternal(
+                state,
+                [...this._history, current],
+                [],
+                current
+            ))
+        ) {
+            throw new LiveStateConflictError(
+                "LiveState:compareAndSet",
+                cloneValue(expected),
+                cloneValue(this.latestEvent.data),
+                this.revision
+            );
+        }
+    }
+
+    /**
+     * Saves the current state, including its history, to a `SharedMap` in the container.
+     *
+     * @remarks
+     * `LiveState` is synchronized using signals, so its state is lost once every client has left the
+     * session. Saving a snapshot persists the state through the container's ops, so that it can be
+     * loaded back using `restoreFromContainer()` when the session resumes. The snapshot is saved
+     * under the object's `id`, so a single map can hold the snapshots of many objects.
+     *
+     * @param map Map to save the snapshot to.
+     *
+     * @throws error if initialization has not yet succeeded.
+     */
+    public snapshotToContainer(map: ISharedMap): void {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveState:snapshotToContainer",
+            "snapshotToContainer",
+            this.initializeState
+        );
+        const snapshot: ILiveEvent<ILiveStateData<TState>> = cloneValue({
+            ...this.latestEvent,
+            data: {
+                state: this.latestEvent.data,
+                history: this._history,
+                undone: this._undone,
+            },
+        });
+        map.set(this.id, snapshot);
+    }
+
+    /**
+     * Restores the state saved to a `SharedMap` using `snapshotToContainer()`.
+     *
+     * @remarks
+     * The snapshot is only applied if its revision is higher than the revision of the current state, so
+     * changes made since the snapshot was saved are kept. The restored state is shared with clients that connect
+     * later, and with connected clients through the local client's next background update.
+     *
+     * @param map Map the snapshot was saved to.
+     *
+     * @returns a promise that resolves to true if the snapshot was applied.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async restoreFromContainer(map: ISharedMap): Promise<boolean> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveState:restoreFromContainer",
+            "restoreFromContainer",
+            this.initializeState
+        );
+        const snapshot = map.get<ILiveEvent<ILiveStateData<TState>>>(this.id);
+        if (!snapshot?.data) return false;
+        if (!(await this.verifyLocalUserRoles())) {
+            throw new Error(
+                `LiveState:restoreFromContainer - The local user doesn't have a role of ${JSON.stringify(
+                    this._allowedRoles
+                )}.`
+            );
+        }
+        if (
+            (snapshot.revision ?? 0) <= this.revision ||
+            !this.isValidData(snapshot.data)
+        ) {
+            return false;
+        }
+
+        // The restored state becomes the local client's state, so that it is shared like any other change
+        const data = cloneValue(snapshot.data);
+        const evt: ILiveEvent<TState> = {
+            ...LiveState.toStateEvent({ ...snapshot, data }),
+            clientId: await this.waitUntilConnected(),
+            timestamp: this.liveRuntime.getTimestamp(),
+        };
+        this.updateHistory(data);
+        this.updateState(evt, true);
+        await this._synchronizer!.updateLocalState(
+            data,
+            evt.revision,
+            evt.timestamp
+        );
+        return true;
+    }
+
+    /**
+     * @param history Changes that can be undone once the new state is set.
+     * @param undone Optional. Changes that can be redone once the new state is set.
+     * @param expected Optional. The change the new state replaces. The new state isn't sent if another
+     * change was applied in the meantime.
+     * @returns true if the change was applied, or false if another change won.
+     */
+    private async setInternal(
+        state: TState,
+        history: ILiveStateChange<TState>[],
+        undone: ILiveStateChange<TState>[] = [],
+        expected?: ILiveStateChange<TState>
+    ): Promise<boolean> {
+        await this.verifyLocalPermission(state);
+
+        if (
+            expected &&
+            (expected.revision !== this.revision ||
+                JSON.stringify(expected.state) !==
+                    JSON.stringify(this.latestEvent.data))
+        ) {
+            this.emitConflict(state);
+            return false;
+        }
+
         // Broadcast state change
-        const clone = cloneValue(state);
-        const evt = await this._synchronizer!.sendEvent(clone);
+        const data: ILiveStateData<TState> = cloneValue({
+            state,
+            history: history.slice(
+                Math.max(history.length - this.maxHistoryLength, 0)
+            ),
+            undone: undone.slice(0, this.maxHistoryLength),
+        });
+        const evt = LiveState.toStateEvent(
+            await this._synchronizer!.sendEvent(data, this.revision + 1)
+        );
+
+        // A newer remote change may have been received while sending
+        if (!LiveEvent.isNewer(this.latestEvent, evt)) {
+            this.emitConflict(evt.data);
+            return false;
+        }
 
         // Update local state immediately
         // - The _stateUpdatedEvent won't be triggered until the state change is actually sent. If
         //   the client is disconnected this could be several seconds later.
+        this.updateHistory(data);
         this.updateState(evt, true);
+        return true;
+    }
+
+    private emitConflict(rejectedState: TState) {
+        this.emit(
+            LiveStateEvents.conflict,
+            cloneValue(rejectedState),
+            cloneValue(this.latestEvent.data),
+            this.latestEvent.clientId,
+            this.revision
+        );
+    }
+
+    private async verifyLocalPermission(state: TState) {
+        if (!this.liveRuntime.hasPermission(this.id, "set")) return;
+        // Changes queued while disconnected are checked using the last known clientId
+        const clientId =
+            this._synchronizer!.clientId ?? (await this.waitUntilConnected());
+        const isPermitted = await this.liveRuntime.verifyPermission(
+            this.id,
+            "set",
+            clientId,
+            state,
+            true
+        );
+        if (isPermitted) return;
+        const error = new LivePermissionDeniedError(
+            "LiveState:set",
+            this.id,
+            "set",
+            clientId,
+            true
+        );
+        this.emit(LiveStateEvents.permissionDenied, error);
+        throw error;
+    }
+
+    private async verifyRemotePermission(
+        evt: ILiveEvent<TState>,
+        sender: string
+    ): Promise<boolean> {
+        const isPermitted = await this.liveRuntime.verifyPermission(
+            this.id,
+            "set",
+            sender,
+            evt.data,
+            false
+        );
+        if (!isPermitted) {
+            this.emit(
+                LiveStateEvents.permissionDenied,
+                new LivePermissionDeniedError(
+                    "LiveState:set",
+                    this.id,
+                    "set",
+                    sender,
+                    false
+                )
+            );
+        }
+        return isPermitted;
+    }
+
+    private getCurrentChange(): ILiveStateChange<TState> {
+        return {
+            state: this.latestEvent.data,
+            clientId: this.latestEvent.clientId,
+            timestamp: this.latestEvent.timestamp,
+            revision: this.revision,
+        };
+    }
+
+    /**
+     * Returns true if the current state and the states in the history are accepted by the validator.
+     */
+    private isValidData(data: ILiveStateData<TState>): boolean {
+        if (!this._validator) return true;
+        return [
+            data.state,
+            ...(data.history ?? []).map((change) => change.state),
+            ...(data.undone ?? []).map((change) => change.state),
+        ].every((state) => isValidLiveData(state, this._validator));
+    }
+
+    private updateHistory(data: ILiveStateData<TState>) {
+        this._history = data.history ?? [];
+        this._undone = data.undone ?? [];
     }
 
     /**
@@ -226,24 +718,64 @@ export class LiveState<TState = any> extends LiveDataObject<{
 
     // Returns true if the remote state was applied successfully
     private async onReceivedStateEvent(
-        evt: ILiveEvent<TState>,
+        dataEvt: ILiveEvent<ILiveStateData<TState>>,
         sender: string,
         local: boolean
     ): Promise<boolean> {
         try {
-            const allowed = await this.liveRuntime.verifyRolesAllowed(
-                sender,
-                this._allowedRoles
-            );
+            const evt = LiveState.toStateEvent(dataEvt);
+            // Stale changes skip the permission check, which is repeated for every background update
+            const allowed =
+                (await this.liveRuntime.verifyRolesAllowed(
+                    sender,
+                    this._allowedRoles
+                )) &&
+                (local ||
+                    !LiveEvent.isNewer(this.latestEvent, evt) ||
+                    (await this.verifyRemotePermission(evt, sender)));
             // Ensure that state is allowed, newer, and not the initial state.
             if (!allowed || !LiveEvent.isNewer(this.latestEvent, evt))
                 return false;
+            if (!local && !this.isValidData(dataEvt.data)) {
+                this.emit(
+                    LiveStateEvents.invalidEvent,
+                    cloneValue(evt.data),
+                    sender
+                );
+                this._logger?.sendErrorEvent(
+                    TelemetryEvents.LiveState.InvalidEvent,
+                    new Error(
+                        `The state received from clientId "${sender}" was rejected by the validator.`
+                    )
+                );
+                return false;
+            }
             if (
                 JSON.stringify(this.latestEvent.data) ===
                 JSON.stringify(evt.data)
-            )
-                return false;
+            ) {
+                // Keep the latest event, including its revision, in sync without emitting a duplicate change
+                this.latestEvent = evt;
+                this.updateHistory(dataEvt.data);
+                return true;
+            }
+            const conflicted =
+                !local &&
+                this._latestEventIsLocal &&
+                evt.revision !== undefined &&
+                evt.revision === this.latestEvent.revision;
+            const rejectedState = this.latestEvent.data;
+            this.updateHistory(dataEvt.data);
             this.updateState(evt, local);
+            if (conflicted) {
+                this.emit(
+                    LiveStateEvents.conflict,
+                    cloneValue(rejectedState),
+                    cloneValue(evt.data),
+                    evt.clientId,
+                    this.revision
+                );
+            }
             return true;
         } catch (err) {
             this._logger?.sendErrorEvent(
@@ -258,6 +790,7 @@ export class LiveState<TState = any> extends LiveDataObject<{
         const oldState = this.latestEvent.data;
         const newState = evt.data;
         this.latestEvent = evt;
+        this._latestEventIsLocal = local;
         this.emit(
             LiveStateEvents.stateChanged,
             cloneValue(evt.data),
@@ -274,6 +807,12 @@ export class LiveState<TState = any> extends LiveDataObject<{
             }
         );
     }
+
+    private static toStateEvent<TState>(
+        evt: ILiveEvent<ILiveStateData<TState>>
+    ): ILiveEvent<TState> {
+        return { ...evt, data: evt.data.state };
+    }
 }
 
 /**
@@ -4,6 +4,7 @@
  */
 
 import { DataObjectFactory } from "@fluidframework/aqueduct";
+import { ISharedMap } from "fluid-framework";
 import { LiveObjectSynchronizer } from "./LiveObjectSynchronizer";
 import {
     IClientTimestamp,
@@ -18,8 +19,10 @@ import { LiveDataObject } from "./LiveDataObject";
 import {
     LiveDataObjectInitializeNotNeededError,
     LiveDataObjectNotInitializedError,
+    LivePermissionDeniedError,
     UnexpectedError,
 } from "./errors";
+import { cloneValue } from "./internals";
 
 export interface ITimerConfigData {
     /**
@@ -34,6 +37,103 @@ export interface ITimerConfigData {
      * Whether the timer was running or not when config change occurred
      */
     running: boolean;
+    /**
+     * Optional. Sequence of phases started with `startPhases()`. `duration` is the duration of the current phase.
+     */
+    phases?: ITimerPhase[];
+    /**
+     * Optional. Index of the current phase in `phases`.
+     */
+    phaseIndex?: number;
+    /**
+     * Optional. Whether the timer counts up as a stopwatch started with `startStopwatch()`, instead of counting down.
+     */
+    stopwatch?: boolean;
+    /**
+     * Optional. Lap markers added with `lap()` since the timer was started.
+     */
+    laps?: ITimerLap[];
+    /**
+     * Optional. Server timestamp at which a timer scheduled with `scheduleStart()` starts.
+     */
+    scheduledAt?: number;
+    /**
+     * Optional. Operation that made the config change. Configs sent by older clients don't include it.
+     */
+    operation?: LiveTimerOperation;
+}
+
+/**
+ * Operations that change the config of a `LiveTimer`.
+ *
+ * @remarks
+ * Also used as the names of the operations passed to `setPermission()`.
+ */
+export enum LiveTimerOperation {
+    /**
+     * Timer was started using `start()`, `startPhases()` or `startStopwatch()`, or a scheduled start was reached.
+     */
+    start = "start",
+    /**
+     * Timer was paused using `pause()`.
+     */
+    pause = "pause",
+    /**
+     * Timer was resumed using `play()`.
+     */
+    play = "play",
+    /**
+     * Time was added using `addTime()`.
+     */
+    addTime = "addTime",
+    /**
+     * A lap marker was added using `lap()`.
+     */
+    lap = "lap",
+    /**
+     * Timer moved to the next phase using `skipPhase()`, or because the previous phase ended.
+     */
+    skip = "skip",
+    /**
+     * Timer was scheduled to start using `scheduleStart()`.
+     */
+    scheduleStart = "scheduleStart",
+    /**
+     * A scheduled start was cancelled using `cancelSchedule()`.
+     */
+    cancelSchedule = "cancelSchedule",
+}
+
+/**
+ * A named phase in a sequence of phases started with `LiveTimer.startPhases()`.
+ */
+export interface ITimerPhase {
+    /**
+     * Name of the phase.
+     */
+    name: string;
+    /**
+     * Duration of the phase in milliseconds.
+     */
+    duration: number;
+}
+
+/**
+ * A lap marker added with `LiveTimer.lap()`.
+ */
+export interface ITimerLap {
+    /**
+     * Position of the timer when the lap was added, in milliseconds.
+     */
+    position: number;
+    /**
+     * The clientId that added the lap.
+     */
+    clientId: string;
+    /**
+     * Optional. Index of the phase the lap was added in.
+     */
+    phaseIndex?: number;
 }
 
 export interface ITimerConfig extends ITimerConfigData {
@@ -73,10 +173,40 @@ export enum LiveTimerEvents {
      */
     finished = "finished",
 
+    /**
+     * Timer has moved to the next phase of a sequence of phases
+     */
+    phaseChanged = "phaseChanged",
+
+    /**
+     * A lap marker has been added
+     */
+    lap = "lap",
+
+    /**
+     * Time has been added to or removed from the timer
+     */
+    durationChanged = "durationChanged",
+
+    /**
+     * Timer has been scheduled to start at a later time
+     */
+    scheduled = "scheduled",
+
+    /**
+     * A scheduled start has been cancelled
+     */
+    scheduleCancelled = "scheduleCancelled",
+
     /**
      * Timer has progressed
      */
     onTick = "onTick",
+
+    /**
+     * A change to the timer was denied by a permission predicate set with `setPermission()`.
+     */
+    permissionDenied = "permissionDenied",
 }
 
 export interface ILiveTimerEvents extends IEvent {
@@ -97,7 +227,43 @@ export interface ILiveTimerEvents extends IEvent {
 
     (event: "finished", listener: (config: ITimerConfig) => void): any;
 
-    (event: "onTick", listener: (milliRemaining: number) => void): any;
+    (
+        event: "phaseChanged",
+        listener: (config: ITimerConfig, local: boolean) => void
+    ): any;
+
+    (
+        event: "lap",
+        listener: (config: ITimerConfig, lap: ITimerLap, local: boolean) => void
+    ): any;
+
+    (
+        event: "durationChanged",
+        listener: (config: ITimerConfig, local: boolean) => void
+    ): any;
+
+    (
+        event: "scheduled",
+        listener: (config: ITimerConfig, local: boolean) => void
+    ): any;
+
+    (
+        event: "scheduleCancelled",
+        listener: (config: ITimerConfig, local: boolean) => void
+    ): any;
+
+    /**
+     * For stopwatches, `milliRemaining` is `Infinity`.
+     */
+    (
+        event: "onTick",
+        listener: (milliRemaining: number, milliElapsed: number) => void
+    ): any;
+
+    (
+        event: "permissionDenied",
+        listener: (error: LivePermissionDeniedError) => void
+    ): any;
 }
 
 export class LiveTimer extends LiveDataObject<{
@@ -113,6 +279,7 @@ export class LiveTimer extends LiveDataObject<{
         },
     };
     private _synchronizer?: LiveObjectSynchronizer<ITimerConfigData>;
+    private _initializedAt = 0;
     private _defaultTickRate = 20;
     private _tickRate = this._defaultTickRate;
 
@@ -177,6 +344,7 @@ export class LiveTimer extends LiveDataObject<{
 
         // Save off allowed roles
         this._allowedRoles = allowedRoles || [];
+        this._initializedAt = this.liveRuntime.getTimestamp();
 
         // Create object synchronizer
         this._synchronizer = new LiveObjectSynchronizer<ITimerConfigData>(
@@ -228,6 +396,8 @@ export class LiveTimer extends LiveDataObject<{
      * @remarks
      * Starting an already started timer will restart the timer with a new duration.
      *
+     * Apps can restrict which users can start the timer by calling `setPermission()` with the `"start"` operation.
+     *
      * @param duration in Milliseconds
      *
      * @returns a void promise that resolves once the start event has been sent to the server
@@ -242,14 +412,246 @@ export class LiveTimer extends LiveDataObject<{
             this.initializeState
         );
 
-        await this.playInternal(duration, 0);
+        await this.sendConfig(LiveTimerOperation.start, {
+            duration,
+            position: 0,
+            running: true,
+        });
+    }
+
+    /**
+     * Starts a sequence of named phases, such as "Brainstorm 5m, Vote 2m, Discuss 10m".
+     *
+     * @remarks
+     * Each phase automatically starts once the previous phase ends, and the timer finishes once the
+     * last phase ends. Starting phases on an already started timer will restart the timer.
+     *
+     * @param phases Phases to run in order.
+     *
+     * @returns a void promise that resolves once the start event has been sent to the server
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if `phases` is empty.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async startPhases(phases: ITimerPhase[]): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveTimer:startPhases",
+            "startPhases",
+            this.initializeState
+        );
+        if (phases.length === 0) {
+            throw new Error(
+                `LiveTimer:startPhases - at least one phase is required.`
+            );
+        }
+
+        await this.sendConfig(LiveTimerOperation.start, {
+            duration: phases[0].duration,
+            position: 0,
+            running: true,
+            phases: cloneValue(phases),
+            phaseIndex: 0,
+        });
+    }
+
+    /**
+     * Starts the timer as a stopwatch that counts up until paused.
+     *
+     * @remarks
+     * Starting a stopwatch on an already started timer will restart the timer.
+     *
+     * @returns a void promise that resolves once the start event has been sent to the server
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async startStopwatch(): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveTimer:startStopwatch",
+            "startStopwatch",
+            this.initializeState
+        );
+
+        await this.sendConfig(LiveTimerOperation.start, {
+            duration: 0,
+            position: 0,
+            running: true,
+            stopwatch: true,
+        });
+    }
+
+    /**
+     * Ends the current phase and starts the next phase of a sequence started with `startPhases()`.
+     *
+     * @remarks
+     * The timer finishes when skipping the last phase. A paused timer stays paused.
+     *
+     * @returns a void promise that resolves once the skip event has been sent to the server
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the timer isn't running a sequence of phases.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async skipPhase(): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveTimer:skipPhase",
+            "skipPhase",
+            this.initializeState
+        );
+        const data = this._currentConfig.data;
+        if (!data.phases || data.phaseIndex === undefined) {
+            throw new Error(
+                `LiveTimer:skipPhase - the timer isn't running a sequence of phases. Use \`.startPhases()\` to start one.`
+            );
+        }
+
+        const nextIndex = data.phaseIndex + 1;
+        if (nextIndex < data.phases.length) {
+            await this.sendConfig(LiveTimerOperation.skip, {
+                ...data,
+                duration: data.phases[nextIndex].duration,
+                position: 0,
+                phaseIndex: nextIndex,
+            });
+        } else {
+            await this.sendConfig(LiveTimerOperation.skip, {
+                ...data,
+                position: data.duration,
+                running: false,
+            });
+        }
+    }
+
+    /**
+     * Adds time to the timer, or to the current phase of a sequence of phases.
+     *
+     * @param milliseconds Time to add in milliseconds. Use a negative value to remove time.
+     *
+     * @returns a void promise that resolves once the change has been sent to the server
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the timer is a stopwatch.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async addTime(milliseconds: number): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveTimer:addTime",
+            "addTime",
+            this.initializeState
+        );
+        const data = this._currentConfig.data;
+        if (data.stopwatch) {
+            throw new Error(
+                `LiveTimer:addTime - time can't be added to a stopwatch.`
+            );
+        }
+
+        const position = this.getCurrentPosition();
+        await this.sendConfig(LiveTimerOperation.addTime, {
+            ...data,
+            duration: Math.max(data.duration + milliseconds, position),
+            position,
+        });
+    }
+
+    /**
+     * Adds a lap marker at the current position of the timer.
+     *
+     * @returns a void promise that resolves once the lap event has been sent to the server
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async lap(): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveTimer:lap",
+            "lap",
+            this.initializeState
+        );
+        const data = this._currentConfig.data;
+        const position = this.getCurrentPosition();
+        const lap: ITimerLap = {
+            position,
+            clientId: await this.waitUntilConnected(),
+            phaseIndex: data.phaseIndex,
+        };
+
+        await this.sendConfig(LiveTimerOperation.lap, {
+            ...data,
+            position,
+            laps: [...(data.laps ?? []), lap],
+        });
+    }
+
+    /**
+     * Schedules the timer to start for all clients at the given server time.
+     *
+     * @remarks
+     * Every client, including clients that join later, starts the timer locally once the scheduled time
+     * has passed, so that the timer starts at the same time for all clients within clock error. Scheduling
+     * a timer that has already been started or scheduled will override it. Scheduling a time that has
+     * already passed starts the timer immediately.
+     *
+     * @param atTimestamp Server timestamp at which the timer starts, as returned by `LiveShareRuntime.getTimestamp()`.
+     * @param duration Duration of the timer in milliseconds.
+     *
+     * @returns a void promise that resolves once the schedule event has been sent to the server
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async scheduleStart(
+        atTimestamp: number,
+        duration: number
+    ): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveTimer:scheduleStart",
+            "scheduleStart",
+            this.initializeState
+        );
+
+        await this.sendConfig(LiveTimerOperation.scheduleStart, {
+            duration,
+            position: 0,
+            running: false,
+            scheduledAt: atTimestamp,
+        });
+    }
+
+    /**
+     * Cancels a start scheduled with `scheduleStart()`.
+     *
+     * @remarks
+     * Cancelling when no start is scheduled does nothing.
+     *
+     * @returns a void promise that resolves once the cancel event has been sent to the server
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async cancelSchedule(): Promise<void> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveTimer:cancelSchedule",
+            "cancelSchedule",
+            this.initializeState
+        );
+
+        const data = this._currentConfig.data;
+        if (data.scheduledAt !== undefined) {
+            await this.sendConfig(LiveTimerOperation.cancelSchedule, {
+                duration: data.duration,
+                position: 0,
+                running: false,
+            });
+        }
     }
 
     /**
      * Resumes the timer.
      *
      * @remarks
-     * Playing an already playing timer does nothing.
+     * Playing an already playing timer, or a timer that is scheduled to start, does nothing.
      *
      * @returns a void promise that resolves once the play event has been sent to the server
      *
@@ -263,37 +665,47 @@ export class LiveTimer extends LiveDataObject<{
             this.initializeState
         );
 
+        const data = this._currentConfig.data;
         if (
-            !this._currentConfig.data.running &&
-            this._currentConfig.data.position <
-                this._currentConfig.data.duration
+            !data.running &&
+            data.scheduledAt === undefined &&
+            (data.stopwatch || data.position < data.duration)
         ) {
-            await this.playInternal(
-                this._currentConfig.data.duration,
-                this._currentConfig.data.position
-            );
+            await this.sendConfig(LiveTimerOperation.play, {
+                ...data,
+                running: true,
+            });
         }
     }
 
-    private async playInternal(
-        duration: number,
-        position: number
+    private async sendConfig(
+        operation: LiveTimerOperation,
+        data: ITimerConfigData
     ): Promise<void> {
         // Broadcast state change
         const event: ITimerConfigEvent = {
             timestamp: this.liveRuntime.getTimestamp(),
             clientId: await this.waitUntilConnected(),
-            data: {
-                duration: duration,
-                position: position,
-                running: true,
-            },
+            data: { ...data, operation },
         };
+        await this.verifyLocalPermission(event);
 
         // Update local state immediately
         await this.updateConfig(event, true);
     }
 
+    /**
+     * Position of the timer at the current time.
+     */
+    private getCurrentPosition(): number {
+        const config = this._currentConfig;
+        if (!config.data.running) return config.data.position;
+        return (
+            config.data.position +
+            (this.liveRuntime.getTimestamp() - config.timestamp)
+        );
+    }
+
     /**
      * Pauses the timer.
      *
@@ -319,19 +731,155 @@ export class LiveTimer extends LiveDataObject<{
                 timestamp: currentTime,
                 clientId: await this.waitUntilConnected(),
                 data: {
-                    duration: this._currentConfig.data.duration,
+                    ...this._currentConfig.data,
                     position:
                         this._currentConfig.data.position +
                         (currentTime - this._currentConfig.timestamp),
                     running: false,
+                    operation: LiveTimerOperation.pause,
                 },
             };
+            await this.verifyLocalPermission(event);
 
             // Update local state immediately
             await this.updateConfig(event, true);
         }
     }
 
+    /**
+     * Saves the current timer config to a `SharedMap` in the container.
+     *
+     * @remarks
+     * `LiveTimer` is synchronized using signals, so the timer is lost once every client has left the
+     * session. Saving a snapshot persists the timer through the container's ops, so that it can be
+     * loaded back using `restoreFromContainer()` when the session resumes. The snapshot is saved
+     * under the object's `id`.
+     *
+     * @param map Map to save the snapshot to.
+     *
+     * @throws error if initialization has not yet succeeded.
+     */
+    public snapshotToContainer(map: ISharedMap): void {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveTimer:snapshotToContainer",
+            "snapshotToContainer",
+            this.initializeState
+        );
+        map.set(this.id, cloneValue(this._currentConfig));
+    }
+
+    /**
+     * Restores the timer config saved to a `SharedMap` using `snapshotToContainer()`.
+     *
+     * @remarks
+     * The snapshot is only applied if it is newer than the current config. A running timer keeps
+     * running from the time the snapshot was taken, and finishes if its duration has since elapsed.
+     * The restored timer is shared with clients that connect later, and with connected clients
+     * through the local client's next background update.
+     *
+     * @param map Map the snapshot was saved to.
+     *
+     * @returns a promise that resolves to true if the snapshot was applied.
+     *
+     * @throws error if initialization has not yet succeeded.
+     * @throws error if the local user does not have the required roles defined through the `allowedRoles` prop in `.initialize()`.
+     */
+    public async restoreFromContainer(map: ISharedMap): Promise<boolean> {
+        LiveDataObjectNotInitializedError.assert(
+            "LiveTimer:restoreFromContainer",
+            "restoreFromContainer",
+            this.initializeState
+        );
+        const snapshot = map.get<ITimerConfigEvent>(this.id);
+        if (!snapshot?.data) return false;
+        if (!(await this.verifyLocalUserRoles())) {
+            throw new Error(
+                `LiveTimer:restoreFromContainer - The local user doesn't have a role of ${JSON.stringify(
+                    this._allowedRoles
+                )}.`
+            );
+        }
+
+        // The restored config becomes the local client's config, but keeps its timestamp since the
+        // position of a running timer is relative to it.
+        const clientId = await this.waitUntilConnected();
+        const applied = await this.remoteConfigReceived(
+            { ...cloneValue(snapshot), clientId },
+            clientId
+        );
+        if (applied) {
+            await this._synchronizer!.updateLocalState(
+                this._currentConfig.data,
+                undefined,
+                this._currentConfig.timestamp
+            );
+        }
+        return applied;
+    }
+
+    private async verifyLocalPermission(event: ITimerConfigEvent) {
+        const operation = LiveTimer.getOperation(event.data);
+        const isPermitted = await this.liveRuntime.verifyPermission(
+            this.id,
+            operation,
+            event.clientId,
+            event.data,
+            true
+        );
+        if (isPermitted) return;
+        const error = new LivePermissionDeniedError(
+            `LiveTimer:${operation}`,
+            this.id,
+            operation,
+            event.clientId,
+            true
+        );
+        this.emit(LiveTimerEvents.permissionDenied, error);
+        throw error;
+    }
+
+    private async verifyRemotePermission(
+        config: ITimerConfigEvent,
+        sender: string
+    ): Promise<boolean> {
+        const operation = LiveTimer.getOperation(config.data);
+        const isPermitted = await this.liveRuntime.verifyPermission(
+            this.id,
+            operation,
+            sender,
+            config.data,
+            false
+        );
+        if (!isPermitted) {
+            this.emit(
+                LiveTimerEvents.permissionDenied,
+                new LivePermissionDeniedError(
+                    `LiveTimer:${operation}`,
+                    this.id,
+                    operation,
+                    sender,
+                    false
+                )
+            );
+        }
+        return isPermitted;
+    }
+
+    /**
+     * Operation that made a config change, used to look up permission predicates and to decide which event to emit.
+     */
+    private static getOperation(data: ITimerConfigData): LiveTimerOperation {
+        if (data.operation) return data.operation;
+        // Configs sent by older clients don't include the operation
+        if (data.scheduledAt !== undefined) {
+            return LiveTimerOperation.scheduleStart;
+        }
+        if (data.position === 0) return LiveTimerOperation.start;
+        return data.running
+            ? LiveTimerOperation.play
+            : LiveTimerOperation.pause;
+    }
+
     private async remoteConfigReceived(
         config: ITimerConfigEvent,
         sender: string
@@ -353,20 +901,31 @@ export class LiveTimer extends LiveDataObject<{
             );
 
             const currentTime = this.liveRuntime.getTimestamp();
-            const endTime = this.endTimeFromConfig(config);
+            if (this._currentConfig.timestamp === 0) {
+                // Scheduled starts and phases are applied locally by each client, so clients joining
+                // after a scheduled start or part way through a sequence of phases need to catch up.
+                config = LiveTimer.advancePhases(
+                    LiveTimer.startScheduledConfig(config, currentTime),
+                    currentTime
+                );
+            }
+            const endTime = LiveTimer.endTimeFromConfig(config);
             if (
                 allowed &&
                 this._currentConfig.timestamp === 0 &&
                 config.data.running === true &&
-                currentTime >= endTime
+                endTime <= this._initializedAt &&
+                currentTime >= endTime &&
+                (await this.verifyRemotePermission(config, sender))
             ) {
                 // Since finish config changes are not sent through the Synchronizer only the most recent config before finish is saved.
                 // For clients joining after the the timer has already finished, set the finish config.
+                // Timers that finished after joining are started as usual, and finish once ticking.
                 const finishedBeforeJoinConfig: ITimerConfigEvent = {
                     timestamp: endTime,
                     clientId: config.clientId,
                     data: {
-                        duration: config.data.duration,
+                        ...config.data,
                         position: config.data.duration,
                         running: false,
                     },
@@ -382,7 +941,11 @@ export class LiveTimer extends LiveDataObject<{
             )
                 return false;
 
-            if (allowed && isConfigNewer) {
+            if (
+                allowed &&
+                isConfigNewer &&
+                (await this.verifyRemotePermission(config, sender))
+            ) {
                 this.updateConfig(config, false);
                 return true;
             }
@@ -400,18 +963,75 @@ export class LiveTimer extends LiveDataObject<{
         };
         this._currentConfig = event;
 
-        if (event.data.position === 0) {
-            this.emit(LiveTimerEvents.started, userExposedConfig, local);
-        } else if (event.data.duration === event.data.position) {
+        // Timers finish locally for each client, so finishing isn't an operation
+        if (
+            !event.data.running &&
+            !event.data.stopwatch &&
+            event.data.scheduledAt === undefined &&
+            event.data.position > 0 &&
+            event.data.position === event.data.duration
+        ) {
             this.emit(LiveTimerEvents.finished, userExposedConfig);
-        } else if (event.data.running) {
-            this.emit(LiveTimerEvents.played, userExposedConfig, local);
         } else {
-            this.emit(LiveTimerEvents.paused, userExposedConfig, local);
+            switch (LiveTimer.getOperation(event.data)) {
+                case LiveTimerOperation.start:
+                    this.emit(
+                        LiveTimerEvents.started,
+                        userExposedConfig,
+                        local
+                    );
+                    break;
+                case LiveTimerOperation.skip:
+                    this.emit(
+                        LiveTimerEvents.phaseChanged,
+                        userExposedConfig,
+                        local
+                    );
+                    break;
+                case LiveTimerOperation.play:
+                    this.emit(LiveTimerEvents.played, userExposedConfig, local);
+                    break;
+                case LiveTimerOperation.pause:
+                    this.emit(LiveTimerEvents.paused, userExposedConfig, local);
+                    break;
+                case LiveTimerOperation.addTime:
+                    this.emit(
+                        LiveTimerEvents.durationChanged,
+                        userExposedConfig,
+                        local
+                    );
+                    break;
+                case LiveTimerOperation.lap: {
+                    const laps = event.data.laps ?? [];
+                    this.emit(
+                        LiveTimerEvents.lap,
+                        userExposedConfig,
+                        laps[laps.length - 1],
+                        local
+                    );
+                    break;
+                }
+                case LiveTimerOperation.scheduleStart:
+                    this.emit(
+                        LiveTimerEvents.scheduled,
+                        userExposedConfig,
+                        local
+                    );
+                    break;
+                case LiveTimerOperation.cancelSchedule:
+                    this.emit(
+                        LiveTimerEvents.scheduleCancelled,
+                        userExposedConfig,
+                        local
+                    );
+                    break;
+            }
         }
 
         if (event.data.running) {
             this.startTicking();
+        } else if (event.data.scheduledAt !== undefined) {
+            this.waitForScheduledStart();
         }
         if (local) {
             return await this._synchronizer!.sendEvent(event.data);
@@ -422,25 +1042,36 @@ export class LiveTimer extends LiveDataObject<{
         const tickCallback = () => {
             if (this._currentConfig.data.running) {
                 const timestamp = this.liveRuntime.getTimestamp();
-                const endTime = this.endTimeFromConfig(this._currentConfig);
+                const config = this._currentConfig;
+                const endTime = LiveTimer.endTimeFromConfig(config);
+                const elapsed =
+                    config.data.position + (timestamp - config.timestamp);
                 if (timestamp >= endTime) {
-                    const newConfig: ITimerConfigEvent = {
+                    // Set local to false for this config update.
+                    // Every client is expected to set the finish config locally for themselves at the same time.
+                    // We do not want a bunch of duplicate synchronizer finish events to go out at the exact same time for every client.
+                    // The same applies to moving to the next phase of a sequence of phases.
+                    const newConfig = LiveTimer.nextPhaseConfig(
+                        config,
+                        endTime
+                    ) ?? {
                         timestamp: endTime,
-                        clientId: this._currentConfig.clientId,
+                        clientId: config.clientId,
                         data: {
-                            duration: this._currentConfig.data.duration,
-                            position: this._currentConfig.data.duration,
+                            ...config.data,
+                            position: config.data.duration,
                             running: false,
                         },
                     };
-                    // Set local to false for this config update.
-                    // Every client is expected to set the finish config locally for themselves at the same time.
-                    // We do not want a bunch of duplicate synchronizer finish events to go out at the exact same time for every client.
                     this.updateConfig(newConfig, false).catch((err) => {
                         console.error(err);
                     });
                 } else {
-                    this.emit(LiveTimerEvents.onTick, endTime - timestamp);
+                    this.emit(
+                        LiveTimerEvents.onTick,
+                        endTime - timestamp,
+                        elapsed
+                    );
                     this.scheduleAnimationFrame(tickCallback);
                 }
             }
@@ -448,6 +1079,27 @@ export class LiveTimer extends LiveDataObject<{
         this.scheduleAnimationFrame(tickCallback);
     }
 
+    private waitForScheduledStart() {
+        const waitCallback = () => {
+            const config = this._currentConfig;
+            // Stop waiting once the schedule has been cancelled or replaced by another config.
+            if (config.data.scheduledAt === undefined) return;
+            const timestamp = this.liveRuntime.getTimestamp();
+            if (timestamp >= config.data.scheduledAt) {
+                // Like finishing, every client starts the timer locally for themselves at the same time.
+                this.updateConfig(
+                    LiveTimer.startScheduledConfig(config, timestamp),
+                    false
+                ).catch((err) => {
+                    console.error(err);
+                });
+            } else {
+                this.scheduleAnimationFrame(waitCallback);
+            }
+        };
+        this.scheduleAnimationFrame(waitCallback);
+    }
+
     private scheduleAnimationFrame(callback: FrameRequestCallback): void {
         if (
             this._tickRate <= this._defaultTickRate &&
@@ -459,9 +1111,76 @@ export class LiveTimer extends LiveDataObject<{
         }
     }
 
-    private endTimeFromConfig(config: ITimerConfigEvent): number {
+    private static endTimeFromConfig(config: ITimerConfigEvent): number {
+        if (config.data.stopwatch) return Infinity;
         return config.timestamp - config.data.position + config.data.duration;
     }
+
+    /**
+     * Config of a timer started at its scheduled time, if the scheduled time has passed.
+     */
+    private static startScheduledConfig(
+        config: ITimerConfigEvent,
+        timestamp: number
+    ): ITimerConfigEvent {
+        const { scheduledAt, ...data } = config.data;
+        if (scheduledAt === undefined || timestamp < scheduledAt) {
+            return config;
+        }
+        // A start scheduled in the past starts when it was scheduled. This also ensures the started
+        // config is never older than the scheduled config it replaces.
+        return {
+            timestamp: Math.max(scheduledAt, config.timestamp),
+            clientId: config.clientId,
+            data: {
+                ...data,
+                running: true,
+                operation: LiveTimerOperation.start,
+            },
+        };
+    }
+
+    /**
+     * Config of the next phase in a sequence of phases, starting at the given time.
+     * @returns `undefined` if the config isn't for a sequence of phases or is for the last phase.
+     */
+    private static nextPhaseConfig(
+        config: ITimerConfigEvent,
+        timestamp: number
+    ): ITimerConfigEvent | undefined {
+        const { phases, phaseIndex } = config.data;
+        if (!phases || phaseIndex === undefined) return undefined;
+        const nextIndex = phaseIndex + 1;
+        if (nextIndex >= phases.length) return undefined;
+        return {
+            timestamp,
+            clientId: config.clientId,
+            data: {
+                ...config.data,
+                duration: phases[nextIndex].duration,
+                position: 0,
+                phaseIndex: nextIndex,
+                operation: LiveTimerOperation.skip,
+            },
+        };
+    }
+
+    /**
+     * Advances a running sequence of phases to the phase that is active at the given time.
+     */
+    private static advancePhases(
+        config: ITimerConfigEvent,
+        timestamp: number
+    ): ITimerConfigEvent {
+        while (config.data.running) {
+            const endTime = LiveTimer.endTimeFromConfig(config);
+            if (timestamp < endTime) break;
+            const next = LiveTimer.nextPhaseConfig(config, endTime);
+            if (!next) break;
+            config = next;
+        }
+        return config;
+    }
 }
 
 /**
@@ -0,0 +1,199 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { IEvent } from "@fluidframework/common-definitions";
+import { TypedEventEmitter } from "@fluidframework/common-utils";
+import { IInboundSignalMessage } from "@fluidframework/runtime-definitions";
+import { v4 as uuid } from "uuid";
+import { ILiveTransport } from "./interfaces";
+import { cloneValue } from "./internals";
+
+/**
+ * Events emitted by `LocalLiveTransport`.
+ */
+export interface ILocalLiveTransportEvents extends IEvent {
+    (event: "connected", listener: (clientId: string) => void): void;
+    (event: "disconnected", listener: () => void): void;
+    (
+        event: "signal",
+        listener: (message: IInboundSignalMessage, local: boolean) => void
+    ): void;
+}
+
+/**
+ * Options for creating a `LocalLiveTransport`.
+ */
+export interface ILocalLiveTransportOptions {
+    /**
+     * Optional. Name of the channel shared by the transports of a session.
+     * Default value is `"live-share"`.
+     */
+    readonly channelName?: string;
+    /**
+     * Optional. Setting for whether signals are sent through a `BroadcastChannel`, which reaches transports in other tabs
+     * or workers of the same origin. Default value is `false`, which only reaches transports in the same JavaScript context.
+     */
+    readonly useBroadcastChannel?: boolean;
+    /**
+     * Optional. Setting for whether the transport connects when created.
+     * Default value is `true`.
+     */
+    readonly autoConnect?: boolean;
+}
+
+/**
+ * Message posted to a `BroadcastChannel` by `LocalLiveTransport`.
+ */
+interface IBroadcastSignalMessage {
+    clientId: string;
+    type: string;
+    content: any;
+}
+
+/**
+ * Implements a transport that sends signals to the other `LocalLiveTransport` instances sharing the same channel, without
+ * a connection to a Fluid service.
+ *
+ * @remarks
+ * Intended for unit tests, or for synchronizing live objects between tabs on the same machine when `useBroadcastChannel` is
+ * set. Like Fluid signals, signals are echoed back to the local client and are dropped while disconnected. A new clientId is
+ * assigned each time the transport connects.
+ */
+export class LocalLiveTransport
+    extends TypedEventEmitter<ILocalLiveTransportEvents>
+    implements ILiveTransport
+{
+    private static readonly _channels = new Map<
+        string,
+        Set<LocalLiveTransport>
+    >();
+    private readonly _channelName: string;
+    private readonly _useBroadcastChannel: boolean;
+    private _broadcastChannel?: BroadcastChannel;
+    private _clientId?: string;
+
+    /**
+     * Creates a new `LocalLiveTransport` instance.
+     * @param options Optional. Options for the transport.
+     */
+    constructor(options?: ILocalLiveTransportOptions) {
+        super();
+        this._channelName = options?.channelName ?? "live-share";
+        this._useBroadcastChannel = options?.useBroadcastChannel ?? false;
+        if (options?.autoConnect ?? true) {
+            this.connect();
+        }
+    }
+
+    /**
+     * Name of the channel shared by the transports of a session.
+     */
+    public get channelName(): string {
+        return this._channelName;
+    }
+
+    public get clientId(): string | undefined {
+        return this._clientId;
+    }
+
+    public get connected(): boolean {
+        return this._clientId !== undefined;
+    }
+
+    /**
+     * Connects the transport to its channel, if it isn't already connected.
+     *
+     * @throws error if `useBroadcastChannel` is set and `BroadcastChannel` isn't supported by the environment.
+     */
+    public connect(): void {
+        if (this.connected) return;
+        if (this._useBroadcastChannel) {
+            if (typeof BroadcastChannel === "undefined") {
+                throw new Error(
+                    "LocalLiveTransport.connect(): BroadcastChannel is not supported in this environment"
+                );
+            }
+            this._broadcastChannel = new BroadcastChannel(this._channelName);
+            this._broadcastChannel.onmessage = (evt: MessageEvent) => {
+                this.onBroadcastMessage(evt.data);
+            };
+        } else {
+            let transports = LocalLiveTransport._channels.get(
+                this._channelName
+            );
+            if (!transports) {
+                transports = new Set();
+                LocalLiveTransport._channels.set(this._channelName, transports);
+            }
+            transports.add(this);
+        }
+        const clientId = uuid();
+        this._clientId = clientId;
+        this.emit("connected", clientId);
+    }
+
+    /**
+     * Disconnects the transport from its channel. Signals sent or received while disconnected are dropped.
+     */
+    public disconnect(): void {
+        if (!this.connected) return;
+        this._clientId = undefined;
+        if (this._broadcastChannel) {
+            this._broadcastChannel.close();
+            this._broadcastChannel = undefined;
+        } else {
+            const transports = LocalLiveTransport._channels.get(
+                this._channelName
+            );
+            transports?.delete(this);
+            if (transports?.size === 0) {
+                LocalLiveTransport._channels.delete(this._channelName);
+            }
+        }
+        this.emit("disconnected");
+    }
+
+    public submitSignal(type: string, content: any): void {
+        const clientId = this._clientId;
+        if (!clientId) return;
+
+        // Raise local event
+        this.onSignal({ clientId, type, content: cloneValue(content) }, true);
+
+        // Raise remote events
+        if (this._broadcastChannel) {
+            const message: IBroadcastSignalMessage = {
+                clientId,
+                type,
+                content,
+            };
+            this._broadcastChannel.postMessage(message);
+            return;
+        }
+        LocalLiveTransport._channels
+            .get(this._channelName)
+            ?.forEach((transport) => {
+                if (transport === this) return;
+                transport.onSignal(
+                    { clientId, type, content: cloneValue(content) },
+                    false
+                );
+            });
+    }
+
+    private onBroadcastMessage(message: IBroadcastSignalMessage) {
+        if (
+            typeof message?.clientId !== "string" ||
+            typeof message.type !== "string"
+        )
+            return;
+        this.onSignal(message, false);
+    }
+
+    private onSignal(message: IInboundSignalMessage, local: boolean) {
+        if (!this.connected) return;
+        this.emit("signal", message, local);
+    }
+}
@@ -3,10 +3,13 @@
  * Licensed under the Microsoft Live Share SDK License.
  */
 
-import { ILiveShareHost, INtpTimeInfo, ITimestampProvider } from "./interfaces";
+import { IEvent } from "@fluidframework/common-definitions";
+import { TypedEventEmitter } from "@fluidframework/common-utils";
+import { INtpTimeInfo, ITimestampProvider } from "./interfaces";
 
-const IMPROVE_ACCURACY_INTERVAL = 5 * 1000;
-const IMPROVE_ACCURACY_ATTEMPTS = 5;
+const MAX_DRIFT_HISTORY = 8;
+const MIN_DRIFT_SPAN = 1000;
+const MAX_DRIFT_RATE = 0.001;
 
 /**
  * @hidden
@@ -18,28 +21,121 @@ interface IServerTimeOffset {
     requestLatency: number;
 }
 
+/**
+ * @hidden
+ * Offset estimated from a set of samples.
+ */
+interface IOffsetEstimate {
+    offset: number;
+    localTimeInUtc: number;
+    error: number;
+}
+
+/**
+ * Options used to configure how a `TimestampProvider` synchronizes with the server clock.
+ */
+export interface ITimestampProviderOptions {
+    /**
+     * Optional. Number of round trips sampled each time the clock is synchronized. Samples with
+     * the highest latency are discarded as outliers. Defaults to `4`.
+     */
+    samplesPerSync?: number;
+    /**
+     * Optional. Minimum time, in milliseconds, between two synchronizations. Defaults to `5000`.
+     */
+    minSyncInterval?: number;
+    /**
+     * Optional. Maximum time, in milliseconds, between two synchronizations. Defaults to `60000`.
+     */
+    maxSyncInterval?: number;
+    /**
+     * Optional. Maximum error, in milliseconds, that clock drift may add before the clock is
+     * synchronized again. Defaults to `5`.
+     */
+    maxDriftError?: number;
+}
+
+/**
+ * Events supported by `TimestampProvider`.
+ */
+export interface ITimestampProviderEvents extends IEvent {
+    /**
+     * The estimated offset between the local clock and the server clock changed.
+     * @param event Name of event.
+     * @param listener Function called when event is triggered.
+     * @param listener.offset New offset, in milliseconds, added to the local time.
+     * @param listener.previousOffset Previous offset, in milliseconds.
+     */
+    (
+        event: "offsetChanged",
+        listener: (offset: number, previousOffset: number) => void
+    ): any;
+}
+
 /**
  * Default `ITimestampProvider` implementation.
  *
+ * @remarks
+ * The server clock is sampled several times each time the provider synchronizes, discarding the
+ * samples with the highest latency. The drift between the local and server clocks is tracked
+ * across synchronizations and used to correct timestamps in between. Synchronizations happen less
+ * often while the estimate is stable, and more often when the measured offset deviates from the
+ * estimate. An `offsetChanged` event is emitted whenever the estimated offset changes.
  */
-export abstract class TimestampProvider implements ITimestampProvider {
-    private _serverTime?: IServerTimeOffset;
+export abstract class TimestampProvider
+    extends TypedEventEmitter<ITimestampProviderEvents>
+    implements ITimestampProvider
+{
+    private readonly _options: Required<ITimestampProviderOptions>;
+    private _estimate?: IOffsetEstimate;
+    private _estimates: IOffsetEstimate[] = [];
+    private _drift = 0;
+    private _syncInterval: number;
     private _syncTimer?: any;
-    private _retries = 0;
+    private _syncId = 0;
     private _lastTimeSent = 0;
 
+    /**
+     * Creates a new `TimestampProvider` instance.
+     * @param options Optional. Options used to configure clock synchronization.
+     */
+    public constructor(options?: ITimestampProviderOptions) {
+        super();
+        this._options = {
+            samplesPerSync: Math.max(options?.samplesPerSync ?? 4, 1),
+            minSyncInterval: options?.minSyncInterval ?? 5 * 1000,
+            maxSyncInterval: options?.maxSyncInterval ?? 60 * 1000,
+            maxDriftError: options?.maxDriftError ?? 5,
+        };
+        this._syncInterval = this._options.minSyncInterval;
+    }
+
     /**
      * Returns true if the provider has been started.
      */
     public get isRunning(): boolean {
-        return !!this._serverTime;
+        return !!this._estimate;
+    }
+
+    /**
+     * Estimated offset, in milliseconds, between the local clock and the server clock at the current time.
+     */
+    public get offset(): number {
+        return this.getOffset(new Date().getTime());
+    }
+
+    /**
+     * Estimated drift of the local clock, in milliseconds of offset gained per millisecond.
+     */
+    public get drift(): number {
+        return this._drift;
     }
 
     /**
      * Returns the current server time as a UTC tick.
      */
     public getTimestamp(): number {
-        if (!this._serverTime) {
+        if (!this._estimate) {
             throw new Error(
                 `TimestampProvider: can't call getTimestamp() before calling start().`
             );
@@ -49,33 +145,43 @@ export abstract class TimestampProvider implements ITimestampProvider {
         // - We never want to generate the same timestamp twice and we always want a greater
         //   timestamp then what we previously sent. This can happen if our accuracy improves
         //   and we end up with a smaller offset then before.
+        const now = new Date().getTime();
         return (this._lastTimeSent = Math.max(
-            new Date().getTime() + this._serverTime.offset,
+            Math.round(now + this.getOffset(now)),
             this._lastTimeSent + 1
         ));
     }
 
     /**
      * Returns the maximum amount of error, in milliseconds.
+     *
+     * @remarks
+     * Includes the error that clock drift may have added since the last synchronization.
      */
     public getMaxTimestampError(): number {
-        if (!this._serverTime) {
+        if (!this._estimate) {
             throw new Error(
                 `DefaultTimestampProvider: can't call getMaxTimestampError() before calling initialize().`
             );
         }
 
-        return Math.floor(this._serverTime.requestLatency / 2);
+        const elapsed = new Date().getTime() - this._estimate.localTimeInUtc;
+        return Math.floor(
+            this._estimate.error + Math.abs(this._drift) * elapsed
+        );
     }
 
     /**
      * Starts the provider.
+     *
+     * @remarks
+     * Resolves once the first sample is received. The remaining samples are taken in the background.
      */
     public async start(): Promise<void> {
         this.stop();
         performance.mark(`TeamsSync: starting clock`);
         try {
-            await this.improveAccuracy();
+            await this.sync(++this._syncId);
         } finally {
             performance.measure(
                 `TeamsSync: clock startup`,
@@ -88,12 +194,15 @@ export abstract class TimestampProvider implements ITimestampProvider {
      * Stops the provider if its running.
      */
     public stop(): void {
+        this._syncId++;
         if (this._syncTimer) {
             clearTimeout(this._syncTimer);
             this._syncTimer = undefined;
         }
-        this._serverTime = undefined;
-        this._retries = 0;
+        this._estimate = undefined;
+        this._estimates = [];
+        this._drift = 0;
+        this._syncInterval = this._options.minSyncInterval;
     }
 
     /**
@@ -102,38 +211,94 @@ export abstract class TimestampProvider implements ITimestampProvider {
     protected abstract getNtpTime(): Promise<INtpTimeInfo>;
 
     /**
-     * Called in a loop to improve the accuracy of the clients timestamp offset.
+     * Samples the server clock and updates the estimated offset and drift.
      *
-     * The function will periodically call itself until we go 5 times without an improvement
-     * to the calculated timestamp offset.
+     * @remarks
+     * Resolves once the first sample is received, so that timestamps can be returned as soon as
+     * possible. Schedules the next synchronization once all samples are received.
+     * @param syncId ID of the synchronization loop, used to stop sampling once stopped.
      */
-    private async improveAccuracy(): Promise<void> {
-        // Check for a more accurate time offset.
-        const offset = await this.getSessionTimeOffset();
-        if (
-            !this._serverTime ||
-            offset.requestLatency < this._serverTime.requestLatency
-        ) {
-            // We got a more accurate time offset.
-            //this.logger.trace(`SharedClock accuracy improved to ${offset.offset}ms by latency of ${offset.requestLatency}ms.`);
-            this._serverTime = offset;
-            this._retries = 0;
+    private async sync(syncId: number): Promise<void> {
+        const samples = [await this.getSessionTimeOffset()];
+        if (syncId !== this._syncId) return;
+        if (!this._estimate) {
+            this.applyEstimate(TimestampProvider.estimateOffset(samples));
+        }
+        this.completeSync(syncId, samples).catch(() => {
+            // Try again later
+            if (syncId === this._syncId) this.scheduleSync(syncId);
+        });
+    }
+
+    private async completeSync(
+        syncId: number,
+        samples: IServerTimeOffset[]
+    ): Promise<void> {
+        while (samples.length < this._options.samplesPerSync) {
+            samples.push(await this.getSessionTimeOffset());
+            if (syncId !== this._syncId) return;
+        }
+        const estimate = TimestampProvider.estimateOffset(samples);
+
+        // Sync more often when the measured offset deviates from the current estimate
+        const deviation = Math.abs(
+            estimate.offset - this.getOffset(estimate.localTimeInUtc)
+        );
+        if (deviation > Math.max(this.getMaxTimestampError(), 1)) {
+            this._syncInterval = this._options.minSyncInterval;
         } else {
-            // We got back an equal or less accurate time offset.
-            this._retries++;
+            this._syncInterval = Math.min(
+                this._syncInterval * 2,
+                this._options.maxSyncInterval
+            );
         }
+        this.applyEstimate(estimate);
+        this.scheduleSync(syncId);
+    }
 
-        // Start sync timer timer
-        if (this._retries <= IMPROVE_ACCURACY_ATTEMPTS) {
-            this._syncTimer = setTimeout(
-                this.improveAccuracy.bind(this),
-                IMPROVE_ACCURACY_INTERVAL
+    private scheduleSync(syncId: number) {
+        // Sync before drift may exceed the maximum drift error
+        let interval = this._syncInterval;
+        if (this._drift !== 0) {
+            interval = Math.min(
+                interval,
+                this._options.maxDriftError / Math.abs(this._drift)
             );
-        } else {
+        }
+        interval = Math.max(interval, this._options.minSyncInterval);
+        this._syncTimer = setTimeout(() => {
             this._syncTimer = undefined;
+            this.sync(syncId).catch(() => {
+                if (syncId === this._syncId) this.scheduleSync(syncId);
+            });
+        }, interval);
+    }
+
+    private applyEstimate(estimate: IOffsetEstimate) {
+        const previousOffset = this._estimate
+            ? this.getOffset(estimate.localTimeInUtc)
+            : undefined;
+        this._estimate = estimate;
+        this._estimates = [...this._estimates, estimate].slice(
+            -MAX_DRIFT_HISTORY
+        );
+        this._drift = TimestampProvider.estimateDrift(this._estimates);
+        if (
+            previousOffset !== undefined &&
+            Math.abs(estimate.offset - previousOffset) >= 1
+        ) {
+            this.emit("offsetChanged", estimate.offset, previousOffset);
         }
     }
 
+    private getOffset(localTimeInUtc: number): number {
+        if (!this._estimate) return 0;
+        return (
+            this._estimate.offset +
+            this._drift * (localTimeInUtc - this._estimate.localTimeInUtc)
+        );
+    }
+
     /**
      * Fetches the current timestamp from central timestamp service and computes the local offset.
      * @returns Computed timestamp offset.
@@ -158,4 +323,60 @@ export abstract class TimestampProvider implements ITimestampProvider {
             offset: serverTimeInUtc - now,
         };
     }
+
+    /**
+     * Estimates the offset from the samples with the lowest latency.
+     *
+     * @remarks
+     * Samples with a high latency are more likely to have an asymmetric round trip, so the slower
+     * half of the samples is discarded and the median offset of the remaining samples is used.
+     */
+    private static estimateOffset(
+        samples: IServerTimeOffset[]
+    ): IOffsetEstimate {
+        const sorted = [...samples].sort(
+            (a, b) => a.requestLatency - b.requestLatency
+        );
+        const kept = sorted.slice(0, Math.ceil(sorted.length / 2));
+        const offsets = kept
+            .map((sample) => sample.offset)
+            .sort((a, b) => a - b);
+        const middle = Math.floor(offsets.length / 2);
+        const offset =
+            offsets.length % 2
+                ? offsets[middle]
+                : (offsets[middle - 1] + offsets[middle]) / 2;
+        return {
+            offset,
+            localTimeInUtc: Math.max(
+                ...kept.map((sample) => sample.localTimeInUtc)
+            ),
+            error: kept[0].requestLatency / 2,
+        };
+    }
+
+    /**
+     * Estimates the clock drift using a least squares fit of the offsets over time.
+     */
+    private static estimateDrift(estimates: IOffsetEstimate[]): number {
+        if (estimates.length < 2) return 0;
+        const start = estimates[0].localTimeInUtc;
+        const span = estimates[estimates.length - 1].localTimeInUtc - start;
+        if (span < MIN_DRIFT_SPAN) return 0;
+        const meanTime =
+            estimates.reduce((sum, e) => sum + e.localTimeInUtc - start, 0) /
+            estimates.length;
+        const meanOffset =
+            estimates.reduce((sum, e) => sum + e.offset, 0) / estimates.length;
+        let covariance = 0;
+        let variance = 0;
+        for (const e of estimates) {
+            const time = e.localTimeInUtc - start - meanTime;
+            covariance += time * (e.offset - meanOffset);
+            variance += time * time;
+        }
+        if (variance === 0) return 0;
+        const drift = covariance / variance;
+        return Math.max(Math.min(drift, MAX_DRIFT_RATE), -MAX_DRIFT_RATE);
+    }
 }
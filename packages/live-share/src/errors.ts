@@ -76,3 +76,114 @@ export class LiveDataObjectInitializeNotNeededError extends Error {
         );
     }
 }
+
+/**
+ * Error raised when a `LivePermissionPredicate` denies an operation on a live object.
+ *
+ * @remarks
+ * Thrown when the local client isn't allowed to send the operation, and emitted through the `permissionDenied` event of
+ * the object when an operation received from a remote client is ignored.
+ */
+export class LivePermissionDeniedError extends Error {
+    constructor(
+        prefix: string,
+        /**
+         * ID of the live object the operation was performed on.
+         */
+        public readonly objectId: string,
+        /**
+         * Name of the operation that was denied.
+         */
+        public readonly operation: string,
+        /**
+         * ID of the client that performed the operation.
+         */
+        public readonly clientId: string,
+        /**
+         * True if the operation was sent by the local client.
+         */
+        public readonly local: boolean
+    ) {
+        super(
+            `${prefix} - the \`${operation}\` operation from client "${clientId}" was denied by the permission policy of object "${objectId}".`
+        );
+    }
+}
+
+/**
+ * Error thrown by `LiveState.compareAndSet()` when the state being replaced no longer matches the expected state.
+ *
+ * @remarks
+ * This happens when another client changed the state after the local client last read it. Read the latest state
+ * and try again if the change is still desired.
+ */
+export class LiveStateConflictError<TState = any> extends Error {
+    constructor(
+        prefix: string,
+        /**
+         * The state the caller expected to replace.
+         */
+        public readonly expected: TState,
+        /**
+         * The current state at the time of the conflict.
+         */
+        public readonly actual: TState,
+        /**
+         * The current revision at the time of the conflict.
+         */
+        public readonly revision: number
+    ) {
+        super(
+            `${prefix} - the current state at revision ${revision} does not match the expected state.\nTo fix this error, read the latest \`state\` and try again.`
+        );
+    }
+}
+
+/**
+ * Error thrown by `LiveRpc.call()` when no response was received before the request timed out.
+ */
+export class LiveRpcTimeoutError extends Error {
+    constructor(
+        prefix: string,
+        /**
+         * Name of the method that was requested.
+         */
+        public readonly method: string,
+        /**
+         * Timeout of the request, in milliseconds.
+         */
+        public readonly timeout: number
+    ) {
+        super(
+            `${prefix} - no response was received for the \`${method}\` request within ${timeout}ms.\nTo fix this error, ensure that a client has registered a handler for this method, or increase the \`timeout\` option.`
+        );
+    }
+}
+
+/**
+ * Error thrown by `LiveRpc.call()` when the responding client failed to handle the request.
+ *
+ * @remarks
+ * This happens when the handler throws, or when the requesting client doesn't have a role allowed by the handler.
+ */
+export class LiveRpcResponseError extends Error {
+    constructor(
+        prefix: string,
+        /**
+         * Name of the method that was requested.
+         */
+        public readonly method: string,
+        /**
+         * ID of the client that responded with the error.
+         */
+        public readonly clientId: string,
+        /**
+         * Error message sent by the responding client.
+         */
+        public readonly reason: string
+    ) {
+        super(
+            `${prefix} - the \`${method}\` request failed on client "${clientId}": ${reason}`
+        );
+    }
+}
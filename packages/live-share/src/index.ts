@@ -3,9 +3,13 @@
  * Licensed under the Microsoft Live Share SDK License.
  */
 
+export * from "./DocumentActivitySource";
 export * from "./DynamicObjectRegistry";
+export * from "./FluidLiveTransport";
+export * from "./FollowModeInterpolator";
 export * from "./HostTimestampProvider";
 export * from "./interfaces";
+export * from "./LiveCounter";
 export * from "./LiveEvent";
 export * from "./LiveEventScope";
 export * from "./LiveEventSource";
@@ -13,11 +17,19 @@ export * from "./LiveEventTarget";
 export * from "./LiveEventTimer";
 export * from "./LivePresence";
 export * from "./LivePresenceUser";
+export * from "./LivePresenceConnection";
 export * from "./LiveFollowMode";
+export * from "./LiveList";
+export * from "./LiveLock";
+export * from "./LiveMap";
+export * from "./LivePoll";
+export * from "./LiveRpc";
+export * from "./InMemoryLiveShareSession";
 export * from "./LiveShareClient";
 export * from "./LiveState";
 export * from "./LiveTelemetryLogger";
 export * from "./LiveTimer";
+export * from "./LocalLiveTransport";
 export * from "./LocalTimestampProvider";
 export * from "./TestLiveShareHost";
 export * from "./TimeInterval";
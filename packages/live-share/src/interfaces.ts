@@ -37,6 +37,39 @@ export interface IClientTimestamp {
  */
 export interface ILiveEvent<TEvent = any> extends IEvent, IClientTimestamp {
     data: TEvent;
+    /**
+     * Optional. Revision of the object's state that this event represents.
+     *
+     * @remarks
+     * Only set by objects that support versioned updates, such as `LiveState`. Each accepted change
+     * increments the revision by one, which lets clients detect when two changes were made against
+     * the same prior state.
+     */
+    revision?: number;
+    /**
+     * Optional. Users and clients the event was sent to using `LiveEvent.sendTo()`.
+     *
+     * @remarks
+     * Undefined when the event was broadcast to every client.
+     */
+    target?: ILiveEventTargets;
+}
+
+/**
+ * Users and clients that a targeted event is sent to.
+ *
+ * @remarks
+ * A client receives the event when its clientId is in `clientIds`, or when the userId of its user is in `userIds`.
+ */
+export interface ILiveEventTargets {
+    /**
+     * Optional. userIds of the users to send the event to. Every client of each user receives the event.
+     */
+    userIds?: string[];
+    /**
+     * Optional. clientIds of the clients to send the event to.
+     */
+    clientIds?: string[];
 }
 
 /**
@@ -64,6 +97,22 @@ export enum UserMeetingRole {
     organizer = "Organizer",
 }
 
+/**
+ * Content of the background updates sent for `LiveDataObject` instances using `LiveObjectSynchronizer`.
+ */
+export enum BackgroundUpdateMode {
+    /**
+     * Background updates include the full state of each object.
+     */
+    full = "full",
+
+    /**
+     * Background updates only include a digest of each object's state. Clients that have not
+     * received the state matching a digest request the full state from the client that sent it.
+     */
+    digest = "digest",
+}
+
 /**
  * @hidden
  * A provider that generates timestamps.
@@ -80,6 +129,116 @@ export interface ITimestampProvider {
     getMaxTimestampError(): number;
 }
 
+/**
+ * A source of user activity used by `LivePresence` to detect when the local user is idle.
+ *
+ * @remarks
+ * `DocumentActivitySource` is used by default. Provide a custom source to track activity outside of
+ * the DOM or for testing purposes.
+ */
+export interface IPresenceActivitySource {
+    /**
+     * Registers a listener called whenever the user is active, such as when they press a key.
+     * @returns a function that unregisters the listener.
+     */
+    onActivity(listener: () => void): () => void;
+
+    /**
+     * Registers a listener called whenever the app is shown or hidden.
+     * @returns a function that unregisters the listener.
+     */
+    onVisibilityChange(listener: (visible: boolean) => void): () => void;
+}
+
+/**
+ * JSON-schema-like descriptor of the data expected from other clients.
+ *
+ * @remarks
+ * Only the listed keywords are supported. Properties that aren't described are allowed.
+ */
+export interface ILiveDataSchema {
+    /**
+     * Optional. Expected type of the value.
+     */
+    type?: "string" | "number" | "boolean" | "object" | "array" | "null";
+    /**
+     * Optional. Schemas of the properties of an object value.
+     */
+    properties?: { [key: string]: ILiveDataSchema };
+    /**
+     * Optional. Names of the properties an object value must have.
+     */
+    required?: string[];
+    /**
+     * Optional. Schema of the items of an array value.
+     */
+    items?: ILiveDataSchema;
+    /**
+     * Optional. List of allowed values. Values are compared by their JSON representation.
+     */
+    enum?: any[];
+    /**
+     * Optional. List of schemas, at least one of which the value must match.
+     */
+    anyOf?: ILiveDataSchema[];
+}
+
+/**
+ * Validator applied to data received from other clients before it is applied, passed to `initialize()` of live objects.
+ *
+ * @remarks
+ * Can be a type guard function, a function returning whether the data is valid, or an `ILiveDataSchema` descriptor.
+ * A function that throws is treated as rejecting the data.
+ * @template TData Type of the data being validated.
+ */
+export type LiveDataValidator<TData = any> =
+    | ((value: unknown) => value is TData)
+    | ((value: unknown) => boolean)
+    | ILiveDataSchema;
+
+/**
+ * Context passed to a `LivePermissionPredicate` to decide whether an operation is allowed.
+ * @template TData Type of the data sent for the operation.
+ */
+export interface ILivePermissionContext<TData = any> {
+    /**
+     * ID of the live object the operation is performed on.
+     */
+    readonly objectId: string;
+    /**
+     * Name of the operation, such as the name of the event sent through `LiveEventScope` or `"pause"` for `LiveTimer.pause()`.
+     */
+    readonly operation: string;
+    /**
+     * ID of the client performing the operation.
+     */
+    readonly clientId: string;
+    /**
+     * Information about the user performing the operation, if known.
+     */
+    readonly clientInfo: IClientInfo | undefined;
+    /**
+     * Data sent for the operation.
+     */
+    readonly data: TData;
+    /**
+     * True if the operation is being sent by the local client, or false if it was received from a remote client.
+     */
+    readonly local: boolean;
+}
+
+/**
+ * Callback used to decide whether an operation on a live object is allowed.
+ *
+ * @remarks
+ * Predicates are evaluated both when the local client sends an operation and when an operation is received, in addition to
+ * the `allowedRoles` of the object. Return false, or throw, to deny the operation.
+ * @template TData Type of the data sent for the operation.
+ */
+export type LivePermissionPredicate<TData = any> = (
+    context: ILivePermissionContext<TData>
+) => boolean | Promise<boolean>;
+
 /**
  * @hidden
  * A provider that verifies roles.
@@ -318,6 +477,43 @@ export interface IContainerRuntimeSignaler {
     submitSignal(type: string, content: any): void;
 }
 
+/**
+ * Transport used to send and receive the signals of live objects.
+ *
+ * @remarks
+ * By default, `LiveShareRuntime` sends signals through the Fluid container that the live objects belong to, using
+ * `FluidLiveTransport` for the signals of `LiveObjectSynchronizer`.
+ * A transport can be set using `ILiveShareClientOptions.transport` to send signals through another channel instead,
+ * such as `LocalLiveTransport` for unit tests or for tabs on the same machine. All clients in a session must use
+ * the same kind of transport.
+ */
+export interface ILiveTransport {
+    /**
+     * ID of the local client, or undefined while disconnected.
+     */
+    readonly clientId: string | undefined;
+    /**
+     * True if the transport is connected and signals can be sent.
+     */
+    readonly connected: boolean;
+    on(event: "connected", listener: (clientId: string) => void): this;
+    off(event: "connected", listener: (clientId: string) => void): this;
+    on(
+        event: "signal",
+        listener: (message: IInboundSignalMessage, local: boolean) => void
+    ): this;
+    off(
+        event: "signal",
+        listener: (message: IInboundSignalMessage, local: boolean) => void
+    ): this;
+    /**
+     * Sends a signal to all connected clients, including the local client.
+     * @param type type of the signal.
+     * @param content content of the signal.
+     */
+    submitSignal(type: string, content: any): void;
+}
+
 /**
  * Callback function used to the receive the state update sent by a remote live object.
  * @template TState Type of state object being synchronized.
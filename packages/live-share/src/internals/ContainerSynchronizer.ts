@@ -1,14 +1,22 @@
 import { IRuntimeSignaler } from "../LiveEventScope";
 import { LiveShareRuntime } from "../LiveShareRuntime";
-import { IContainerRuntimeSignaler, ILiveEvent } from "../interfaces";
+import {
+    BackgroundUpdateMode,
+    ILiveTransport,
+    ILiveEvent,
+} from "../interfaces";
 import {
     GetAndUpdateStateHandlers,
+    IRequestUpdatesContent,
+    StateDigestEventContent,
     StateSyncEventContent,
 } from "./internal-interfaces";
 import { ThrottledEventQueue } from "./ThrottledEventQueue";
 import { LiveObjectManager } from "./LiveObjectManager";
-import { ObjectSynchronizerEvents } from "./consts";
-import { waitUntilConnected } from "./utils";
+import { ObjectSynchronizerEvents, TelemetryEvents } from "./consts";
+import { hashValue, waitUntilConnected } from "./utils";
+import { SignalChunker } from "./SignalChunker";
+import { LiveTelemetryLogger } from "../LiveTelemetryLogger";
 
 /**
  * @hidden
@@ -31,16 +39,27 @@ export class ContainerSynchronizer {
     ) => Promise<void>;
     private _onSendUpdatesIntervalCallback?: () => Promise<void>;
     private _ddsBackgroundUpdateEnabled: Set<string> = new Set<string>();
+    private _requestedKeys: Set<string> = new Set<string>();
+    private _hRequestedTimer: NodeJS.Timeout | undefined;
+    private readonly _logger: LiveTelemetryLogger;
 
     constructor(
         private readonly _runtime: IRuntimeSignaler,
-        private _containerRuntime: IContainerRuntimeSignaler,
+        private readonly _transport: ILiveTransport,
         private readonly _liveRuntime: LiveShareRuntime,
         private readonly _objectStore: LiveObjectManager
     ) {
+        this._logger = new LiveTelemetryLogger(_runtime, _liveRuntime);
         this.startListeningForConnected();
     }
 
+    /**
+     * The local client's current clientId, or undefined if not connected.
+     */
+    public get clientId(): string | undefined {
+        return this._runtime.clientId;
+    }
+
     public registerObject(
         id: string,
         handlers: GetAndUpdateStateHandlers<any>,
@@ -90,6 +109,10 @@ export class ContainerSynchronizer {
             this._connectedKeys = this._connectedKeys.filter(
                 (key) => key != id
             );
+            this._requestedKeys.delete(id);
+            if (this._requestedKeys.size == 0) {
+                this.stopRequestedUpdates();
+            }
 
             const ddsBackgroundUpdateEnabled =
                 this._ddsBackgroundUpdateEnabled.has(id);
@@ -110,27 +133,75 @@ export class ContainerSynchronizer {
     /**
      * On send background updates handler
      *
+     * @param mode Optional. Content of the background update. Defaults to `LiveShareRuntime.backgroundUpdateMode`.
      * @returns void promise once the events were sent (unless skipped)
      */
-    public async onSendBackgroundUpdates(): Promise<void> {
+    public async onSendBackgroundUpdates(
+        mode: BackgroundUpdateMode = this._liveRuntime.backgroundUpdateMode
+    ): Promise<void> {
         if (!this._liveRuntime.canSendBackgroundUpdates) return;
-        await this.sendGroupEvent(
-            this._connectedKeys.filter((key) =>
-                this._ddsBackgroundUpdateEnabled.has(key)
-            ),
-            ObjectSynchronizerEvents.update
-        ).catch((err) => console.error(err));
+        const keys = this._connectedKeys.filter((key) =>
+            this._ddsBackgroundUpdateEnabled.has(key)
+        );
+        if (mode === BackgroundUpdateMode.digest) {
+            await this.sendDigestEvent(keys).catch((err) => console.error(err));
+            return;
+        }
+        await this.sendGroupEvent(keys, ObjectSynchronizerEvents.update).catch(
+            (err) => console.error(err)
+        );
+    }
+
+    /**
+     * Asks another client to send its full state for objects that the local client has an outdated copy of.
+     * @param targetClientId the client to request the state from
+     * @param objectIds the `LiveDataObject` ids to request the state for. Objects that aren't registered are ignored.
+     */
+    public requestUpdates(targetClientId: string, objectIds: string[]) {
+        const content: IRequestUpdatesContent = {
+            targetClientId,
+            objectIds: objectIds.filter((id) => this._objects.has(id)),
+        };
+        if (content.objectIds.length == 0) return;
+        this._transport.submitSignal(
+            ObjectSynchronizerEvents.requestUpdates,
+            content
+        );
+    }
+
+    /**
+     * On another client requesting the local client's full state.
+     *
+     * @remarks
+     * Requests from multiple clients are grouped together, so that a single update is sent in response.
+     * @param objectIds the `LiveDataObject` ids that were requested
+     */
+    public onRequestedUpdates(objectIds: string[]) {
+        objectIds
+            .filter((id) => this._objects.has(id))
+            .forEach((id) => this._requestedKeys.add(id));
+        if (this._requestedKeys.size == 0 || this._hRequestedTimer) return;
+        this._hRequestedTimer = setTimeout(() => {
+            const keys = [...this._requestedKeys];
+            this._requestedKeys.clear();
+            this._hRequestedTimer = undefined;
+            this.sendGroupEvent(keys, ObjectSynchronizerEvents.update).catch(
+                (err) => console.error(err)
+            );
+        }, 50);
     }
 
     /**
      * Sends a one-time event for a given object
      * @param objectId the `LiveDataObject` id
      * @param data the date for the event to send
+     * @param revision Optional. the revision of the object's state the event represents
      * @returns the latest events sent, or undefined if there are none
      */
     public async sendEventForObject<TState = any>(
         objectId: string,
-        data: TState
+        data: TState,
+        revision?: number
     ): Promise<ILiveEvent<TState>> {
         const handlers = this._objects.get(objectId);
         if (!handlers) {
@@ -150,6 +221,7 @@ export class ContainerSynchronizer {
                 [objectId]: {
                     data,
                     timestamp: this._liveRuntime.getTimestamp(),
+                    revision,
                 },
             },
             ObjectSynchronizerEvents.update
@@ -162,6 +234,7 @@ export class ContainerSynchronizer {
             timestamp: updateEvents.data[objectId].timestamp,
             name: updateEvents.name,
             data: updateEvents.data[objectId].data,
+            revision: updateEvents.data[objectId].revision,
         };
         return valueSent;
     }
@@ -218,22 +291,41 @@ export class ContainerSynchronizer {
                         : this._liveRuntime.getTimestamp(),
                 name: evtType,
             };
-            this._containerRuntime.submitSignal(evtType, content);
+            this.submitSignal(evtType, content);
             return content;
         }
     }
 
     /**
-     * @hidden
-     * Do not use this API unless you know what you are doing.
-     * Using it incorrectly could cause object synchronizers to stop working.
-     * @see LiveShareRuntime.__dangerouslySetContainerRuntime
+     * Submits a signal, splitting it into chunks if it's larger than `maxSignalSize`.
      */
-    public __dangerouslySetContainerRuntime(
-        cRuntime: IContainerRuntimeSignaler
+    private submitSignal(
+        evtType: string,
+        content: ILiveEvent<StateSyncEventContent>
     ) {
-        if (this._containerRuntime === cRuntime) return;
-        this._containerRuntime = cRuntime;
+        const chunks = SignalChunker.split(
+            evtType,
+            content,
+            this._liveRuntime.maxSignalSize,
+            this._liveRuntime.compressLargeSignals
+        );
+        if (!chunks) {
+            this._transport.submitSignal(evtType, content);
+            return;
+        }
+        chunks.forEach((chunk) => {
+            this._transport.submitSignal(ObjectSynchronizerEvents.chunk, chunk);
+        });
+        this._logger.sendTelemetryEvent(
+            TelemetryEvents.LiveObjectSynchronizer.SignalChunked,
+            null,
+            {
+                signalType: evtType,
+                objectCount: Object.keys(content.data).length,
+                chunkCount: chunks.length,
+                compressed: chunks[0].compressed,
+            }
+        );
     }
 
     private async onConnected(clientId: string) {
@@ -268,6 +360,50 @@ export class ContainerSynchronizer {
     ): Promise<{
         sent: string[];
         skipped: string[];
+    }> {
+        const { updates, skipped } = await this.getUpdatesForKeys(
+            keys,
+            evtType
+        );
+        const updateKeys = Object.keys(updates);
+        // Send event if we have any updates to broadcast
+        // - `send` is only set if at least one component returns an update.
+        await this.sendEventUpdates(updates, evtType);
+        return {
+            sent: updateKeys,
+            skipped,
+        };
+    }
+
+    /**
+     * Sends a digest of the local client's state for each object, in place of the state itself.
+     */
+    private async sendDigestEvent(keys: string[]): Promise<void> {
+        const { updates } = await this.getUpdatesForKeys(
+            keys,
+            ObjectSynchronizerEvents.update
+        );
+        const digests: StateDigestEventContent = {};
+        for (const objectId in updates) {
+            const update = updates[objectId];
+            digests[objectId] = {
+                timestamp: update.timestamp,
+                hash: hashValue({
+                    data: update.data,
+                    revision: update.revision,
+                }),
+            };
+        }
+        if (Object.keys(digests).length == 0) return;
+        this._transport.submitSignal(ObjectSynchronizerEvents.digest, digests);
+    }
+
+    private async getUpdatesForKeys(
+        keys: string[],
+        evtType: string
+    ): Promise<{
+        updates: StateSyncEventContent;
+        skipped: string[];
     }> {
         // Compose list of updates
         const skipKeys: string[] = [];
@@ -292,6 +428,7 @@ export class ContainerSynchronizer {
                     if (typeof state == "object") {
                         updates[objectId] = {
                             data: state.data,
+                            revision: state.revision,
                             timestamp:
                                 handlers.shouldUpdateTimestampPeriodically
                                     ? this._liveRuntime.getTimestamp()
@@ -311,12 +448,8 @@ export class ContainerSynchronizer {
             skipKeys.push(objectId);
         }
 
-        const updateKeys = Object.keys(updates);
-        // Send event if we have any updates to broadcast
-        // - `send` is only set if at least one component returns an update.
-        await this.sendEventUpdates(updates, evtType);
         return {
-            sent: updateKeys,
+            updates,
             skipped: skipKeys,
         };
     }
@@ -367,6 +500,14 @@ export class ContainerSynchronizer {
         this._runtime.off("connected", this._onBoundConnectedListener);
     }
 
+    private stopRequestedUpdates() {
+        if (this._hRequestedTimer) {
+            clearTimeout(this._hRequestedTimer);
+            this._hRequestedTimer = undefined;
+        }
+        this._requestedKeys.clear();
+    }
+
     private startBackgroundObjectUpdates() {
         // Stop existing background updates
         this.stopBackgroundObjectUpdates();
@@ -377,8 +518,8 @@ export class ContainerSynchronizer {
             this._onReceiveObjectUpdateListener
         );
         // Set background updates
-        this._onSendUpdatesIntervalCallback =
-            this.onSendBackgroundUpdates.bind(this);
+        this._onSendUpdatesIntervalCallback = () =>
+            this.onSendBackgroundUpdates();
         this._hTimer = setInterval(
             this._onSendUpdatesIntervalCallback,
             this._liveRuntime.objectManager.updateInterval
@@ -7,7 +7,11 @@ import { IInboundSignalMessage } from "@fluidframework/runtime-definitions";
 import { TypedEventEmitter } from "@fluidframework/common-utils";
 import { IRuntimeSignaler } from "../LiveEventScope";
 import { LiveShareRuntime } from "../LiveShareRuntime";
-import { IContainerRuntimeSignaler, ILiveEvent } from "../interfaces";
+import {
+    BackgroundUpdateMode,
+    ILiveTransport,
+    ILiveEvent,
+} from "../interfaces";
 import { LiveEvent } from "../LiveEvent";
 import {
     ContainerSynchronizer,
@@ -17,10 +21,16 @@ import {
     ILiveObjectStore,
     ObjectSynchronizerEvents,
     StateSyncEventContent,
+    StateDigestEventContent,
     cloneValue,
+    hashValue,
     isILiveEvent,
+    isRequestUpdatesContent,
+    isSignalChunk,
+    isStateDigestEventContent,
     waitUntilConnected,
 } from "./";
+import { SignalChunker } from "./SignalChunker";
 import { IAzureAudience } from "@fluidframework/azure-client";
 
 /**
@@ -35,6 +45,8 @@ export class LiveObjectManager extends TypedEventEmitter<IContainerLiveObjectSto
 
     private _audience?: IAzureAudience;
     private _synchronizer?: ContainerSynchronizer;
+    private readonly _signalChunker = new SignalChunker();
+    private readonly _pendingChangeCounts = new Map<string, number>();
 
     private _onBoundReceivedSignalListener?: (
         message: IInboundSignalMessage,
@@ -43,11 +55,11 @@ export class LiveObjectManager extends TypedEventEmitter<IContainerLiveObjectSto
     /**
      * Create a new registry for all of the `LiveObjectSynchronizer` objects for a Live Share session.
      * @param _liveRuntime runtime for the Live Share session.
-     * @param _containerRuntime signal runtime.
+     * @param _transport transport used to send and receive signals.
      */
     public constructor(
         private readonly _liveRuntime: LiveShareRuntime,
-        private _containerRuntime: IContainerRuntimeSignaler
+        private readonly _transport: ILiveTransport
     ) {
         super();
     }
@@ -56,6 +68,15 @@ export class LiveObjectManager extends TypedEventEmitter<IContainerLiveObjectSto
      */
     public updateInterval = 10000;
 
+    /**
+     * Number of changes waiting to be sent once reconnected, across all objects.
+     */
+    public get pendingChanges(): number {
+        let count = 0;
+        this._pendingChangeCounts.forEach((pending) => (count += pending));
+        return count;
+    }
+
     /**
      * Start listening for changes
      */
@@ -69,6 +90,7 @@ export class LiveObjectManager extends TypedEventEmitter<IContainerLiveObjectSto
     public stop() {
         this.stopReceivingSignalUpdates();
         this.objectStoreMap.clear();
+        this._signalChunker.clear();
     }
 
     /**
@@ -90,7 +112,7 @@ export class LiveObjectManager extends TypedEventEmitter<IContainerLiveObjectSto
         if (!this._synchronizer) {
             this._synchronizer = new ContainerSynchronizer(
                 runtime,
-                this._containerRuntime,
+                this._transport,
                 this._liveRuntime,
                 this
             );
@@ -167,11 +189,13 @@ export class LiveObjectManager extends TypedEventEmitter<IContainerLiveObjectSto
      * Sends a one-time event for a given object
      * @param objectId the `LiveDataObject` id
      * @param data the date for the event to send
+     * @param revision Optional. the revision of the object's state the event represents
      * @returns the event that was sent
      */
     public async sendEventForObject<TState = any>(
         objectId: string,
-        data: TState
+        data: TState,
+        revision?: number
     ): Promise<ILiveEvent<TState>> {
         if (!this._synchronizer) {
             throw new Error(
@@ -180,7 +204,8 @@ export class LiveObjectManager extends TypedEventEmitter<IContainerLiveObjectSto
         }
         const valueSent = await this._synchronizer.sendEventForObject(
             objectId,
-            data
+            data,
+            revision
         );
         this.updateEventLocallyInStore(objectId, valueSent);
         return valueSent;
@@ -206,6 +231,22 @@ export class LiveObjectManager extends TypedEventEmitter<IContainerLiveObjectSto
         return valueSent;
     }
 
+    /**
+     * Sets the number of changes an object has waiting to be sent once reconnected.
+     *
+     * @param objectId the `LiveDataObject` id
+     * @param count the number of changes made since the object disconnected, including changes combined into the queued change
+     */
+    public setPendingChanges(objectId: string, count: number) {
+        if (count === (this._pendingChangeCounts.get(objectId) ?? 0)) return;
+        if (count > 0) {
+            this._pendingChangeCounts.set(objectId, count);
+        } else {
+            this._pendingChangeCounts.delete(objectId);
+        }
+        this.emit("pendingChanges", this.pendingChanges);
+    }
+
     /**
      * @hidden
      * The local client was given a new clientId, move cached events to the new clientId
@@ -219,26 +260,6 @@ export class LiveObjectManager extends TypedEventEmitter<IContainerLiveObjectSto
         });
     }
 
-    /**
-     * @hidden
-     * Do not use this API unless you know what you are doing.
-     * Using it incorrectly could cause object synchronizers to stop working.
-     * @see LiveShareRuntime.__dangerouslySetContainerRuntime
-     */
-    public __dangerouslySetContainerRuntime(
-        cRuntime: IContainerRuntimeSignaler
-    ) {
-        // Fluid normally will create new DDS instances with the same runtime, but during some instances they will re-instantiate it.
-        if (this._containerRuntime === cRuntime) return;
-        // If we already have a _containerRuntime, we technically do not need to re-set it, despite them re-instantiating it.
-        // This is because for how we are using it (signals), this has no impact. We still swap out our reference and reset signal
-        // event listeners, both for future proofing and as a general good memory practice
-        this.stopReceivingSignalUpdates();
-        this._containerRuntime = cRuntime;
-        this.startReceivingSignalUpdates();
-        this._synchronizer?.__dangerouslySetContainerRuntime(cRuntime);
-    }
-
     /**
      * Set the audience
      */
@@ -247,6 +268,35 @@ export class LiveObjectManager extends TypedEventEmitter<IContainerLiveObjectSto
     }
 
     private onReceivedSignal(message: IInboundSignalMessage, local: boolean) {
+        if (message.type === ObjectSynchronizerEvents.chunk) {
+            const joined = this.joinSignalChunk(message, local);
+            if (!joined) return;
+            message = {
+                ...message,
+                type: joined.type,
+                content: joined.content,
+            };
+        }
+        if (message.type === ObjectSynchronizerEvents.digest) {
+            if (
+                local ||
+                !message.clientId ||
+                !isStateDigestEventContent(message.content)
+            )
+                return;
+            this.onReceivedDigest(message.clientId, message.content);
+            return;
+        }
+        if (message.type === ObjectSynchronizerEvents.requestUpdates) {
+            if (
+                local ||
+                !isRequestUpdatesContent(message.content) ||
+                message.content.targetClientId !== this._synchronizer?.clientId
+            )
+                return;
+            this._synchronizer.onRequestedUpdates(message.content.objectIds);
+            return;
+        }
         if (
             local ||
             !message.clientId ||
@@ -261,8 +311,78 @@ export class LiveObjectManager extends TypedEventEmitter<IContainerLiveObjectSto
             local
         );
         // If the non-local user is connecting for the first time
+        // - The full state is always sent, since the new client has yet to receive any state to compare with a digest.
         if (message.type === ObjectSynchronizerEvents.connect) {
-            this._synchronizer?.onSendBackgroundUpdates();
+            this._synchronizer?.onSendBackgroundUpdates(
+                BackgroundUpdateMode.full
+            );
+        }
+    }
+
+    /**
+     * Compares the digest of each object's state sent by another client with the state received from that client.
+     *
+     * @remarks
+     * If the local client has already received the same state from any client, it's used in place of the full state.
+     * This is common for objects like `LiveState`, where each client saves the most recent valid state as their own.
+     * Otherwise, the full state is requested from the client that sent the digest.
+     */
+    private onReceivedDigest(
+        senderId: string,
+        digests: StateDigestEventContent
+    ) {
+        const outdated: string[] = [];
+        for (const id in digests) {
+            const digest = digests[id];
+            const senderEvent = this.getLatestEventForObjectClient(
+                id,
+                senderId
+            );
+            if (senderEvent && senderEvent.timestamp === digest.timestamp) {
+                continue;
+            }
+            const matchingEvent = this.getEventsForObject(id)?.find(
+                (event) =>
+                    hashValue({
+                        data: event.data,
+                        revision: event.revision,
+                    }) === digest.hash
+            );
+            if (!matchingEvent) {
+                outdated.push(id);
+                continue;
+            }
+            this.dispatchUpdates(
+                ObjectSynchronizerEvents.update,
+                senderId,
+                {
+                    [id]: {
+                        data: matchingEvent.data,
+                        revision: matchingEvent.revision,
+                        timestamp: digest.timestamp,
+                    },
+                },
+                false
+            );
+        }
+        if (outdated.length > 0) {
+            this._synchronizer?.requestUpdates(senderId, outdated);
+        }
+    }
+
+    private joinSignalChunk(
+        message: IInboundSignalMessage,
+        local: boolean
+    ): { type: string; content: any } | undefined {
+        if (local || !message.clientId || !isSignalChunk(message.content))
+            return undefined;
+        try {
+            return this._signalChunker.join(message.clientId, message.content);
+        } catch (err: any) {
+            console.error(
+                `LiveObjectManager: error joining signal chunks - ${err.toString()}`
+            );
+            return undefined;
         }
     }
 
@@ -279,6 +399,7 @@ export class LiveObjectManager extends TypedEventEmitter<IContainerLiveObjectSto
                 timestamp: data.timestamp,
                 data: cloneValue(data.data),
                 name: type,
+                revision: data.revision,
             };
             const didUpdate = this.updateEventLocallyInStore(id, receivedEvent);
             if (!didUpdate) continue;
@@ -337,17 +458,11 @@ export class LiveObjectManager extends TypedEventEmitter<IContainerLiveObjectSto
             this.stopReceivingSignalUpdates();
         }
         this._onBoundReceivedSignalListener = this.onReceivedSignal.bind(this);
-        this._containerRuntime.on(
-            "signal",
-            this._onBoundReceivedSignalListener
-        );
+        this._transport.on("signal", this._onBoundReceivedSignalListener);
     }
 
     private stopReceivingSignalUpdates() {
         if (!this._onBoundReceivedSignalListener) return;
-        this._containerRuntime.off(
-            "signal",
-            this._onBoundReceivedSignalListener
-        );
+        this._transport.off("signal", this._onBoundReceivedSignalListener);
     }
 }
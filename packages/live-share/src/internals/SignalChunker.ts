@@ -0,0 +1,155 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { compressToBase64, decompressFromBase64 } from "lz-string";
+import { v4 as uuid } from "uuid";
+import { ISignalChunk } from "./internal-interfaces";
+
+/**
+ * Approximate number of characters used by the fields of a chunk other than its payload.
+ */
+const CHUNK_ENVELOPE_SIZE = 256;
+
+/**
+ * How long to wait for the remaining chunks of a signal before discarding the ones received.
+ */
+const PENDING_SIGNAL_TIMEOUT = 30000;
+
+interface IPendingSignal {
+    type: string;
+    compressed: boolean;
+    payloads: string[];
+    received: number;
+    lastReceived: number;
+}
+
+/**
+ * @hidden
+ * Splits signals that are too large to send at once into chunks, and joins received chunks back together.
+ *
+ * @remarks
+ * See {@link ContainerSynchronizer} and {@link LiveObjectManager} for usage.
+ */
+export class SignalChunker {
+    private readonly _pending = new Map<string, IPendingSignal>();
+
+    /**
+     * Splits a signal into chunks if it's larger than `maxSignalSize`.
+     *
+     * @param type type of the signal
+     * @param content content of the signal
+     * @param maxSignalSize maximum size, in characters, of a serialized signal
+     * @param compress if true, the content is compressed when it's larger than `maxSignalSize`
+     * @returns the chunks to send in place of the signal, or undefined if the signal can be sent as is.
+     */
+    public static split(
+        type: string,
+        content: any,
+        maxSignalSize: number,
+        compress: boolean
+    ): ISignalChunk[] | undefined {
+        const serialized = JSON.stringify(content);
+        if (serialized.length <= maxSignalSize) return undefined;
+
+        let payload = serialized;
+        let compressed = false;
+        if (compress) {
+            const compressedPayload = compressToBase64(serialized);
+            if (compressedPayload.length < serialized.length) {
+                payload = compressedPayload;
+                compressed = true;
+            }
+        }
+
+        // Uncompressed payloads are JSON, which may double in size once escaped within the chunk
+        const available = Math.max(maxSignalSize - CHUNK_ENVELOPE_SIZE, 2);
+        const payloadSize = compressed ? available : Math.floor(available / 2);
+        const count = Math.ceil(payload.length / payloadSize);
+        const messageId = uuid();
+        const chunks: ISignalChunk[] = [];
+        for (let index = 0; index < count; index++) {
+            chunks.push({
+                messageId,
+                type,
+                index,
+                count,
+                compressed,
+                payload: payload.slice(
+                    index * payloadSize,
+                    (index + 1) * payloadSize
+                ),
+            });
+        }
+        return chunks;
+    }
+
+    /**
+     * Adds a received chunk.
+     *
+     * @param senderId clientId of the client that sent the chunk
+     * @param chunk the chunk that was received
+     * @returns the type & content of the original signal once all of its chunks were received, otherwise undefined.
+     * @throws error if the joined chunks could not be parsed.
+     */
+    public join(
+        senderId: string,
+        chunk: ISignalChunk
+    ): { type: string; content: any } | undefined {
+        const now = Date.now();
+        this.removeExpired(now);
+
+        if (chunk.count < 1 || chunk.index < 0 || chunk.index >= chunk.count) {
+            return undefined;
+        }
+        const key = `${senderId}:${chunk.messageId}`;
+        let pending = this._pending.get(key);
+        if (!pending) {
+            pending = {
+                type: chunk.type,
+                compressed: chunk.compressed,
+                payloads: new Array(chunk.count),
+                received: 0,
+                lastReceived: now,
+            };
+            this._pending.set(key, pending);
+        }
+        if (pending.payloads[chunk.index] === undefined) {
+            pending.payloads[chunk.index] = chunk.payload;
+            pending.received++;
+        }
+        pending.lastReceived = now;
+        if (pending.received < pending.payloads.length) return undefined;
+
+        this._pending.delete(key);
+        const payload = pending.payloads.join("");
+        const serialized = pending.compressed
+            ? decompressFromBase64(payload)
+            : payload;
+        if (!serialized) {
+            throw new Error(
+                `SignalChunker.join(): unable to decompress signal '${chunk.messageId}'`
+            );
+        }
+        return {
+            type: pending.type,
+            content: JSON.parse(serialized),
+        };
+    }
+
+    /**
+     * Discards all chunks that have been received.
+     */
+    public clear() {
+        this._pending.clear();
+    }
+
+    private removeExpired(now: number) {
+        this._pending.forEach((pending, key) => {
+            if (now - pending.lastReceived > PENDING_SIGNAL_TIMEOUT) {
+                this._pending.delete(key);
+            }
+        });
+    }
+}
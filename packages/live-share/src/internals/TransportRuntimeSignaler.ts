@@ -0,0 +1,124 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { ITelemetryLogger } from "@fluidframework/common-definitions";
+import { IInboundSignalMessage } from "@fluidframework/runtime-definitions";
+import { IRuntimeSignaler } from "../LiveEventScope";
+import { ILiveTransport } from "../interfaces";
+import { IScopedSignalContent } from "./internal-interfaces";
+import { isScopedSignalContent } from "./type-guards";
+
+type SignalListener = (message: IInboundSignalMessage, local: boolean) => void;
+
+/**
+ * @hidden
+ * Sends and receives the signals of a Fluid object through an `ILiveTransport` in place of the object's runtime.
+ *
+ * @remarks
+ * The object's runtime is still used for telemetry. When a `scopeId` is provided, signals are wrapped in an
+ * `IScopedSignalContent` and only signals sent for the same scope are received. This keeps the events of
+ * `LiveEventScope` instances isolated per Fluid object, as they would be with Fluid signals.
+ */
+export class TransportRuntimeSignaler implements IRuntimeSignaler {
+    private readonly _signalListeners = new Map<
+        SignalListener,
+        SignalListener
+    >();
+
+    /**
+     * Creates a new `TransportRuntimeSignaler` instance.
+     * @param _transport transport used to send and receive signals.
+     * @param _runtime the Fluid object's runtime.
+     * @param _scopeId Optional. Scope that signals are sent and received for.
+     */
+    constructor(
+        private readonly _transport: ILiveTransport,
+        private readonly _runtime: IRuntimeSignaler,
+        private readonly _scopeId?: string
+    ) {}
+
+    public get id(): string | undefined {
+        return this._runtime.id;
+    }
+
+    public get clientId(): string | undefined {
+        return this._transport.clientId;
+    }
+
+    public get connected(): boolean {
+        return this._transport.connected;
+    }
+
+    public get logger(): ITelemetryLogger {
+        return this._runtime.logger;
+    }
+
+    public on(event: "connected", listener: (clientId: string) => void): this;
+    // Note: the following is not actually a duplicate
+    // eslint-disable-next-line no-dupe-class-members
+    public on(event: "signal", listener: SignalListener): this;
+    // Note: the following is not actually a duplicate
+    // eslint-disable-next-line no-dupe-class-members
+    public on(event: string, listener: any): this {
+        switch (event) {
+            case "connected":
+                this._transport.on("connected", listener);
+                break;
+            case "signal": {
+                const scopedListener = this.getScopedListener(listener);
+                this._signalListeners.set(listener, scopedListener);
+                this._transport.on("signal", scopedListener);
+                break;
+            }
+        }
+        return this;
+    }
+
+    public off(event: "connected", listener: (clientId: string) => void): this;
+    // Note: the following is not actually a duplicate
+    // eslint-disable-next-line no-dupe-class-members
+    public off(event: "signal", listener: SignalListener): this;
+    // Note: the following is not actually a duplicate
+    // eslint-disable-next-line no-dupe-class-members
+    public off(event: string, listener: any): this {
+        switch (event) {
+            case "connected":
+                this._transport.off("connected", listener);
+                break;
+            case "signal": {
+                const scopedListener = this._signalListeners.get(listener);
+                if (!scopedListener) break;
+                this._signalListeners.delete(listener);
+                this._transport.off("signal", scopedListener);
+                break;
+            }
+        }
+        return this;
+    }
+
+    public submitSignal(type: string, content: any): void {
+        if (this._scopeId === undefined) {
+            this._transport.submitSignal(type, content);
+            return;
+        }
+        const scopedContent: IScopedSignalContent = {
+            scopeId: this._scopeId,
+            content,
+        };
+        this._transport.submitSignal(type, scopedContent);
+    }
+
+    private getScopedListener(listener: SignalListener): SignalListener {
+        if (this._scopeId === undefined) return listener;
+        return (message, local) => {
+            if (
+                !isScopedSignalContent(message.content) ||
+                message.content.scopeId !== this._scopeId
+            )
+                return;
+            listener({ ...message, content: message.content.content }, local);
+        };
+    }
+}
@@ -15,10 +15,32 @@ export const TelemetryEvents = {
         RemotePresenceChanged: "LivePresence:RemotePresenceChange",
         GetClientInfoError: "LivePresence:GetClientInfoError",
         RoleVerificationError: "LivePresence:RoleVerificationError",
+        InvalidEvent: "LivePresence:InvalidEvent",
+        ActivityUpdateError: "LivePresence:ActivityUpdateError",
     },
     LiveState: {
         StateChanged: "LiveState:StateChanged",
         RoleVerificationError: "LiveState:RoleVerificationError",
+        InvalidEvent: "LiveState:InvalidEvent",
+    },
+    LiveEvent: {
+        InvalidEvent: "LiveEvent:InvalidEvent",
+        GetClientInfoError: "LiveEvent:GetClientInfoError",
+    },
+    LiveObjectSynchronizer: {
+        SignalChunked: "LiveObjectSynchronizer:SignalChunked",
+    },
+    LiveList: {
+        ListChanged: "LiveList:ListChanged",
+        RoleVerificationError: "LiveList:RoleVerificationError",
+    },
+    LiveCounter: {
+        ValueChanged: "LiveCounter:ValueChanged",
+        RoleVerificationError: "LiveCounter:RoleVerificationError",
+    },
+    LiveMap: {
+        ValueChanged: "LiveMap:ValueChanged",
+        RoleVerificationError: "LiveMap:RoleVerificationError",
     },
 };
 
@@ -35,6 +57,9 @@ function transmit(eventName: string): string {
 export const ObjectSynchronizerEvents = {
     update: "update",
     connect: "connect",
+    chunk: "chunk",
+    digest: "digest",
+    requestUpdates: "requestUpdates",
 };
 
 /**
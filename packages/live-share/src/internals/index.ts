@@ -15,4 +15,6 @@ export * from "./type-guards";
 export * from "./internal-interfaces";
 export * from "./LiveObjectManager";
 export * from "./ContainerSynchronizer";
+export * from "./SignalChunker";
+export * from "./TransportRuntimeSignaler";
 export * from "./FormatFixHostDecorator";
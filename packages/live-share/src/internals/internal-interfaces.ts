@@ -12,6 +12,84 @@ export interface StateSyncEventContent {
     [id: string]: Omit<ILiveEvent<any>, "name" | "clientId">;
 }
 
+/**
+ * @hidden
+ * Compact representation of each object's state, sent in place of `StateSyncEventContent` for digest background updates.
+ */
+export interface StateDigestEventContent {
+    [id: string]: {
+        /**
+         * Timestamp of the state.
+         */
+        timestamp: number;
+        /**
+         * Hash of the state's data and revision.
+         */
+        hash: string;
+    };
+}
+
+/**
+ * @hidden
+ * Signal sent when a client's digest background update differs from the state received from that client.
+ */
+export interface IRequestUpdatesContent {
+    /**
+     * Client that should send its full state.
+     */
+    targetClientId: string;
+    /**
+     * Objects to send the full state for.
+     */
+    objectIds: string[];
+}
+
+/**
+ * @hidden
+ * Signal sent through an `ILiveTransport` on behalf of a `LiveEventScope`.
+ */
+export interface IScopedSignalContent {
+    /**
+     * ID of the Fluid object the signal was sent for.
+     */
+    scopeId: string;
+    /**
+     * Content of the original signal.
+     */
+    content: any;
+}
+
+/**
+ * @hidden
+ * A piece of a signal that was too large to send at once.
+ */
+export interface ISignalChunk {
+    /**
+     * ID shared by all chunks of the same signal.
+     */
+    messageId: string;
+    /**
+     * Type of the original signal.
+     */
+    type: string;
+    /**
+     * Index of the chunk within the original signal.
+     */
+    index: number;
+    /**
+     * Total number of chunks for the original signal.
+     */
+    count: number;
+    /**
+     * True if the joined payloads were compressed.
+     */
+    compressed: boolean;
+    /**
+     * Piece of the serialized original signal content.
+     */
+    payload: string;
+}
+
 /**
  * @hidden
  */
@@ -51,6 +129,13 @@ export interface IContainerLiveObjectStoreEvents extends IEvent {
             processRelatedChange: ProcessRelatedChangeHandler
         ) => void
     ): void;
+    /**
+     * Event listener for when the number of changes waiting to be sent once reconnected changes
+     * @param event pendingChanges
+     * @param listener listener function
+     * @param listener.count the number of pending changes, across all objects
+     */
+    (event: "pendingChanges", listener: (count: number) => void): void;
 }
 
 /**
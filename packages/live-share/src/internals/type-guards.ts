@@ -1,5 +1,11 @@
 import { TimestampProvider } from "../TimestampProvider";
 import { IClientInfo, ILiveEvent, UserMeetingRole } from "../interfaces";
+import {
+    IRequestUpdatesContent,
+    IScopedSignalContent,
+    ISignalChunk,
+    StateDigestEventContent,
+} from "./internal-interfaces";
 
 interface IMobileWorkaroundRolesResponse {
     userRoles: UserMeetingRole[];
@@ -53,6 +59,66 @@ export function isILiveEvent(value: any): value is ILiveEvent {
     );
 }
 
+/**
+ * @hidden
+ */
+export function isSignalChunk(value: any): value is ISignalChunk {
+    return (
+        typeof value === "object" &&
+        typeof value.messageId === "string" &&
+        typeof value.type === "string" &&
+        typeof value.index === "number" &&
+        typeof value.count === "number" &&
+        typeof value.compressed === "boolean" &&
+        typeof value.payload === "string"
+    );
+}
+
+/**
+ * @hidden
+ */
+export function isStateDigestEventContent(
+    value: any
+): value is StateDigestEventContent {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        Object.values(value).every(
+            (digest: any) =>
+                typeof digest?.timestamp === "number" &&
+                typeof digest?.hash === "string"
+        )
+    );
+}
+
+/**
+ * @hidden
+ */
+export function isRequestUpdatesContent(
+    value: any
+): value is IRequestUpdatesContent {
+    return (
+        typeof value === "object" &&
+        typeof value.targetClientId === "string" &&
+        Array.isArray(value.objectIds) &&
+        value.objectIds.every((id: any) => typeof id === "string")
+    );
+}
+
+/**
+ * @hidden
+ */
+export function isScopedSignalContent(
+    value: any
+): value is IScopedSignalContent {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        typeof value.scopeId === "string" &&
+        "content" in value
+    );
+}
+
 /**
  * @hidden
  */
@@ -6,6 +6,11 @@
 import { ITokenProvider } from "@fluidframework/azure-client";
 import { v4 as uuid } from "uuid";
 import { IRuntimeSignaler } from "../LiveEventScope";
+import {
+    ILiveDataSchema,
+    ILiveTransport,
+    LiveDataValidator,
+} from "../interfaces";
 
 /**
  * @hidden
@@ -14,6 +19,117 @@ export function cloneValue<T>(value: T): T {
     return typeof value == "object" ? JSON.parse(JSON.stringify(value)) : value;
 }
 
+/**
+ * @hidden
+ * Returns a copy of `target` with the properties of `source` merged in. Nested plain objects are merged
+ * recursively when `deep` is true, while arrays and other values are replaced.
+ */
+export function mergeValue<T extends object>(
+    target: T | undefined,
+    source: Partial<T>,
+    deep: boolean
+): T {
+    const merged: any = { ...cloneValue(target) };
+    Object.entries(source).forEach(([key, sourceValue]) => {
+        const value = cloneValue(sourceValue);
+        if (deep && isPlainObject(value) && isPlainObject(merged[key])) {
+            merged[key] = mergeValue(merged[key], value, true);
+        } else {
+            merged[key] = value;
+        }
+    });
+    return merged;
+}
+
+function isPlainObject(value: unknown): value is object {
+    return typeof value == "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * @hidden
+ * Returns a non-cryptographic hash of a JSON-serializable value. Values that serialize the same will have the same hash.
+ */
+export function hashValue(value: any): string {
+    const str = JSON.stringify(value) ?? "";
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < str.length; i++) {
+        const ch = str.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+    h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+    h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (h2 >>> 0).toString(36) + (h1 >>> 0).toString(36);
+}
+
+/**
+ * @hidden
+ * Returns true if a value is accepted by a validator. Validators that throw reject the value.
+ */
+export function isValidLiveData(
+    value: unknown,
+    validator: LiveDataValidator | undefined
+): boolean {
+    if (!validator) return true;
+    try {
+        if (typeof validator == "function") {
+            return !!validator(value);
+        }
+        return matchesSchema(value, validator);
+    } catch {
+        return false;
+    }
+}
+
+function matchesSchema(value: unknown, schema: ILiveDataSchema): boolean {
+    if (schema.type && getSchemaType(value) !== schema.type) return false;
+    if (
+        schema.enum &&
+        !schema.enum.some(
+            (option) => JSON.stringify(option) === JSON.stringify(value)
+        )
+    )
+        return false;
+    if (
+        schema.anyOf &&
+        !schema.anyOf.some((option) => matchesSchema(value, option))
+    )
+        return false;
+    if (schema.items && Array.isArray(value)) {
+        if (!value.every((item) => matchesSchema(item, schema.items!)))
+            return false;
+    }
+    if (
+        (schema.properties || schema.required) &&
+        getSchemaType(value) == "object"
+    ) {
+        const obj = value as { [key: string]: unknown };
+        if (schema.required?.some((key) => !(key in obj))) return false;
+        for (const key in schema.properties ?? {}) {
+            if (key in obj && !matchesSchema(obj[key], schema.properties![key]))
+                return false;
+        }
+    }
+    return true;
+}
+
+function getSchemaType(value: unknown): ILiveDataSchema["type"] | undefined {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    switch (typeof value) {
+        case "string":
+        case "number":
+        case "boolean":
+        case "object":
+            return typeof value as ILiveDataSchema["type"];
+        default:
+            return undefined;
+    }
+}
+
 /**
  * @hidden
  */
@@ -167,7 +283,9 @@ export async function getInsecureTokenProvider(): Promise<ITokenProvider> {
  * Waits until connected and gets the most recent clientId
  * @returns clientId
  */
-export function waitUntilConnected(runtime: IRuntimeSignaler): Promise<string> {
+export function waitUntilConnected(
+    runtime: IRuntimeSignaler | ILiveTransport
+): Promise<string> {
     return new Promise((resolve) => {
         const onConnected = (clientId: string) => {
             runtime.off("connected", onConnected);
@@ -0,0 +1,97 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { strict as assert } from "assert";
+import { EventEmitter } from "events";
+import { IInboundSignalMessage } from "@fluidframework/runtime-definitions";
+import { v4 } from "uuid";
+import { FluidLiveTransport } from "../FluidLiveTransport";
+import { IContainerRuntimeSignaler } from "../interfaces";
+
+class MockContainerRuntime
+    extends EventEmitter
+    implements IContainerRuntimeSignaler
+{
+    public clientId: string | undefined = v4();
+
+    public get connected(): boolean {
+        return this.clientId !== undefined;
+    }
+
+    public connect(): void {
+        this.clientId = v4();
+        this.emit("connected", this.clientId);
+    }
+
+    public disconnect(): void {
+        this.clientId = undefined;
+        this.emit("disconnected");
+    }
+
+    public submitSignal(type: string, content: any): void {
+        const message: IInboundSignalMessage = {
+            clientId: this.clientId ?? null,
+            type,
+            content,
+        };
+        this.emit("signal", message, true);
+    }
+}
+
+describe("FluidLiveTransport", () => {
+    it("Should send and receive signals through the container runtime", () => {
+        const transport = new FluidLiveTransport();
+        const signals: IInboundSignalMessage[] = [];
+        transport.on("signal", (message) => signals.push(message));
+        assert.equal(transport.connected, false);
+        transport.submitSignal("test", { value: 0 });
+
+        const cRuntime = new MockContainerRuntime();
+        transport.setContainerRuntime(cRuntime);
+        assert.equal(transport.connected, true);
+        assert.equal(transport.clientId, cRuntime.clientId);
+        transport.submitSignal("test", { value: 1 });
+
+        assert.deepEqual(
+            signals.map((message) => message.content.value),
+            [1]
+        );
+    });
+
+    it("Should forward connection events of the container runtime", () => {
+        const transport = new FluidLiveTransport();
+        const events: string[] = [];
+        transport.on("connected", (clientId) => events.push(clientId));
+        transport.on("disconnected", () => events.push("disconnected"));
+
+        const cRuntime = new MockContainerRuntime();
+        const clientId = cRuntime.clientId;
+        transport.setContainerRuntime(cRuntime);
+        cRuntime.disconnect();
+        cRuntime.connect();
+
+        assert.notEqual(cRuntime.clientId, clientId);
+        assert.deepEqual(events, [clientId, "disconnected", cRuntime.clientId]);
+    });
+
+    it("Should move listeners to a new container runtime", () => {
+        const transport = new FluidLiveTransport();
+        const signals: IInboundSignalMessage[] = [];
+        transport.on("signal", (message) => signals.push(message));
+
+        const cRuntime1 = new MockContainerRuntime();
+        const cRuntime2 = new MockContainerRuntime();
+        transport.setContainerRuntime(cRuntime1);
+        transport.setContainerRuntime(cRuntime2);
+        cRuntime1.submitSignal("test", { value: 1 });
+        transport.submitSignal("test", { value: 2 });
+
+        assert.deepEqual(
+            signals.map((message) => message.clientId),
+            [cRuntime2.clientId]
+        );
+        assert.equal(cRuntime1.listenerCount("signal"), 0);
+    });
+});
@@ -0,0 +1,51 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { strict as assert } from "assert";
+import {
+    InterpolationEasings,
+    NumericInterpolator,
+} from "../FollowModeInterpolator";
+
+describe("NumericInterpolator", () => {
+    it("Should interpolate numbers, arrays and objects", () => {
+        const interpolator = new NumericInterpolator();
+        assert.equal(interpolator.interpolate(0, 10, 0.5), 5);
+        assert.deepEqual(
+            interpolator.interpolate([0, 10], [10, 20], 0.25),
+            [2.5, 12.5]
+        );
+        assert.deepEqual(
+            interpolator.interpolate(
+                { x: 0, camera: { zoom: 1 }, page: "a" },
+                { x: 100, camera: { zoom: 3 }, page: "b" },
+                0.5
+            ),
+            { x: 50, camera: { zoom: 2 }, page: "b" }
+        );
+    });
+
+    it("Should jump to values with a different shape", () => {
+        const interpolator = new NumericInterpolator();
+        assert.deepEqual(
+            interpolator.interpolate([0], [10, 20], 0.5),
+            [10, 20]
+        );
+        assert.deepEqual(interpolator.interpolate({ x: 0 }, { y: 10 }, 0.5), {
+            y: 10,
+        });
+        assert.equal(interpolator.interpolate("0", 10, 0.5), 10);
+    });
+
+    it("Should apply easing and clamp progress", () => {
+        const interpolator = new NumericInterpolator(
+            InterpolationEasings.easeInOut
+        );
+        assert.equal(interpolator.interpolate(0, 100, 0.25), 6.25);
+        assert.equal(interpolator.interpolate(0, 100, 0.5), 50);
+        assert.equal(interpolator.interpolate(0, 100, 2), 100);
+        assert.equal(interpolator.interpolate(0, 100, -1), 0);
+    });
+});
@@ -0,0 +1,169 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { strict as assert } from "assert";
+import { requestFluidObject } from "@fluidframework/runtime-utils";
+import { ITestObjectProvider } from "@fluidframework/test-utils";
+import { describeNoCompat } from "@fluidframework/test-version-utils";
+import {
+    InMemoryLiveShareClient,
+    InMemoryLiveShareSession,
+} from "../InMemoryLiveShareSession";
+import { LiveState } from "../LiveState";
+import { UserMeetingRole } from "../interfaces";
+import { Deferred } from "../internals";
+import { getLiveDataObjectClass } from "../schema-injection-utils";
+
+function recordSignals(client: InMemoryLiveShareClient) {
+    const received: any[] = [];
+    client.transport.on("signal", (message, local) => {
+        if (!local) {
+            received.push(message.content);
+        }
+    });
+    return received;
+}
+
+function sequence(...values: number[]): () => number {
+    let i = 0;
+    return () => values[i++ % values.length];
+}
+
+async function getLiveStates(
+    getTestObjectProvider,
+    clients: InMemoryLiveShareClient[]
+) {
+    const provider: ITestObjectProvider = getTestObjectProvider();
+    const objects: LiveState<string>[] = [];
+    for (let i = 0; i < clients.length; i++) {
+        const ObjectProxy: any = getLiveDataObjectClass<LiveState<string>>(
+            LiveState,
+            clients[i].runtime
+        );
+        const container =
+            i == 0
+                ? await provider.createContainer(ObjectProxy.factory)
+                : await provider.loadContainer(ObjectProxy.factory);
+        objects.push(
+            await requestFluidObject<LiveState<string>>(container, "default")
+        );
+    }
+    return objects;
+}
+
+describeNoCompat("InMemoryLiveShareSession", (getTestObjectProvider) => {
+    let session: InMemoryLiveShareSession;
+
+    afterEach(() => {
+        session?.dispose();
+    });
+
+    it("Should deliver signals once their latency has passed", async () => {
+        session = new InMemoryLiveShareSession({ latency: 20 });
+        const client1 = await session.addClient();
+        const client2 = await session.addClient();
+        const received = recordSignals(client2);
+
+        client1.transport.submitSignal("test", 1);
+        assert.equal(received.length, 0);
+        assert.equal(session.pendingSignalCount, 1);
+
+        const done = new Deferred();
+        client2.transport.once("signal", () => done.resolve());
+        await done.promise;
+        assert.deepEqual(received, [1]);
+        assert.equal(session.pendingSignalCount, 0);
+    });
+
+    it("Should reorder and drop signals", async () => {
+        session = new InMemoryLiveShareSession({
+            latency: 1000,
+            jitter: 100,
+            random: sequence(0.9, 0.1),
+        });
+        const client1 = await session.addClient();
+        const client2 = await session.addClient();
+        const received = recordSignals(client2);
+
+        client1.transport.submitSignal("test", 1);
+        client1.transport.submitSignal("test", 2);
+        session.flush();
+        assert.deepEqual(received, [2, 1]);
+
+        session.jitter = 0;
+        session.dropRate = 0.5;
+        client1.transport.submitSignal("test", 3);
+        client1.transport.submitSignal("test", 4);
+        session.flush();
+        assert.deepEqual(received, [2, 1, 3]);
+    });
+
+    it("Should not deliver signals sent before a client reconnected", async () => {
+        session = new InMemoryLiveShareSession({ latency: 1000 });
+        const client1 = await session.addClient();
+        const client2 = await session.addClient({
+            roles: [UserMeetingRole.attendee],
+        });
+        const received = recordSignals(client2);
+        const clientId = client2.clientId!;
+
+        client1.transport.submitSignal("test", 1);
+        client2.disconnect();
+        client2.connect();
+        session.flush();
+        assert.deepEqual(received, []);
+        assert.notEqual(client2.clientId, clientId);
+        assert.deepEqual(client2.clientIds, [clientId, client2.clientId]);
+
+        // Clients keep their roles and userId when reconnecting
+        const info = await client1.runtime.getClientInfo(client2.clientId!);
+        assert.equal(info?.userId, clientId);
+        assert.deepEqual(info?.roles, [UserMeetingRole.attendee]);
+        assert.equal(
+            await client1.runtime.verifyRolesAllowed(clientId, [
+                UserMeetingRole.organizer,
+            ]),
+            false
+        );
+    });
+
+    it("Should skew the timestamps of a client", async () => {
+        session = new InMemoryLiveShareSession();
+        const client1 = await session.addClient();
+        const client2 = await session.addClient({ clockSkew: 60000 });
+
+        const skew =
+            client2.runtime.getTimestamp() - client1.runtime.getTimestamp();
+        assert(skew >= 59000 && skew <= 61000, `skew is ${skew}`);
+    });
+
+    it("Should converge LiveState for a client that reconnects", async () => {
+        session = new InMemoryLiveShareSession();
+        const client1 = await session.addClient();
+        const client2 = await session.addClient();
+        const [object1, object2] = await getLiveStates(getTestObjectProvider, [
+            client1,
+            client2,
+        ]);
+        await object1.initialize("initial");
+        await object2.initialize("initial");
+
+        client2.disconnect();
+        await object1.set("changed");
+        assert.equal(object2.state, "initial");
+
+        const done = new Deferred();
+        object2.on("stateChanged", (state) => {
+            if (state == "changed") {
+                done.resolve();
+            }
+        });
+        client2.connect();
+        await done.promise;
+
+        object1.dispose();
+        object2.dispose();
+    });
+});
@@ -0,0 +1,180 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { strict as assert } from "assert";
+import { requestFluidObject } from "@fluidframework/runtime-utils";
+import { ITestObjectProvider } from "@fluidframework/test-utils";
+import { describeNoCompat } from "@fluidframework/test-version-utils";
+import { LiveCounter } from "../LiveCounter";
+import { Deferred } from "../internals";
+import { getLiveDataObjectClass } from "../schema-injection-utils";
+import { MockLiveShareRuntime } from "./MockLiveShareRuntime";
+import { UserMeetingRole } from "../interfaces";
+import { InMemoryLiveShareSession } from "../InMemoryLiveShareSession";
+
+async function getObjects(getTestObjectProvider, updateInterval = 10000) {
+    let liveRuntime1 = new MockLiveShareRuntime(false, updateInterval);
+    let liveRuntime2 = new MockLiveShareRuntime(false, updateInterval);
+
+    let ObjectProxy1: any = getLiveDataObjectClass<LiveCounter>(
+        LiveCounter,
+        liveRuntime1
+    );
+    let ObjectProxy2: any = getLiveDataObjectClass<LiveCounter>(
+        LiveCounter,
+        liveRuntime2
+    );
+
+    await liveRuntime1.start();
+    await liveRuntime2.start();
+
+    let provider: ITestObjectProvider = getTestObjectProvider();
+
+    let container1 = await provider.createContainer(ObjectProxy1.factory);
+    let object1 = await requestFluidObject<LiveCounter>(container1, "default");
+
+    let container2 = await provider.loadContainer(ObjectProxy2.factory);
+    let object2 = await requestFluidObject<LiveCounter>(container2, "default");
+    // need to be connected to send signals
+    if (!container1.connect) {
+        await new Promise((resolve) => container1.once("connected", resolve));
+    }
+    if (!container2.connect) {
+        await new Promise((resolve) => container2.once("connected", resolve));
+    }
+    const dispose = () => {
+        object1.dispose();
+        object2.dispose();
+        container1.disconnect?.();
+        container2.disconnect?.();
+        liveRuntime1.stop();
+        liveRuntime2.stop();
+    };
+    return {
+        object1,
+        object2,
+        dispose,
+    };
+}
+
+function waitForValue(object: LiveCounter, expected: number) {
+    const done = new Deferred();
+    const check = () => {
+        if (object.value === expected) {
+            object.off("valueChanged", check);
+            done.resolve();
+        }
+    };
+    object.on("valueChanged", check);
+    check();
+    return done.promise;
+}
+
+describeNoCompat("LiveCounter", (getTestObjectProvider) => {
+    it("Should keep concurrent increments and decrements", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await Promise.all([object1.initialize(10), object2.initialize(10)]);
+        assert.equal(object2.value, 10);
+
+        await Promise.all([
+            object1.increment(),
+            object2.increment(),
+            object1.increment(2),
+            object2.decrement(),
+        ]);
+        await waitForValue(object1, 13);
+        await waitForValue(object2, 13);
+
+        dispose();
+    });
+
+    it("Should reset the counter for all clients", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await Promise.all([object1.initialize(), object2.initialize()]);
+
+        await object1.increment(5);
+        await waitForValue(object2, 5);
+
+        await object2.reset(2);
+        await waitForValue(object1, 2);
+
+        // Changes build on the reset value
+        await object1.increment();
+        await waitForValue(object2, 3);
+
+        dispose();
+    });
+
+    it("Should converge for clients that initialize after changes were made", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider,
+            100
+        );
+        await object1.initialize();
+        await object1.increment(3);
+        await object1.decrement();
+
+        await object2.initialize();
+        await waitForValue(object2, 2);
+
+        dispose();
+    });
+
+    it("Should only allow users with reset roles to reset", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await Promise.all([
+            object1.initialize(0, undefined, [UserMeetingRole.guest]),
+            object2.initialize(0, undefined, [UserMeetingRole.guest]),
+        ]);
+
+        await object1.increment();
+        await assert.rejects(object1.reset(), "reset should be rejected");
+        assert.equal(object1.value, 1);
+        await assert.rejects(object1.increment(0), "amount should be positive");
+
+        dispose();
+    });
+
+    it("Should only count the changes of a reconnected client once", async () => {
+        const session = new InMemoryLiveShareSession();
+        const client1 = await session.addClient();
+        const client2 = await session.addClient();
+        const provider: ITestObjectProvider = getTestObjectProvider();
+        const object1 = await requestFluidObject<LiveCounter>(
+            await provider.createContainer(
+                getLiveDataObjectClass(LiveCounter, client1.runtime).factory
+            ),
+            "default"
+        );
+        const object2 = await requestFluidObject<LiveCounter>(
+            await provider.loadContainer(
+                getLiveDataObjectClass(LiveCounter, client2.runtime).factory
+            ),
+            "default"
+        );
+        await Promise.all([object1.initialize(), object2.initialize()]);
+
+        await object1.increment(2);
+        await object2.increment();
+        await waitForValue(object2, 3);
+
+        // client1 reconnects with a new clientId, and keeps counting from its previous totals
+        client1.disconnect();
+        client1.connect();
+        await object1.increment();
+        await waitForValue(object2, 4);
+        assert.equal(object1.value, 4);
+
+        object1.dispose();
+        object2.dispose();
+        session.dispose();
+    });
+});
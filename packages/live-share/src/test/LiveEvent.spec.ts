@@ -6,9 +6,12 @@
 import { strict as assert } from "assert";
 import { requestFluidObject } from "@fluidframework/runtime-utils";
 import { ITestObjectProvider } from "@fluidframework/test-utils";
-import { describeNoCompat } from "@fluidframework/test-version-utils";
+import {
+    describeNoCompat,
+    itExpects,
+} from "@fluidframework/test-version-utils";
 import { LiveEvent } from "../LiveEvent";
-import { Deferred } from "../internals";
+import { Deferred, waitForDelay } from "../internals";
 import { MockTimestampProvider } from "./MockTimestampProvider";
 import { MockRoleVerifier } from "./MockRoleVerifier";
 import { LocalTimestampProvider } from "../LocalTimestampProvider";
@@ -112,6 +115,97 @@ describeNoCompat("LiveEvent", (getTestObjectProvider) => {
         await Promise.all([object1done.promise, object2done.promise]);
     });
 
+    it("Should only raise targeted events on targeted clients", async () => {
+        await object1.initialize();
+        const received: any[] = [];
+        const object2Id = new Deferred<string>();
+        object2.on("received", (evt, local, clientId, timestamp, target) => {
+            if (local) {
+                object2Id.resolve(clientId);
+                return;
+            }
+            received.push({ evt, target });
+        });
+        await object2.initialize();
+
+        // Get the clientId of object2 from one of its own events
+        await object2.send({ id: 0 });
+        const clientId = await object2Id.promise;
+        const userId = (await object2.getClientInfo(clientId))?.userId;
+
+        await object1.sendTo({ clientIds: ["other"] }, { id: 1 });
+        await object1.sendTo({ clientIds: [clientId] }, { id: 2 });
+        await object1.sendTo({ userIds: [userId!] }, { id: 3 });
+        await waitForDelay(50);
+
+        assert.deepEqual(
+            received.map((value) => value.evt.id),
+            [2, 3],
+            `Unexpected events ${JSON.stringify(received)}`
+        );
+        assert.deepEqual(received[0].target.clientIds, [clientId]);
+        assert.deepEqual(received[1].target.userIds, [userId]);
+    });
+
+    it("Should raise targeted and broadcast events in the order they were received", async () => {
+        await object1.initialize();
+        const received: number[] = [];
+        const object2Id = new Deferred<string>();
+        const done = new Deferred();
+        object2.on("received", (evt, local, clientId) => {
+            if (local) {
+                object2Id.resolve(clientId);
+                return;
+            }
+            received.push(evt.id);
+            if (received.length === 3) done.resolve();
+        });
+        await object2.initialize();
+
+        await object2.send({ id: 0 });
+        const clientId = await object2Id.promise;
+        const userId = (await object2.getClientInfo(clientId))?.userId;
+
+        object1.sendTo({ userIds: [userId!] }, { id: 1 });
+        object1.send({ id: 2 });
+        object1.sendTo({ clientIds: [clientId] }, { id: 3 });
+        await done.promise;
+
+        assert.deepEqual(received, [1, 2, 3]);
+    });
+
+    itExpects(
+        "Should reject received events using a validator",
+        [
+            {
+                eventName:
+                    "fluid:telemetry:FluidDataStoreRuntime:LiveEvent:InvalidEvent",
+            },
+        ],
+        async () => {
+            await object1.initialize();
+            const received: any[] = [];
+            object2.on("received", (evt, local) => {
+                if (!local) received.push(evt);
+            });
+            const invalid = new Deferred<any>();
+            object2.on("invalidEvent", (evt) => invalid.resolve(evt));
+            await object2.initialize(undefined, {
+                type: "object",
+                required: ["value"],
+                properties: { value: { type: "number" } },
+            });
+
+            await object1.send({ value: "1" });
+            assert.deepEqual(await invalid.promise, { value: "1" });
+            const valid = new Deferred();
+            object2.on("received", () => valid.resolve());
+            await object1.send({ value: 1 });
+            await valid.promise;
+            assert.deepEqual(received, [{ value: 1 }]);
+        }
+    );
+
     it("Should throw error if already started", async () => {
         await object1.initialize();
         try {
@@ -12,6 +12,8 @@ import { MockTimestampProvider } from "./MockTimestampProvider";
 import { LocalTimestampProvider } from "../LocalTimestampProvider";
 import { TestLiveShareHost } from "../TestLiveShareHost";
 import { LiveShareRuntime } from "../LiveShareRuntime";
+import { LivePermissionDeniedError } from "../errors";
+import { Deferred, waitForDelay } from "../internals";
 
 function createConnectedSignalers() {
     const localRuntime = new MockRuntimeSignaler();
@@ -252,4 +254,54 @@ describe("LiveEventScope", () => {
         assert(provider.called, `provider not called`);
         assert(triggered == 2, `triggered == ${triggered}`);
     });
+
+    it("Should deny events using permission predicates", async () => {
+        const signalers = createConnectedSignalers();
+        const localScope = new LiveEventScope(
+            Object.assign(signalers.localRuntime, { id: "object1" }),
+            localLiveRuntime
+        );
+        const remoteScope = new LiveEventScope(
+            Object.assign(signalers.remoteRuntime, { id: "object1" }),
+            remoteLiveRuntime
+        );
+        const received: any[] = [];
+        remoteScope.onEvent<{ value: number }>("test", (evt) => {
+            received.push(evt.data.value);
+        });
+        const remoteDenied = new Deferred<LivePermissionDeniedError>();
+        remoteScope.on("permissionDenied", (error) => {
+            remoteDenied.resolve(error);
+        });
+
+        // Receiving client only accepts even values
+        remoteLiveRuntime.setPermission(
+            "object1",
+            "test",
+            ({ data, local }) => !local && data.value % 2 == 0
+        );
+        await localScope.sendEvent("test", { value: 1 });
+        await localScope.sendEvent("test", { value: 2 });
+        const error = await remoteDenied.promise;
+        await waitForDelay(10);
+        assert.deepEqual(received, [2]);
+        assert.equal(error.objectId, "object1");
+        assert.equal(error.operation, "test");
+        assert.equal(error.clientId, signalers.localRuntime.clientId);
+        assert.equal(error.local, false);
+
+        // Sending client is denied before sending
+        let localDenied = 0;
+        localScope.on("permissionDenied", () => localDenied++);
+        localLiveRuntime.setPermission("object1", "test", () => false);
+        await assert.rejects(
+            localScope.sendEvent("test", { value: 4 }),
+            LivePermissionDeniedError
+        );
+        assert.equal(localDenied, 1);
+        localLiveRuntime.removePermission("object1", "test");
+        await localScope.sendEvent("test", { value: 6 });
+        await waitForDelay(10);
+        assert.deepEqual(received, [2, 6]);
+    });
 });
@@ -17,6 +17,7 @@ import { Deferred, waitForDelay } from "../internals";
 import { getLiveDataObjectClass } from "../schema-injection-utils";
 import { MockLiveShareRuntime } from "./MockLiveShareRuntime";
 import { LivePresenceUser } from "../LivePresenceUser";
+import { LivePermissionDeniedError } from "../errors";
 
 interface TestFollowData {
     page: string;
@@ -367,6 +368,44 @@ describeNoCompat("LiveFollowMode", (getTestObjectProvider) => {
         dispose();
     });
 
+    it("Should not allow a denied user to present", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await Promise.all([
+            object1.initialize({ page: "bananas" }),
+            object2.initialize({ page: "apples" }),
+        ]);
+        const deniedUserId = object1.localUser.userId;
+        const canPresent = ({ clientInfo }) =>
+            clientInfo?.userId !== deniedUserId;
+        object1.setPermission("startPresenting", canPresent);
+        object2.setPermission("startPresenting", canPresent);
+
+        // Local changes are denied before being sent
+        await assert.rejects(
+            object1.startPresenting(),
+            LivePermissionDeniedError
+        );
+        assert.equal(object1.state.type, FollowModeType.local);
+
+        // Remote changes are ignored by clients that deny them
+        object1.removePermission("startPresenting");
+        const denied = new Deferred<LivePermissionDeniedError>();
+        object2.on("permissionDenied", (error) => denied.resolve(error));
+        await object1.startPresenting();
+        const error = await denied.promise;
+        assert.equal(error.operation, "startPresenting");
+        assert.equal(error.objectId, object2.id);
+        assert.equal(error.local, false);
+        assert.equal(object2.state.type, FollowModeType.local);
+
+        // Users that aren't denied can still present
+        await validateStartPresenting(object2, object1);
+
+        dispose();
+    });
+
     it("Should be able to start/stop suspension from presenter", async () => {
         const { object1, object2, dispose } = await getObjects(
             getTestObjectProvider
@@ -479,6 +518,123 @@ describeNoCompat("LiveFollowMode", (getTestObjectProvider) => {
 
         dispose();
     });
+
+    it("Should interpolate values received from the presenter", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        const presenter = object1 as unknown as LiveFollowMode<{ x: number }>;
+        const follower = object2 as unknown as LiveFollowMode<{ x: number }>;
+        await Promise.all([
+            presenter.initialize({ x: 0 }),
+            follower.initialize({ x: 0 }),
+        ]);
+        await presenter.startPresenting();
+        await waitForDelay(10);
+        follower.startInterpolation({ duration: 100 });
+        assert(
+            follower.state?.type === FollowModeType.followPresenter,
+            "follower: should be following the presenter"
+        );
+
+        const values: number[] = [];
+        const done = new Deferred();
+        follower.on("interpolatedValueChanged", (value) => {
+            values.push(value.x);
+            if (value.x === 100) {
+                done.resolve();
+            }
+        });
+        await presenter.update({ x: 100 });
+        await done.promise;
+        assert(
+            values.length > 1,
+            `follower: should emit intermediate values, instead emitted ${values}`
+        );
+        assert(
+            values.every((x, i) => x > 0 && (i === 0 || x >= values[i - 1])),
+            `follower: values should increase towards 100, instead are ${values}`
+        );
+        assert(
+            follower.interpolatedValue?.x === 100,
+            "follower: interpolatedValue should end at the received value"
+        );
+
+        dispose();
+    });
+
+    it("Should hand off presenting to approved users in queue order", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await Promise.all([
+            object1.initialize({ page: "bananas" }),
+            object2.initialize({ page: "apples" }),
+        ]);
+        await object1.startPresenting();
+        const user2Id = object2.localUser!.userId;
+
+        // object2 requests to present while object1 is presenting
+        const requestReceived = new Deferred();
+        object1.on("presenceChanged", (user) => {
+            if (user.userId === user2Id && user.data?.requestedToPresent) {
+                requestReceived.resolve();
+            }
+        });
+        await object2.requestToPresent();
+        await requestReceived.promise;
+        assert(
+            object2.state?.type === FollowModeType.requestedToPresent,
+            `object2: state should be type of requestedToPresent, instead is ${object2.state?.type}`
+        );
+        assert(
+            object1.getPresentRequests().length === 1,
+            "object1: should have one request to present"
+        );
+
+        // object1 approves the request, which queues object2
+        const queued = new Deferred();
+        object2.on("stateChanged", (state) => {
+            if (state.type === FollowModeType.waitingInQueue) {
+                queued.resolve();
+            }
+        });
+        await object1.approvePresenter(user2Id);
+        await queued.promise;
+        assert(
+            object2.state?.queuePosition === 0,
+            `object2: queuePosition should be 0, instead is ${object2.state?.queuePosition}`
+        );
+        assert(
+            object1.getPresentRequests().length === 0,
+            "object1: approved request should not be pending"
+        );
+
+        // object1 stops presenting and hands off to object2
+        const handedOff = new Deferred();
+        object2.on("stateChanged", (state) => {
+            if (state.type === FollowModeType.activePresenter) {
+                handedOff.resolve();
+            }
+        });
+        await object1.stopPresenting();
+        await handedOff.promise;
+        assert(
+            object1.state?.followingUserId === user2Id,
+            "object1: object2 should be presenting"
+        );
+        assert(
+            object2.presenterQueue.length === 0,
+            "object2: presenter queue should be empty"
+        );
+        await waitForDelay(10);
+        assert(
+            !object2.localUser?.data?.requestedToPresent,
+            "object2: request to present should be cleared once presenting"
+        );
+
+        dispose();
+    });
 });
 
 async function validateStartPresenting(
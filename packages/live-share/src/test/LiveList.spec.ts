@@ -0,0 +1,260 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { strict as assert } from "assert";
+import { requestFluidObject } from "@fluidframework/runtime-utils";
+import { ITestObjectProvider } from "@fluidframework/test-utils";
+import { describeNoCompat } from "@fluidframework/test-version-utils";
+import { LiveList } from "../LiveList";
+import { Deferred } from "../internals";
+import { getLiveDataObjectClass } from "../schema-injection-utils";
+import { MockLiveShareRuntime } from "./MockLiveShareRuntime";
+import { InMemoryLiveShareSession } from "../InMemoryLiveShareSession";
+
+async function getObjects(getTestObjectProvider, updateInterval = 10000) {
+    let liveRuntime1 = new MockLiveShareRuntime(false, updateInterval);
+    let liveRuntime2 = new MockLiveShareRuntime(false, updateInterval);
+
+    let ObjectProxy1: any = getLiveDataObjectClass<LiveList<string>>(
+        LiveList,
+        liveRuntime1
+    );
+    let ObjectProxy2: any = getLiveDataObjectClass<LiveList<string>>(
+        LiveList,
+        liveRuntime2
+    );
+
+    await liveRuntime1.start();
+    await liveRuntime2.start();
+
+    let provider: ITestObjectProvider = getTestObjectProvider();
+
+    let container1 = await provider.createContainer(ObjectProxy1.factory);
+    let object1 = await requestFluidObject<LiveList<string>>(
+        container1,
+        "default"
+    );
+
+    let container2 = await provider.loadContainer(ObjectProxy2.factory);
+    let object2 = await requestFluidObject<LiveList<string>>(
+        container2,
+        "default"
+    );
+    // need to be connected to send signals
+    if (!container1.connect) {
+        await new Promise((resolve) => container1.once("connected", resolve));
+    }
+    if (!container2.connect) {
+        await new Promise((resolve) => container2.once("connected", resolve));
+    }
+    const dispose = () => {
+        object1.dispose();
+        object2.dispose();
+        container1.disconnect?.();
+        container2.disconnect?.();
+        liveRuntime1.stop();
+        liveRuntime2.stop();
+    };
+    return {
+        object1,
+        object2,
+        dispose,
+    };
+}
+
+function waitForItems(
+    object: LiveList<string>,
+    expected: string[] | ((items: string[]) => boolean)
+) {
+    const done = new Deferred();
+    const check = () => {
+        if (
+            typeof expected == "function"
+                ? expected(object.items)
+                : JSON.stringify(object.items) === JSON.stringify(expected)
+        ) {
+            object.off("listChanged", check);
+            done.resolve();
+        }
+    };
+    object.on("listChanged", check);
+    check();
+    return done.promise;
+}
+
+describeNoCompat("LiveList", (getTestObjectProvider) => {
+    it("Should insert(), remove(), and move() items for all clients", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await Promise.all([
+            object1.initialize(["a", "b"]),
+            object2.initialize(["a", "b"]),
+        ]);
+        assert.deepEqual(object2.items, ["a", "b"]);
+
+        await object1.push("c");
+        await object1.insert(0, "z");
+        await waitForItems(object2, ["z", "a", "b", "c"]);
+
+        await object2.move(0, 3);
+        await waitForItems(object1, ["a", "b", "c", "z"]);
+
+        await object1.remove(1);
+        await waitForItems(object2, ["a", "c", "z"]);
+        assert.equal(object2.length, 3);
+        assert.equal(object2.get(2), "z");
+
+        dispose();
+    });
+
+    it("Should keep order when repeatedly inserting at the same index", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await Promise.all([object1.initialize(), object2.initialize()]);
+
+        const expected: string[] = [];
+        for (let i = 0; i < 50; i++) {
+            await object1.insert(Math.min(1, i), `${i}`);
+            expected.splice(Math.min(1, i), 0, `${i}`);
+        }
+        assert.deepEqual(object1.items, expected);
+        await waitForItems(object2, expected);
+
+        dispose();
+    });
+
+    it("Should converge when items are changed concurrently", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await Promise.all([
+            object1.initialize(["a", "b", "c"]),
+            object2.initialize(["a", "b", "c"]),
+        ]);
+
+        // Removing an item wins over a concurrent move of that item
+        await Promise.all([
+            object1.insert(1, "x"),
+            object2.insert(1, "y"),
+            object1.move(0, 2),
+            object2.remove(0),
+        ]);
+
+        // Both inserts are kept, but their relative order depends on their ids
+        const converged = (items: string[]) =>
+            items.length == 4 &&
+            items.slice(0, 2).sort().join() == "x,y" &&
+            items.slice(2).join() == "b,c";
+        await waitForItems(object1, converged);
+        await waitForItems(object2, converged);
+        assert.deepEqual(object1.items, object2.items);
+
+        dispose();
+    });
+
+    it("Should converge for clients that initialize after changes were made", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider,
+            100
+        );
+        await object1.initialize();
+        await object1.push("a");
+        await object1.push("b");
+        await object1.insert(0, "c");
+
+        // Only the last change is cached for object2, the rest is received with object1's background update
+        await object2.initialize();
+        await waitForItems(object2, ["c", "a", "b"]);
+
+        dispose();
+    });
+
+    it("Should only keep the most recent removed items, without their values", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        object1.maxRemovedItems = 2;
+        await Promise.all([
+            object1.initialize(["a"]),
+            object2.initialize(["a"]),
+        ]);
+
+        for (const value of ["x", "y", "z"]) {
+            await object1.push(value);
+        }
+        for (let i = 0; i < 4; i++) {
+            await object1.remove(0);
+        }
+        await waitForItems(object2, []);
+
+        // Removed initial items are kept in addition to the most recent removed items
+        const removed = [...(object1 as any)._items.values()];
+        assert.equal(removed.length, 3);
+        assert(removed.some((item) => item.id == "initial:0"));
+        removed.forEach((item) => {
+            assert.equal(item.deleted, true);
+            assert.equal(item.value, undefined);
+        });
+
+        dispose();
+    });
+
+    it("Should queue changes made while disconnected", async () => {
+        const session = new InMemoryLiveShareSession();
+        const client1 = await session.addClient();
+        const client2 = await session.addClient();
+        client1.runtime.queueChangesWhileDisconnected = true;
+        const provider: ITestObjectProvider = getTestObjectProvider();
+        const object1 = await requestFluidObject<LiveList<string>>(
+            await provider.createContainer(
+                getLiveDataObjectClass(LiveList, client1.runtime).factory
+            ),
+            "default"
+        );
+        const object2 = await requestFluidObject<LiveList<string>>(
+            await provider.loadContainer(
+                getLiveDataObjectClass(LiveList, client2.runtime).factory
+            ),
+            "default"
+        );
+        await Promise.all([
+            object1.initialize(["a"]),
+            object2.initialize(["a"]),
+        ]);
+
+        // Changes don't wait for the connection to be restored
+        client1.disconnect();
+        await object1.push("b");
+        await object1.remove(0);
+        assert.deepEqual(object1.items, ["b"]);
+        assert.equal(client1.runtime.pendingChanges, 2);
+
+        client1.connect();
+        await waitForItems(object2, ["b"]);
+        assert.equal(client1.runtime.pendingChanges, 0);
+
+        object1.dispose();
+        object2.dispose();
+        session.dispose();
+    });
+
+    it("Should throw when index is out of range", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await Promise.all([
+            object1.initialize(["a"]),
+            object2.initialize(["a"]),
+        ]);
+
+        await assert.rejects(object1.insert(2, "b"));
+        await assert.rejects(object1.remove(1));
+        await assert.rejects(object1.move(0, 1));
+
+        dispose();
+    });
+});
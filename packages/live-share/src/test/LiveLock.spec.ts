@@ -0,0 +1,182 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { strict as assert } from "assert";
+import { requestFluidObject } from "@fluidframework/runtime-utils";
+import { ITestObjectProvider } from "@fluidframework/test-utils";
+import { describeNoCompat } from "@fluidframework/test-version-utils";
+import { LiveLock } from "../LiveLock";
+import { Deferred, waitForDelay } from "../internals";
+import { getLiveDataObjectClass } from "../schema-injection-utils";
+import { MockLiveShareRuntime } from "./MockLiveShareRuntime";
+import { UserMeetingRole } from "../interfaces";
+
+async function getObjects(getTestObjectProvider) {
+    let liveRuntime1 = new MockLiveShareRuntime(false);
+    let liveRuntime2 = new MockLiveShareRuntime(false);
+
+    let ObjectProxy1: any = getLiveDataObjectClass<LiveLock>(
+        LiveLock,
+        liveRuntime1
+    );
+    let ObjectProxy2: any = getLiveDataObjectClass<LiveLock>(
+        LiveLock,
+        liveRuntime2
+    );
+
+    await liveRuntime1.start();
+    await liveRuntime2.start();
+
+    let provider: ITestObjectProvider = getTestObjectProvider();
+
+    let container1 = await provider.createContainer(ObjectProxy1.factory);
+    let object1 = await requestFluidObject<LiveLock>(container1, "default");
+
+    let container2 = await provider.loadContainer(ObjectProxy2.factory);
+    let object2 = await requestFluidObject<LiveLock>(container2, "default");
+    // need to be connected to send signals
+    if (!container1.connect) {
+        await new Promise((resolve) => container1.once("connected", resolve));
+    }
+    if (!container2.connect) {
+        await new Promise((resolve) => container2.once("connected", resolve));
+    }
+    const dispose = () => {
+        object1.dispose();
+        object2.dispose();
+        container1.disconnect?.();
+        container2.disconnect?.();
+        liveRuntime1.stop();
+        liveRuntime2.stop();
+    };
+    return {
+        object1,
+        object2,
+        dispose,
+    };
+}
+
+function waitForHolder(object: LiveLock, clientId: string | undefined) {
+    const done = new Deferred();
+    const check = () => {
+        if (object.holder?.clientId === clientId) {
+            object.off("lockChanged", check);
+            done.resolve();
+        }
+    };
+    object.on("lockChanged", check);
+    check();
+    return done.promise;
+}
+
+describeNoCompat("LiveLock", (getTestObjectProvider) => {
+    it("Should acquire and release the lock", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await Promise.all([object1.initialize(), object2.initialize()]);
+        assert.equal(object1.isLocked, false);
+
+        assert.equal(await object1.acquire(), true);
+        assert.equal(object1.isHeldLocally, true);
+        const clientId = object1.holder!.clientId;
+        await waitForHolder(object2, clientId);
+        assert.equal(object2.holder?.isLocal, false);
+        assert.equal(await object2.acquire(), false);
+
+        await object1.release();
+        await waitForHolder(object2, undefined);
+        assert.equal(await object2.acquire(), true);
+        await waitForHolder(object1, object2.holder!.clientId);
+
+        dispose();
+    });
+
+    it("Should agree on the holder when acquired at the same time", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await Promise.all([object1.initialize(), object2.initialize()]);
+
+        await Promise.all([object1.acquire(), object2.acquire()]);
+        const done = new Deferred();
+        const check = () => {
+            if (
+                object1.holder &&
+                object1.holder.clientId === object2.holder?.clientId
+            ) {
+                done.resolve();
+            }
+        };
+        object1.on("lockChanged", check);
+        object2.on("lockChanged", check);
+        check();
+        await done.promise;
+        assert.notEqual(object1.isHeldLocally, object2.isHeldLocally);
+        // Let the other client withdraw its claim
+        await waitForDelay(20);
+
+        dispose();
+    });
+
+    it("Should release the lock once the lease expires", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await Promise.all([object1.initialize(), object2.initialize()]);
+        object1.leaseDuration = 50;
+        object1.autoRenew = false;
+
+        await object1.acquire();
+        await waitForHolder(object2, object1.holder!.clientId);
+        await Promise.all([
+            waitForHolder(object1, undefined),
+            waitForHolder(object2, undefined),
+        ]);
+        assert.equal(object1.isLocked, false);
+        // Let the expired client withdraw its claim
+        await waitForDelay(20);
+
+        dispose();
+    });
+
+    it("Should only allow force release for allowed roles", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await Promise.all([
+            object1.initialize(undefined, [UserMeetingRole.guest]),
+            object2.initialize(undefined, [UserMeetingRole.guest]),
+        ]);
+        await object1.acquire();
+        await waitForHolder(object2, object1.holder!.clientId);
+        await assert.rejects(
+            object2.forceRelease(),
+            "force release should be rejected"
+        );
+        assert.equal(object1.isHeldLocally, true);
+
+        dispose();
+    });
+
+    it("Should force release the lock", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await Promise.all([object1.initialize(), object2.initialize()]);
+        await object1.acquire();
+        await waitForHolder(object2, object1.holder!.clientId);
+
+        await object2.forceRelease();
+        assert.equal(object2.isLocked, false);
+        await waitForHolder(object1, undefined);
+
+        // The released client no longer claims the lock
+        assert.equal(await object2.acquire(), true);
+        await waitForHolder(object1, object2.holder!.clientId);
+
+        dispose();
+    });
+});
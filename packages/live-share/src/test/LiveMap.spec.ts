@@ -0,0 +1,268 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { strict as assert } from "assert";
+import { requestFluidObject } from "@fluidframework/runtime-utils";
+import { ITestObjectProvider } from "@fluidframework/test-utils";
+import { describeNoCompat } from "@fluidframework/test-version-utils";
+import { LiveMap } from "../LiveMap";
+import { Deferred } from "../internals";
+import { getLiveDataObjectClass } from "../schema-injection-utils";
+import { MockLiveShareRuntime } from "./MockLiveShareRuntime";
+import { InMemoryLiveShareSession } from "../InMemoryLiveShareSession";
+
+async function getObjects(getTestObjectProvider, updateInterval = 10000) {
+    let liveRuntime1 = new MockLiveShareRuntime(false, updateInterval);
+    let liveRuntime2 = new MockLiveShareRuntime(false, updateInterval);
+
+    let ObjectProxy1: any = getLiveDataObjectClass<LiveMap<string, number>>(
+        LiveMap,
+        liveRuntime1
+    );
+    let ObjectProxy2: any = getLiveDataObjectClass<LiveMap<string, number>>(
+        LiveMap,
+        liveRuntime2
+    );
+
+    await liveRuntime1.start();
+    await liveRuntime2.start();
+
+    let provider: ITestObjectProvider = getTestObjectProvider();
+
+    let container1 = await provider.createContainer(ObjectProxy1.factory);
+    let object1 = await requestFluidObject<LiveMap<string, number>>(
+        container1,
+        "default"
+    );
+
+    let container2 = await provider.loadContainer(ObjectProxy2.factory);
+    let object2 = await requestFluidObject<LiveMap<string, number>>(
+        container2,
+        "default"
+    );
+    // need to be connected to send signals
+    if (!container1.connect) {
+        await new Promise((resolve) => container1.once("connected", resolve));
+    }
+    if (!container2.connect) {
+        await new Promise((resolve) => container2.once("connected", resolve));
+    }
+    const dispose = () => {
+        object1.dispose();
+        object2.dispose();
+        container1.disconnect?.();
+        container2.disconnect?.();
+        liveRuntime1.stop();
+        liveRuntime2.stop();
+    };
+    return {
+        object1,
+        object2,
+        dispose,
+    };
+}
+
+function waitForEntries(
+    object: LiveMap<string, number>,
+    expected: [string, number][]
+) {
+    const done = new Deferred();
+    const check = () => {
+        const entries = object
+            .entries()
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        if (JSON.stringify(entries) === JSON.stringify(expected)) {
+            object.off("valueChanged", check);
+            done.resolve();
+        }
+    };
+    object.on("valueChanged", check);
+    check();
+    return done.promise;
+}
+
+describeNoCompat("LiveMap", (getTestObjectProvider) => {
+    it("Should set() and delete() keys for all clients", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await Promise.all([
+            object1.initialize([["a", 1]]),
+            object2.initialize([["a", 1]]),
+        ]);
+        assert.equal(object2.get("a"), 1);
+
+        const changes: [string, number | undefined, boolean][] = [];
+        object2.on("valueChanged", (key, value, local) => {
+            changes.push([key, value, local]);
+        });
+        await object1.set("b", 2);
+        await object2.set("c", 3);
+        await waitForEntries(object1, [
+            ["a", 1],
+            ["b", 2],
+            ["c", 3],
+        ]);
+
+        await object1.delete("a");
+        await waitForEntries(object2, [
+            ["b", 2],
+            ["c", 3],
+        ]);
+        assert.equal(object2.has("a"), false);
+        assert.equal(object2.size, 2);
+        assert.deepEqual(changes, [
+            ["b", 2, false],
+            ["c", 3, true],
+            ["a", undefined, false],
+        ]);
+
+        dispose();
+    });
+
+    it("Should converge when the same key is changed concurrently", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await Promise.all([object1.initialize(), object2.initialize()]);
+
+        await Promise.all([
+            object1.set("a", 1),
+            object2.set("a", 2),
+            object1.set("b", 1),
+        ]);
+        await waitForEntries(object1, [
+            ["a", object2.get("a")!],
+            ["b", 1],
+        ]);
+        await waitForEntries(object2, [
+            ["a", object1.get("a")!],
+            ["b", 1],
+        ]);
+        assert.equal(object1.get("a"), object2.get("a"));
+
+        dispose();
+    });
+
+    it("Should converge for clients that initialize after changes were made", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider,
+            100
+        );
+        await object1.initialize([["a", 1]]);
+        await object1.set("b", 2);
+        await object1.set("c", 3);
+        await object1.delete("a");
+
+        // Only the last change is cached for object2, the rest is received with object1's background update
+        await object2.initialize([["a", 1]]);
+        await waitForEntries(object2, [
+            ["b", 2],
+            ["c", 3],
+        ]);
+
+        dispose();
+    });
+
+    it("Should coalesce changes made while disconnected", async () => {
+        const session = new InMemoryLiveShareSession();
+        const client1 = await session.addClient();
+        const client2 = await session.addClient();
+        client1.runtime.queueChangesWhileDisconnected = true;
+        const provider: ITestObjectProvider = getTestObjectProvider();
+        const object1 = await requestFluidObject<LiveMap<string, number>>(
+            await provider.createContainer(
+                getLiveDataObjectClass(LiveMap, client1.runtime).factory
+            ),
+            "default"
+        );
+        const object2 = await requestFluidObject<LiveMap<string, number>>(
+            await provider.loadContainer(
+                getLiveDataObjectClass(LiveMap, client2.runtime).factory
+            ),
+            "default"
+        );
+        await Promise.all([
+            object1.initialize([["a", 1]]),
+            object2.initialize([["a", 1]]),
+        ]);
+
+        // Changes don't wait for the connection to be restored, and are combined into a single change
+        client1.disconnect();
+        await object1.set("b", 2);
+        await object1.set("b", 3);
+        await object1.delete("a");
+        assert.deepEqual(object1.entries(), [["b", 3]]);
+        assert.equal(client1.runtime.pendingChanges, 3);
+
+        // object2 receives the latest change of each key, without the value that was overwritten
+        const changes: [string, number | undefined][] = [];
+        object2.on("valueChanged", (key, value) => changes.push([key, value]));
+        client1.connect();
+        await waitForEntries(object2, [["b", 3]]);
+        assert.deepEqual(changes.sort(), [
+            ["a", undefined],
+            ["b", 3],
+        ]);
+        assert.equal(client1.runtime.pendingChanges, 0);
+
+        object1.dispose();
+        object2.dispose();
+        session.dispose();
+    });
+
+    it("Should only keep the most recent deleted keys, without their values", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        object1.maxDeletedKeys = 2;
+        await Promise.all([
+            object1.initialize([["a", 1]]),
+            object2.initialize([["a", 1]]),
+        ]);
+
+        for (const key of ["x", "y", "z"]) {
+            await object1.set(key, 1);
+        }
+        for (const key of ["a", "x", "y", "z"]) {
+            await object1.delete(key);
+        }
+        await waitForEntries(object2, []);
+
+        // Deleted initial keys are kept in addition to the most recent deleted keys
+        const deleted = [...(object1 as any)._entries.values()];
+        assert.deepEqual(deleted.map((entry) => entry.key).sort(), [
+            "a",
+            "y",
+            "z",
+        ]);
+        deleted.forEach((entry) => {
+            assert.equal(entry.deleted, true);
+            assert.equal(entry.data, undefined);
+        });
+
+        dispose();
+    });
+
+    it("Should not emit valueChanged for deleted keys that weren't in the map", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider,
+            100
+        );
+        await object1.initialize();
+        await object1.set("a", 1);
+        await object1.delete("a");
+
+        // object2 receives the deleted key with object1's background update
+        const changedKeys: string[] = [];
+        object2.on("valueChanged", (key) => changedKeys.push(key));
+        await object2.initialize();
+        await object1.set("b", 2);
+        await waitForEntries(object2, [["b", 2]]);
+        assert.deepEqual(changedKeys, ["b"]);
+
+        dispose();
+    });
+});
@@ -8,11 +8,72 @@ import { LiveObjectSynchronizer } from "../LiveObjectSynchronizer";
 import { MockRuntimeSignaler } from "./MockRuntimeSignaler";
 import { Deferred, waitForDelay } from "../internals";
 import { MockLiveShareRuntime } from "./MockLiveShareRuntime";
+import { MockContainerRuntimeSignaler } from "./MockContainerRuntimeSignaler";
+import { BackgroundUpdateMode, ILiveEvent } from "../interfaces";
+import { InMemoryLiveShareSession } from "../InMemoryLiveShareSession";
 
 interface ITestState {
     client: "local" | "remote";
 }
 
+interface IQueuedTestState {
+    value: number;
+}
+
+interface ILargeTestState {
+    text: string;
+}
+
+async function sendLargeEvent(compress: boolean) {
+    const localLiveRuntime = new MockLiveShareRuntime(true, 10000);
+    const remoteLiveRuntime = new MockLiveShareRuntime(true, 10000);
+    localLiveRuntime.connectToOtherRuntime(remoteLiveRuntime);
+    localLiveRuntime.maxSignalSize = 1000;
+    localLiveRuntime.compressLargeSignals = compress;
+    await localLiveRuntime.start();
+    await remoteLiveRuntime.start();
+
+    const text = `"large" value `.repeat(500);
+    const done = new Deferred();
+    const localObject = new LiveObjectSynchronizer<ILargeTestState>(
+        "test",
+        new MockRuntimeSignaler(),
+        localLiveRuntime
+    );
+    await localObject.start(
+        { text: "" },
+        () => Promise.resolve(false),
+        () => Promise.resolve(true)
+    );
+    const remoteObject = new LiveObjectSynchronizer<ILargeTestState>(
+        "test",
+        new MockRuntimeSignaler(),
+        remoteLiveRuntime
+    );
+    await remoteObject.start(
+        { text: "" },
+        async (state) => {
+            if (state.data.text == text) {
+                done.resolve();
+            }
+            return false;
+        },
+        () => Promise.resolve(true)
+    );
+
+    await localObject.sendEvent<ILargeTestState>({ text });
+    await done.promise;
+
+    const chunks = (
+        localLiveRuntime.getLocalContainer() as MockContainerRuntimeSignaler
+    ).getSentSignals("chunk");
+    localObject.dispose();
+    remoteObject.dispose();
+    localLiveRuntime.stop();
+    remoteLiveRuntime.stop();
+    return chunks;
+}
+
 describe("LiveObjectSynchronizer", () => {
     it("Should send connecting state", async () => {
         const localLiveRuntime = new MockLiveShareRuntime(true, 20);
@@ -338,4 +399,216 @@ describe("LiveObjectSynchronizer", () => {
         localLiveRuntime.stop();
         remoteLiveRuntime.stop();
     });
+
+    it("Should split large events into chunks", async () => {
+        const chunks = await sendLargeEvent(false);
+        assert(chunks.length > 1, `sent ${chunks.length} chunks`);
+        chunks.forEach((chunk) => {
+            assert(
+                JSON.stringify(chunk.content).length <= 1000,
+                "chunk is larger than maxSignalSize"
+            );
+            assert(!chunk.content.compressed, "chunk should not be compressed");
+        });
+    });
+
+    it("Should compress large events", async () => {
+        const chunks = await sendLargeEvent(true);
+        assert(chunks.length > 0, `sent ${chunks.length} chunks`);
+        assert(chunks[0].content.compressed, "chunk should be compressed");
+    });
+
+    it("Should request the full state when a digest differs", async () => {
+        const localLiveRuntime = new MockLiveShareRuntime(true, 20);
+        const remoteLiveRuntime = new MockLiveShareRuntime(true, 20);
+        localLiveRuntime.connectToOtherRuntime(remoteLiveRuntime);
+        localLiveRuntime.backgroundUpdateMode = BackgroundUpdateMode.digest;
+        remoteLiveRuntime.backgroundUpdateMode = BackgroundUpdateMode.digest;
+        await localLiveRuntime.start();
+        await remoteLiveRuntime.start();
+
+        const localContainer =
+            localLiveRuntime.getLocalContainer() as MockContainerRuntimeSignaler;
+        const remoteContainer =
+            remoteLiveRuntime.getLocalContainer() as MockContainerRuntimeSignaler;
+        // Requests are addressed to the clientId that sent the digest, which is shared by both runtimes in Fluid
+        const localRuntime = new MockRuntimeSignaler();
+        localRuntime.clientId = localContainer.clientId;
+        const localObject = new LiveObjectSynchronizer<ILargeTestState>(
+            "test",
+            localRuntime,
+            localLiveRuntime
+        );
+        await localObject.start(
+            { text: "initial" },
+            () => Promise.resolve(false),
+            () => Promise.resolve(true)
+        );
+
+        const connected = new Deferred();
+        const done = new Deferred();
+        const remoteObject = new LiveObjectSynchronizer<ILargeTestState>(
+            "test",
+            new MockRuntimeSignaler(),
+            remoteLiveRuntime
+        );
+        await remoteObject.start(
+            { text: "initial" },
+            async (state, sender, local) => {
+                if (local) return false;
+                if (state.data.text == "initial") {
+                    connected.resolve();
+                } else if (state.data.text == "changed") {
+                    done.resolve();
+                }
+                return false;
+            },
+            () => Promise.resolve(true)
+        );
+
+        // Change the local state without sending it, so it's only received through a digest
+        // - Wait for the response to the remote's "connect" message to be sent first
+        await connected.promise;
+        await waitForDelay(50);
+        await localObject.updateLocalState({ text: "changed" });
+        await done.promise;
+
+        assert(
+            localContainer.getSentSignals("digest").length > 0,
+            "local should send digests"
+        );
+        assert(
+            remoteContainer.getSentSignals("requestUpdates").length > 0,
+            "remote should request updates"
+        );
+        localObject.dispose();
+        remoteObject.dispose();
+        localLiveRuntime.stop();
+        remoteLiveRuntime.stop();
+    });
+
+    it("Should update timestamps from digests without requesting the full state", async () => {
+        const localLiveRuntime = new MockLiveShareRuntime(true, 20);
+        const remoteLiveRuntime = new MockLiveShareRuntime(true, 20);
+        localLiveRuntime.connectToOtherRuntime(remoteLiveRuntime);
+        localLiveRuntime.backgroundUpdateMode = BackgroundUpdateMode.digest;
+        remoteLiveRuntime.backgroundUpdateMode = BackgroundUpdateMode.digest;
+        await localLiveRuntime.start();
+        await remoteLiveRuntime.start();
+
+        const localObject = new LiveObjectSynchronizer<ITestState>(
+            "test",
+            new MockRuntimeSignaler(),
+            localLiveRuntime
+        );
+        await localObject.start(
+            { client: "local" },
+            () => Promise.resolve(false),
+            () => Promise.resolve(true),
+            true
+        );
+        await localObject.sendEvent<ITestState>({ client: "local" });
+
+        const done = new Deferred();
+        const timestamps = new Set<number>();
+        const remoteObject = new LiveObjectSynchronizer<ITestState>(
+            "test",
+            new MockRuntimeSignaler(),
+            remoteLiveRuntime
+        );
+        await remoteObject.start(
+            { client: "remote" },
+            async (state) => {
+                if (state.data.client == "local") {
+                    timestamps.add(state.timestamp);
+                    if (timestamps.size == 4) {
+                        done.resolve();
+                    }
+                }
+                return false;
+            },
+            () => Promise.resolve(true)
+        );
+
+        await done.promise;
+        const remoteContainer =
+            remoteLiveRuntime.getLocalContainer() as MockContainerRuntimeSignaler;
+        assert.equal(
+            remoteContainer.getSentSignals("requestUpdates").length,
+            0,
+            "remote should not request updates"
+        );
+        localObject.dispose();
+        remoteObject.dispose();
+        localLiveRuntime.stop();
+        remoteLiveRuntime.stop();
+    });
+
+    it("Should queue changes while disconnected and send them once reconnected", async () => {
+        const session = new InMemoryLiveShareSession();
+        const localClient = await session.addClient();
+        const remoteClient = await session.addClient();
+        localClient.runtime.queueChangesWhileDisconnected = true;
+        const counts: number[] = [];
+        localClient.runtime.objectManager.on("pendingChanges", (count) => {
+            counts.push(count);
+        });
+
+        const restamped = new Deferred<ILiveEvent<IQueuedTestState>>();
+        const localObject = new LiveObjectSynchronizer<IQueuedTestState>(
+            "test",
+            new MockRuntimeSignaler(),
+            localClient.runtime
+        );
+        await localObject.start(
+            { value: 0 },
+            async (state, sender, local) => {
+                if (local && state.data.value > 0) {
+                    restamped.resolve(state);
+                }
+                return false;
+            },
+            () => Promise.resolve(true)
+        );
+        const received: number[] = [];
+        const done = new Deferred<ILiveEvent<IQueuedTestState>>();
+        const remoteObject = new LiveObjectSynchronizer<IQueuedTestState>(
+            "test",
+            new MockRuntimeSignaler(),
+            remoteClient.runtime
+        );
+        await remoteObject.start(
+            { value: 0 },
+            async (state, sender, local) => {
+                if (local || state.data.value == 0) return false;
+                received.push(state.data.value);
+                done.resolve(state);
+                return false;
+            },
+            () => Promise.resolve(true)
+        );
+
+        localClient.disconnect();
+        await localObject.sendEvent({ value: 1 });
+        const queued = await localObject.sendEvent({ value: 2 });
+        assert.equal(queued.data.value, 2);
+        assert.equal(localObject.pendingChanges, 2);
+        assert.equal(localClient.runtime.pendingChanges, 2);
+        assert.deepEqual(received, []);
+
+        localClient.connect();
+        const evt = await done.promise;
+        assert.deepEqual(received, [2]);
+        assert(
+            evt.timestamp > queued.timestamp,
+            "change was not stamped when sent"
+        );
+        assert.equal((await restamped.promise).timestamp, evt.timestamp);
+        assert.equal(localObject.pendingChanges, 0);
+        assert.deepEqual(counts, [1, 2, 0]);
+
+        localObject.dispose();
+        remoteObject.dispose();
+        session.dispose();
+    });
 });
@@ -0,0 +1,217 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { strict as assert } from "assert";
+import { requestFluidObject } from "@fluidframework/runtime-utils";
+import { ITestObjectProvider } from "@fluidframework/test-utils";
+import { describeNoCompat } from "@fluidframework/test-version-utils";
+import { LivePoll, LivePollKind, LivePollStatus } from "../LivePoll";
+import { waitForDelay } from "../internals";
+import { getLiveDataObjectClass } from "../schema-injection-utils";
+import { MockLiveShareRuntime } from "./MockLiveShareRuntime";
+import { UserMeetingRole } from "../interfaces";
+
+async function getObjects(getTestObjectProvider) {
+    let liveRuntime1 = new MockLiveShareRuntime(false);
+    let liveRuntime2 = new MockLiveShareRuntime(false);
+
+    let ObjectProxy1: any = getLiveDataObjectClass<LivePoll>(
+        LivePoll,
+        liveRuntime1
+    );
+    let ObjectProxy2: any = getLiveDataObjectClass<LivePoll>(
+        LivePoll,
+        liveRuntime2
+    );
+
+    await liveRuntime1.start();
+    await liveRuntime2.start();
+
+    let provider: ITestObjectProvider = getTestObjectProvider();
+
+    let container1 = await provider.createContainer(ObjectProxy1.factory);
+    let object1 = await requestFluidObject<LivePoll>(container1, "default");
+
+    let container2 = await provider.loadContainer(ObjectProxy2.factory);
+    let object2 = await requestFluidObject<LivePoll>(container2, "default");
+    // need to be connected to send signals
+    if (!container1.connect) {
+        await new Promise((resolve) => container1.once("connected", resolve));
+    }
+    if (!container2.connect) {
+        await new Promise((resolve) => container2.once("connected", resolve));
+    }
+    const dispose = () => {
+        object1.dispose();
+        object2.dispose();
+        container1.disconnect?.();
+        container2.disconnect?.();
+        liveRuntime1.stop();
+        liveRuntime2.stop();
+    };
+    return {
+        object1,
+        object2,
+        dispose,
+    };
+}
+
+const estimateCards = [
+    { id: "1", label: "1", value: 1 },
+    { id: "3", label: "3", value: 3 },
+    { id: "8", label: "8", value: 8 },
+    { id: "?", label: "?" },
+];
+
+describeNoCompat("LivePoll", (getTestObjectProvider) => {
+    it("Should open, vote, close and reveal an estimate poll", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await object1.initialize();
+        await object2.initialize();
+        assert(object1.status === LivePollStatus.idle, "not idle");
+
+        await object1.open({
+            question: "How many points?",
+            choices: estimateCards,
+            kind: LivePollKind.estimate,
+        });
+        await waitForDelay(1);
+        assert(object2.status === LivePollStatus.open, "object2 not open");
+        assert(object2.state.question === "How many points?", "wrong question");
+
+        await object1.vote("3");
+        await object2.vote("8");
+        await waitForDelay(1);
+        assert.deepEqual(object2.localBallot, ["8"]);
+
+        const results = object1.getResults();
+        assert(results.totalVoters === 2, "wrong number of voters");
+        assert(results.average === 5.5, `wrong average ${results.average}`);
+        assert(results.median === 5.5, `wrong median ${results.median}`);
+        assert(
+            results.choices.find((choice) => choice.id === "8")?.count === 1,
+            "wrong count"
+        );
+
+        await object2.close();
+        await waitForDelay(1);
+        await assert.rejects(object1.vote("1"), "vote should be rejected");
+        await object2.reveal();
+        await waitForDelay(1);
+        assert(object1.status === LivePollStatus.revealed, "not revealed");
+
+        dispose();
+    });
+
+    it("Should keep a single ballot per user across votes", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await object1.initialize();
+        await object2.initialize();
+        await object1.open({
+            choices: [
+                { id: "a", label: "A" },
+                { id: "b", label: "B" },
+                { id: "c", label: "C" },
+            ],
+            kind: LivePollKind.multipleChoice,
+            anonymous: true,
+        });
+        await waitForDelay(1);
+
+        await object2.vote(["a", "b"]);
+        await object2.vote(["b", "c"]);
+        await waitForDelay(1);
+
+        const results = object1.getResults();
+        assert(results.totalVoters === 1, "wrong number of voters");
+        assert.deepEqual(
+            results.choices.map((choice) => choice.count),
+            [0, 1, 1]
+        );
+        assert(
+            results.choices.every((choice) => choice.voterIds.length === 0),
+            "anonymous results include voters"
+        );
+        assert(
+            object1.getBallots().every((ballot) => !ballot.userId),
+            "anonymous ballots include voters"
+        );
+
+        await object2.clearVote();
+        await waitForDelay(1);
+        assert(object1.getResults().totalVoters === 0, "vote not cleared");
+
+        // Opening a new poll ignores ballots of the previous poll
+        await object2.vote("a");
+        await object1.open({ choices: [{ id: "a", label: "A" }] });
+        await waitForDelay(1);
+        assert(object2.localBallot === undefined, "ballot not reset");
+
+        dispose();
+    });
+
+    it("Should ignore ballots received after the poll was closed", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await object1.initialize();
+        await object2.initialize();
+        await object1.open({ choices: estimateCards });
+        await waitForDelay(1);
+
+        await object1.vote("1");
+        // object2 votes before it receives the close, but after object1 closed the poll
+        await Promise.all([object2.vote("3"), object1.close()]);
+        await waitForDelay(10);
+
+        assert.equal(object1.getResults().totalVoters, 1);
+        assert.equal(object2.getResults().totalVoters, 1);
+        assert.equal(object2.localBallot, undefined);
+
+        dispose();
+    });
+
+    it("Should reject invalid ballots", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await object1.initialize();
+        await object2.initialize();
+        await assert.rejects(object1.vote("a"), "poll is not open");
+        await object1.open({
+            choices: [
+                { id: "a", label: "A" },
+                { id: "b", label: "B" },
+            ],
+        });
+        await assert.rejects(
+            object1.vote(["a", "b"]),
+            "single choice accepted two choices"
+        );
+        await assert.rejects(object1.vote("z"), "unknown choice accepted");
+
+        dispose();
+    });
+
+    it("Should reject lifecycle changes from users without allowed roles", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        const allowedRoles = [UserMeetingRole.guest];
+        await object1.initialize(allowedRoles);
+        await object2.initialize(allowedRoles);
+        await assert.rejects(
+            object1.open({ choices: [{ id: "a", label: "A" }] }),
+            "open should be rejected"
+        );
+        assert(object2.status === LivePollStatus.idle, "poll was opened");
+
+        dispose();
+    });
+});
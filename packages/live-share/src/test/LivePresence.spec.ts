@@ -8,12 +8,17 @@ import { requestFluidObject } from "@fluidframework/runtime-utils";
 import { ITestObjectProvider } from "@fluidframework/test-utils";
 import { describeNoCompat } from "@fluidframework/test-version-utils";
 import { LivePresence } from "../LivePresence";
-import { PresenceState } from "../LivePresenceUser";
+import {
+    LivePresenceAggregationPolicy,
+    PresenceDeviceType,
+    PresenceState,
+} from "../LivePresenceUser";
 import { waitForDelay } from "../internals";
 import { Deferred } from "../internals";
 import {
     IClientInfo,
     IFluidContainerInfo,
+    IPresenceActivitySource,
     IFluidTenantInfo,
     ILiveShareHost,
     INtpTimeInfo,
@@ -31,6 +36,39 @@ class TestLivePresence<
     }
 }
 
+class TestActivitySource implements IPresenceActivitySource {
+    private _activityListeners: (() => void)[] = [];
+    private _visibilityListeners: ((visible: boolean) => void)[] = [];
+
+    public onActivity(listener: () => void): () => void {
+        this._activityListeners.push(listener);
+        return () => {
+            this._activityListeners = this._activityListeners.filter(
+                (l) => l !== listener
+            );
+        };
+    }
+
+    public onVisibilityChange(
+        listener: (visible: boolean) => void
+    ): () => void {
+        this._visibilityListeners.push(listener);
+        return () => {
+            this._visibilityListeners = this._visibilityListeners.filter(
+                (l) => l !== listener
+            );
+        };
+    }
+
+    public activity() {
+        this._activityListeners.forEach((listener) => listener());
+    }
+
+    public setVisible(visible: boolean) {
+        this._visibilityListeners.forEach((listener) => listener(visible));
+    }
+}
+
 async function getObjects(
     getTestObjectProvider,
     updateInterval: number = 10000,
@@ -908,6 +946,153 @@ describeNoCompat("LivePresence", (getTestObjectProvider) => {
         disposeAll();
     });
 
+    it("Should aggregate connections of the same user using a policy", async () => {
+        // set same user test host
+        const mockHost = new SameUserLiveShareTestHost();
+        const { object1, object2, disposeAll } = await getObjects(
+            getTestObjectProvider,
+            50,
+            true,
+            mockHost
+        );
+        await Promise.all([object1.initialize(), object2.initialize()]);
+        object2.aggregationPolicy =
+            LivePresenceAggregationPolicy.mostRecentlyActive;
+
+        await object1.updateDevice({
+            type: PresenceDeviceType.desktop,
+            platform: "Windows",
+        });
+        await object1.update({ foo: "presenting" });
+        await object2.updateDevice({ type: PresenceDeviceType.mobile });
+        await object2.update({ foo: "viewing" });
+        await waitForDelay(10);
+
+        const object1User = object1.getUser("user1")!;
+        const object2User = object2.getUser("user1")!;
+        assert.equal(object1User.data?.foo, "viewing");
+        assert.equal(object2User.data?.foo, "viewing");
+        assert.deepEqual(
+            object1User.getConnection(await object2.clientId())?.device,
+            { type: PresenceDeviceType.mobile }
+        );
+        assert.deepEqual(
+            object2User.getConnection(await object1.clientId())?.device,
+            { type: PresenceDeviceType.desktop, platform: "Windows" }
+        );
+
+        // Background updates don't make a connection active
+        const connection1 = object2User.getConnection(
+            await object1.clientId()
+        )!;
+        const connection2 = object2User.getConnection(
+            await object2.clientId()
+        )!;
+        await waitForDelay(150);
+        assert(
+            connection1.event.timestamp > connection2.event.timestamp,
+            "object1 should have sent a background update"
+        );
+        assert(connection1.lastActive < connection2.lastActive);
+        assert.equal(object2User.data?.foo, "viewing");
+
+        // Custom selector
+        object2.aggregationPolicy = (connections) =>
+            connections.find(
+                (connection) =>
+                    connection.device?.type == PresenceDeviceType.desktop
+            );
+        assert.equal(object2User.data?.foo, "presenting");
+
+        disposeAll();
+    });
+
+    it("Should set the local user away while idle or hidden", async () => {
+        const { object1, object2, disposeAll } = await getObjects(
+            getTestObjectProvider
+        );
+        await Promise.all([object1.initialize(), object2.initialize()]);
+        const object1ClientId = await object1.clientId();
+        const waitForState = (state: PresenceState) => {
+            const done = new Deferred();
+            const listener = (user, local, clientId) => {
+                if (clientId == object1ClientId && user.state == state) {
+                    object2.off("presenceChanged", listener);
+                    done.resolve();
+                }
+            };
+            object2.on("presenceChanged", listener);
+            return done.promise;
+        };
+
+        const source = new TestActivitySource();
+        object1.startActivityTracking({
+            idleTimeout: 50,
+            activitySource: source,
+        });
+        assert(object1.isTrackingActivity);
+
+        // Idle timeout
+        await waitForState(PresenceState.away);
+        let online = waitForState(PresenceState.online);
+        source.activity();
+        await online;
+
+        // Hidden
+        let away = waitForState(PresenceState.away);
+        source.setVisible(false);
+        await away;
+        online = waitForState(PresenceState.online);
+        source.setVisible(true);
+        await online;
+
+        // States set by the app aren't overridden by activity
+        await object1.update(undefined, PresenceState.away);
+        source.activity();
+        await waitForDelay(10);
+        assert.equal(object1.localUser?.state, PresenceState.away);
+
+        object1.stopActivityTracking();
+        assert(!object1.isTrackingActivity);
+        disposeAll();
+    });
+
+    it("Should patch() user presence in a single update", async () => {
+        const { object1, object2, disposeAll } = await getObjects(
+            getTestObjectProvider
+        );
+        type TData = { foo: string; cursor?: { x: number; y: number } };
+        const presence1 = object1 as unknown as TestLivePresence<TData>;
+        const presence2 = object2 as unknown as TestLivePresence<TData>;
+        await presence1.initialize({ foo: "bar" });
+        await presence2.initialize();
+        const object1ClientId = await presence1.clientId();
+
+        const received: TData[] = [];
+        const done = new Deferred();
+        presence2.on("presenceChanged", (user, local, clientId) => {
+            if (clientId != object1ClientId || !user.data?.cursor) return;
+            received.push(user.data);
+            if (user.data.cursor.y == 2) {
+                done.resolve();
+            }
+        });
+        await Promise.all([
+            presence1.patch({ cursor: { x: 1, y: 2 } }),
+            presence1.patch({ foo: "baz" }),
+        ]);
+        await done.promise;
+        assert.deepEqual(received, [{ foo: "baz", cursor: { x: 1, y: 2 } }]);
+
+        await presence1.patch({ cursor: { x: 3 } } as Partial<TData>, true);
+        assert.deepEqual(presence1.localUser?.data, {
+            foo: "baz",
+            cursor: { x: 3, y: 2 },
+        });
+
+        disposeAll();
+    });
+
     it("test offline timeout for user and connections", async () => {
         // set same user test host
         const mockHost = new SameUserLiveShareTestHost();
@@ -0,0 +1,150 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { strict as assert } from "assert";
+import { requestFluidObject } from "@fluidframework/runtime-utils";
+import { ITestObjectProvider } from "@fluidframework/test-utils";
+import { describeNoCompat } from "@fluidframework/test-version-utils";
+import { LiveRpc } from "../LiveRpc";
+import { LiveRpcResponseError, LiveRpcTimeoutError } from "../errors";
+import { MockRoleVerifier } from "./MockRoleVerifier";
+import { LocalTimestampProvider } from "../LocalTimestampProvider";
+import { RoleVerifier } from "../internals";
+import { UserMeetingRole } from "../interfaces";
+import { TestLiveShareHost } from "../TestLiveShareHost";
+import { getLiveDataObjectClass } from "../schema-injection-utils";
+import { LiveShareRuntime } from "../LiveShareRuntime";
+import { DataObjectClass } from "fluid-framework";
+
+describeNoCompat("LiveRpc", (getTestObjectProvider) => {
+    let provider: ITestObjectProvider;
+    let object1: LiveRpc;
+    let object2: LiveRpc;
+    let liveRuntime1: LiveShareRuntime = new LiveShareRuntime(
+        TestLiveShareHost.create(),
+        {
+            timestampProvider: new LocalTimestampProvider(),
+        }
+    );
+    let LiveRpcProxy1 = getLiveDataObjectClass<LiveRpc>(
+        LiveRpc,
+        liveRuntime1
+    ) as DataObjectClass<LiveRpc>;
+    let liveRuntime2: LiveShareRuntime = new LiveShareRuntime(
+        TestLiveShareHost.create(),
+        {
+            timestampProvider: new LocalTimestampProvider(),
+        }
+    );
+    let LiveRpcProxy2 = getLiveDataObjectClass<LiveRpc>(
+        LiveRpc,
+        liveRuntime2
+    ) as DataObjectClass<LiveRpc>;
+
+    beforeEach(async () => {
+        provider = getTestObjectProvider();
+        const container1 = await provider.createContainer(
+            LiveRpcProxy1.factory
+        );
+        object1 = await requestFluidObject<LiveRpc>(container1, "default");
+
+        const container2 = await provider.loadContainer(LiveRpcProxy2.factory);
+        object2 = await requestFluidObject<LiveRpc>(container2, "default");
+
+        // need to be connected to send signals
+        if (!container1.connect) {
+            await new Promise((resolve) =>
+                container1.once("connected", resolve)
+            );
+        }
+        if (!container2.connect) {
+            await new Promise((resolve) =>
+                container2.once("connected", resolve)
+            );
+        }
+    });
+
+    it("Should call a handler on another client", async () => {
+        object2.registerHandler<{ a: number; b: number }, number>(
+            "add",
+            (data) => data.a + data.b
+        );
+        await object1.initialize();
+        await object2.initialize();
+
+        const responses = await object1.callAll<number>(
+            "add",
+            { a: 2, b: 2 },
+            { maxResponses: 1 }
+        );
+        assert(responses.length === 1, "Should have one response");
+        assert(responses[0].data === 4, "Unexpected response data");
+
+        const sum = await object1.call<number>(
+            "add",
+            { a: 1, b: 2 },
+            { targetClientId: responses[0].clientId }
+        );
+        assert(sum === 3, `Unexpected response of ${sum}`);
+    });
+
+    it("Should reject when the handler fails", async () => {
+        object2.registerHandler("fail", () => {
+            throw new Error("not available");
+        });
+        await object1.initialize();
+        await object2.initialize();
+
+        try {
+            await object1.call("fail", {}, { timeout: 200 });
+            assert(false, "call should have failed");
+        } catch (err: unknown) {
+            assert(err instanceof LiveRpcResponseError, `Unexpected ${err}`);
+            assert(err.reason === "not available", "Unexpected reason");
+        }
+    });
+
+    it("Should time out without a handler", async () => {
+        await object1.initialize();
+        await object2.initialize();
+
+        try {
+            await object1.call("missing", {}, { timeout: 100 });
+            assert(false, "call should have timed out");
+        } catch (err: unknown) {
+            assert(err instanceof LiveRpcTimeoutError, `Unexpected ${err}`);
+        }
+    });
+
+    it("Should reject pending requests when disposed", async () => {
+        await object1.initialize();
+        await object2.initialize();
+
+        const pending = object1.call("missing", {}, { timeout: 10000 });
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        object1.dispose();
+        await assert.rejects(pending, /disposed/, "call should be rejected");
+    });
+
+    it("Should reject requests from clients without an allowed role", async () => {
+        liveRuntime2.setRoleVerifier(
+            new MockRoleVerifier([UserMeetingRole.attendee])
+        );
+        object2.registerHandler("approve", () => true, [
+            UserMeetingRole.organizer,
+        ]);
+        await object1.initialize([UserMeetingRole.attendee]);
+        await object2.initialize([UserMeetingRole.attendee]);
+
+        try {
+            await object1.call("approve", {}, { timeout: 200 });
+            assert(false, "call should have been rejected");
+        } catch (err: unknown) {
+            assert(err instanceof LiveRpcResponseError, `Unexpected ${err}`);
+        } finally {
+            liveRuntime2.setRoleVerifier(new RoleVerifier(liveRuntime2.host));
+        }
+    });
+});
@@ -8,33 +8,44 @@ import { requestFluidObject } from "@fluidframework/runtime-utils";
 import { ITestObjectProvider } from "@fluidframework/test-utils";
 import { describeNoCompat } from "@fluidframework/test-version-utils";
 import { LiveState } from "../LiveState";
-import { Deferred } from "../internals";
+import { Deferred, waitForDelay } from "../internals";
 import { getLiveDataObjectClass } from "../schema-injection-utils";
 import { MockLiveShareRuntime } from "./MockLiveShareRuntime";
+import { LiveStateConflictError } from "../errors";
+import { SharedMap } from "fluid-framework";
 
 interface TestStateData {
     status: string;
     value: string;
 }
 
-async function getObjects(getTestObjectProvider) {
+async function getObjects(
+    getTestObjectProvider,
+    updateInterval: number = 10000,
+    createContainer = true
+) {
     // Temporarily change update interval
-    let liveRuntime1 = new MockLiveShareRuntime(false);
-    let liveRuntime2 = new MockLiveShareRuntime(false);
+    let liveRuntime1 = new MockLiveShareRuntime(false, updateInterval);
+    let liveRuntime2 = new MockLiveShareRuntime(false, updateInterval);
 
-    let ObjectProxy1: any = getLiveDataObjectClass<
-        LiveState<TestStateData>
-    >(LiveState, liveRuntime1);
-    let ObjectProxy2: any = getLiveDataObjectClass<
-        LiveState<TestStateData>
-    >(LiveState, liveRuntime2);
+    let ObjectProxy1: any = getLiveDataObjectClass<LiveState<TestStateData>>(
+        LiveState,
+        liveRuntime1
+    );
+    let ObjectProxy2: any = getLiveDataObjectClass<LiveState<TestStateData>>(
+        LiveState,
+        liveRuntime2
+    );
 
     await liveRuntime1.start();
     await liveRuntime2.start();
 
     let provider: ITestObjectProvider = getTestObjectProvider();
 
-    let container1 = await provider.createContainer(ObjectProxy1.factory);
+    // Clients of a later session load the container created by the previous session
+    let container1 = createContainer
+        ? await provider.createContainer(ObjectProxy1.factory)
+        : await provider.loadContainer(ObjectProxy1.factory);
     let object1 = await requestFluidObject<LiveState<TestStateData>>(
         container1,
         "default"
@@ -235,4 +246,400 @@ describeNoCompat("LiveState", (getTestObjectProvider) => {
 
         dispose();
     });
+
+    it("Should compareAndSet() and increment the revision", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        const done = new Deferred();
+        object2.on("stateChanged", (state, local) => {
+            try {
+                if (!local) {
+                    assert(
+                        state.value == "newValue",
+                        `object2: value == '${state.value}'`
+                    );
+                    assert(
+                        object2.revision == 1,
+                        `object2: revision == ${object2.revision}`
+                    );
+                    done.resolve();
+                }
+            } catch (err) {
+                done.reject(err);
+            }
+        });
+        await Promise.all([
+            object1.initialize(mockDefaultValue),
+            object2.initialize(mockDefaultValue),
+        ]);
+        assert(
+            object1.revision == 0,
+            `object1: revision == ${object1.revision}`
+        );
+
+        await object1.compareAndSet(mockDefaultValue, {
+            status: "newState",
+            value: "newValue",
+        });
+        assert(
+            object1.revision == 1,
+            `object1: revision == ${object1.revision}`
+        );
+
+        await done.promise;
+
+        dispose();
+    });
+
+    it("Should reject compareAndSet() when expected state is outdated", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await Promise.all([
+            object1.initialize(mockDefaultValue),
+            object2.initialize(mockDefaultValue),
+        ]);
+        await object1.set({ status: "newState", value: "newValue" });
+
+        const conflictDone = new Deferred();
+        object1.on("conflict", (rejectedState, state, clientId, revision) => {
+            try {
+                assert(
+                    rejectedState.value == "rejectedValue",
+                    `rejectedState.value == '${rejectedState.value}'`
+                );
+                assert(
+                    state.value == "newValue",
+                    `state.value == '${state.value}'`
+                );
+                assert(revision == 1, `revision == ${revision}`);
+                conflictDone.resolve();
+            } catch (err) {
+                conflictDone.reject(err);
+            }
+        });
+
+        await assert.rejects(
+            object1.compareAndSet(mockDefaultValue, {
+                status: "rejectedState",
+                value: "rejectedValue",
+            }),
+            (err) => err instanceof LiveStateConflictError
+        );
+        await conflictDone.promise;
+        assert(
+            object1.state.value == "newValue",
+            `object1: value == '${object1.state.value}'`
+        );
+        assert(
+            object1.revision == 1,
+            `object1: revision == ${object1.revision}`
+        );
+
+        dispose();
+    });
+
+    it("Should converge when compareAndSet() is called concurrently", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await Promise.all([
+            object1.initialize(mockDefaultValue),
+            object2.initialize(mockDefaultValue),
+        ]);
+
+        const conflictDone = new Deferred();
+        object1.on("conflict", () => conflictDone.resolve());
+        object2.on("conflict", () => conflictDone.resolve());
+
+        await Promise.allSettled([
+            object1.compareAndSet(mockDefaultValue, {
+                status: "newState",
+                value: "value1",
+            }),
+            object2.compareAndSet(mockDefaultValue, {
+                status: "newState",
+                value: "value2",
+            }),
+        ]);
+
+        await conflictDone.promise;
+        await waitForDelay(50);
+        assert(
+            object1.state.value === object2.state.value,
+            `object1: value == '${object1.state.value}', object2: value == '${object2.state.value}'`
+        );
+        assert(
+            object1.revision == 1,
+            `object1: revision == ${object1.revision}`
+        );
+        assert(
+            object2.revision == 1,
+            `object2: revision == ${object2.revision}`
+        );
+
+        dispose();
+    });
+
+    it("Should reject compareAndSet() without sending it when a concurrent change is received first", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await Promise.all([
+            object1.initialize(mockDefaultValue),
+            object2.initialize(mockDefaultValue),
+        ]);
+
+        // Hold object1's change until object2's concurrent change is received
+        const received = new Deferred();
+        object1.on("stateChanged", (state: TestStateData, local: boolean) => {
+            if (!local) received.resolve();
+        });
+        object1.setPermission("set", async ({ local }) => {
+            if (local) await received.promise;
+            return true;
+        });
+        const object2Values: string[] = [];
+        object2.on("stateChanged", (state: TestStateData) =>
+            object2Values.push(state.value)
+        );
+
+        const results = await Promise.allSettled([
+            object1.compareAndSet(mockDefaultValue, {
+                status: "newState",
+                value: "value1",
+            }),
+            object2.compareAndSet(mockDefaultValue, {
+                status: "newState",
+                value: "value2",
+            }),
+        ]);
+        assert.equal(results[1].status, "fulfilled");
+        assert.equal(results[0].status, "rejected");
+        const error = (results[0] as PromiseRejectedResult).reason;
+        assert(error instanceof LiveStateConflictError);
+        assert.equal(error.actual.value, "value2");
+
+        // The rejected change never reaches other clients
+        await waitForDelay(50);
+        assert.equal(object1.state.value, "value2");
+        assert.deepEqual(object2Values, ["value2"]);
+
+        dispose();
+    });
+
+    it("Should apply set() from a client that has an outdated revision", async () => {
+        const session1 = await getObjects(getTestObjectProvider);
+        await session1.object1.initialize(mockDefaultValue);
+        await session1.object1.set({ status: "state1", value: "value1" });
+        await session1.object1.set({ status: "state2", value: "value2" });
+        const map = SharedMap.create((session1.object1 as any).runtime);
+        session1.object1.snapshotToContainer(map);
+        session1.dispose();
+
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider,
+            10000,
+            false
+        );
+        await Promise.all([
+            object1.initialize(mockDefaultValue),
+            object2.initialize(mockDefaultValue),
+        ]);
+        // object2 hasn't received the restored state yet, so it sets the state from an older revision
+        assert.equal(await object1.restoreFromContainer(map), true);
+        assert.equal(object2.revision, 0);
+
+        const received = new Deferred();
+        object1.on("stateChanged", (state: TestStateData, local: boolean) => {
+            if (!local && state.value == "value3") received.resolve();
+        });
+        await waitForDelay(10);
+        await object2.set({ status: "state3", value: "value3" });
+        await received.promise;
+        assert.equal(object1.state.value, "value3");
+        assert.equal(object2.state.value, "value3");
+
+        dispose();
+    });
+
+    it("Should undo() and redo() changes made by other clients", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await Promise.all([
+            object1.initialize(mockDefaultValue),
+            object2.initialize(mockDefaultValue),
+        ]);
+        assert.equal(object1.canUndo, false);
+
+        const waitForValue = (
+            object: LiveState<TestStateData>,
+            value: string
+        ) => {
+            const done = new Deferred<string>();
+            const listener = (
+                state: TestStateData,
+                local: boolean,
+                clientId: string
+            ) => {
+                if (state.value == value) {
+                    object.off("stateChanged", listener);
+                    done.resolve(clientId);
+                }
+            };
+            object.on("stateChanged", listener);
+            return done.promise;
+        };
+
+        let received = waitForValue(object2, "value1");
+        await object1.set({ status: "state1", value: "value1" });
+        await received;
+        assert.equal(object2.canUndo, true);
+        assert.equal(object2.canRedo, false);
+
+        // object2 undoes the change made by object1
+        received = waitForValue(object1, "defaultValue");
+        await object2.undo();
+        const undoClientId = await received;
+        assert.deepEqual(object1.state, mockDefaultValue);
+        assert.equal(object1.revision, 2);
+        assert.equal(object1.canUndo, false);
+        assert.equal(object1.canRedo, true);
+        assert.equal(object2.canRedo, true);
+
+        // object1 redoes the change undone by object2
+        received = waitForValue(object2, "value1");
+        await object1.redo();
+        await received;
+        const history = object2.getHistory();
+        assert.deepEqual(
+            history.map((change) => change.state.value),
+            ["defaultValue", "value1"]
+        );
+        assert.equal(history[0].clientId, undoClientId);
+        assert.equal(history[0].revision, 2);
+        assert.equal(object2.revision, 3);
+        assert.equal(object2.canRedo, false);
+
+        // Setting a new state discards undone changes
+        await object2.undo();
+        assert.equal(object2.canRedo, true);
+        await object2.set({ status: "state2", value: "value2" });
+        assert.equal(object2.canRedo, false);
+
+        dispose();
+    });
+
+    it("Should undo() changes made before joining", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await object1.initialize(mockDefaultValue);
+        await object1.set({ status: "state1", value: "value1" });
+        await object1.set({ status: "state2", value: "value2" });
+
+        // object2 receives the history with object1's state when it joins
+        await object2.initialize(mockDefaultValue);
+        assert.deepEqual(
+            object2.getHistory().map((change) => change.state.value),
+            ["defaultValue", "value1", "value2"]
+        );
+        assert.equal(object2.canUndo, true);
+
+        const received = new Deferred();
+        object1.on("stateChanged", (state: TestStateData, local: boolean) => {
+            if (!local && state.value == "value1") received.resolve();
+        });
+        await waitForDelay(10);
+        await object2.undo();
+        await received.promise;
+        assert.equal(object1.canRedo, true);
+        assert.equal(object2.canRedo, true);
+
+        dispose();
+    });
+
+    it("Should limit the history to maxHistoryLength changes", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        object1.maxHistoryLength = 2;
+        await Promise.all([
+            object1.initialize(mockDefaultValue),
+            object2.initialize(mockDefaultValue),
+        ]);
+
+        const received = new Deferred();
+        object2.on("stateChanged", (state: TestStateData) => {
+            if (state.value == "value3") received.resolve();
+        });
+        for (const value of ["value1", "value2", "value3"]) {
+            await object1.set({ status: "newState", value });
+        }
+        assert.deepEqual(
+            object1.getHistory().map((change) => change.state.value),
+            ["value1", "value2", "value3"]
+        );
+
+        // Other clients receive the history sent with the change
+        await received.promise;
+        assert.deepEqual(
+            object2.getHistory().map((change) => change.state.value),
+            ["value1", "value2", "value3"]
+        );
+
+        dispose();
+    });
+
+    it("Should restore a snapshot saved to the container", async () => {
+        const session1 = await getObjects(getTestObjectProvider);
+        await session1.object1.initialize(mockDefaultValue);
+        await session1.object1.set({ status: "state1", value: "value1" });
+        await session1.object1.set({ status: "state2", value: "value2" });
+        const map = SharedMap.create((session1.object1 as any).runtime);
+        session1.object1.snapshotToContainer(map);
+        session1.dispose();
+
+        // Every client left, so the next session starts from the initial state
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider,
+            100,
+            false
+        );
+        await Promise.all([
+            object1.initialize(mockDefaultValue),
+            object2.initialize(mockDefaultValue),
+        ]);
+        assert.deepEqual(object1.state, mockDefaultValue);
+
+        const received = new Deferred();
+        object2.on("stateChanged", (state: TestStateData, local: boolean) => {
+            if (!local && state.value == "value2") {
+                received.resolve();
+            }
+        });
+        assert.equal(await object1.restoreFromContainer(map), true);
+        assert.deepEqual(object1.state, { status: "state2", value: "value2" });
+        assert.equal(object1.revision, 2);
+        // The history is saved with the snapshot
+        assert.deepEqual(
+            object1.getHistory().map((change) => change.state.value),
+            ["defaultValue", "value1", "value2"]
+        );
+
+        // Connected clients receive the restored state through background updates
+        await received.promise;
+        assert.equal(object2.revision, 2);
+        assert.equal(object2.canUndo, true);
+
+        // Newer changes are not overwritten by an older snapshot
+        await object2.set({ status: "state3", value: "value3" });
+        await waitForDelay(1);
+        assert.equal(await object1.restoreFromContainer(map), false);
+        assert.equal(object1.state.value, "value3");
+
+        dispose();
+    });
 });
@@ -7,14 +7,17 @@ import { strict as assert } from "assert";
 import { requestFluidObject } from "@fluidframework/runtime-utils";
 import { ITestObjectProvider } from "@fluidframework/test-utils";
 import { describeNoCompat } from "@fluidframework/test-version-utils";
-import { LiveTimer } from "../LiveTimer";
+import { ITimerConfig, LiveTimer } from "../LiveTimer";
+import { LivePermissionDeniedError } from "../errors";
 import { Deferred, waitForDelay } from "../internals";
 import { getLiveDataObjectClass } from "../schema-injection-utils";
 import { MockLiveShareRuntime } from "./MockLiveShareRuntime";
+import { SharedMap } from "fluid-framework";
 
 async function getObjects(
     getTestObjectProvider,
-    updateInterval: number = 10000
+    updateInterval: number = 10000,
+    createContainer = true
 ) {
     // Temporarily change update interval
     let liveRuntime1 = new MockLiveShareRuntime(false, updateInterval);
@@ -34,7 +37,10 @@ async function getObjects(
 
     let provider: ITestObjectProvider = getTestObjectProvider();
 
-    let container1 = await provider.createContainer(ObjectProxy1.factory);
+    // Clients of a later session load the container created by the previous session
+    let container1 = createContainer
+        ? await provider.createContainer(ObjectProxy1.factory)
+        : await provider.loadContainer(ObjectProxy1.factory);
     let object1 = await requestFluidObject<LiveTimer>(container1, "default");
 
     let container2 = await provider.loadContainer(ObjectProxy2.factory);
@@ -57,6 +63,7 @@ async function getObjects(
     return {
         object1,
         object2,
+        liveRuntime1,
         dispose,
     };
 }
@@ -196,6 +203,210 @@ describeNoCompat("LiveTimer", (getTestObjectProvider) => {
         dispose();
     });
 
+    it("Should deny timer changes using permission predicates", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await object1.initialize();
+        await object2.initialize();
+        object2.setPermission("pause", () => false);
+        let object2paused = false;
+        object2.on("paused", () => {
+            object2paused = true;
+        });
+
+        const object2done = new Deferred<LivePermissionDeniedError>();
+        object2.on("permissionDenied", (error) => {
+            object2done.resolve(error);
+        });
+        await object1.start(1000);
+        await object1.pause();
+        const error = await object2done.promise;
+        assert.equal(error.operation, "pause");
+        assert.equal(error.local, false);
+        assert.equal(object2paused, false);
+
+        // Local changes are denied before being sent
+        await assert.rejects(object2.pause(), LivePermissionDeniedError);
+
+        dispose();
+    });
+
+    it("Should advance phases, skip phases and add laps", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await object1.initialize();
+        await object2.initialize();
+
+        const object2phases: string[] = [];
+        const object2finished = new Deferred<ITimerConfig>();
+        object2.on("phaseChanged", (config) => {
+            object2phases.push(config.phases[config.phaseIndex].name);
+        });
+        object2.on("finished", (config) => {
+            object2finished.resolve(config);
+        });
+        const object2lap = new Deferred<number | undefined>();
+        object2.on("lap", (config, lap, local) => {
+            assert.equal(local, false);
+            object2lap.resolve(lap.phaseIndex);
+        });
+
+        await object1.startPhases([
+            { name: "Brainstorm", duration: 50 },
+            { name: "Vote", duration: 50 },
+            { name: "Discuss", duration: 10000 },
+        ]);
+        await object1.lap();
+        assert.equal(await object2lap.promise, 0);
+
+        // Vote starts automatically, then Discuss is skipped
+        await waitForDelay(150);
+        assert.deepEqual(object2phases, ["Vote", "Discuss"]);
+        await object1.skipPhase();
+        const finished = await object2finished.promise;
+        assert.equal(finished.phaseIndex, 2);
+        assert.equal(finished.running, false);
+
+        dispose();
+    });
+
+    it("Should add time and count up as a stopwatch", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await object1.initialize();
+        await object2.initialize();
+
+        const object2durationChanged = new Deferred<number>();
+        object2.on("durationChanged", (config) => {
+            object2durationChanged.resolve(config.duration);
+        });
+        await object1.start(1000);
+        await object1.addTime(500);
+        assert.equal(await object2durationChanged.promise, 1500);
+
+        const object1elapsed = new Deferred<number>();
+        object1.on("onTick", (milliRemaining, milliElapsed) => {
+            if (milliRemaining === Infinity && milliElapsed > 50) {
+                object1elapsed.resolve(milliElapsed);
+            }
+        });
+        await object1.startStopwatch();
+        await object1elapsed.promise;
+        await assert.rejects(object1.addTime(500));
+
+        dispose();
+    });
+
+    it("Should start a scheduled timer on every client", async () => {
+        const { object1, object2, liveRuntime1, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await object1.initialize();
+        await object2.initialize();
+
+        const object2scheduled = new Deferred<ITimerConfig>();
+        object2.on("scheduled", (config, local) => {
+            assert.equal(local, false);
+            object2scheduled.resolve(config);
+        });
+        const object1started = new Deferred<ITimerConfig>();
+        object1.on("started", (config) => object1started.resolve(config));
+        const object2started = new Deferred<ITimerConfig>();
+        object2.on("started", (config) => object2started.resolve(config));
+
+        const scheduledAt = liveRuntime1.getTimestamp() + 100;
+        await object1.scheduleStart(scheduledAt, 1000);
+        assert.equal((await object2scheduled.promise).scheduledAt, scheduledAt);
+        const [config1, config2] = await Promise.all([
+            object1started.promise,
+            object2started.promise,
+        ]);
+        assert.equal(config1.configChangedAt, scheduledAt);
+        assert.equal(config2.configChangedAt, scheduledAt);
+        assert.equal(config2.running, true);
+
+        dispose();
+    });
+
+    it("Should start a scheduled timer for late joiners", async () => {
+        const { object1, object2, liveRuntime1, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await object1.initialize();
+        const scheduledAt = liveRuntime1.getTimestamp() + 20;
+        await object1.scheduleStart(scheduledAt, 1000);
+        await waitForDelay(50);
+
+        const object2started = new Deferred<ITimerConfig>();
+        object2.on("started", (config, local) => {
+            assert.equal(local, false);
+            object2started.resolve(config);
+        });
+        await object2.initialize();
+        const config = await object2started.promise;
+        assert.equal(config.configChangedAt, scheduledAt);
+        assert.equal(config.duration, 1000);
+
+        dispose();
+    });
+
+    it("Should cancel a scheduled timer", async () => {
+        const { object1, object2, liveRuntime1, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await object1.initialize();
+        await object2.initialize();
+
+        let object2started = false;
+        object2.on("started", () => {
+            object2started = true;
+        });
+        const object2cancelled = new Deferred();
+        object2.on("scheduleCancelled", () => object2cancelled.resolve());
+
+        await object1.scheduleStart(liveRuntime1.getTimestamp() + 100, 1000);
+        await object1.cancelSchedule();
+        await object2cancelled.promise;
+        await waitForDelay(150);
+        assert.equal(object2started, false);
+
+        dispose();
+    });
+
+    it("Should raise paused and played for clients that join later", async () => {
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider
+        );
+        await object1.initialize();
+        await object1.start(1000);
+        await waitForDelay(20);
+        await object1.pause();
+
+        const object2events: string[] = [];
+        ["durationChanged", "scheduleCancelled", "started"].forEach((event) =>
+            object2.on(event as any, () => object2events.push(event))
+        );
+        const object2paused = new Deferred<ITimerConfig>();
+        object2.on("paused", (config, local) => {
+            assert.equal(local, false);
+            object2paused.resolve(config);
+        });
+        await object2.initialize();
+        const config = await object2paused.promise;
+        assert(config.position >= 20, `wrong position ${config.position}`);
+
+        const object2played = new Deferred();
+        object2.on("played", () => object2played.resolve());
+        await object1.play();
+        await object2played.promise;
+        assert.deepEqual(object2events, []);
+
+        dispose();
+    });
+
     it("start overrides existing timer", async () => {
         const { object1, object2, dispose } = await getObjects(
             getTestObjectProvider
@@ -314,4 +525,69 @@ describeNoCompat("LiveTimer", (getTestObjectProvider) => {
 
         dispose();
     });
+
+    it("Should restore a paused timer saved to the container", async () => {
+        const session1 = await getObjects(getTestObjectProvider);
+        await session1.object1.initialize();
+        await session1.object1.start(1000);
+        await waitForDelay(20);
+        await session1.object1.pause();
+        const map = SharedMap.create((session1.object1 as any).runtime);
+        session1.object1.snapshotToContainer(map);
+        session1.dispose();
+
+        // Every client left, so the next session starts with new clients
+        const { object1, object2, dispose } = await getObjects(
+            getTestObjectProvider,
+            100,
+            false
+        );
+        await object1.initialize();
+        await object2.initialize();
+
+        const object2done = new Deferred<ITimerConfig>();
+        object2.on("paused", (config, local) => {
+            assert.equal(local, false);
+            object2done.resolve(config);
+        });
+        assert.equal(await object1.restoreFromContainer(map), true);
+        assert.equal(await object1.restoreFromContainer(map), false);
+
+        // Connected clients receive the restored timer through background updates
+        const config = await object2done.promise;
+        assert(config.position >= 20, `wrong position ${config.position}`);
+        assert.equal(config.duration, 1000);
+        assert.equal(config.running, false);
+
+        dispose();
+    });
+
+    it("Should finish a restored timer whose duration has elapsed", async () => {
+        const session1 = await getObjects(getTestObjectProvider);
+        await session1.object1.initialize();
+        await session1.object1.start(50);
+        const map = SharedMap.create((session1.object1 as any).runtime);
+        session1.object1.snapshotToContainer(map);
+        session1.dispose();
+
+        // Every client left, so the next session starts with new clients
+        await waitForDelay(60);
+
+        const { object1, dispose } = await getObjects(
+            getTestObjectProvider,
+            undefined,
+            false
+        );
+        await object1.initialize();
+        const finished = new Deferred<ITimerConfig>();
+        object1.on("finished", (config) => {
+            finished.resolve(config);
+        });
+        assert.equal(await object1.restoreFromContainer(map), true);
+        const config = await finished.promise;
+        assert.equal(config.position, 50);
+        assert.equal(config.running, false);
+
+        dispose();
+    });
 });
@@ -0,0 +1,180 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the Microsoft Live Share SDK License.
+ */
+
+import { strict as assert } from "assert";
+import { IInboundSignalMessage } from "@fluidframework/runtime-definitions";
+import { LocalLiveTransport } from "../LocalLiveTransport";
+import { LiveShareRuntime } from "../LiveShareRuntime";
+import { LiveEventScope } from "../LiveEventScope";
+import { LiveObjectSynchronizer } from "../LiveObjectSynchronizer";
+import { LocalTimestampProvider } from "../LocalTimestampProvider";
+import { TestLiveShareHost } from "../TestLiveShareHost";
+import { Deferred, waitForDelay } from "../internals";
+import { MockRuntimeSignaler } from "./MockRuntimeSignaler";
+
+function createLiveRuntime(transport: LocalLiveTransport) {
+    return new LiveShareRuntime(TestLiveShareHost.create(), {
+        timestampProvider: new LocalTimestampProvider(),
+        transport,
+    });
+}
+
+function recordSignals(transport: LocalLiveTransport) {
+    const signals: { message: IInboundSignalMessage; local: boolean }[] = [];
+    transport.on("signal", (message, local) => {
+        signals.push({ message, local });
+    });
+    return signals;
+}
+
+describe("LocalLiveTransport", () => {
+    it("Should send signals to transports on the same channel", () => {
+        const localTransport = new LocalLiveTransport({ channelName: "a" });
+        const remoteTransport = new LocalLiveTransport({ channelName: "a" });
+        const otherTransport = new LocalLiveTransport({ channelName: "b" });
+        const localSignals = recordSignals(localTransport);
+        const remoteSignals = recordSignals(remoteTransport);
+        const otherSignals = recordSignals(otherTransport);
+
+        localTransport.submitSignal("test", { value: 1 });
+        assert.equal(localSignals.length, 1);
+        assert.equal(localSignals[0].local, true);
+        assert.equal(remoteSignals.length, 1);
+        assert.equal(remoteSignals[0].local, false);
+        assert.equal(remoteSignals[0].message.type, "test");
+        assert.equal(
+            remoteSignals[0].message.clientId,
+            localTransport.clientId
+        );
+        assert.deepEqual(remoteSignals[0].message.content, { value: 1 });
+        assert.equal(otherSignals.length, 0);
+
+        // Signals are dropped while disconnected and a new clientId is assigned on reconnect
+        const clientId = remoteTransport.clientId;
+        remoteTransport.disconnect();
+        assert.equal(remoteTransport.connected, false);
+        localTransport.submitSignal("test", { value: 2 });
+        assert.equal(remoteSignals.length, 1);
+        remoteTransport.connect();
+        assert.notEqual(remoteTransport.clientId, clientId);
+        localTransport.submitSignal("test", { value: 3 });
+        assert.equal(remoteSignals.length, 2);
+
+        localTransport.disconnect();
+        remoteTransport.disconnect();
+        otherTransport.disconnect();
+    });
+
+    it("Should synchronize objects without a container runtime", async () => {
+        const localTransport = new LocalLiveTransport({ channelName: "c" });
+        const remoteTransport = new LocalLiveTransport({ channelName: "c" });
+        const localLiveRuntime = createLiveRuntime(localTransport);
+        const remoteLiveRuntime = createLiveRuntime(remoteTransport);
+        await localLiveRuntime.start();
+        await remoteLiveRuntime.start();
+
+        // The object runtimes aren't connected to each other, so the state can only be received through the transport
+        const done = new Deferred<string>();
+        const localObject = new LiveObjectSynchronizer<{ value: string }>(
+            "test",
+            new MockRuntimeSignaler(),
+            localLiveRuntime
+        );
+        await localObject.start(
+            { value: "local" },
+            () => Promise.resolve(false),
+            () => Promise.resolve(true)
+        );
+        const remoteObject = new LiveObjectSynchronizer<{ value: string }>(
+            "test",
+            new MockRuntimeSignaler(),
+            remoteLiveRuntime
+        );
+        await remoteObject.start(
+            { value: "remote" },
+            async (state, sender) => {
+                if (state.data.value == "changed") {
+                    done.resolve(sender);
+                }
+                return false;
+            },
+            () => Promise.resolve(true)
+        );
+
+        await localObject.sendEvent({ value: "changed" });
+        assert.equal(await done.promise, localTransport.clientId);
+
+        localObject.dispose();
+        remoteObject.dispose();
+        localLiveRuntime.stop();
+        remoteLiveRuntime.stop();
+        localTransport.disconnect();
+        remoteTransport.disconnect();
+    });
+
+    it("Should isolate the events of different objects", async () => {
+        const localTransport = new LocalLiveTransport({ channelName: "d" });
+        const remoteTransport = new LocalLiveTransport({ channelName: "d" });
+        const localLiveRuntime = createLiveRuntime(localTransport);
+        const remoteLiveRuntime = createLiveRuntime(remoteTransport);
+
+        const localScope = new LiveEventScope(
+            Object.assign(new MockRuntimeSignaler(), { id: "object1" }),
+            localLiveRuntime
+        );
+        const sameObjectScope = new LiveEventScope(
+            Object.assign(new MockRuntimeSignaler(), { id: "object1" }),
+            remoteLiveRuntime
+        );
+        const otherObjectScope = new LiveEventScope(
+            Object.assign(new MockRuntimeSignaler(), { id: "object2" }),
+            remoteLiveRuntime
+        );
+        let sameObjectEvents = 0;
+        let otherObjectEvents = 0;
+        sameObjectScope.onEvent("test", (evt, local) => {
+            assert.equal(local, false);
+            assert.equal(evt.clientId, localTransport.clientId);
+            sameObjectEvents++;
+        });
+        otherObjectScope.onEvent("test", () => {
+            otherObjectEvents++;
+        });
+
+        await localScope.sendEvent("test", {});
+        // Listeners are called once the sender's roles are verified
+        await waitForDelay(10);
+        assert.equal(sameObjectEvents, 1);
+        assert.equal(otherObjectEvents, 0);
+
+        localTransport.disconnect();
+        remoteTransport.disconnect();
+    });
+
+    it("Should send signals through a BroadcastChannel", async () => {
+        const localTransport = new LocalLiveTransport({
+            channelName: "e",
+            useBroadcastChannel: true,
+        });
+        const remoteTransport = new LocalLiveTransport({
+            channelName: "e",
+            useBroadcastChannel: true,
+        });
+        const received = new Deferred<IInboundSignalMessage>();
+        remoteTransport.on("signal", (message, local) => {
+            if (!local) {
+                received.resolve(message);
+            }
+        });
+
+        localTransport.submitSignal("test", { value: 1 });
+        const message = await received.promise;
+        assert.equal(message.clientId, localTransport.clientId);
+        assert.deepEqual(message.content, { value: 1 });
+
+        localTransport.disconnect();
+        remoteTransport.disconnect();
+    });
+});
@@ -5,8 +5,11 @@
 
 import { strict as assert } from "assert";
 import { INtpTimeInfo } from "../interfaces";
-import { TimestampProvider } from "../TimestampProvider";
-import { Deferred } from "../internals";
+import {
+    ITimestampProviderOptions,
+    TimestampProvider,
+} from "../TimestampProvider";
+import { Deferred, waitForDelay } from "../internals";
 
 class TestTimestampProvider extends TimestampProvider {
     private _onGetNtpTime: () => Promise<void>;
@@ -31,6 +34,28 @@ class TestTimestampProvider extends TimestampProvider {
     }
 }
 
+/**
+ * Returns the local time plus a configured offset for each sample, after a configured delay.
+ */
+class SampledTimestampProvider extends TimestampProvider {
+    public constructor(
+        private readonly _samples: { delay: number; offset: number }[],
+        options?: ITimestampProviderOptions
+    ) {
+        super(options);
+    }
+
+    protected async getNtpTime(): Promise<INtpTimeInfo> {
+        const sample = this._samples.shift() ?? { delay: 0, offset: 0 };
+        const time = new Date().getTime() + sample.offset;
+        await waitForDelay(sample.delay);
+        return {
+            ntpTime: new Date(time).toISOString(),
+            ntpTimeInUTC: time,
+        };
+    }
+}
+
 describe("TimestampProvider", () => {
     it("Should start", async () => {
         const done = new Deferred();
@@ -113,4 +138,44 @@ describe("TimestampProvider", () => {
             done();
         }
     });
+
+    it("Should discard samples with a high latency and emit offsetChanged", async () => {
+        const provider = new SampledTimestampProvider(
+            [
+                { delay: 100, offset: 5000 },
+                { delay: 0, offset: 10 },
+                { delay: 0, offset: 10 },
+                { delay: 50, offset: -5000 },
+            ],
+            { samplesPerSync: 4 }
+        );
+        try {
+            const done = new Deferred<number[]>();
+            provider.on("offsetChanged", (offset, previousOffset) => {
+                done.resolve([offset, previousOffset]);
+            });
+            await provider.start();
+            // The first sample is used until all samples are received
+            assert(
+                Math.abs(provider.offset - 5000) <= 100,
+                `Offset of ${provider.offset} doesn't match first sample`
+            );
+
+            const [offset, previousOffset] = await done.promise;
+            assert(
+                Math.abs(offset - 10) <= 2,
+                `Offset of ${offset} doesn't match fastest samples`
+            );
+            assert(
+                Math.abs(previousOffset - 5000) <= 100,
+                `Previous offset of ${previousOffset}`
+            );
+            assert(
+                provider.getMaxTimestampError() <= 1,
+                `Returned a timestamp error of ${provider.getMaxTimestampError()}`
+            );
+        } finally {
+            provider.stop();
+        }
+    });
 });
@@ -4,6 +4,8 @@ import {
     Deferred,
     waitForResult,
     TimeoutError,
+    isValidLiveData,
+    mergeValue,
 } from "../internals";
 
 describe("timeoutRequest", function () {
@@ -238,3 +240,97 @@ describe("waitForResult", function () {
         await lateFinished.promise;
     });
 });
+
+describe("isValidLiveData", function () {
+    it("should validate values using type guards", () => {
+        const isString = (value: unknown): value is string =>
+            typeof value == "string";
+        assert(isValidLiveData("a", isString), "string rejected");
+        assert(!isValidLiveData(1, isString), "number accepted");
+        assert(
+            isValidLiveData(1, undefined),
+            "value rejected without validator"
+        );
+        assert(
+            !isValidLiveData(1, () => {
+                throw new Error("invalid");
+            }),
+            "value accepted by throwing validator"
+        );
+    });
+
+    it("should validate values using schemas", () => {
+        const schema = {
+            type: "object" as const,
+            required: ["id"],
+            properties: {
+                id: { type: "number" as const },
+                tags: {
+                    type: "array" as const,
+                    items: { type: "string" as const },
+                },
+                status: { enum: ["open", "closed"] },
+                note: {
+                    anyOf: [
+                        { type: "string" as const },
+                        { type: "null" as const },
+                    ],
+                },
+            },
+        };
+        assert(
+            isValidLiveData(
+                { id: 1, tags: ["a"], status: "open", note: null },
+                schema
+            ),
+            "valid object rejected"
+        );
+        assert(
+            isValidLiveData({ id: 1, other: true }, schema),
+            "extra property rejected"
+        );
+        assert(
+            !isValidLiveData({ tags: [] }, schema),
+            "missing property accepted"
+        );
+        assert(!isValidLiveData({ id: "1" }, schema), "wrong type accepted");
+        assert(
+            !isValidLiveData({ id: 1, tags: [1] }, schema),
+            "wrong item accepted"
+        );
+        assert(
+            !isValidLiveData({ id: 1, status: "x" }, schema),
+            "wrong enum accepted"
+        );
+        assert(
+            !isValidLiveData({ id: 1, note: 1 }, schema),
+            "wrong anyOf accepted"
+        );
+        assert(!isValidLiveData([{ id: 1 }], schema), "array accepted");
+    });
+});
+
+describe("mergeValue", function () {
+    it("should merge values shallowly or deeply", () => {
+        const target = {
+            cursor: { x: 1, y: 2 },
+            tags: ["a"],
+            status: "idle",
+        };
+        const source = { cursor: { x: 5 }, tags: ["b"] } as any;
+        assert.deepEqual(mergeValue(target, source, false), {
+            cursor: { x: 5 },
+            tags: ["b"],
+            status: "idle",
+        });
+        assert.deepEqual(mergeValue(target, source, true), {
+            cursor: { x: 5, y: 2 },
+            tags: ["b"],
+            status: "idle",
+        });
+        assert.deepEqual(mergeValue(undefined, { status: "busy" }, true), {
+            status: "busy",
+        });
+        assert.equal(target.cursor.x, 1, "target was modified");
+    });
+});